@@ -0,0 +1,135 @@
+/**
+ * POST /api/datasets/[id]/baseline/import
+ *
+ * Imports a manual schedule (CSV or XLSX) as the dataset's baseline, sent as
+ * multipart form data:
+ *
+ * - `schedule`    - the file: one row per visit with the caregiver and start time
+ * - `mapping`     - optional JSON column mapping; suggested from the headers if left out
+ * - `utcOffset`   - offset for times without one, e.g. "+01:00"
+ *
+ * Rows with errors are skipped and returned as `errors`; a file without any
+ * valid rows is rejected with 422. An id that can't name a stored dataset is
+ * rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/fileStore";
+import { parseSpreadsheet, type SpreadsheetTable } from "@/lib/spreadsheet";
+import {
+  readScheduleTable,
+  SCHEDULE_IMPORT_FIELDS,
+  suggestColumnMapping,
+  type ImportColumnMapping,
+} from "@/lib/datasetImport";
+import { saveBaseline } from "@/lib/baselineStore";
+
+const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Expected multipart form data with a schedule file" },
+      { status: 400 }
+    );
+  }
+
+  const file = formData.get("schedule");
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { success: false, error: "Missing schedule file" },
+      { status: 400 }
+    );
+  }
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    return NextResponse.json(
+      { success: false, error: `The schedule file is larger than ${MAX_FILE_SIZE_BYTES / 1024 / 1024} MB` },
+      { status: 413 }
+    );
+  }
+
+  let table: SpreadsheetTable;
+  try {
+    table = parseSpreadsheet(Buffer.from(await file.arrayBuffer()), file.name);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Could not read schedule file "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  let mapping: ImportColumnMapping;
+  try {
+    const mappingText = formData.get("mapping")?.toString();
+    mapping = mappingText ? JSON.parse(mappingText) : suggestColumnMapping(table.headers, SCHEDULE_IMPORT_FIELDS);
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Column mapping must be valid JSON" },
+      { status: 400 }
+    );
+  }
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return NextResponse.json(
+      { success: false, error: "Column mapping must be a JSON object" },
+      { status: 400 }
+    );
+  }
+
+  const { assignments, errors, rowCount } = readScheduleTable(table, mapping, {
+    utcOffset: formData.get("utcOffset")?.toString(),
+  });
+  if (assignments.length === 0) {
+    return NextResponse.json(
+      { success: false, error: "The schedule file has no valid rows", errors, rowCount, mapping },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const baseline = await saveBaseline({
+      datasetId: id,
+      name: file.name,
+      source: "import",
+      assignments,
+    });
+
+    return NextResponse.json({
+      success: true,
+      baseline,
+      errors,
+      rowCount,
+      mapping,
+    });
+  } catch (error) {
+    console.error(`Failed to store imported baseline for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to store baseline",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * GET /api/datasets/[id]/baseline
+ *
+ * Returns the dataset's manual baseline schedule, or `baseline: null` if it
+ * uses the generated baseline.
+ *
+ * PUT /api/datasets/[id]/baseline
+ *
+ * Sets the manual baseline from either
+ * - `{ routePlanId }` - the visits of a stored route plan, or
+ * - `{ name, assignments }` - visit → caregiver and start time entries.
+ *
+ * DELETE /api/datasets/[id]/baseline
+ *
+ * Goes back to the generated baseline.
+ *
+ * An id that can't name a stored dataset is rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/fileStore";
+import { assignmentsFromRoutePlan, normalizeAssignments } from "@/lib/manualBaseline";
+import { deleteBaseline, getBaseline, saveBaseline } from "@/lib/baselineStore";
+import { getStoredRoutePlan } from "@/lib/routePlanStore";
+import type { ManualAssignment, StoredBaseline } from "@/lib/types";
+
+// Baselines change at runtime, so never prerender this route at build time
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const baseline = await getBaseline(id);
+
+    return NextResponse.json({
+      success: true,
+      baseline,
+    });
+  } catch (error) {
+    console.error(`Failed to read baseline for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read baseline",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  let baseline: {
+    name: string;
+    source: StoredBaseline["source"];
+    sourceRoutePlanId?: string;
+    assignments: ManualAssignment[];
+  };
+  try {
+    const body = await request.json();
+
+    if (typeof body.routePlanId === "string") {
+      const stored = await getStoredRoutePlan(body.routePlanId);
+      if (!stored) {
+        return NextResponse.json(
+          { success: false, error: `Route plan ${body.routePlanId} not found` },
+          { status: 404 }
+        );
+      }
+      if (!stored.routePlan?.routes?.length) {
+        return NextResponse.json(
+          { success: false, error: `Route plan ${body.routePlanId} has no routes yet` },
+          { status: 400 }
+        );
+      }
+      baseline = {
+        name: stored.id,
+        source: "route-plan",
+        sourceRoutePlanId: stored.id,
+        assignments: assignmentsFromRoutePlan(stored.routePlan),
+      };
+    } else {
+      baseline = {
+        name: typeof body.name === "string" && body.name.trim() ? body.name.trim() : "Manual schedule",
+        source: "import",
+        assignments: normalizeAssignments(body.assignments),
+      };
+    }
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Invalid baseline: ${error.message}` : "Invalid baseline",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const record = await saveBaseline({ datasetId: id, ...baseline });
+
+    return NextResponse.json({
+      success: true,
+      baseline: record,
+    });
+  } catch (error) {
+    console.error(`Failed to save baseline for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save baseline",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteBaseline(id);
+
+    return NextResponse.json({
+      success: true,
+      deleted,
+    });
+  } catch (error) {
+    console.error(`Failed to delete baseline for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete baseline",
+      },
+      { status: 500 }
+    );
+  }
+}
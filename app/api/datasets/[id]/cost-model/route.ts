@@ -0,0 +1,110 @@
+/**
+ * GET /api/datasets/[id]/cost-model
+ *
+ * Returns the dataset's cost model, or the default model if none has been
+ * saved (`isDefault: true`).
+ *
+ * PUT /api/datasets/[id]/cost-model
+ *
+ * Saves the dataset's cost model. Missing fields fall back to the defaults;
+ * negative or non-numeric amounts are rejected with 400.
+ *
+ * An id that can't name a stored dataset is rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/fileStore";
+import { normalizeCostModel } from "@/lib/costModel";
+import { getCostModel, saveCostModel } from "@/lib/costModelStore";
+import type { CostModel } from "@/lib/types";
+
+// Cost models change at runtime, so never prerender this route at build time
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { costModel, isDefault } = await getCostModel(id);
+
+    return NextResponse.json({
+      success: true,
+      costModel,
+      isDefault,
+    });
+  } catch (error) {
+    console.error(`Failed to read cost model for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read cost model",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid dataset id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  let costModel: CostModel;
+  try {
+    const body = await request.json();
+    costModel = normalizeCostModel(body.costModel);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Invalid cost model: ${error.message}` : "Invalid cost model",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const record = await saveCostModel(id, costModel);
+
+    return NextResponse.json({
+      success: true,
+      costModel: record.costModel,
+      isDefault: false,
+    });
+  } catch (error) {
+    console.error(`Failed to save cost model for dataset ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save cost model",
+      },
+      { status: 500 }
+    );
+  }
+}
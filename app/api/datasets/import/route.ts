@@ -0,0 +1,157 @@
+/**
+ * POST /api/datasets/import
+ *
+ * Imports a dataset from a visits spreadsheet and a staff spreadsheet
+ * (CSV or XLSX), sent as multipart form data:
+ *
+ * - `visits`, `staff`   - the two files
+ * - `action`            - "preview" (headers + suggested mapping), "validate"
+ *                         (dry run with row errors) or "import" (store it)
+ * - `mappings`          - JSON { visits: {...}, staff: {...} } column mapping
+ * - `name`              - dataset name
+ * - `utcOffset`         - offset for times without one, e.g. "+01:00"
+ * - `skipInvalidRows`   - "true" to import only the valid rows
+ *
+ * An import with row errors is rejected with 422 unless skipInvalidRows is set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { parseSpreadsheet, type SpreadsheetTable } from "@/lib/spreadsheet";
+import {
+  buildModelInputFromTables,
+  IMPORT_FIELDS,
+  suggestColumnMapping,
+  type ImportColumnMapping,
+  type ImportSheetKind,
+} from "@/lib/datasetImport";
+import { saveImportedDataset, toDatasetMeta } from "@/lib/datasetStore";
+
+const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+const PREVIEW_ROW_COUNT = 5;
+const SHEETS: ImportSheetKind[] = ["visits", "staff"];
+
+export async function POST(request: NextRequest) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Expected multipart form data with visits and staff files" },
+      { status: 400 }
+    );
+  }
+
+  const action = formData.get("action")?.toString() || "preview";
+  if (!["preview", "validate", "import"].includes(action)) {
+    return NextResponse.json(
+      { success: false, error: `Unknown action "${action}"` },
+      { status: 400 }
+    );
+  }
+
+  // Parse both files; a file that can't be read fails the whole request
+  const tables = {} as Record<ImportSheetKind, SpreadsheetTable>;
+  const fileNames = {} as Record<ImportSheetKind, string>;
+  for (const sheet of SHEETS) {
+    const file = formData.get(sheet);
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: `Missing ${sheet} file` },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: `The ${sheet} file is larger than ${MAX_FILE_SIZE_BYTES / 1024 / 1024} MB` },
+        { status: 413 }
+      );
+    }
+
+    try {
+      tables[sheet] = parseSpreadsheet(Buffer.from(await file.arrayBuffer()), file.name);
+      fileNames[sheet] = file.name;
+    } catch (error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Could not read ${sheet} file "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+        { status: 400 }
+      );
+    }
+  }
+
+  if (action === "preview") {
+    return NextResponse.json({
+      success: true,
+      sheets: Object.fromEntries(SHEETS.map((sheet) => [sheet, {
+        fileName: fileNames[sheet],
+        headers: tables[sheet].headers,
+        rowCount: tables[sheet].rows.length,
+        sampleRows: tables[sheet].rows.slice(0, PREVIEW_ROW_COUNT).map((row) => row.cells),
+        suggestedMapping: suggestColumnMapping(tables[sheet].headers, IMPORT_FIELDS[sheet]),
+      }])),
+    });
+  }
+
+  let mappings: Record<ImportSheetKind, ImportColumnMapping>;
+  try {
+    const parsed = JSON.parse(formData.get("mappings")?.toString() || "{}");
+    mappings = { visits: parsed.visits || {}, staff: parsed.staff || {} };
+  } catch {
+    return NextResponse.json(
+      { success: false, error: "Column mappings must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const { modelInput, errors, rowCounts } = buildModelInputFromTables(tables, mappings, {
+    utcOffset: formData.get("utcOffset")?.toString(),
+  });
+  const summary = {
+    rowCounts,
+    vehicleCount: modelInput.vehicles.length,
+    shiftCount: modelInput.vehicles.reduce((sum, vehicle) => sum + vehicle.shifts.length, 0),
+    visitCount: modelInput.visits.length,
+  };
+
+  if (action === "validate") {
+    return NextResponse.json({ success: true, valid: errors.length === 0, errors, summary });
+  }
+
+  const skipInvalidRows = formData.get("skipInvalidRows")?.toString() === "true";
+  if (errors.length > 0 && !skipInvalidRows) {
+    return NextResponse.json(
+      { success: false, error: `The files contain ${errors.length} errors`, errors, summary },
+      { status: 422 }
+    );
+  }
+  if (modelInput.visits.length === 0 || modelInput.vehicles.length === 0) {
+    return NextResponse.json(
+      { success: false, error: "The import needs at least one valid visit and one valid staff row", errors, summary },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const skippedRows = new Set(errors.map((error) => `${error.sheet}:${error.rowNumber}`)).size;
+    const name = formData.get("name")?.toString().trim() || fileNames.visits.replace(/\.\w+$/, "");
+    const dataset = await saveImportedDataset({ name, modelInput, sourceFiles: fileNames, skippedRows });
+
+    return NextResponse.json({
+      success: true,
+      dataset: toDatasetMeta(dataset),
+      errors,
+      summary,
+    });
+  } catch (error) {
+    console.error("Failed to store imported dataset:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to store dataset",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * GET /api/map-tiles/[z]/[x]/[y]
+ * 
+ * Serves raster map tiles (standard XYZ layout) from a local directory,
+ * so the route map has a background without network access.
+ * Tiles are read from MAP_TILE_DIR (default `data/tiles/{z}/{x}/{y}.png`);
+ * run `npm run tiles:fetch` once to download them for the demo areas.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { z: string; x: string; y: string } }
+) {
+  const [z, x, y] = [params.z, params.x, params.y.replace(/\.png$/, "")];
+
+  if (![z, x, y].every((part) => /^\d+$/.test(part))) {
+    return NextResponse.json(
+      { message: `Invalid tile ${params.z}/${params.x}/${params.y}.` },
+      { status: 400 }
+    );
+  }
+
+  const tileDir = process.env.MAP_TILE_DIR || path.join(process.cwd(), "data", "tiles");
+
+  try {
+    const tile = await fs.readFile(path.join(tileDir, z, x, `${y}.png`));
+    return new NextResponse(tile, {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "public, max-age=86400",
+      },
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return NextResponse.json(
+        { message: `Tile ${z}/${x}/${y} not found.` },
+        { status: 404 }
+      );
+    }
+    throw error;
+  }
+}
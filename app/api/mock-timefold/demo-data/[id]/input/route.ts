@@ -0,0 +1,25 @@
+/**
+ * GET /api/mock-timefold/demo-data/[id]/input
+ * 
+ * Mock of the Timefold demo-data input endpoint.
+ * Returns the model input for one of the mock datasets.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMockDemoDataInput } from "@/lib/mockTimefold";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const modelInput = getMockDemoDataInput(params.id);
+
+  if (!modelInput) {
+    return NextResponse.json(
+      { message: `Demo data "${params.id}" not found.` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(modelInput);
+}
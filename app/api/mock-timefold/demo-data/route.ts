@@ -0,0 +1,13 @@
+/**
+ * GET /api/mock-timefold/demo-data
+ * 
+ * Mock of the Timefold demo-data listing endpoint.
+ * Active when TIMEFOLD_BASE_URL points at /api/mock-timefold.
+ */
+
+import { NextResponse } from "next/server";
+import { getMockDemoDataList } from "@/lib/mockTimefold";
+
+export async function GET() {
+  return NextResponse.json(getMockDemoDataList());
+}
@@ -0,0 +1,44 @@
+/**
+ * GET    /api/mock-timefold/route-plans/[id]
+ * DELETE /api/mock-timefold/route-plans/[id]
+ * 
+ * Mock of the Timefold route plan endpoint.
+ * The solver status advances with time:
+ * SOLVING_SCHEDULED → SOLVING_ACTIVE → SOLVING_COMPLETED (or DATASET_INVALID).
+ * DELETE terminates solving early: SOLVING_INCOMPLETE with the best solution so far.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getMockRoutePlan, terminateMockRoutePlan } from "@/lib/mockTimefold";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const routePlan = getMockRoutePlan(params.id);
+
+  if (!routePlan) {
+    return NextResponse.json(
+      { message: `Route plan "${params.id}" not found.` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(routePlan);
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const routePlan = terminateMockRoutePlan(params.id);
+
+  if (!routePlan) {
+    return NextResponse.json(
+      { message: `Route plan "${params.id}" not found.` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(routePlan);
+}
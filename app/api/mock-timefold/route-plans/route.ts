@@ -0,0 +1,35 @@
+/**
+ * POST /api/mock-timefold/route-plans
+ * 
+ * Mock of the Timefold route plan submission endpoint.
+ * Accepts the same body as Timefold ({ modelInput, config }) and starts
+ * the simulated solver lifecycle.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createMockRoutePlan } from "@/lib/mockTimefold";
+import type { TimefoldModelInput } from "@/lib/types";
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const modelInput = body?.modelInput as TimefoldModelInput | undefined;
+
+  if (!modelInput) {
+    return NextResponse.json(
+      { message: "Request body must contain a modelInput." },
+      { status: 400 }
+    );
+  }
+
+  const termination = body?.config?.run?.termination;
+  const result = createMockRoutePlan(
+    modelInput,
+    termination?.spentLimit as string | undefined,
+    termination?.unimprovedSpentLimit as string | undefined
+  );
+
+  return NextResponse.json({
+    ...result,
+    metadata: { id: result.id, solverStatus: result.solverStatus },
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/route-plans/[id]
+ * 
+ * Returns a stored route plan with its model input, solver config
+ * and latest result, so it can be reopened in the scheduler.
+ * An id that can't name a stored plan is rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/fileStore";
+import { getStoredRoutePlan } from "@/lib/routePlanStore";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid route plan id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const routePlan = await getStoredRoutePlan(id);
+
+    if (!routePlan) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Route plan ${id} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      routePlan,
+    });
+  } catch (error) {
+    console.error(`Failed to read stored route plan ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read route plan",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * GET /api/route-plans
+ * 
+ * Lists the stored route plan history, newest first.
+ */
+
+import { NextResponse } from "next/server";
+import { listStoredRoutePlans } from "@/lib/routePlanStore";
+
+// The history changes at runtime, so never prerender this route at build time
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const routePlans = await listStoredRoutePlans();
+
+    return NextResponse.json({
+      success: true,
+      routePlans,
+    });
+  } catch (error) {
+    console.error("Failed to list stored route plans:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list route plans",
+      },
+      { status: 500 }
+    );
+  }
+}
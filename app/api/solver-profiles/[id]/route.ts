@@ -0,0 +1,125 @@
+/**
+ * PUT /api/solver-profiles/[id]
+ *
+ * Replaces a saved profile's `{ name, config }`; 404 if it doesn't exist.
+ *
+ * DELETE /api/solver-profiles/[id]
+ *
+ * Removes a saved profile.
+ *
+ * An id that can't name a stored profile is rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { isValidDocumentId } from "@/lib/fileStore";
+import { normalizeSolverConfig } from "@/lib/solverConfig";
+import { deleteSolverProfile, updateSolverProfile } from "@/lib/solverProfileStore";
+import type { SolverConfig } from "@/lib/types";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid solver profile id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  let name: string;
+  let config: SolverConfig;
+  try {
+    const body = await request.json();
+    name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new Error("name is required");
+    config = normalizeSolverConfig(body.config);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Invalid solver profile: ${error.message}` : "Invalid solver profile",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await updateSolverProfile(id, name, config);
+
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Solver profile ${id} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    console.error(`Failed to update solver profile ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update solver profile",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!isValidDocumentId(id)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Invalid solver profile id: ${id}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteSolverProfile(id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Solver profile ${id} not found`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error(`Failed to delete solver profile ${id}:`, error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete solver profile",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * GET /api/solver-profiles
+ *
+ * Lists the saved solver profiles by name.
+ *
+ * POST /api/solver-profiles
+ *
+ * Saves `{ name, config }` as a new profile. A missing name or an invalid
+ * configuration is rejected with 400.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { normalizeSolverConfig } from "@/lib/solverConfig";
+import { createSolverProfile, listSolverProfiles } from "@/lib/solverProfileStore";
+import type { SolverConfig } from "@/lib/types";
+
+// Profiles change at runtime, so never prerender this route at build time
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const profiles = await listSolverProfiles();
+
+    return NextResponse.json({
+      success: true,
+      profiles,
+    });
+  } catch (error) {
+    console.error("Failed to list solver profiles:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list solver profiles",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let name: string;
+  let config: SolverConfig;
+  try {
+    const body = await request.json();
+    name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) throw new Error("name is required");
+    config = normalizeSolverConfig(body.config);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? `Invalid solver profile: ${error.message}` : "Invalid solver profile",
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const profile = await createSolverProfile(name, config);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+    });
+  } catch (error) {
+    console.error("Failed to save solver profile:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save solver profile",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,12 +3,14 @@
  * 
  * Fetches a specific demo dataset's model input.
  * If id is "local-demo", reads from the local JSON file.
+ * Ids starting with "import-" are read from the imported dataset store.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { fetchDemoDataInput } from "@/lib/timefoldClient";
 import { promises as fs } from "fs";
 import path from "path";
+import { getImportedDataset, isImportedDatasetId } from "@/lib/datasetStore";
 import type { TimefoldModelInput } from "@/lib/types";
 
 export async function GET(
@@ -17,6 +19,29 @@ export async function GET(
 ) {
   const { id } = params;
 
+  // Imported datasets never fall back to the local demo
+  if (isImportedDatasetId(id)) {
+    try {
+      const dataset = await getImportedDataset(id);
+      if (!dataset) {
+        return NextResponse.json(
+          { success: false, error: `Imported dataset ${id} not found` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, id, modelInput: dataset.modelInput });
+    } catch (error) {
+      console.error(`Failed to read imported dataset ${id}:`, error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Failed to load dataset: ${error instanceof Error ? error.message : "Unknown error"}`,
+        },
+        { status: 500 }
+      );
+    }
+  }
+
   try {
     let modelInput: TimefoldModelInput;
 
@@ -3,13 +3,20 @@
  * 
  * Fetches the list of available demo datasets from Timefold.
  * Falls back to a local demo dataset if the external API is unavailable.
+ * Datasets imported from spreadsheets are always listed after the local demo.
  */
 
 import { NextResponse } from "next/server";
 import { fetchDemoDataList } from "@/lib/timefoldClient";
+import { listImportedDatasets } from "@/lib/datasetStore";
 import type { TimefoldDemoDataMeta } from "@/lib/types";
 
+// Imported datasets change at runtime, so never prerender this route at build time
+export const dynamic = "force-dynamic";
+
 export async function GET() {
+  const importedDatasets = await loadImportedDatasets();
+
   try {
     // Local demo for when API is unavailable (display only, cannot optimize)
     const localDemo: TimefoldDemoDataMeta = { 
@@ -22,7 +29,7 @@ export async function GET() {
       // Return only local demo when API key is not set
       return NextResponse.json({
         success: true,
-        datasets: [localDemo],
+        datasets: [localDemo, ...importedDatasets],
         warning: "Timefold API key not configured - using local demo data only",
       });
     }
@@ -34,6 +41,7 @@ export async function GET() {
     const allDatasets: TimefoldDemoDataMeta[] = [
       ...datasets,
       localDemo,
+      ...importedDatasets,
     ];
     
     return NextResponse.json({
@@ -49,8 +57,21 @@ export async function GET() {
       success: true,
       datasets: [
         { id: "local-demo", name: "Local Demo (Stockholm Home Care) - Display Only" },
+        ...importedDatasets,
       ],
       warning: "Timefold API unavailable - using local demo data only",
     });
   }
 }
+
+/**
+ * Imported datasets, or none if the store can't be read
+ */
+async function loadImportedDatasets(): Promise<TimefoldDemoDataMeta[]> {
+  try {
+    return await listImportedDatasets();
+  } catch (error) {
+    console.error("Failed to list imported datasets:", error);
+    return [];
+  }
+}
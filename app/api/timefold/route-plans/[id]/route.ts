@@ -1,12 +1,24 @@
 /**
- * GET /api/timefold/route-plans/[id]
+ * GET    /api/timefold/route-plans/[id]
+ * DELETE /api/timefold/route-plans/[id]
  * 
- * Fetches the current state of a route plan.
- * Used for polling during optimization.
+ * GET fetches the current state of a route plan.
+ * Used for polling during optimization. Each fetched state is also
+ * written to the route plan history.
+ * 
+ * DELETE terminates solving early. The best solution found so far is kept
+ * and reported as SOLVING_INCOMPLETE once the solver has stopped.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getRoutePlan, isSolverComplete, isSolverRunning } from "@/lib/timefoldClient";
+import {
+  getRoutePlan,
+  isSolverComplete,
+  isSolverRunning,
+  terminateRoutePlan,
+} from "@/lib/timefoldClient";
+import { recordRoutePlanProgress } from "@/lib/routePlanStore";
+import { describeDatasetInvalid, findingsFromSolverErrors } from "@/lib/validation";
 
 export async function GET(
   request: NextRequest,
@@ -28,11 +40,15 @@ export async function GET(
 
     const routePlan = await getRoutePlan(id);
 
+    try {
+      await recordRoutePlanProgress(routePlan);
+    } catch (storeError) {
+      console.error(`Failed to update stored route plan ${id}:`, storeError);
+    }
+
     // Check for DATASET_INVALID status and return validation errors
     if (routePlan.solverStatus === "DATASET_INVALID") {
-      const errorMsg = routePlan.validationErrors?.length 
-        ? `Dataset validation failed: ${routePlan.validationErrors[0]}${routePlan.validationErrors.length > 1 ? ` (and ${routePlan.validationErrors.length - 1} more errors)` : ''}`
-        : "Dataset is invalid. The locations may be outside the supported map coverage.";
+      const errorMsg = describeDatasetInvalid(routePlan.validationErrors);
       
       return NextResponse.json({
         success: false,
@@ -42,6 +58,7 @@ export async function GET(
         isRunning: false,
         solverStatus: routePlan.solverStatus,
         validationErrors: routePlan.validationErrors,
+        findings: findingsFromSolverErrors(routePlan.validationErrors),
       });
     }
 
@@ -68,3 +85,52 @@ export async function GET(
     );
   }
 }
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  try {
+    if (!process.env.TIMEFOLD_API_KEY) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Timefold API key is not configured.",
+        },
+        { status: 500 }
+      );
+    }
+
+    const routePlan = await terminateRoutePlan(id);
+
+    try {
+      await recordRoutePlanProgress(routePlan);
+    } catch (storeError) {
+      console.error(`Failed to update stored route plan ${id}:`, storeError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      routePlan,
+      isComplete: isSolverComplete(routePlan.solverStatus),
+      isRunning: isSolverRunning(routePlan.solverStatus),
+      solverStatus: routePlan.solverStatus,
+    });
+  } catch (error) {
+    console.error(`Failed to terminate route plan ${id}:`, error);
+
+    const errorMessage = error instanceof Error
+      ? error.message
+      : "Unknown error occurred";
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to terminate route plan: ${errorMessage}`,
+      },
+      { status: 500 }
+    );
+  }
+}
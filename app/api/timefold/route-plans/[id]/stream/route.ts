@@ -0,0 +1,167 @@
+/**
+ * GET /api/timefold/route-plans/[id]/stream
+ *
+ * Streams solver progress for a route plan as Server-Sent Events.
+ * Timefold has no push API, so the server polls it and forwards only
+ * what changed:
+ *
+ * - `status`   - solver status changed
+ * - `score`    - best score changed (a ScoreSample for the live chart)
+ * - `solution` - new intermediate solution while SOLVING_ACTIVE
+ * - `done`     - terminal status reached, with the final route plan
+ * - `failure`  - the plan is invalid or the solver/API failed
+ *
+ * The stream closes after `done`/`failure`, or stops polling as soon as the
+ * client disconnects or cancels the stream.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRoutePlan, isSolverComplete } from "@/lib/timefoldClient";
+import { recordRoutePlanProgress } from "@/lib/routePlanStore";
+import { parseScore } from "@/lib/mapping";
+import { describeDatasetInvalid, findingsFromSolverErrors } from "@/lib/validation";
+import type { SolverProgressEvent } from "@/lib/types";
+
+// Streams are per request and must never be cached or prerendered
+export const dynamic = "force-dynamic";
+
+const UPSTREAM_POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { id } = params;
+
+  if (!process.env.TIMEFOLD_API_KEY) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Timefold API key is not configured.",
+      },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const openedAt = Date.now();
+
+  // Set when the stream ends: done/failure, client disconnect or consumer cancel
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the consumer
+        }
+      };
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The consumer went away; stop polling
+          close();
+        }
+      };
+
+      const send = (event: SolverProgressEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Comment lines keep proxies from closing an idle connection
+      heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      request.signal.addEventListener("abort", close);
+
+      let lastStatus: string | undefined;
+      let lastScore: string | undefined;
+
+      while (!closed) {
+        try {
+          const routePlan = await getRoutePlan(id);
+          if (closed) break;
+
+          try {
+            await recordRoutePlanProgress(routePlan);
+          } catch (storeError) {
+            console.error(`Failed to update stored route plan ${id}:`, storeError);
+          }
+
+          if (routePlan.solverStatus !== lastStatus) {
+            lastStatus = routePlan.solverStatus;
+            send({ type: "status", solverStatus: routePlan.solverStatus });
+          }
+
+          if (routePlan.solverStatus === "DATASET_INVALID") {
+            send({
+              type: "failure",
+              error: describeDatasetInvalid(routePlan.validationErrors),
+              routePlan,
+              findings: findingsFromSolverErrors(routePlan.validationErrors),
+            });
+            break;
+          }
+
+          if (routePlan.score && routePlan.score !== lastScore) {
+            lastScore = routePlan.score;
+            const levels = parseScore(routePlan.score);
+            if (levels) {
+              send({
+                type: "score",
+                sample: { ...levels, score: routePlan.score, elapsedMs: Date.now() - openedAt },
+              });
+            }
+            if (!isSolverComplete(routePlan.solverStatus) && routePlan.routes?.length) {
+              send({ type: "solution", routePlan });
+            }
+          }
+
+          if (isSolverComplete(routePlan.solverStatus)) {
+            if (routePlan.solverStatus === "SOLVING_FAILED" || routePlan.solverStatus === "EXCEPTION") {
+              send({ type: "failure", error: "Solver encountered an error during optimization", routePlan });
+            } else {
+              send({ type: "done", routePlan });
+            }
+            break;
+          }
+        } catch (error) {
+          console.error(`Failed to stream route plan ${id}:`, error);
+          send({
+            type: "failure",
+            error: `Failed to fetch route plan: ${error instanceof Error ? error.message : "Unknown error occurred"}`,
+          });
+          break;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, UPSTREAM_POLL_INTERVAL_MS));
+      }
+
+      close();
+    },
+
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx-style proxies
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
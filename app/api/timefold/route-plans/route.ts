@@ -2,12 +2,23 @@
  * POST /api/timefold/route-plans
  * 
  * Submits a model input to Timefold to create a new route plan.
- * This starts the optimization process.
+ * This starts the optimization process and records the submission
+ * in the route plan history.
+ *
+ * The input is validated locally first; if it has errors nothing is
+ * submitted and the findings are returned with status 422.
+ *
+ * Solver settings come from `solverConfig` (map configuration, termination,
+ * constraint weights, model options); a bare `terminationLimit` is still
+ * accepted as the spent limit. Invalid settings are rejected with 400.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createRoutePlan } from "@/lib/timefoldClient";
-import type { TimefoldModelInput } from "@/lib/types";
+import { saveRoutePlanSubmission } from "@/lib/routePlanStore";
+import { hasBlockingFindings, validateModelInput } from "@/lib/validation";
+import { normalizeSolverConfig, solverConfigForLimit } from "@/lib/solverConfig";
+import type { SolverConfig, TimefoldModelInput } from "@/lib/types";
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,7 +36,6 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const modelInput = body.modelInput as TimefoldModelInput;
     const datasetId = body.datasetId as string | undefined;
-    const terminationLimit = body.terminationLimit as string | undefined;
 
     if (!modelInput) {
       return NextResponse.json(
@@ -37,6 +47,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let solverConfig: SolverConfig;
+    try {
+      solverConfig = body.solverConfig
+        ? normalizeSolverConfig(body.solverConfig)
+        : solverConfigForLimit(body.terminationLimit as string | undefined);
+    } catch (configError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Invalid solver config: ${configError instanceof Error ? configError.message : "unknown error"}`,
+        },
+        { status: 400 }
+      );
+    }
+
     // Check if this is local demo data - it can't be optimized
     if (datasetId === "local-demo") {
       return NextResponse.json(
@@ -48,28 +73,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate that we have vehicles and visits
-    if (!modelInput.vehicles?.length || !modelInput.visits?.length) {
+    // Catch bad input here instead of waiting for DATASET_INVALID
+    const findings = validateModelInput(modelInput);
+    if (hasBlockingFindings(findings)) {
+      const errorCount = findings.filter((finding) => finding.severity === "error").length;
       return NextResponse.json(
         {
           success: false,
-          error: "Model input must contain vehicles and visits",
+          error: `Model input has ${errorCount} validation error${errorCount === 1 ? "" : "s"}: ${findings[0].message}`,
+          findings,
         },
-        { status: 400 }
+        { status: 422 }
       );
     }
 
-    // Configuration ID for US Map (required for Timefold demo data)
-    // This enables the OSRM US Georgia map service for routing
-    const US_MAP_CONFIGURATION_ID = "6ba51ef5-6642-44d5-8cef-9be1caa05389";
+    // Submit to Timefold; without a configuration id in the solver config
+    // the client uses TIMEFOLD_CONFIG_ID
+    const result = await createRoutePlan(modelInput, solverConfig);
 
-    // Submit to Timefold with the US map configuration and optional termination limit
-    const result = await createRoutePlan(modelInput, US_MAP_CONFIGURATION_ID, terminationLimit);
+    // History is best effort - a storage failure must not fail the optimization
+    try {
+      await saveRoutePlanSubmission({
+        id: result.id,
+        solverStatus: result.solverStatus,
+        modelInput,
+        datasetId,
+        configurationId: result.configurationId,
+        terminationLimit: solverConfig.termination.spentLimit,
+        solverConfig,
+      });
+    } catch (storeError) {
+      console.error(`Failed to store route plan ${result.id}:`, storeError);
+    }
 
     return NextResponse.json({
       success: true,
       id: result.id,
       solverStatus: result.solverStatus,
+      findings,
     });
   } catch (error) {
     console.error("Failed to create route plan:", error);
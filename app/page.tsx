@@ -9,6 +9,15 @@ import {
   ErrorMessage,
   SchedulerView,
   Sidebar,
+  HistoryPanel,
+  ImportWizard,
+  ValidationPanel,
+  CostModelSettings,
+  BaselinePanel,
+  SolverConfigSettings,
+  VisitDetailsPanel,
+  CaregiverDetailsPanel,
+  EditHistoryPanel,
 } from "@/components";
 import type { NavSection, NewVisitData } from "@/components/Sidebar";
 import { FilterBar, EventStatusFilter, EntityFilter } from "@/components/FilterBar";
@@ -17,10 +26,33 @@ import {
   mapInputToBaselineSchedule,
   mapRoutePlanToOptimizedSchedule,
   computeKpis,
-  simulateOptimizedSchedule,
   formatMinutesToDuration,
 } from "@/lib/mapping";
+import type { SolverWorkerResponse } from "@/lib/solver.worker";
+import { mapManualBaselineSchedule } from "@/lib/manualBaseline";
+import { buildPinnedModelInput, markPinnedEvents } from "@/lib/pinning";
+import { hasBlockingFindings, validateModelInput } from "@/lib/validation";
+import { applyViolations, checkScheduleConstraints, countViolations } from "@/lib/constraints";
+import { DEFAULT_COST_MODEL } from "@/lib/costModel";
+import { solverConfigForLimit } from "@/lib/solverConfig";
+import { buildNewVisit, buildNewVisitEvent } from "@/lib/newVisit";
+import { replaceVehicle, replaceVisit } from "@/lib/modelEdits";
+import { assignVisit, getUnassignedVisits } from "@/lib/unassigned";
+import { getAddChanges, getMoveChanges } from "@/lib/legs";
+import {
+  applyCommand,
+  createCommand,
+  findBlockingCommand,
+  invertCommand,
+  revertCommand,
+  type EditChange,
+  type EditCommand,
+  type EditState,
+} from "@/lib/editHistory";
+import { describeSkillRequirement, getVehicleSkillNames, normalizeRequiredSkills } from "@/lib/skills";
+import type { GeocodeResult } from "@/lib/gazetteer";
 import type {
+  CostModel,
   TimefoldDemoDataMeta,
   TimefoldModelInput,
   TimefoldRoutePlan,
@@ -29,12 +61,57 @@ import type {
   AppStatus,
   ViewMode,
   KpiSummary,
+  SolverConfig,
+  SolverProfile,
+  StoredBaseline,
+  StoredRoutePlan,
+  SolverStatus,
+  ScoreSample,
+  SolverProgressEvent,
+  ValidationFinding,
+  Vehicle,
+  Visit,
 } from "@/lib/types";
 
 // Polling configuration
 const POLL_INTERVAL_MS = 2000;
 const POLL_TIMEOUT_MS = 300000;
 
+/**
+ * Loads a dataset's cost model, falling back to the default if it can't be read
+ */
+async function fetchCostModel(datasetId: string): Promise<CostModel> {
+  try {
+    const response = await fetch(`/api/datasets/${encodeURIComponent(datasetId)}/cost-model`);
+    const data = await response.json();
+    return data.success ? data.costModel : DEFAULT_COST_MODEL;
+  } catch (error) {
+    console.warn(`Could not load cost model for ${datasetId}, using defaults:`, error);
+    return DEFAULT_COST_MODEL;
+  }
+}
+
+/**
+ * Loads a dataset's manual baseline; null if it has none or it can't be read
+ */
+async function fetchBaseline(datasetId: string): Promise<StoredBaseline | null> {
+  try {
+    const response = await fetch(`/api/datasets/${encodeURIComponent(datasetId)}/baseline`);
+    const data = await response.json();
+    return data.success ? data.baseline : null;
+  } catch (error) {
+    console.warn(`Could not load baseline for ${datasetId}, using the generated one:`, error);
+    return null;
+  }
+}
+
+/**
+ * Baseline schedule from the manual baseline if there is one, else generated
+ */
+function buildBaselineSchedule(model: TimefoldModelInput, baseline: StoredBaseline | null): SchedulerData {
+  return baseline ? mapManualBaselineSchedule(model, baseline.assignments) : mapInputToBaselineSchedule(model);
+}
+
 export default function HomePage() {
   // Dataset state
   const [datasets, setDatasets] = useState<TimefoldDemoDataMeta[]>([]);
@@ -45,6 +122,8 @@ export default function HomePage() {
   const [baselineSchedule, setBaselineSchedule] = useState<SchedulerData | null>(null);
   const [optimizedSchedule, setOptimizedSchedule] = useState<SchedulerData | null>(null);
   const [routePlan, setRoutePlan] = useState<TimefoldRoutePlan | null>(null);
+  const [costModel, setCostModel] = useState<CostModel>(DEFAULT_COST_MODEL);
+  const [manualBaseline, setManualBaseline] = useState<StoredBaseline | null>(null);
   
   // UI state
   const [currentView, setCurrentView] = useState<ViewMode>("baseline");
@@ -52,10 +131,22 @@ export default function HomePage() {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [kpis, setKpis] = useState<KpiSummary | null>(null);
   const [optimizationSpeed, setOptimizationSpeed] = useState<OptimizationSpeed>("standard");
+  const [solverProfiles, setSolverProfiles] = useState<SolverProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
   
   // Polling state
   const [routePlanId, setRoutePlanId] = useState<string | null>(null);
 
+  // Live solver progress (streamed, or polled when streaming is unavailable)
+  const [progressTransport, setProgressTransport] = useState<"stream" | "poll">("stream");
+  const [liveSolverStatus, setLiveSolverStatus] = useState<SolverStatus | null>(null);
+  const [scoreHistory, setScoreHistory] = useState<ScoreSample[]>([]);
+  const [hasLiveSolution, setHasLiveSolution] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Visits locked to their vehicle and start time in the current re-optimization
+  const [pinnedVisitIds, setPinnedVisitIds] = useState<Set<string>>(() => new Set());
+
   // Date navigation state
   const [currentDate, setCurrentDate] = useState<Date>(() => {
     return new Date("2024-01-15T00:00:00Z");
@@ -64,6 +155,18 @@ export default function HomePage() {
   // View preset state for scheduler zoom
   const [viewPreset, setViewPreset] = useState<SchedulerViewPreset>("dag");
   
+  // Visit selected in the scheduler or on the map
+  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(null);
+
+  // Manual edits (change log, oldest first) and undone edits that can be redone
+  const [editLog, setEditLog] = useState<EditCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<EditCommand[]>([]);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+
+  // Visit or caregiver open in its detail panel
+  const [editingVisitId, setEditingVisitId] = useState<string | null>(null);
+  const [editingVehicleId, setEditingVehicleId] = useState<string | null>(null);
+  
   // Filter states
   const [activeStatusFilters, setActiveStatusFilters] = useState<Set<EventStatusFilter>>(
     new Set<EventStatusFilter>(["oplanerad", "planerad"])
@@ -78,6 +181,15 @@ export default function HomePage() {
   const [activeSection, setActiveSection] = useState<NavSection>("schedule");
   const [showTeamPanel, setShowTeamPanel] = useState(false);
   const [showSettingsPanel, setShowSettingsPanel] = useState(false);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const [openingRoutePlanId, setOpeningRoutePlanId] = useState<string | null>(null);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showBaselinePanel, setShowBaselinePanel] = useState(false);
+  const [showValidationPanel, setShowValidationPanel] = useState(false);
+
+  // Findings reported by the server or Timefold for the last submission
+  const [solverFindings, setSolverFindings] = useState<ValidationFinding[]>([]);
+  const [focusedResourceId, setFocusedResourceId] = useState<string | null>(null);
 
   // Toast notification state
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" | "info" } | null>(null);
@@ -85,6 +197,16 @@ export default function HomePage() {
   // Ref to track initial load
   const initialLoadRef = useRef(false);
 
+  // Web Worker running the local solver, terminated to cancel it
+  const solverWorkerRef = useRef<Worker | null>(null);
+
+  // The schedules were replaced (new dataset, solution or baseline), so
+  // recorded edits no longer apply to them
+  const clearEditHistory = useCallback(() => {
+    setEditLog([]);
+    setRedoStack([]);
+  }, []);
+
   const updateDateFromSchedule = useCallback((schedule: SchedulerData) => {
     if (schedule.events.length > 0) {
       const firstEvent = schedule.events.find(e => e.eventType === "visit");
@@ -114,15 +236,23 @@ export default function HomePage() {
       const model = data.modelInput as TimefoldModelInput;
       setInputModel(model);
       
-      const baseline = mapInputToBaselineSchedule(model);
+      const [datasetBaseline, datasetCostModel] = await Promise.all([fetchBaseline(id), fetchCostModel(id)]);
+      setManualBaseline(datasetBaseline);
+      setCostModel(datasetCostModel);
+
+      const baseline = buildBaselineSchedule(model, datasetBaseline);
       setBaselineSchedule(baseline);
       updateDateFromSchedule(baseline);
       
       setOptimizedSchedule(null);
       setRoutePlan(null);
+      setSelectedVisitId(null);
+      setPinnedVisitIds(new Set());
+      setSolverFindings([]);
+      clearEditHistory();
       setCurrentView("baseline");
-      
-      const initialKpis = computeKpis(model, null, baseline, null);
+
+      const initialKpis = computeKpis(model, null, baseline, null, datasetCostModel);
       setKpis(initialKpis);
       
       setStatus("idle");
@@ -133,7 +263,7 @@ export default function HomePage() {
       );
       setStatus("error");
     }
-  }, [updateDateFromSchedule]);
+  }, [updateDateFromSchedule, clearEditHistory]);
 
   useEffect(() => {
     if (initialLoadRef.current) return;
@@ -162,9 +292,66 @@ export default function HomePage() {
       }
     }
     
+    async function fetchSolverProfiles() {
+      try {
+        const response = await fetch("/api/solver-profiles");
+        const data = await response.json();
+        if (data.success) setSolverProfiles(data.profiles);
+      } catch (error) {
+        console.warn("Could not load solver profiles:", error);
+      }
+    }
+    
     fetchDatasets();
+    fetchSolverProfiles();
   }, [loadDataset]);
 
+  // Solver settings for the next optimization: the active profile, else the chosen speed
+  const activeProfile = solverProfiles.find((profile) => profile.id === activeProfileId) ?? null;
+  const solverConfig = useMemo<SolverConfig>(
+    () => activeProfile?.config ?? solverConfigForLimit(OPTIMIZATION_SPEEDS[optimizationSpeed].limit),
+    [activeProfile, optimizationSpeed]
+  );
+
+  // Starts following a submitted route plan until the solver finishes
+  const trackRoutePlan = useCallback((id: string) => {
+    setScoreHistory([]);
+    setLiveSolverStatus(null);
+    setHasLiveSolution(false);
+    setIsCancelling(false);
+    setProgressTransport("stream");
+    setRoutePlanId(id);
+    setStatus("polling");
+  }, []);
+
+  // Local validation of the loaded dataset, rerun whenever it changes
+  const localFindings = useMemo(
+    () => (inputModel ? validateModelInput(inputModel) : []),
+    [inputModel]
+  );
+
+  const validationFindings = useMemo(() => {
+    const messages = new Set(localFindings.map((f) => f.message));
+    return [...localFindings, ...solverFindings.filter((f) => !messages.has(f.message))];
+  }, [localFindings, solverFindings]);
+
+  // Show findings returned with a failed submission or DATASET_INVALID plan
+  const showSolverFindings = useCallback((findings: ValidationFinding[] | undefined) => {
+    if (!findings?.length) return;
+    setSolverFindings(findings);
+    setShowValidationPanel(true);
+  }, []);
+
+  // Jump from a finding to its visit or caregiver row in the scheduler
+  const jumpToFinding = useCallback((finding: ValidationFinding) => {
+    if (finding.entityType === "visit" && finding.entityId) {
+      setSelectedVisitId(finding.entityId);
+    } else if (finding.entityType === "vehicle" || finding.entityType === "shift") {
+      setFocusedResourceId((finding.entityType === "shift" ? finding.vehicleId : finding.entityId) ?? null);
+    }
+    setShowValidationPanel(false);
+  }, []);
+
   const startOptimization = useCallback(async () => {
     if (!inputModel) {
       setErrorMessage("No dataset loaded. Please load a dataset first.");
@@ -175,31 +362,39 @@ export default function HomePage() {
       setErrorMessage("Local demo data cannot be optimized. Please select a Timefold demo dataset.");
       return;
     }
+
+    // Don't submit input the solver would reject
+    if (hasBlockingFindings(localFindings)) {
+      const errorCount = localFindings.filter((f) => f.severity === "error").length;
+      setErrorMessage(`The dataset has ${errorCount} validation errors. Fix them before optimizing.`);
+      setShowValidationPanel(true);
+      return;
+    }
     
     setStatus("optimizing");
     setErrorMessage(null);
+    setPinnedVisitIds(new Set());
+    setSolverFindings([]);
     
     try {
-      const terminationLimit = OPTIMIZATION_SPEEDS[optimizationSpeed].limit;
-      
       const response = await fetch("/api/timefold/route-plans", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
           modelInput: inputModel, 
           datasetId: selectedDatasetId,
-          terminationLimit,
+          solverConfig,
         }),
       });
       
       const data = await response.json();
       
       if (!data.success) {
+        showSolverFindings(data.findings);
         throw new Error(data.error || "Failed to start optimization");
       }
       
-      setRoutePlanId(data.id);
-      setStatus("polling");
+      trackRoutePlan(data.id);
     } catch (error) {
       console.error("Error starting optimization:", error);
       setErrorMessage(
@@ -207,9 +402,10 @@ export default function HomePage() {
       );
       setStatus("error");
     }
-  }, [inputModel, selectedDatasetId, optimizationSpeed]);
+  }, [inputModel, selectedDatasetId, solverConfig, localFindings, showSolverFindings, trackRoutePlan]);
 
-  const simulateLocally = useCallback(() => {
+  // Solves a (possibly pinned) model with the local solver in a Web Worker and shows the result
+  const runLocalSolver = useCallback((solverInput: TimefoldModelInput, pins: Set<string>) => {
     if (!inputModel || !baselineSchedule) {
       setErrorMessage("No dataset loaded. Please load a dataset first.");
       return;
@@ -217,50 +413,342 @@ export default function HomePage() {
     
     setStatus("optimizing");
     setErrorMessage(null);
+    setSolverFindings([]);
     
-    setTimeout(() => {
+    solverWorkerRef.current?.terminate();
+    const worker = new Worker(new URL("../lib/solver.worker.ts", import.meta.url));
+    solverWorkerRef.current = worker;
+
+    const fail = (error: string) => {
+      console.error("Error solving locally:", error);
+      setErrorMessage(error);
+      setStatus("error");
+    };
+
+    worker.onmessage = (message: MessageEvent<SolverWorkerResponse>) => {
+      worker.terminate();
+      if (solverWorkerRef.current !== worker) return;
+      solverWorkerRef.current = null;
+
+      if ("error" in message.data) {
+        fail(message.data.error);
+        return;
+      }
+
       try {
-        const optimized = simulateOptimizedSchedule(inputModel, baselineSchedule);
+        const plan = message.data.plan;
+        setPinnedVisitIds(pins);
+        setRoutePlan(plan);
+        showSolverFindings(plan.findings);
+
+        const optimized = markPinnedEvents(mapRoutePlanToOptimizedSchedule(plan, inputModel), pins);
         setOptimizedSchedule(optimized);
-        
-        const simulatedKpis: KpiSummary = {
-          totalVisitsBaseline: baselineSchedule.events.filter(e => e.eventType === "visit").length,
-          totalVisitsOptimized: optimized.events.filter(e => e.eventType === "visit").length,
-          assignedVisitsBaseline: baselineSchedule.events.filter(e => e.eventType === "visit").length,
-          assignedVisitsOptimized: optimized.events.filter(e => e.eventType === "visit").length,
-          unassignedVisitsBaseline: 0,
-          unassignedVisitsOptimized: 0,
-          totalTravelTimeBaseline: 180,
-          totalTravelTimeOptimized: 108,
-          totalServiceTimeBaseline: 480,
-          totalServiceTimeOptimized: 480,
-          totalWaitTimeBaseline: 60,
-          totalWaitTimeOptimized: 30,
-          totalWorkTimeBaseline: 720,
-          totalWorkTimeOptimized: 618,
-          totalCostBaseline: 5400,
-          totalCostOptimized: 4635,
-          utilizationByResourceBaseline: new Map(),
-          utilizationByResourceOptimized: new Map(),
-          avgUtilizationBaseline: 65,
-          avgUtilizationOptimized: 82,
-        };
-        setKpis(simulatedKpis);
-        
+        setKpis(computeKpis(inputModel, plan, baselineSchedule, optimized, costModel));
+        clearEditHistory();
+
+        setActiveStatusFilters(new Set<EventStatusFilter>(["optimerad"]));
         setCurrentView("optimized");
         setStatus("complete");
+
+        if (plan.solverStatus === "SOLVING_INCOMPLETE") {
+          setToast({ message: "Tidsgränsen nåddes – visar bästa lösningen hittills", type: "info" });
+        }
       } catch (error) {
-        console.error("Error simulating optimization:", error);
-        setErrorMessage(
-          error instanceof Error ? error.message : "Failed to simulate optimization"
-        );
-        setStatus("error");
+        fail(error instanceof Error ? error.message : "Failed to solve locally");
       }
-    }, 1500);
-  }, [inputModel, baselineSchedule]);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      if (solverWorkerRef.current !== worker) return;
+      solverWorkerRef.current = null;
+      fail(event.message || "Failed to solve locally");
+    };
 
-  useEffect(() => {
+    worker.postMessage({ modelInput: solverInput });
+  }, [inputModel, baselineSchedule, costModel, clearEditHistory, showSolverFindings]);
+
+  // Stop the local solver; the previous schedule stays in place
+  const cancelLocalSolver = useCallback(() => {
+    const worker = solverWorkerRef.current;
+    if (!worker) return;
+    worker.terminate();
+    solverWorkerRef.current = null;
+    setStatus(optimizedSchedule ? "complete" : "idle");
+    setToast({ message: "Optimeringen avbröts", type: "info" });
+  }, [optimizedSchedule]);
+
+  // Don't leave a solver running after the page unmounts
+  useEffect(() => () => solverWorkerRef.current?.terminate(), []);
+
+  const simulateLocally = useCallback(() => {
+    if (inputModel) runLocalSolver(inputModel, new Set());
+  }, [inputModel, runLocalSolver]);
+
+  // Re-optimize with manually adjusted visits pinned to their vehicle and start time
+  const reoptimizeAroundChanges = useCallback(async () => {
+    if (!inputModel || !optimizedSchedule) return;
+
+    const { modelInput: pinnedInput, pinnedVisitIds: pinnedIds } =
+      buildPinnedModelInput(inputModel, optimizedSchedule);
+    if (pinnedIds.length === 0) {
+      setToast({ message: "Inga manuella ändringar att låsa", type: "info" });
+      return;
+    }
+    const pins = new Set(pinnedIds);
+
+    if (selectedDatasetId === "local-demo") {
+      runLocalSolver(pinnedInput, pins);
+      return;
+    }
+
+    setStatus("optimizing");
+    setErrorMessage(null);
+    setPinnedVisitIds(pins);
+    setSolverFindings([]);
+
+    try {
+      const response = await fetch("/api/timefold/route-plans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          modelInput: pinnedInput,
+          datasetId: selectedDatasetId,
+          solverConfig,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        showSolverFindings(data.findings);
+        throw new Error(data.error || "Failed to start re-optimization");
+      }
+
+      trackRoutePlan(data.id);
+    } catch (error) {
+      console.error("Error starting re-optimization:", error);
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to start re-optimization"
+      );
+      setStatus("error");
+    }
+  }, [inputModel, optimizedSchedule, selectedDatasetId, solverConfig, runLocalSolver, showSolverFindings, trackRoutePlan]);
+
+  const adjustedCount = useMemo(
+    () => optimizedSchedule?.events.filter((e) => e.eventType === "visit" && e.isAdjusted).length ?? 0,
+    [optimizedSchedule]
+  );
+
+  // Select and load a dataset that was just imported from spreadsheets
+  const handleDatasetImported = useCallback((dataset: TimefoldDemoDataMeta) => {
+    setShowImportWizard(false);
+    setDatasets((prev) => [...prev.filter((d) => d.id !== dataset.id), dataset]);
+    setSelectedDatasetId(dataset.id);
+    loadDataset(dataset.id);
+    setToast({ message: `Dataset "${dataset.name}" importerat`, type: "success" });
+  }, [loadDataset]);
+
+  // Reopen an earlier optimization from the server-side history
+  const openStoredRoutePlan = useCallback(async (id: string) => {
+    setOpeningRoutePlanId(id);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch(`/api/route-plans/${encodeURIComponent(id)}`);
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to open route plan");
+      }
+
+      const record = data.routePlan as StoredRoutePlan;
+      const model = record.modelInput;
+      const [recordBaseline, recordCostModel] = record.datasetId
+        ? await Promise.all([fetchBaseline(record.datasetId), fetchCostModel(record.datasetId)])
+        : [null, DEFAULT_COST_MODEL];
+      const baseline = buildBaselineSchedule(model, recordBaseline);
+
+      setInputModel(model);
+      setBaselineSchedule(baseline);
+      updateDateFromSchedule(baseline);
+      setSelectedVisitId(null);
+      setPinnedVisitIds(new Set());
+      clearEditHistory();
+      if (record.datasetId && datasets.some((d) => d.id === record.datasetId)) {
+        setSelectedDatasetId(record.datasetId);
+      }
+      setManualBaseline(recordBaseline);
+      setCostModel(recordCostModel);
+
+      if (record.routePlan?.routes) {
+        const optimized = mapRoutePlanToOptimizedSchedule(record.routePlan, model);
+        setRoutePlan(record.routePlan);
+        setOptimizedSchedule(optimized);
+        setKpis(computeKpis(model, record.routePlan, baseline, optimized, recordCostModel));
+        setActiveStatusFilters(new Set<EventStatusFilter>(["optimerad"]));
+        setCurrentView("optimized");
+      } else {
+        setRoutePlan(null);
+        setOptimizedSchedule(null);
+        setKpis(computeKpis(model, null, baseline, null, recordCostModel));
+        setCurrentView("baseline");
+      }
+
+      setShowHistoryPanel(false);
+
+      // Still solving - resume polling for the final result
+      if (!record.completedAt) {
+        trackRoutePlan(record.id);
+      } else {
+        setStatus("complete");
+        setToast({ message: "Optimering öppnad", type: "success" });
+      }
+    } catch (error) {
+      console.error(`Error opening route plan ${id}:`, error);
+      setToast({
+        message: error instanceof Error ? error.message : "Kunde inte öppna optimeringen",
+        type: "error",
+      });
+    } finally {
+      setOpeningRoutePlanId(null);
+    }
+  }, [datasets, updateDateFromSchedule, trackRoutePlan, clearEditHistory]);
+
+  // Shows a (possibly intermediate) solution in the scheduler and KPI panel
+  const applyRoutePlan = useCallback((plan: TimefoldRoutePlan): SchedulerData | null => {
+    setRoutePlan(plan);
+    if (!inputModel) return null;
+
+    const optimized = markPinnedEvents(mapRoutePlanToOptimizedSchedule(plan, inputModel), pinnedVisitIds);
+    setOptimizedSchedule(optimized);
+    clearEditHistory();
+    if (baselineSchedule) {
+      setKpis(computeKpis(inputModel, plan, baselineSchedule, optimized, costModel));
+    }
+    return optimized;
+  }, [inputModel, baselineSchedule, pinnedVisitIds, costModel, clearEditHistory]);
+
+  const completeOptimization = useCallback((plan: TimefoldRoutePlan) => {
+    console.log(`[Optimization Complete] Routes: ${plan.routes?.length ?? 0}`);
+    const optimized = applyRoutePlan(plan);
+    if (optimized) {
+      console.log(`[Optimization Complete] Optimized events: ${optimized.events.length}, resources: ${optimized.resources.length}`);
+      
+      if (optimized.events.length > 0) {
+        console.log(`[Optimization Complete] First event:`, optimized.events[0]);
+      } else {
+        console.warn(`[Optimization Complete] WARNING: No events in optimized schedule!`);
+      }
+    }
+    
+    // Enable the "optimerad" filter so optimized events are visible
+    setActiveStatusFilters(new Set<EventStatusFilter>(["optimerad"]));
+    
+    setCurrentView("optimized");
+    setStatus("complete");
+
+    if (plan.solverStatus === "SOLVING_INCOMPLETE") {
+      setToast({ message: "Optimeringen avbröts – visar bästa lösningen hittills", type: "info" });
+    }
+  }, [applyRoutePlan]);
+
+  // Stop the solver early; the best solution so far arrives as SOLVING_INCOMPLETE
+  const cancelOptimization = useCallback(async () => {
     if (status !== "polling" || !routePlanId) return;
+    setIsCancelling(true);
+
+    try {
+      const response = await fetch(`/api/timefold/route-plans/${encodeURIComponent(routePlanId)}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to cancel optimization");
+      }
+
+      // If the solver hasn't stopped yet, the progress stream/poll picks up the final state
+      if (data.isComplete) {
+        completeOptimization(data.routePlan as TimefoldRoutePlan);
+      }
+    } catch (error) {
+      console.error("Error cancelling optimization:", error);
+      setToast({
+        message: error instanceof Error ? error.message : "Kunde inte avbryta optimeringen",
+        type: "error",
+      });
+      setIsCancelling(false);
+    }
+  }, [status, routePlanId, completeOptimization]);
+
+  // Live progress: stream status, score and intermediate solutions (SSE)
+  useEffect(() => {
+    if (status !== "polling" || !routePlanId || progressTransport !== "stream") return;
+
+    if (typeof EventSource === "undefined") {
+      setProgressTransport("poll");
+      return;
+    }
+
+    const source = new EventSource(`/api/timefold/route-plans/${encodeURIComponent(routePlanId)}/stream`);
+    const startedAt = Date.now();
+    let received = false;
+    let firstSolution = true;
+
+    const listen = <T extends SolverProgressEvent["type"]>(
+      type: T,
+      handler: (event: Extract<SolverProgressEvent, { type: T }>) => void
+    ) => {
+      source.addEventListener(type, (message) => {
+        received = true;
+        handler(JSON.parse((message as MessageEvent<string>).data));
+      });
+    };
+
+    listen("status", (event) => setLiveSolverStatus(event.solverStatus));
+
+    // Stamp with the client clock so samples stay ordered across reconnects
+    listen("score", (event) => {
+      setScoreHistory((prev) => [...prev, { ...event.sample, elapsedMs: Date.now() - startedAt }]);
+    });
+
+    listen("solution", (event) => {
+      applyRoutePlan(event.routePlan);
+      setHasLiveSolution(true);
+      if (firstSolution) {
+        firstSolution = false;
+        setActiveStatusFilters(new Set<EventStatusFilter>(["optimerad"]));
+        setCurrentView("optimized");
+      }
+    });
+
+    listen("done", (event) => {
+      source.close();
+      completeOptimization(event.routePlan);
+    });
+
+    listen("failure", (event) => {
+      source.close();
+      showSolverFindings(event.findings);
+      console.error("Optimization failed:", event.error);
+      setErrorMessage(event.error);
+      setStatus("error");
+    });
+
+    // Fall back to polling if the stream can't be opened at all;
+    // after that the browser reconnects on its own
+    source.onerror = () => {
+      if (received) return;
+      console.warn("[Progress] Stream unavailable, falling back to polling");
+      source.close();
+      setProgressTransport("poll");
+    };
+
+    return () => source.close();
+  }, [status, routePlanId, progressTransport, applyRoutePlan, completeOptimization, showSolverFindings]);
+
+  useEffect(() => {
+    if (status !== "polling" || !routePlanId || progressTransport !== "poll") return;
     
     let timeoutId: NodeJS.Timeout;
     let pollCount = 0;
@@ -277,6 +765,7 @@ export default function HomePage() {
         const data = await response.json();
         
         if (!data.success) {
+          showSolverFindings(data.findings);
           throw new Error(data.error || "Failed to fetch route plan");
         }
         
@@ -287,32 +776,7 @@ export default function HomePage() {
         }
         
         if (data.isComplete) {
-          setRoutePlan(plan);
-          
-          if (inputModel) {
-            console.log(`[Optimization Complete] Routes: ${plan.routes?.length ?? 0}`);
-            const optimized = mapRoutePlanToOptimizedSchedule(plan, inputModel);
-            console.log(`[Optimization Complete] Optimized events: ${optimized.events.length}, resources: ${optimized.resources.length}`);
-            
-            if (optimized.events.length > 0) {
-              console.log(`[Optimization Complete] First event:`, optimized.events[0]);
-            } else {
-              console.warn(`[Optimization Complete] WARNING: No events in optimized schedule!`);
-            }
-            
-            setOptimizedSchedule(optimized);
-            
-            if (baselineSchedule) {
-              const finalKpis = computeKpis(inputModel, plan, baselineSchedule, optimized);
-              setKpis(finalKpis);
-            }
-          }
-          
-          // Enable the "optimerad" filter so optimized events are visible
-          setActiveStatusFilters(new Set<EventStatusFilter>(["optimerad"]));
-          
-          setCurrentView("optimized");
-          setStatus("complete");
+          completeOptimization(plan);
           return;
         }
         
@@ -340,26 +804,179 @@ export default function HomePage() {
     return () => {
       if (timeoutId) clearTimeout(timeoutId);
     };
-  }, [status, routePlanId, inputModel, baselineSchedule]);
+  }, [status, routePlanId, progressTransport, completeOptimization, showSolverFindings]);
+
+  // Rebuilds the baseline for an edited model from the dataset's baseline source
+  const rebuildBaseline = useCallback(
+    (model: TimefoldModelInput) => buildBaselineSchedule(model, manualBaseline),
+    [manualBaseline]
+  );
+
+  // Shows an edited state and re-measures it
+  const showEditState = useCallback((next: EditState) => {
+    setInputModel(next.inputModel);
+    setBaselineSchedule(next.baselineSchedule);
+    setOptimizedSchedule(next.optimizedSchedule);
+    setKpis(computeKpis(next.inputModel, routePlan, next.baselineSchedule, next.optimizedSchedule, costModel));
+  }, [routePlan, costModel]);
 
+  // Applies a manual edit and records it in the change log
+  const runCommand = useCallback((command: EditCommand) => {
+    if (!inputModel || !baselineSchedule) return;
+    showEditState(applyCommand({ inputModel, baselineSchedule, optimizedSchedule }, command, rebuildBaseline));
+    setEditLog((prev) => [...prev, command]);
+    setRedoStack([]);
+  }, [inputModel, baselineSchedule, optimizedSchedule, rebuildBaseline, showEditState]);
+
+  const undoEdit = useCallback(() => {
+    const command = editLog[editLog.length - 1];
+    if (!command || !inputModel || !baselineSchedule) return;
+    showEditState(revertCommand({ inputModel, baselineSchedule, optimizedSchedule }, command, rebuildBaseline));
+    setEditLog((prev) => prev.slice(0, -1));
+    setRedoStack((prev) => [...prev, command]);
+    setToast({ message: `Ångrade: ${command.label}`, type: "info" });
+  }, [editLog, inputModel, baselineSchedule, optimizedSchedule, rebuildBaseline, showEditState]);
+
+  const redoEdit = useCallback(() => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command || !inputModel || !baselineSchedule) return;
+    showEditState(applyCommand({ inputModel, baselineSchedule, optimizedSchedule }, command, rebuildBaseline));
+    setRedoStack((prev) => prev.slice(0, -1));
+    setEditLog((prev) => [...prev, command]);
+    setToast({ message: `Gjorde om: ${command.label}`, type: "info" });
+  }, [redoStack, inputModel, baselineSchedule, optimizedSchedule, rebuildBaseline, showEditState]);
+
+  // Reverts a single edit from the change log; the latest one is simply undone,
+  // an earlier one is reverted by a new edit (so that can be undone in turn)
+  const revertEdit = useCallback((commandId: string) => {
+    const command = editLog.find((entry) => entry.id === commandId);
+    if (!command) return;
+    if (command === editLog[editLog.length - 1]) {
+      undoEdit();
+      return;
+    }
+    const blocking = findBlockingCommand(editLog, command);
+    if (blocking) {
+      setToast({ message: `Ångra först den senare ändringen: ${blocking.label}`, type: "error" });
+      return;
+    }
+    runCommand(invertCommand(command, `Ångrade: ${command.label}`));
+  }, [editLog, undoEdit, runCommand]);
+
+  // Records a drag or resize in the scheduler as an edit of the schedule it was made in
   const handleEventUpdate = useCallback((updatedEvent: SchedulerEvent) => {
-    if (!optimizedSchedule) return;
-    
-    setOptimizedSchedule((prev) => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        events: prev.events.map((e) =>
-          e.id === updatedEvent.id ? { ...e, ...updatedEvent, isAdjusted: true } : e
-        ),
-      };
+    const target = updatedEvent.status === "baseline" ? "baseline" : "optimized";
+    const schedule = target === "baseline" ? baselineSchedule : optimizedSchedule;
+    const before = schedule?.events.find((e) => e.id === updatedEvent.id);
+    if (!schedule || !before || !inputModel) return;
+
+    const after: SchedulerEvent = { ...before, ...updatedEvent, isAdjusted: true };
+    if (after.resourceId === before.resourceId && after.startDate === before.startDate && after.endDate === before.endDate) return;
+
+    // The moved visit and the visits after its old and new places get new travel
+    const changes = getMoveChanges(inputModel, schedule.events, target, before, after);
+
+    const time = (iso: string) => new Date(iso).toLocaleTimeString("sv-SE", { hour: "2-digit", minute: "2-digit" });
+    if (after.resourceId !== before.resourceId) {
+      const resourceName = schedule.resources.find((r) => r.id === after.resourceId)?.name ?? after.resourceId;
+      runCommand(createCommand("reassign", `Flyttade ${before.name} till ${resourceName} ${time(after.startDate)}`, changes));
+    } else if (after.startDate === before.startDate) {
+      const minutes = Math.round((new Date(after.endDate).getTime() - new Date(after.startDate).getTime()) / 60000);
+      runCommand(createCommand("resize", `Ändrade längden på ${before.name} till ${minutes} min`, changes));
+    } else {
+      runCommand(createCommand("move", `Flyttade ${before.name} till ${time(after.startDate)}`, changes));
+    }
+  }, [inputModel, baselineSchedule, optimizedSchedule, runCommand]);
+
+  // Saves the dataset's cost model and re-prices the loaded schedules
+  const saveDatasetCostModel = useCallback(async (model: CostModel) => {
+    const response = await fetch(`/api/datasets/${encodeURIComponent(selectedDatasetId)}/cost-model`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ costModel: model }),
     });
-    
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Failed to save cost model");
+    }
+
+    setCostModel(data.costModel);
     if (inputModel && baselineSchedule) {
-      const newKpis = computeKpis(inputModel, routePlan, baselineSchedule, optimizedSchedule);
-      setKpis(newKpis);
+      setKpis(computeKpis(inputModel, routePlan, baselineSchedule, optimizedSchedule, data.costModel));
     }
-  }, [optimizedSchedule, inputModel, routePlan, baselineSchedule]);
+  }, [selectedDatasetId, inputModel, routePlan, baselineSchedule, optimizedSchedule]);
+
+  // Saves the edited solver settings as a new or existing profile and makes it active
+  const saveSolverProfile = useCallback(async (name: string, config: SolverConfig, profileId?: string) => {
+    const response = await fetch(profileId ? `/api/solver-profiles/${encodeURIComponent(profileId)}` : "/api/solver-profiles", {
+      method: profileId ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, config }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Failed to save solver profile");
+    }
+
+    const profile = data.profile as SolverProfile;
+    setSolverProfiles((prev) =>
+      [...prev.filter((p) => p.id !== profile.id), profile].sort((a, b) => a.name.localeCompare(b.name, "sv"))
+    );
+    setActiveProfileId(profile.id);
+  }, []);
+
+  const deleteSolverProfile = useCallback(async (profileId: string) => {
+    const response = await fetch(`/api/solver-profiles/${encodeURIComponent(profileId)}`, { method: "DELETE" });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Failed to delete solver profile");
+    }
+
+    setSolverProfiles((prev) => prev.filter((p) => p.id !== profileId));
+    setActiveProfileId((prev) => (prev === profileId ? null : prev));
+  }, []);
+
+  // Switches the baseline (manual or generated) and re-measures against it
+  const applyBaseline = useCallback((baseline: StoredBaseline | null) => {
+    setManualBaseline(baseline);
+    if (!inputModel) return;
+
+    const schedule = buildBaselineSchedule(inputModel, baseline);
+    setBaselineSchedule(schedule);
+    setKpis(computeKpis(inputModel, routePlan, schedule, optimizedSchedule, costModel));
+    clearEditHistory();
+    setToast({
+      message: baseline ? `Baseline uppdaterad: ${baseline.assignments.length} besök` : "Genererad baseline återställd",
+      type: "success",
+    });
+  }, [inputModel, routePlan, optimizedSchedule, costModel, clearEditHistory]);
+
+  // Uses an earlier route plan of the loaded dataset as its baseline
+  const setRoutePlanAsBaseline = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/datasets/${encodeURIComponent(selectedDatasetId)}/baseline`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ routePlanId: id }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to set baseline");
+      }
+
+      applyBaseline(data.baseline);
+      setShowHistoryPanel(false);
+    } catch (error) {
+      setToast({
+        message: `Kunde inte använda som baseline: ${error instanceof Error ? error.message : "okänt fel"}`,
+        type: "error",
+      });
+    }
+  }, [selectedDatasetId, applyBaseline]);
 
   const dismissError = useCallback(() => {
     setErrorMessage(null);
@@ -378,15 +995,34 @@ export default function HomePage() {
     });
   }, []);
 
+  // Re-checked on every schedule change, so manual edits are flagged right away
+  const checkedBaseline = useMemo(
+    () => baselineSchedule && inputModel
+      ? applyViolations(baselineSchedule, checkScheduleConstraints(baselineSchedule, inputModel))
+      : baselineSchedule,
+    [baselineSchedule, inputModel]
+  );
+  const checkedOptimized = useMemo(
+    () => optimizedSchedule && inputModel
+      ? applyViolations(optimizedSchedule, checkScheduleConstraints(optimizedSchedule, inputModel))
+      : optimizedSchedule,
+    [optimizedSchedule, inputModel]
+  );
+
+  const violationCounts = useMemo(() => {
+    const schedule = currentView === "baseline" ? checkedBaseline : checkedOptimized;
+    return schedule ? countViolations(schedule.events.flatMap((event) => event.violations ?? [])) : null;
+  }, [currentView, checkedBaseline, checkedOptimized]);
+
   const filteredSchedule = useMemo(() => {
-    const sourceSchedule = currentView === "baseline" ? baselineSchedule : optimizedSchedule;
+    const sourceSchedule = currentView === "baseline" ? checkedBaseline : checkedOptimized;
     if (!sourceSchedule) return null;
     
     // If all filters are off, show nothing. If all are on, show everything.
     // Filter events based on activeStatusFilters
     const filteredEvents = sourceSchedule.events.filter(event => {
-      // Always show travel and break events if their parent visit is shown
-      if (event.eventType === "travel" || event.eventType === "break") {
+      // Always show travel, wait and break events if their parent visit is shown
+      if (event.eventType === "travel" || event.eventType === "wait" || event.eventType === "break") {
         return true;
       }
       
@@ -439,18 +1075,36 @@ export default function HomePage() {
       events: filteredEvents,
       resources: filteredResources,
     };
-  }, [baselineSchedule, optimizedSchedule, currentView, activeStatusFilters, activeEntityFilter]);
+  }, [checkedBaseline, checkedOptimized, currentView, activeStatusFilters, activeEntityFilter]);
 
   const displayedSchedule = filteredSchedule;
 
+  // Comparison shows both schedules unfiltered, since status filters would hide one side
+  const compareData = useMemo(
+    () => currentView === "compare"
+      ? { baseline: checkedBaseline, optimized: checkedOptimized }
+      : undefined,
+    [currentView, checkedBaseline, checkedOptimized]
+  );
+
+  // Visits without a place in the schedule edits go to (the optimized one when comparing)
+  const unassignedVisits = useMemo(() => {
+    const schedule = currentView === "baseline" ? baselineSchedule : optimizedSchedule;
+    return inputModel && schedule ? getUnassignedVisits(inputModel, schedule) : undefined;
+  }, [currentView, inputModel, baselineSchedule, optimizedSchedule]);
+
   const loadingMessage = status === "polling" 
     ? "Running Timefold Optimization" 
     : "Processing...";
   
   const loadingSubMessage = status === "polling"
-    ? optimizationSpeed === "full"
-      ? "Finding best possible solution..."
-      : `Optimizing (${OPTIMIZATION_SPEEDS[optimizationSpeed].label})...`
+    ? liveSolverStatus === "SOLVING_SCHEDULED"
+      ? "Waiting for a free solver..."
+      : activeProfile
+        ? `Optimizing (${activeProfile.name})...`
+        : optimizationSpeed === "full"
+          ? "Finding best possible solution..."
+          : `Optimizing (${OPTIMIZATION_SPEEDS[optimizationSpeed].label})...`
     : undefined;
 
   // Sidebar navigation handler
@@ -460,68 +1114,160 @@ export default function HomePage() {
     // Close other panels when switching
     if (section !== "team") setShowTeamPanel(false);
     if (section !== "settings") setShowSettingsPanel(false);
+    if (section !== "history") setShowHistoryPanel(false);
     
     // Handle specific section actions
     if (section === "schedule") {
       // Focus on main schedule view
       setShowTeamPanel(false);
       setShowSettingsPanel(false);
+      setShowHistoryPanel(false);
     }
   };
 
-  // Handle creating a new visit
-  const handleNewVisit = useCallback((visitData: NewVisitData) => {
-    if (!baselineSchedule) {
+  // Adds a visit from the "Nytt besök" form to the model input, so the next
+  // optimization, the export and the KPIs include it. With a caregiver it is
+  // also placed on the displayed schedule; without one it counts as unassigned.
+  const handleNewVisit = useCallback((visitData: NewVisitData, geocode: GeocodeResult) => {
+    if (!inputModel || !baselineSchedule) {
       setToast({ message: "Ladda ett dataset först", type: "error" });
       return;
     }
 
-    // Create a unique ID for the new visit
-    const newVisitId = `visit-${Date.now()}`;
-    
-    // Parse date and time to create start/end dates
-    const startDateTime = new Date(`${visitData.date}T${visitData.startTime}:00`);
-    const endDateTime = new Date(startDateTime.getTime() + visitData.duration * 60 * 1000);
-
-    // Find resource name for the toast
-    const resourceName = baselineSchedule.resources.find(r => r.id === visitData.resourceId)?.name || "personal";
-
-    // Create the new event
-    const newEvent: SchedulerEvent = {
-      id: newVisitId,
-      resourceId: visitData.resourceId,
-      startDate: startDateTime.toISOString(),
-      endDate: endDateTime.toISOString(),
-      name: visitData.name,
-      eventType: "visit",
-      status: currentView === "optimized" ? "optimized" : "baseline",
-      visitId: newVisitId,
-      address: visitData.address,
-      isAdjusted: true,
-    };
+    const visit = buildNewVisit(visitData, geocode, inputModel);
+    const onOptimized = currentView !== "baseline" && !!optimizedSchedule;
+    const target = onOptimized ? "optimized" : "baseline";
+    const schedule = onOptimized ? optimizedSchedule : baselineSchedule;
+    const withVisit = { ...inputModel, visits: [...inputModel.visits, visit] };
+    const event = buildNewVisitEvent(visitData, visit, target, withVisit);
+
+    // The new visit and the visit after it get travel and wait blocks
+    runCommand(createCommand("create", `Skapade besöket ${visit.name}`, [
+      { target: "visit", before: null, after: visit },
+      ...(event ? getAddChanges(withVisit, schedule.events, target, event) : []),
+    ]));
 
-    // Add to the appropriate schedule
-    if (currentView === "optimized" && optimizedSchedule) {
-      setOptimizedSchedule(prev => prev ? {
-        ...prev,
-        events: [...prev.events, newEvent],
-      } : prev);
+    if (event) {
+      setCurrentDate(new Date(event.startDate));
+      const resourceName = inputModel.vehicles.find((v) => v.id === visitData.resourceId)?.name || "personal";
+      if (event.skillMismatch) {
+        const missing = event.skillMismatch.map(describeSkillRequirement).join(", ");
+        setToast({ message: `Besök "${visit.name}" skapat och tilldelat ${resourceName}, som saknar ${missing}`, type: "info" });
+      } else {
+        setToast({ message: `Besök "${visit.name}" skapat och tilldelat ${resourceName}`, type: "success" });
+      }
     } else {
-      setBaselineSchedule(prev => prev ? {
-        ...prev,
-        events: [...prev.events, newEvent],
-      } : prev);
+      setToast({ message: `Besök "${visit.name}" skapat och tas med i nästa optimering`, type: "success" });
     }
+  }, [inputModel, baselineSchedule, optimizedSchedule, currentView, runCommand]);
 
-    // Update the current date to show the new visit
-    setCurrentDate(startDateTime);
+  // Saves a visit from its detail panel; an edit with errors isn't applied
+  const saveVisit = useCallback((visit: Visit): ValidationFinding[] => {
+    const before = inputModel?.visits.find((v) => v.id === visit.id);
+    if (!inputModel || !before) return [];
+    const { findings } = replaceVisit(inputModel, visit);
+    if (!hasBlockingFindings(findings)) {
+      runCommand(createCommand("edit-visit", `Ändrade besöket ${visit.name}`, [{ target: "visit", before, after: visit }]));
+    }
+    return findings;
+  }, [inputModel, runCommand]);
 
-    // Show success toast
-    setToast({ 
-      message: `Besök "${visitData.name}" skapat och tilldelat ${resourceName}`, 
-      type: "success" 
-    });
-  }, [baselineSchedule, optimizedSchedule, currentView]);
+  // Saves a caregiver from its detail panel; an edit with errors isn't applied
+  const saveVehicle = useCallback((vehicle: Vehicle): ValidationFinding[] => {
+    const before = inputModel?.vehicles.find((v) => v.id === vehicle.id);
+    if (!inputModel || !before) return [];
+    const { findings } = replaceVehicle(inputModel, vehicle);
+    if (!hasBlockingFindings(findings)) {
+      runCommand(createCommand("edit-caregiver", `Ändrade ${vehicle.name || vehicle.id}`, [{ target: "vehicle", before, after: vehicle }]));
+    }
+    return findings;
+  }, [inputModel, runCommand]);
+
+  // Removes a visit from the model input and both schedules
+  const deleteVisit = useCallback((visitId: string) => {
+    const visit = inputModel?.visits.find((v) => v.id === visitId);
+    if (!inputModel || !visit || !baselineSchedule) return;
+
+    const eventChanges = (target: "baseline" | "optimized", schedule: SchedulerData | null): EditChange[] =>
+      (schedule?.events ?? [])
+        .filter((event) => event.visitId === visitId)
+        .map((event) => ({ target, before: event, after: null }));
+
+    runCommand(createCommand("delete", `Tog bort besöket ${visit.name}`, [
+      ...eventChanges("baseline", baselineSchedule),
+      ...eventChanges("optimized", optimizedSchedule),
+      { target: "visit", before: visit, after: null, index: inputModel.visits.indexOf(visit) },
+    ]));
+    setToast({ message: `Besök "${visit.name}" borttaget – Ctrl+Z ångrar`, type: "success" });
+  }, [inputModel, baselineSchedule, optimizedSchedule, runCommand]);
+
+  // Assigns a visit from the unassigned list to the caregiver row it was dropped on
+  const assignUnassignedVisit = useCallback((visitId: string, resourceId: string, date: Date | null) => {
+    const target = currentView === "baseline" ? "baseline" : "optimized";
+    const schedule = target === "baseline" ? baselineSchedule : optimizedSchedule;
+    if (!inputModel || !schedule) return;
+
+    const assignment = assignVisit(inputModel, schedule, target, visitId, resourceId, date);
+    const resourceName = schedule.resources.find((r) => r.id === resourceId)?.name ?? resourceId;
+    if (!assignment) {
+      setToast({ message: `Besöket kunde inte tilldelas ${resourceName}`, type: "error" });
+      return;
+    }
+
+    const { event } = assignment;
+    const time = new Date(event.startDate).toLocaleTimeString("sv-SE", { hour: "2-digit", minute: "2-digit" });
+    runCommand(createCommand("assign", `Tilldelade ${event.name} till ${resourceName} ${time}`, assignment.changes));
+    if (event.skillMismatch) {
+      const missing = event.skillMismatch.map(describeSkillRequirement).join(", ");
+      setToast({ message: `${event.name} tilldelat ${resourceName}, som saknar ${missing}`, type: "info" });
+    }
+  }, [currentView, inputModel, baselineSchedule, optimizedSchedule, runCommand]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), except while typing in a form field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undoEdit();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redoEdit();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undoEdit, redoEdit]);
+
+  const editingVisit = useMemo(
+    () => inputModel?.visits.find((visit) => visit.id === editingVisitId) ?? null,
+    [inputModel, editingVisitId]
+  );
+  const editingVehicle = useMemo(
+    () => inputModel?.vehicles.find((vehicle) => vehicle.id === editingVehicleId) ?? null,
+    [inputModel, editingVehicleId]
+  );
+
+  const newVisitResources = useMemo(
+    () => (inputModel?.vehicles ?? []).map((vehicle) => ({ id: vehicle.id, name: vehicle.name || vehicle.id })),
+    [inputModel]
+  );
+  const newVisitSkills = useMemo(
+    () => Array.from(new Set((inputModel?.vehicles ?? []).flatMap(getVehicleSkillNames))).sort(),
+    [inputModel]
+  );
+  // Caregivers can also be given skills only the visits ask for so far
+  const caregiverSkills = useMemo(
+    () => Array.from(new Set([
+      ...newVisitSkills,
+      ...(inputModel?.visits ?? []).flatMap((visit) => normalizeRequiredSkills(visit.requiredSkills).map((skill) => skill.name)),
+    ])).sort(),
+    [inputModel, newVisitSkills]
+  );
 
   return (
     <>
@@ -534,8 +1280,10 @@ export default function HomePage() {
         onNavigate={handleSidebarNavigate}
         onOpenTeam={() => setShowTeamPanel(true)}
         onOpenSettings={() => setShowSettingsPanel(true)}
+        onOpenHistory={() => setShowHistoryPanel(true)}
         onNewVisit={handleNewVisit}
-        availableResources={baselineSchedule?.resources || []}
+        availableResources={newVisitResources}
+        availableSkills={newVisitSkills}
       />
 
       {/* Main Flex Container */}
@@ -552,12 +1300,35 @@ export default function HomePage() {
               loadDataset(id);
             }}
             onLoadDataset={() => loadDataset(selectedDatasetId)}
+            onImportDataset={() => setShowImportWizard(true)}
+            onImportBaseline={inputModel && selectedDatasetId ? () => setShowBaselinePanel(true) : undefined}
             onOptimize={startOptimization}
             onSimulate={simulateLocally}
+            onReoptimize={reoptimizeAroundChanges}
+            adjustedCount={adjustedCount}
+            editHistory={{
+              count: editLog.length,
+              undoLabel: editLog[editLog.length - 1]?.label,
+              redoLabel: redoStack[redoStack.length - 1]?.label,
+            }}
+            onUndo={undoEdit}
+            onRedo={redoEdit}
+            onShowEditHistory={() => setShowEditHistory(true)}
+            validationCounts={{
+              errors: validationFindings.filter((f) => f.severity === "error").length,
+              warnings: validationFindings.filter((f) => f.severity === "warning").length,
+            }}
+            onShowValidation={() => setShowValidationPanel(true)}
             status={status}
             canOptimize={!!inputModel}
             optimizationSpeed={optimizationSpeed}
-            onSpeedChange={setOptimizationSpeed}
+            onSpeedChange={(speed) => {
+              setOptimizationSpeed(speed);
+              setActiveProfileId(null);
+            }}
+            solverProfiles={solverProfiles}
+            activeProfileId={activeProfileId}
+            onProfileChange={setActiveProfileId}
             currentDate={currentDate}
             onDateChange={setCurrentDate}
             viewPreset={viewPreset}
@@ -606,6 +1377,7 @@ export default function HomePage() {
                     >
                       <option value="baseline">Baseline</option>
                       <option value="optimized" disabled={!optimizedSchedule}>Optimerad</option>
+                      <option value="compare" disabled={!optimizedSchedule}>Jämför</option>
                     </select>
                   </div>
                   <div>
@@ -653,6 +1425,15 @@ export default function HomePage() {
                 onEventUpdate={handleEventUpdate}
                 isLoading={status === "loading-demo"}
                 viewPreset={viewPreset}
+                modelInput={inputModel}
+                selectedVisitId={selectedVisitId}
+                onSelectVisit={setSelectedVisitId}
+                onEditVisit={setEditingVisitId}
+                onDeleteVisit={deleteVisit}
+                unassignedVisits={unassignedVisits}
+                onAssignVisit={assignUnassignedVisit}
+                focusedResourceId={focusedResourceId}
+                compareData={compareData}
               />
             </div>
 
@@ -670,6 +1451,8 @@ export default function HomePage() {
             currentView={currentView}
             onViewChange={setCurrentView}
             hasOptimizedData={!!optimizedSchedule}
+            solverStatus={routePlan?.solverStatus}
+            violationCounts={violationCounts}
           />
         </div>
       </div>
@@ -737,7 +1520,103 @@ export default function HomePage() {
           title="Personal" 
           onClose={() => setShowTeamPanel(false)}
         >
-          <TeamPanelContent resources={baselineSchedule?.resources || []} />
+          <TeamPanelContent resources={baselineSchedule?.resources || []} onEdit={setEditingVehicleId} />
+        </SlideOverPanel>
+      )}
+
+      {/* Visit Details (Slide-over) */}
+      {editingVisit && (
+        <SlideOverPanel
+          title={editingVisit.name || "Besök"}
+          onClose={() => setEditingVisitId(null)}
+        >
+          <VisitDetailsPanel
+            visit={editingVisit}
+            availableSkills={newVisitSkills}
+            onSave={saveVisit}
+            onDelete={() => deleteVisit(editingVisit.id)}
+            onClose={() => setEditingVisitId(null)}
+          />
+        </SlideOverPanel>
+      )}
+
+      {/* Caregiver Details (Slide-over) */}
+      {editingVehicle && (
+        <SlideOverPanel
+          title={editingVehicle.name || editingVehicle.id}
+          onClose={() => setEditingVehicleId(null)}
+        >
+          <CaregiverDetailsPanel
+            vehicle={editingVehicle}
+            availableSkills={caregiverSkills}
+            onSave={saveVehicle}
+            onClose={() => setEditingVehicleId(null)}
+          />
+        </SlideOverPanel>
+      )}
+
+      {/* Change Log (Slide-over) */}
+      {showEditHistory && (
+        <SlideOverPanel
+          title="Ändringar"
+          onClose={() => setShowEditHistory(false)}
+        >
+          <EditHistoryPanel
+            log={editLog}
+            redoStack={redoStack}
+            onUndo={undoEdit}
+            onRedo={redoEdit}
+            onRevert={revertEdit}
+          />
+        </SlideOverPanel>
+      )}
+
+      {/* History Panel (Slide-over) */}
+      {showHistoryPanel && (
+        <SlideOverPanel 
+          title="Historik" 
+          onClose={() => setShowHistoryPanel(false)}
+        >
+          <HistoryPanel
+            onOpen={openStoredRoutePlan}
+            openingId={openingRoutePlanId}
+            currentDatasetId={inputModel ? selectedDatasetId : undefined}
+            onUseAsBaseline={setRoutePlanAsBaseline}
+          />
+        </SlideOverPanel>
+      )}
+
+      {/* Baseline Panel (Slide-over) */}
+      {showBaselinePanel && inputModel && selectedDatasetId && (
+        <SlideOverPanel 
+          title="Baseline" 
+          onClose={() => setShowBaselinePanel(false)}
+        >
+          <BaselinePanel
+            datasetId={selectedDatasetId}
+            datasetName={datasets.find((d) => d.id === selectedDatasetId)?.name}
+            baseline={manualBaseline}
+            modelInput={inputModel}
+            onChange={applyBaseline}
+          />
+        </SlideOverPanel>
+      )}
+
+      {/* Dataset Import Wizard */}
+      {showImportWizard && (
+        <ImportWizard
+          onClose={() => setShowImportWizard(false)}
+          onImported={handleDatasetImported}
+        />
+      )}
+
+      {/* Validation Panel (Slide-over) */}
+      {showValidationPanel && (
+        <SlideOverPanel 
+          title="Validering" 
+          onClose={() => setShowValidationPanel(false)}
+        >
+          <ValidationPanel findings={validationFindings} onJumpTo={jumpToFinding} />
         </SlideOverPanel>
       )}
 
@@ -747,7 +1626,23 @@ export default function HomePage() {
           title="Inställningar" 
           onClose={() => setShowSettingsPanel(false)}
         >
-          <SettingsPanelContent />
+          <SettingsPanelContent>
+            {inputModel && selectedDatasetId && (
+              <CostModelSettings
+                costModel={costModel}
+                vehicles={inputModel.vehicles}
+                datasetName={datasets.find((d) => d.id === selectedDatasetId)?.name}
+                onSave={saveDatasetCostModel}
+              />
+            )}
+            <SolverConfigSettings
+              config={solverConfig}
+              profiles={solverProfiles}
+              activeProfileId={activeProfileId}
+              onSave={saveSolverProfile}
+              onDelete={deleteSolverProfile}
+            />
+          </SettingsPanelContent>
         </SlideOverPanel>
       )}
 
@@ -756,6 +1651,10 @@ export default function HomePage() {
         isVisible={status === "optimizing" || status === "polling"}
         message={loadingMessage}
         subMessage={loadingSubMessage}
+        scoreHistory={status === "polling" ? scoreHistory : undefined}
+        compact={status === "polling" && hasLiveSolution}
+        onCancel={status === "polling" ? cancelOptimization : status === "optimizing" && solverWorkerRef.current ? cancelLocalSolver : undefined}
+        isCancelling={isCancelling}
       />
 
       {/* Toast Notification */}
@@ -797,10 +1696,11 @@ function MobileHeader({ onMenuClick }: { onMenuClick: () => void }) {
 
 // Mobile KPI Content Component
 function MobileKpiContent({ kpis, currentView }: { kpis: KpiSummary | null; currentView: ViewMode }) {
-  const utilization = currentView === "optimized" ? kpis?.avgUtilizationOptimized : kpis?.avgUtilizationBaseline;
-  const visits = currentView === "optimized" ? kpis?.assignedVisitsOptimized : kpis?.assignedVisitsBaseline;
-  const unassigned = currentView === "optimized" ? kpis?.unassignedVisitsOptimized : kpis?.unassignedVisitsBaseline;
-  const travelTime = currentView === "optimized" ? kpis?.totalTravelTimeOptimized : kpis?.totalTravelTimeBaseline;
+  const showOptimized = currentView !== "baseline";
+  const utilization = showOptimized ? kpis?.avgUtilizationOptimized : kpis?.avgUtilizationBaseline;
+  const visits = showOptimized ? kpis?.assignedVisitsOptimized : kpis?.assignedVisitsBaseline;
+  const unassigned = showOptimized ? kpis?.unassignedVisitsOptimized : kpis?.unassignedVisitsBaseline;
+  const travelTime = showOptimized ? kpis?.totalTravelTimeOptimized : kpis?.totalTravelTimeBaseline;
   
   const formatTime = (mins: number) => {
     const h = Math.floor(mins / 60);
@@ -873,7 +1773,13 @@ function SlideOverPanel({
 }
 
 // Team Panel Content
-function TeamPanelContent({ resources }: { resources: { id: string; name: string; skills?: string[] }[] }) {
+function TeamPanelContent({
+  resources,
+  onEdit,
+}: {
+  resources: { id: string; name: string; skills?: string[] }[];
+  onEdit?: (resourceId: string) => void;
+}) {
   return (
     <div className="space-y-3">
       <div className="text-sm text-slate-500 mb-4">
@@ -891,7 +1797,9 @@ function TeamPanelContent({ resources }: { resources: { id: string; name: string
         resources.map((resource) => (
           <div 
             key={resource.id}
-            className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors cursor-pointer"
+            onDoubleClick={() => onEdit?.(resource.id)}
+            title="Dubbelklicka för att redigera"
+            className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl hover:bg-slate-100 transition-colors cursor-pointer select-none"
           >
             <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center text-brand-600 font-bold">
               {resource.name.charAt(0)}
@@ -912,8 +1820,8 @@ function TeamPanelContent({ resources }: { resources: { id: string; name: string
   );
 }
 
-// Settings Panel Content
-function SettingsPanelContent() {
+// Settings Panel Content (children: dataset-specific settings)
+function SettingsPanelContent({ children }: { children?: React.ReactNode }) {
   // Settings state with persistence
   const [theme, setTheme] = useState("light");
   const [language, setLanguage] = useState("sv");
@@ -1051,6 +1959,8 @@ function SettingsPanelContent() {
         </label>
       </div>
 
+      {children}
+
       {/* About */}
       <div className="space-y-3">
         <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Om</h3>
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import type { ImportRowError } from "@/lib/datasetImport";
+import { findUnmatchedAssignments } from "@/lib/manualBaseline";
+import type { StoredBaseline, TimefoldModelInput } from "@/lib/types";
+
+interface BaselinePanelProps {
+  datasetId: string;
+  datasetName?: string;
+  baseline: StoredBaseline | null;
+  modelInput: TimefoldModelInput;
+  onChange: (baseline: StoredBaseline | null) => void;
+}
+
+const UTC_OFFSETS = ["+01:00", "+02:00", "Z"];
+
+/**
+ * BaselinePanel Component
+ *
+ * Shows where the dataset's baseline comes from and lets the user import
+ * the planners' own schedule (one row per visit with caregiver and start
+ * time) or go back to the generated baseline.
+ */
+export function BaselinePanel({ datasetId, datasetName, baseline, modelInput, onChange }: BaselinePanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [utcOffset, setUtcOffset] = useState(UTC_OFFSETS[0]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+
+  const unmatched = baseline ? findUnmatchedAssignments(modelInput, baseline.assignments).length : 0;
+  const sourceLabel = !baseline
+    ? "Genererad baseline"
+    : baseline.source === "route-plan"
+      ? `Tidigare ruttplan ${baseline.sourceRoutePlanId ?? baseline.name}`
+      : `Importerat schema ${baseline.name}`;
+
+  const importSchedule = async () => {
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    setRowErrors([]);
+    try {
+      const formData = new FormData();
+      formData.append("schedule", file);
+      formData.append("utcOffset", utcOffset);
+      const response = await fetch(`/api/datasets/${encodeURIComponent(datasetId)}/baseline/import`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await response.json();
+      setRowErrors(data.errors ?? []);
+      if (!data.success) {
+        throw new Error(data.error || "Import misslyckades");
+      }
+      setFile(null);
+      onChange(data.baseline);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import misslyckades");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const resetBaseline = async () => {
+    setIsBusy(true);
+    setError(null);
+    setRowErrors([]);
+    try {
+      const response = await fetch(`/api/datasets/${encodeURIComponent(datasetId)}/baseline`, { method: "DELETE" });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Kunde inte återställa baseline");
+      }
+      onChange(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Kunde inte återställa baseline");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 bg-slate-50 rounded-xl">
+        <div className="text-xs font-bold text-slate-500 uppercase tracking-wider">Nuvarande baseline</div>
+        <div className="mt-1 text-sm font-medium text-slate-900 break-words">{sourceLabel}</div>
+        {datasetName && <div className="text-xs text-slate-500">Gäller {datasetName}</div>}
+        {baseline && (
+          <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500">
+            <span>{baseline.assignments.length} schemalagda besök</span>
+            {unmatched > 0 && <span className="text-amber-600">{unmatched} matchar inte datasetet</span>}
+            <span>
+              Uppdaterad {new Date(baseline.updatedAt).toLocaleString("sv-SE", { dateStyle: "short", timeStyle: "short" })}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-slate-700">Manuellt schema (CSV eller XLSX)</label>
+        <input
+          type="file"
+          accept=".csv,.txt,.xlsx"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="w-full text-sm text-slate-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-brand-50 file:text-brand-700 file:font-medium hover:file:bg-brand-100"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-slate-700">Tidszon (UTC-offset)</span>
+          <select
+            value={utcOffset}
+            onChange={(e) => setUtcOffset(e.target.value)}
+            className="text-sm bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-brand-500"
+          >
+            {UTC_OFFSETS.map((offset) => (
+              <option key={offset} value={offset}>{offset}</option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-slate-500">
+          En rad per besök med besöks-ID, personal-ID och starttid (datum och sluttid är valfria).
+          Besök som saknas i filen räknas som ej tilldelade.
+        </p>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">{error}</div>
+      )}
+
+      {rowErrors.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-xl border border-amber-100 bg-amber-50 px-3 py-2 space-y-1">
+          <div className="text-xs font-semibold text-amber-700">{rowErrors.length} rader hoppades över</div>
+          {rowErrors.map((rowError, index) => (
+            <div key={index} className="text-[11px] text-amber-700">
+              Rad {rowError.rowNumber}{rowError.column ? ` (${rowError.column})` : ""}: {rowError.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={resetBaseline}
+          disabled={isBusy || !baseline}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          Återställ till genererad baseline
+        </button>
+        <button
+          onClick={importSchedule}
+          disabled={isBusy || !file}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-brand-500 hover:bg-brand-600 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          {isBusy ? "Importerar..." : "Importera"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BaselinePanel;
@@ -1,9 +1,13 @@
 "use client";
 
-import { useRef, useMemo, useCallback } from "react";
+import { useRef, useMemo, useCallback, useEffect } from "react";
 import { BryntumSchedulerPro, BryntumSchedulerProProps } from "@bryntum/schedulerpro-react";
-import type { SchedulerData, SchedulerEvent, ViewMode } from "@/lib/types";
+import type { PriorityLevel, ScheduleViolation, SchedulerData, SchedulerEvent, SkillRequirement, ViewMode } from "@/lib/types";
+import { findShiftForTime } from "@/lib/mapping";
+import { getPriorityLabel } from "@/lib/priority";
+import { describeSkillRequirement, findMissingSkills } from "@/lib/skills";
 import type { SchedulerViewPreset } from "./TopBar";
+import { VISIT_DRAG_TYPE } from "./UnassignedPanel";
 
 interface BryntumSchedulerProps {
   data: SchedulerData | null;
@@ -12,8 +16,26 @@ interface BryntumSchedulerProps {
   viewPreset?: SchedulerViewPreset;
   currentDate?: Date;
   zoomLevel?: number;
+  selectedVisitId?: string | null;
+  onSelectVisit?: (visitId: string | null) => void;
+  onEditVisit?: (visitId: string) => void;  // Double-click on a visit
+  onDeleteVisit?: (visitId: string) => void;  // Delete key or event menu
+  // A visit from the unassigned list dropped on a caregiver's row at a time
+  onAssignVisit?: (visitId: string, resourceId: string, date: Date | null) => void;
+  focusedResourceId?: string | null;
+  // Comparison mode: fixed time axis and a partner scheduler to scroll with
+  dateRange?: { startDate: Date; endDate: Date };
+  partner?: unknown;
+  onReady?: (instance: unknown) => void;
 }
 
+// Visit priority: the event's left edge and icon badge
+const PRIORITY_COLORS: Record<PriorityLevel, string> = {
+  high: "#DC2626",
+  medium: "#6366F1",
+  low: "#CBD5E1",
+};
+
 /**
  * BryntumScheduler - A React wrapper for Bryntum SchedulerPro
  */
@@ -23,6 +45,15 @@ export function BryntumScheduler({
   onEventUpdate,
   viewPreset = "dag",
   zoomLevel = 1,
+  selectedVisitId = null,
+  onSelectVisit,
+  onEditVisit,
+  onDeleteVisit,
+  onAssignVisit,
+  focusedResourceId = null,
+  dateRange,
+  partner,
+  onReady,
 }: BryntumSchedulerProps) {
   const schedulerRef = useRef<BryntumSchedulerPro | null>(null);
 
@@ -48,12 +79,28 @@ export function BryntumScheduler({
       visitId: e.visitId,
       address: e.address,
       travelTime: e.travelTime,
+      travelDistance: e.travelDistance,
+      waitTime: e.waitTime,
+      breakId: e.breakId,
+      requiredSkills: e.requiredSkills,
+      priority: e.priority,
+      skillMismatch: e.skillMismatch,
+      violations: e.violations,
+      // Travel and wait blocks follow their visit, so only visits can be moved
+      draggable: e.eventType === "visit",
+      resizable: e.eventType === "visit",
       isAdjusted: e.isAdjusted,
+      isPinned: e.isPinned,
+      change: e.change,
+      changeMinutes: e.changeMinutes,
     }));
   }, [data]);
 
   // Calculate date range from actual event data - MUCH TIGHTER range for day view
   const { startDate, endDate } = useMemo(() => {
+    // A shared range (comparison mode) keeps partnered schedulers on the same axis
+    if (dateRange) return dateRange;
+
     // Create defaults using LOCAL time (not UTC) so working hours display correctly
     const today = new Date();
     const defaultStart = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 7, 0, 0); // 7 AM local
@@ -141,7 +188,7 @@ export function BryntumScheduler({
     }
 
     return { startDate: viewStart, endDate: viewEnd };
-  }, [data, viewPreset]);
+  }, [data, viewPreset, dateRange]);
 
   // Generate a stable key based on the date range to force re-render when dates change significantly
   // This prevents Bryntum from trying to animate between incompatible date ranges
@@ -163,26 +210,125 @@ export function BryntumScheduler({
         : String(record.endDate),
       name: String(record.name || ""),
       eventType: (record.eventType as SchedulerEvent["eventType"]) || "visit",
-      status: "optimized",
+      status: (record.status as SchedulerEvent["status"]) || "optimized",
       visitId: String(record.visitId || ""),
       address: String(record.address || ""),
       isAdjusted: true,
     };
   }, []);
 
+  // Required skills the caregiver lacks in the shift at the given time
+  const getSkillMismatch = useCallback((record: Record<string, unknown>, resourceId: string, start: Date): SkillRequirement[] => {
+    const requiredSkills = (record.requiredSkills as SkillRequirement[] | undefined) ?? [];
+    const resource = data?.resources.find((r) => r.id === resourceId);
+    if (requiredSkills.length === 0 || !resource?.shifts?.length) return [];
+    const shiftId = findShiftForTime(
+      resource.shifts.map((shift) => ({ id: shift.id, startTime: shift.start, endTime: shift.end })),
+      start
+    )?.id;
+    const shift = resource.shifts.find((s) => s.id === shiftId);
+    return findMissingSkills(shift?.skills ?? [], requiredSkills);
+  }, [data]);
+
+  // Drops on an unqualified caregiver are allowed but flagged
+  const validateDrag = useCallback((context: { eventRecords?: Record<string, unknown>[]; newResource?: { id: unknown }; startDate?: Date }) => {
+    const [record] = context.eventRecords ?? [];
+    if (!record || !context.newResource || !context.startDate) return true;
+    const missing = getSkillMismatch(record, String(context.newResource.id), context.startDate);
+    return missing.length > 0
+      ? { valid: true, message: `Saknar kompetens: ${missing.map(describeSkillRequirement).join(", ")}` }
+      : true;
+  }, [getSkillMismatch]);
+
   const handleEventDrop = useCallback((event: { context?: { valid: boolean }; eventRecords?: Record<string, unknown>[] }) => {
     if (!event.context?.valid || !onEventUpdate) return;
     const eventRecords = event.eventRecords || [];
     eventRecords.forEach((record: Record<string, unknown>) => {
-      onEventUpdate(extractEventFromRecord(record));
+      const updated = extractEventFromRecord(record);
+      const skillMismatch = getSkillMismatch(record, updated.resourceId, new Date(updated.startDate));
+      onEventUpdate({ ...updated, skillMismatch: skillMismatch.length > 0 ? skillMismatch : undefined });
     });
-  }, [onEventUpdate, extractEventFromRecord]);
+  }, [onEventUpdate, extractEventFromRecord, getSkillMismatch]);
 
   const handleEventResize = useCallback((event: { eventRecord?: Record<string, unknown> }) => {
     if (!onEventUpdate || !event.eventRecord) return;
     onEventUpdate(extractEventFromRecord(event.eventRecord));
   }, [onEventUpdate, extractEventFromRecord]);
 
+  const handleEventClick = useCallback((event: { eventRecord?: Record<string, unknown> }) => {
+    if (!onSelectVisit || !event.eventRecord?.visitId) return;
+    onSelectVisit(String(event.eventRecord.visitId));
+  }, [onSelectVisit]);
+
+  const handleEventDblClick = useCallback((event: { eventRecord?: Record<string, unknown> }) => {
+    if (!onEditVisit || !event.eventRecord?.visitId) return;
+    onEditVisit(String(event.eventRecord.visitId));
+  }, [onEditVisit]);
+
+  // Deletions go through the app (so they can be undone); Bryntum never removes the event itself
+  const handleBeforeEventDelete = useCallback((event: { eventRecords?: Record<string, unknown>[] }) => {
+    (event.eventRecords ?? []).forEach((record) => {
+      if (record.eventType === "visit" && record.visitId) onDeleteVisit?.(String(record.visitId));
+    });
+    return false;
+  }, [onDeleteVisit]);
+
+  // Visits dragged from the unassigned list: accepted anywhere on the scheduler
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!onAssignVisit || !event.dataTransfer.types.includes(VISIT_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+  }, [onAssignVisit]);
+
+  // ...and assigned to the row and time they are dropped on
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    const visitId = event.dataTransfer.getData(VISIT_DRAG_TYPE);
+    const scheduler = schedulerRef.current?.instance as unknown as {
+      resolveResourceRecord: (event: Event) => Record<string, unknown> | null;
+      getDateFromDomEvent: (event: Event, roundingMethod?: string) => Date | null;
+    } | undefined;
+    if (!onAssignVisit || !visitId || !scheduler) return;
+    event.preventDefault();
+
+    const resource = scheduler.resolveResourceRecord(event.nativeEvent);
+    if (!resource?.id) return;
+    onAssignVisit(visitId, String(resource.id), scheduler.getDateFromDomEvent(event.nativeEvent, "round"));
+  }, [onAssignVisit]);
+
+  // Mirror the shared selection (e.g., from the map) into Bryntum
+  useEffect(() => {
+    const scheduler = schedulerRef.current?.instance as unknown as {
+      eventStore: { find: (fn: (record: Record<string, unknown>) => boolean) => Record<string, unknown> | null };
+      selectedEvents: Record<string, unknown>[];
+      selectEvent: (record: Record<string, unknown>) => void;
+      clearEventSelection: () => void;
+      scrollEventIntoView: (record: Record<string, unknown>, options?: Record<string, unknown>) => void;
+    } | undefined;
+    if (!scheduler) return;
+
+    if (!selectedVisitId) {
+      scheduler.clearEventSelection();
+      return;
+    }
+
+    const record = scheduler.eventStore.find((r) => r.visitId === selectedVisitId && r.eventType === "visit");
+    if (!record || scheduler.selectedEvents.includes(record)) return;
+    scheduler.selectEvent(record);
+    scheduler.scrollEventIntoView(record, { animate: true, highlight: true });
+  }, [selectedVisitId, events]);
+
+  // Scroll a resource row into view when asked to focus it
+  useEffect(() => {
+    const scheduler = schedulerRef.current?.instance as unknown as {
+      resourceStore: { getById: (id: string) => Record<string, unknown> | null };
+      scrollResourceIntoView: (record: Record<string, unknown>, options?: Record<string, unknown>) => void;
+    } | undefined;
+    if (!scheduler || !focusedResourceId) return;
+
+    const record = scheduler.resourceStore.getById(focusedResourceId);
+    if (record) scheduler.scrollResourceIntoView(record, { animate: true, highlight: true });
+  }, [focusedResourceId, resources]);
+
   const eventRenderer = useCallback((renderEvent: { 
     eventRecord: Record<string, unknown>; 
     renderData: { wrapperCls: { add: (cls: string) => void }; style: string } 
@@ -190,7 +336,23 @@ export function BryntumScheduler({
     const { eventRecord, renderData } = renderEvent;
     const status = (eventRecord.status as string) || mode;
     const isAdjusted = eventRecord.isAdjusted as boolean;
+    const isPinned = eventRecord.isPinned as boolean;
     const eventType = eventRecord.eventType as string;
+    const change = eventRecord.change as SchedulerEvent["change"];
+
+    // Travel, wait and required break blocks: muted bars with their duration (and distance)
+    const block = eventType === "break" && eventRecord.breakId ? "required-break" : eventType;
+    if (block === "travel" || block === "wait" || block === "required-break") {
+      const stripes: Record<string, [string, string]> = {
+        travel: ["#CBD5E1", "#E2E8F0"],
+        wait: ["#FDE68A", "#FEF3C7"],
+        "required-break": ["#C4B5FD", "#DDD6FE"],
+      };
+      const [dark, light] = stripes[block];
+      renderData.wrapperCls.add(`event-${block}`);
+      renderData.style = `background: repeating-linear-gradient(135deg, ${dark}, ${dark} 4px, ${light} 4px, ${light} 8px);`;
+      return `<span class="event-block-label">${formatBlockLabel(eventRecord)}</span>`;
+    }
 
     renderData.wrapperCls.add(status);
     if (isAdjusted) {
@@ -204,10 +366,34 @@ export function BryntumScheduler({
     };
 
     const color = isAdjusted ? colors.adjusted : colors[status] || colors.baseline;
-    const darkerColor = isAdjusted ? "#D97706" : (status === "optimized" ? "#0D9488" : "#64748B");
-    renderData.style = `background-color: ${color}; border-left: 3px solid ${color}dd;`;
+    const priority = eventRecord.priority as PriorityLevel | undefined;
+    const darkerColor = priority
+      ? PRIORITY_COLORS[priority]
+      : isAdjusted ? "#D97706" : (status === "optimized" ? "#0D9488" : "#64748B");
+    renderData.wrapperCls.add(`priority-${priority ?? "none"}`);
+    renderData.style = `background-color: ${color}; border-left: 4px solid ${priority ? PRIORITY_COLORS[priority] : `${color}dd`};`;
+
+    // Comparison highlights: moved to another vehicle, or shifted in time
+    const changeOutlines: Partial<Record<NonNullable<SchedulerEvent["change"]>, string>> = {
+      moved: "#8B5CF6",
+      shifted: "#F59E0B",
+      assigned: "#10B981",
+      unassigned: "#EF4444",
+    };
+    if (change && changeOutlines[change]) {
+      renderData.wrapperCls.add(`change-${change}`);
+      renderData.style += ` box-shadow: 0 0 0 2px ${changeOutlines[change]};`;
+    }
+
+    // Constraint violations: dashed outline, so comparison highlights stay visible
+    const violations = (eventRecord.violations as ScheduleViolation[] | undefined) ?? [];
+    if (violations.length > 0) {
+      renderData.wrapperCls.add("has-violation");
+      renderData.style += " outline: 2px dashed #DC2626; outline-offset: 1px;";
+    }
 
     const name = (eventRecord.name as string) || "";
+    const skillMismatch = (eventRecord.skillMismatch as SkillRequirement[] | undefined) ?? [];
 
     // Icon based on event type
     const getIcon = () => {
@@ -233,6 +419,8 @@ export function BryntumScheduler({
           ${getIcon()}
         </div>
         <span class="event-label">${name}</span>
+        ${skillMismatch.length > 0 ? `<span class="event-skill-warning" title="Saknar kompetens">!</span>` : ''}
+        ${isPinned ? `<svg viewBox="0 0 20 20" fill="currentColor" class="event-pin-indicator"><path fill-rule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clip-rule="evenodd"/></svg>` : ''}
         ${isAdjusted ? '<div class="event-adjusted-indicator"></div>' : ''}
       </div>
     `;
@@ -240,6 +428,14 @@ export function BryntumScheduler({
 
   const tooltipTemplate = useCallback((eventData: { eventRecord: Record<string, unknown> }) => {
     const event = eventData.eventRecord;
+    if (event.eventType === "travel" || event.eventType === "wait" || event.breakId) {
+      return `
+        <div class="p-2">
+          <div class="font-semibold mb-1">${event.name}</div>
+          <div class="text-sm text-gray-600">${formatBlockLabel(event)}</div>
+        </div>
+      `;
+    }
     const statusLabel = String(event.status || mode);
     return `
       <div class="p-2">
@@ -247,8 +443,15 @@ export function BryntumScheduler({
         <div class="text-sm text-gray-600 space-y-0.5">
           <div>📍 ${event.address || "No address"}</div>
           <div>🏷️ ${event.visitId || ""}</div>
+          ${event.priority ? `<div>⭐ ${getPriorityLabel(event.priority as PriorityLevel)} prioritet</div>` : ""}
           <div>📊 ${statusLabel.charAt(0).toUpperCase() + statusLabel.slice(1)}</div>
           ${event.travelTime ? `<div>🚗 ${event.travelTime} min travel</div>` : ""}
+          ${event.isPinned ? "<div>🔒 Låst vid omoptimering</div>" : ""}
+          ${(event.skillMismatch as SkillRequirement[] | undefined)?.length
+            ? `<div>⚠️ Saknar kompetens: ${(event.skillMismatch as SkillRequirement[]).map(describeSkillRequirement).join(", ")}</div>`
+            : ""}
+          ${((event.violations as ScheduleViolation[] | undefined) ?? []).map(getViolationLabel).join("")}
+          ${getChangeLabel(event.change as SchedulerEvent["change"], event.changeMinutes as number | undefined)}
         </div>
       </div>
     `;
@@ -298,11 +501,14 @@ export function BryntumScheduler({
       eventDrag: {
         constrainDragToResource: false,
         showExactDropPosition: true,
+        validatorFn: validateDrag,
       },
       eventResize: true,
       eventTooltip: {
         template: tooltipTemplate,
       },
+      // Visits are edited in the app's detail panel instead
+      taskEdit: false,
       nonWorkingTime: false,
       timeRanges: false,
       dependencies: false,
@@ -317,15 +523,77 @@ export function BryntumScheduler({
     events,
     onEventDrop: handleEventDrop,
     onEventResizeEnd: handleEventResize,
+    onEventClick: handleEventClick,
+    onEventDblClick: handleEventDblClick,
+    onBeforeEventDelete: handleBeforeEventDelete,
+    ...(partner ? { partner } : {}),
   } as unknown as BryntumSchedulerProProps;
 
+  // Expose the instance so a comparison partner can be attached to it
+  useEffect(() => {
+    const instance = schedulerRef.current?.instance;
+    if (instance) onReady?.(instance);
+  }, [schedulerKey, onReady]);
+
   return (
-    <BryntumSchedulerPro
-      key={schedulerKey}
-      ref={schedulerRef}
-      {...schedulerProps}
-    />
+    <div className="h-full w-full" onDragOver={handleDragOver} onDrop={handleDrop}>
+      <BryntumSchedulerPro
+        key={schedulerKey}
+        ref={schedulerRef}
+        {...schedulerProps}
+      />
+    </div>
   );
 }
 
+/**
+ * Duration (and distance for travel) of a travel, wait or break block
+ */
+function formatBlockLabel(record: Record<string, unknown>): string {
+  if (record.eventType === "wait") return `${record.waitTime ?? 0} min`;
+  if (record.eventType === "break") {
+    const minutes = (new Date(record.endDate as Date).getTime() - new Date(record.startDate as Date).getTime()) / 60000;
+    return `Rast ${Math.round(minutes)} min`;
+  }
+  const km = ((record.travelDistance as number | undefined) ?? 0) / 1000;
+  return `${record.travelTime ?? 0} min · ${km.toFixed(1)} km`;
+}
+
+/**
+ * Tooltip line describing a comparison change
+ */
+function getChangeLabel(change: SchedulerEvent["change"], minutes = 0): string {
+  const signed = `${minutes > 0 ? "+" : ""}${minutes} min`;
+  switch (change) {
+    case "moved":
+      return `<div>🔀 Flyttad till annan personal (${signed})</div>`;
+    case "shifted":
+      return `<div>⏱️ Förskjuten ${signed}</div>`;
+    case "assigned":
+      return `<div>✅ Tilldelad efter optimering</div>`;
+    case "unassigned":
+      return `<div>⚠️ Ej tilldelad efter optimering</div>`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Tooltip line describing a constraint violation
+ */
+function getViolationLabel(violation: ScheduleViolation): string {
+  switch (violation.kind) {
+    case "late":
+      return `<div>⛔ Sen start: ${violation.minutes} min efter tidsfönstret</div>`;
+    case "early":
+      return `<div>⛔ Tidig start: ${violation.minutes} min före tidsfönstret</div>`;
+    case "overtime":
+      return `<div>⛔ Övertid: ${violation.minutes} min utanför passet</div>`;
+    case "overlap":
+      return `<div>⛔ Överlappar ${violation.otherName || "annat besök"} (${violation.minutes} min)</div>`;
+    default:
+      return "";
+  }
+}
+
 export default BryntumScheduler;
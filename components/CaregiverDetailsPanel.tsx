@@ -0,0 +1,232 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fromDateTimeInput, toDateTimeInput } from "@/lib/modelEdits";
+import { getVehicleSkillNames } from "@/lib/skills";
+import type { Shift, ValidationFinding, Vehicle } from "@/lib/types";
+
+interface CaregiverDetailsPanelProps {
+  vehicle: Vehicle;
+  availableSkills: string[];   // Skills offered as toggles (caregivers' and visits')
+  // Applies the edited caregiver; returns its validation findings (errors block the edit)
+  onSave: (vehicle: Vehicle) => ValidationFinding[];
+  onClose: () => void;
+}
+
+interface Draft {
+  name: string;
+  skills: string[];
+  shifts: { id: string; start: string; end: string }[];  // datetime-local values
+}
+
+/**
+ * Form values (as typed) for a caregiver
+ */
+function toDraft(vehicle: Vehicle): Draft {
+  return {
+    name: vehicle.name ?? "",
+    skills: getVehicleSkillNames(vehicle),
+    shifts: vehicle.shifts.map((shift) => ({
+      id: shift.id,
+      start: toDateTimeInput(shift.minStartTime ?? shift.startTime),
+      end: toDateTimeInput(shift.maxEndTime ?? shift.endTime),
+    })),
+  };
+}
+
+/**
+ * A shift with the edited times, written to the keys the shift already
+ * used (local startTime/endTime or Timefold minStartTime/maxEndTime)
+ */
+function withShiftTimes(shift: Shift, draft: { start: string; end: string }): Shift {
+  const local = shift.startTime !== undefined || shift.endTime !== undefined;
+  const startKey = local ? "startTime" : "minStartTime";
+  const endKey = local ? "endTime" : "maxEndTime";
+  const edited: Shift = { ...shift };
+  const start = fromDateTimeInput(draft.start, shift[startKey]);
+  const end = fromDateTimeInput(draft.end, shift[endKey]);
+  delete edited[startKey];
+  delete edited[endKey];
+  if (start) edited[startKey] = start;
+  if (end) edited[endKey] = end;
+  return edited;
+}
+
+/**
+ * CaregiverDetailsPanel Component
+ *
+ * Detail panel for one caregiver (vehicle) of the loaded model input,
+ * opened by double-clicking them in the team panel. Name, skills and
+ * shift times can be edited; the edit is validated before it is applied.
+ *
+ * Skills stay where the dataset keeps them: removed skills are taken off
+ * the vehicle and its shifts, added ones go on the vehicle's skill list,
+ * or on every shift when the dataset only lists skills per shift.
+ */
+export function CaregiverDetailsPanel({ vehicle, availableSkills, onSave, onClose }: CaregiverDetailsPanelProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(vehicle));
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [findings, setFindings] = useState<ValidationFinding[]>([]);
+
+  useEffect(() => {
+    setDraft(toDraft(vehicle));
+  }, [vehicle]);
+
+  const skillOptions = Array.from(new Set([...availableSkills, ...draft.skills])).sort();
+
+  const toggleSkill = (skill: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      skills: prev.skills.includes(skill) ? prev.skills.filter((s) => s !== skill) : [...prev.skills, skill],
+    }));
+  };
+
+  const updateShift = (index: number, field: "start" | "end", value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      shifts: prev.shifts.map((shift, i) => (i === index ? { ...shift, [field]: value } : shift)),
+    }));
+  };
+
+  const handleSave = () => {
+    setFindings([]);
+    if (draft.shifts.some((shift) => !shift.start || !shift.end)) {
+      setMessage({ text: "Varje arbetspass behöver start och slut", error: true });
+      return;
+    }
+    if (draft.shifts.some((shift) => shift.end <= shift.start)) {
+      setMessage({ text: "Ett arbetspass slutar innan det börjar", error: true });
+      return;
+    }
+
+    const kept = new Set(draft.skills);
+    const current = new Set(getVehicleSkillNames(vehicle));
+    const added = draft.skills.filter((skill) => !current.has(skill));
+    const perShift = !vehicle.skills && vehicle.shifts.some((shift) => shift.skills);
+
+    const edited: Vehicle = {
+      ...vehicle,
+      name: draft.name.trim(),
+      shifts: vehicle.shifts.map((shift, index) => {
+        const withTimes = withShiftTimes(shift, draft.shifts[index]);
+        if (!shift.skills && !perShift) return withTimes;
+        return {
+          ...withTimes,
+          skills: [
+            ...(shift.skills ?? []).filter((skill) => kept.has(skill.name)),
+            ...(perShift ? added.map((name) => ({ name })) : []),
+          ],
+        };
+      }),
+    };
+    if (vehicle.skills || !perShift) {
+      edited.skills = [...(vehicle.skills ?? []).filter((skill) => kept.has(skill)), ...added];
+      if (edited.skills.length === 0 && !vehicle.skills) delete edited.skills;
+    }
+    if (!edited.name) delete edited.name;
+
+    const result = onSave(edited);
+    setFindings(result);
+    setMessage(result.some((finding) => finding.severity === "error")
+      ? { text: "Ändringen sparades inte:", error: true }
+      : { text: result.length > 0 ? "Ändringen sparades med varningar:" : "Ändringen sparades" });
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all";
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-slate-500 font-mono">{vehicle.id}</div>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Namn</span>
+        <input
+          type="text"
+          value={draft.name}
+          placeholder={vehicle.id}
+          onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+          className={inputClass}
+        />
+      </label>
+
+      <div>
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Arbetspass</span>
+        <div className="space-y-2">
+          {draft.shifts.map((shift, index) => (
+            <div key={shift.id} className="p-3 bg-slate-50 rounded-xl space-y-2">
+              <div className="text-xs text-slate-500 font-mono">{shift.id}</div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="datetime-local"
+                  value={shift.start}
+                  onChange={(e) => updateShift(index, "start", e.target.value)}
+                  aria-label="Start"
+                  className={`${inputClass} bg-white`}
+                />
+                <input
+                  type="datetime-local"
+                  value={shift.end}
+                  onChange={(e) => updateShift(index, "end", e.target.value)}
+                  aria-label="Slut"
+                  className={`${inputClass} bg-white`}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {skillOptions.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium text-slate-700 mb-1.5">Kompetenser</span>
+          <div className="flex flex-wrap gap-2">
+            {skillOptions.map((skill) => (
+              <button
+                key={skill}
+                type="button"
+                onClick={() => toggleSkill(skill)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                  draft.skills.includes(skill)
+                    ? "bg-brand-50 text-brand-700 border-brand-200 ring-2 ring-offset-1 ring-brand-500"
+                    : "bg-white text-slate-500 border-slate-200 hover:bg-slate-50"
+                }`}
+              >
+                {skill}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className={`text-xs ${message.error ? "text-red-600" : "text-emerald-600"}`}>
+          <p>{message.text}</p>
+          {findings.length > 0 && (
+            <ul className="mt-1 space-y-0.5 list-disc pl-4">
+              {findings.map((finding, index) => (
+                <li key={index} className={finding.severity === "error" ? "text-red-600" : "text-amber-600"}>
+                  {finding.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onClose}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+        >
+          Stäng
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-brand-500 hover:bg-brand-600 rounded-xl transition-colors"
+        >
+          Spara
+        </button>
+      </div>
+    </div>
+  );
+}
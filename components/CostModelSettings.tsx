@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { DEFAULT_COST_MODEL } from "@/lib/costModel";
+import type { CostModel, Vehicle } from "@/lib/types";
+
+interface CostModelSettingsProps {
+  costModel: CostModel;
+  vehicles: Vehicle[];
+  datasetName?: string;
+  onSave: (costModel: CostModel) => Promise<void>;
+}
+
+type DraftField = "hourlyRate" | "regularHoursPerShift" | "overtimeMultiplier" | "costPerKm" | "fixedCostPerVehicle" | "unassignedVisitPenalty";
+
+const FIELDS: { id: DraftField; label: string; unit: string; step: string }[] = [
+  { id: "hourlyRate", label: "Timkostnad", unit: "kr/h", step: "10" },
+  { id: "regularHoursPerShift", label: "Ordinarie tid per pass", unit: "h", step: "0.5" },
+  { id: "overtimeMultiplier", label: "Övertidsfaktor", unit: "×", step: "0.1" },
+  { id: "costPerKm", label: "Milkostnad", unit: "kr/km", step: "0.5" },
+  { id: "fixedCostPerVehicle", label: "Fast kostnad per personal", unit: "kr", step: "50" },
+  { id: "unassignedVisitPenalty", label: "Straff per ej tilldelat besök", unit: "kr", step: "50" },
+];
+
+/**
+ * Form values (as typed) for a cost model
+ */
+function toDraft(costModel: CostModel): { fields: Record<DraftField, string>; rates: Record<string, string> } {
+  return {
+    fields: {
+      hourlyRate: String(costModel.hourlyRate),
+      regularHoursPerShift: String(costModel.regularMinutesPerShift / 60),
+      overtimeMultiplier: String(costModel.overtimeMultiplier),
+      costPerKm: String(costModel.costPerKm),
+      fixedCostPerVehicle: String(costModel.fixedCostPerVehicle),
+      unassignedVisitPenalty: String(costModel.unassignedVisitPenalty),
+    },
+    rates: Object.fromEntries(Object.entries(costModel.vehicleHourlyRates).map(([id, rate]) => [id, String(rate)])),
+  };
+}
+
+/**
+ * CostModelSettings Component
+ *
+ * Settings section for the loaded dataset's cost model: default hourly rate
+ * with per-caregiver overrides, overtime, mileage, fixed and unassigned
+ * visit costs. Saved per dataset on the server.
+ */
+export function CostModelSettings({ costModel, vehicles, datasetName, onSave }: CostModelSettingsProps) {
+  const [draft, setDraft] = useState(() => toDraft(costModel));
+  const [showRates, setShowRates] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(costModel));
+  }, [costModel]);
+
+  const handleSave = async () => {
+    const values = Object.fromEntries(
+      Object.entries(draft.fields).map(([field, value]) => [field, Number(value)])
+    ) as Record<DraftField, number>;
+    const rates = Object.entries(draft.rates).filter(([, value]) => value.trim() !== "");
+    const amounts = [...Object.values(values), ...rates.map(([, value]) => Number(value))];
+    if (Object.values(draft.fields).some((value) => value.trim() === "") || amounts.some((amount) => !isFinite(amount) || amount < 0)) {
+      setMessage({ text: "Alla belopp måste vara positiva tal", error: true });
+      return;
+    }
+    if (values.overtimeMultiplier < 1) {
+      setMessage({ text: "Övertidsfaktorn måste vara minst 1", error: true });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSave({
+        hourlyRate: values.hourlyRate,
+        vehicleHourlyRates: Object.fromEntries(rates.map(([id, value]) => [id, Number(value)])),
+        regularMinutesPerShift: Math.round(values.regularHoursPerShift * 60),
+        overtimeMultiplier: values.overtimeMultiplier,
+        costPerKm: values.costPerKm,
+        fixedCostPerVehicle: values.fixedCostPerVehicle,
+        unassignedVisitPenalty: values.unassignedVisitPenalty,
+      });
+      setMessage({ text: "Kostnadsmodellen sparades" });
+    } catch (error) {
+      setMessage({ text: `Kunde inte spara: ${error instanceof Error ? error.message : "okänt fel"}`, error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Kostnadsmodell</h3>
+        {datasetName && <p className="text-xs text-slate-500 mt-0.5">Gäller {datasetName}</p>}
+      </div>
+
+      <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+        {FIELDS.map((field) => (
+          <label key={field.id} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-slate-700">{field.label}</span>
+            <span className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min="0"
+                step={field.step}
+                value={draft.fields[field.id]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, fields: { ...prev.fields, [field.id]: e.target.value } }))}
+                className="w-24 text-sm text-right bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-brand-500"
+              />
+              <span className="w-10 text-xs text-slate-500">{field.unit}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {vehicles.length > 0 && (
+        <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+          <button
+            onClick={() => setShowRates((prev) => !prev)}
+            className="w-full flex items-center justify-between text-sm text-slate-700"
+          >
+            <span>Timkostnad per personal</span>
+            <svg className={`w-4 h-4 text-slate-400 transition-transform ${showRates ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {showRates && vehicles.map((vehicle) => (
+            <label key={vehicle.id} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-slate-600 truncate">{vehicle.name || vehicle.id}</span>
+              <span className="flex items-center gap-1.5">
+                <input
+                  type="number"
+                  min="0"
+                  step="10"
+                  placeholder={draft.fields.hourlyRate}
+                  value={draft.rates[vehicle.id] ?? ""}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, rates: { ...prev.rates, [vehicle.id]: e.target.value } }))}
+                  className="w-24 text-sm text-right bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-brand-500"
+                />
+                <span className="w-10 text-xs text-slate-500">kr/h</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-xs ${message.error ? "text-red-600" : "text-emerald-600"}`}>{message.text}</p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => setDraft(toDraft(DEFAULT_COST_MODEL))}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+        >
+          Standardvärden
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-brand-500 hover:bg-brand-600 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          {saving ? "Sparar..." : "Spara"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { findBlockingCommand, type EditCommand, type EditKind } from "@/lib/editHistory";
+
+interface EditHistoryPanelProps {
+  log: EditCommand[];          // Applied edits, oldest first
+  redoStack: EditCommand[];    // Undone edits, most recently undone last
+  onUndo: () => void;
+  onRedo: () => void;
+  onRevert: (commandId: string) => void;
+}
+
+const KIND_LABELS: Record<EditKind, string> = {
+  move: "Flytt",
+  resize: "Längd",
+  reassign: "Ny personal",
+  assign: "Tilldelat",
+  create: "Nytt besök",
+  delete: "Borttaget",
+  "edit-visit": "Besök",
+  "edit-caregiver": "Personal",
+  revert: "Ångrad",
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("sv-SE", { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+/**
+ * EditHistoryPanel Component
+ *
+ * The change log of manual edits to the loaded schedules, newest first.
+ * Ctrl+Z / Ctrl+Shift+Z step through it; any single edit can be reverted
+ * unless a later edit changed the same visit or caregiver.
+ */
+export function EditHistoryPanel({ log, redoStack, onUndo, onRedo, onRevert }: EditHistoryPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <button
+          onClick={onUndo}
+          disabled={log.length === 0}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          Ångra <span className="text-xs text-slate-400">Ctrl+Z</span>
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={redoStack.length === 0}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          Gör om <span className="text-xs text-slate-400">Ctrl+Shift+Z</span>
+        </button>
+      </div>
+
+      {log.length === 0 && redoStack.length === 0 ? (
+        <p className="text-sm text-slate-400 text-center py-8">Inga ändringar ännu</p>
+      ) : (
+        <ul className="space-y-2">
+          {redoStack.map((command) => (
+            <li key={command.id} className="flex items-center gap-3 p-3 rounded-xl border border-dashed border-slate-200 opacity-60">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-slate-500 line-through truncate">{command.label}</div>
+                <div className="text-[10px] text-slate-400">Ångrad – kan göras om</div>
+              </div>
+            </li>
+          ))}
+          {[...log].reverse().map((command) => {
+            const blocking = findBlockingCommand(log, command);
+            return (
+              <li key={command.id} className="flex items-center gap-3 p-3 bg-slate-50 rounded-xl">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-slate-900 truncate" title={command.label}>{command.label}</div>
+                  <div className="text-[10px] text-slate-400">
+                    <span className="font-semibold uppercase tracking-wider">{KIND_LABELS[command.kind]}</span>
+                    {" · "}
+                    {formatTime(command.createdAt)}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRevert(command.id)}
+                  disabled={!!blocking}
+                  title={blocking ? `Ångra först: ${blocking.label}` : "Ångra den här ändringen"}
+                  className="shrink-0 px-2.5 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 disabled:opacity-40 disabled:cursor-not-allowed rounded-lg transition-colors"
+                >
+                  Ångra
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -51,14 +51,14 @@ export function FilterBar({
     return {
       oplanerad: currentView === "baseline" ? Math.round((baselineCount / Math.max(total, 1)) * 100) : 0,
       planerad: currentView === "baseline" ? 100 : Math.round(((kpis.assignedVisitsOptimized || 0) / Math.max(kpis.totalVisitsOptimized || 1, 1)) * 100),
-      optimerad: currentView === "optimized" ? Math.round(kpis.avgUtilizationOptimized || 0) : 0,
+      optimerad: currentView !== "baseline" ? Math.round(kpis.avgUtilizationOptimized || 0) : 0,
       utford: adjustedCount > 0 ? Math.round((adjustedCount / Math.max(total, 1)) * 100) : 0,
       total,
     };
   }, [scheduleData, kpis, currentView]);
 
   // Dynamic utilization percentage
-  const utilization = currentView === "optimized" 
+  const utilization = currentView !== "baseline" 
     ? kpis?.avgUtilizationOptimized 
     : kpis?.avgUtilizationBaseline;
 
@@ -106,7 +106,7 @@ export function FilterBar({
       <div className="flex items-center bg-emerald-50 border border-emerald-200 rounded-lg px-2 sm:px-3 py-1.5 gap-1.5 sm:gap-2 shrink-0">
         <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse" />
         <span className="text-[10px] sm:text-xs font-bold text-emerald-800 uppercase tracking-wide hidden xs:inline">
-          {currentView === "optimized" ? "Optimerad" : "Baseline"}
+          {currentView === "compare" ? "Jämför" : currentView === "optimized" ? "Optimerad" : "Baseline"}
         </span>
         <span className="bg-white px-1.5 rounded text-emerald-700 text-[10px] sm:text-xs font-bold shadow-sm">
           {utilization || 0}%
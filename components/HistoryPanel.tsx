@@ -0,0 +1,166 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { StoredRoutePlanSummary } from "@/lib/types";
+
+interface HistoryPanelProps {
+  onOpen: (id: string) => void;
+  openingId?: string | null;
+  // Offered for completed plans of this dataset
+  currentDatasetId?: string;
+  onUseAsBaseline?: (id: string) => void;
+}
+
+/**
+ * HistoryPanel Component
+ *
+ * Lists earlier optimizations stored by the server and lets the user
+ * reopen one in the scheduler, or use one of the loaded dataset's plans as
+ * its baseline.
+ */
+export function HistoryPanel({ onOpen, openingId = null, currentDatasetId, onUseAsBaseline }: HistoryPanelProps) {
+  const [routePlans, setRoutePlans] = useState<StoredRoutePlanSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/route-plans");
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || "Failed to load history");
+      }
+      setRoutePlans(data.routePlans);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin w-6 h-6 border-2 border-brand-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm text-red-600 mb-3">{error}</p>
+        <button
+          onClick={loadHistory}
+          className="px-3 py-1.5 text-sm font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50"
+        >
+          Försök igen
+        </button>
+      </div>
+    );
+  }
+
+  if (routePlans.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <svg className="w-12 h-12 mx-auto mb-3 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <p>Inga tidigare optimeringar</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between mb-4">
+        <span className="text-sm text-slate-500">{routePlans.length} optimeringar</span>
+        <button
+          onClick={loadHistory}
+          className="text-xs font-medium text-brand-600 hover:text-brand-700"
+        >
+          Uppdatera
+        </button>
+      </div>
+
+      {routePlans.map((plan) => (
+        <div
+          key={plan.id}
+          className="p-3 bg-slate-50 rounded-xl border border-slate-100"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <div className="font-medium text-slate-900 text-sm truncate">
+                {plan.datasetId || "Okänt dataset"}
+              </div>
+              <div className="text-xs text-slate-500">
+                {new Date(plan.createdAt).toLocaleString("sv-SE", {
+                  dateStyle: "short",
+                  timeStyle: "short",
+                })}
+                {plan.terminationLimit && ` • ${plan.terminationLimit}`}
+              </div>
+            </div>
+            <StatusBadge status={plan.solverStatus} />
+          </div>
+
+          <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500">
+            <span>{plan.vehicleCount} personal</span>
+            <span>{plan.visitCount} besök</span>
+            {plan.unassignedVisits !== undefined && (
+              <span className={plan.unassignedVisits > 0 ? "text-red-600" : ""}>
+                {plan.unassignedVisits} ej tilldelade
+              </span>
+            )}
+            {plan.score && <span className="font-mono">{plan.score}</span>}
+          </div>
+
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={() => onOpen(plan.id)}
+              disabled={openingId !== null}
+              className="flex-1 px-3 py-1.5 text-sm font-medium text-brand-700 bg-white border border-brand-200 rounded-lg hover:bg-brand-50 disabled:opacity-50 transition-colors"
+            >
+              {openingId === plan.id ? "Öppnar..." : "Öppna"}
+            </button>
+            {onUseAsBaseline && plan.completedAt && plan.datasetId && plan.datasetId === currentDatasetId && (
+              <button
+                onClick={() => onUseAsBaseline(plan.id)}
+                disabled={openingId !== null}
+                className="flex-1 px-3 py-1.5 text-sm font-medium text-slate-600 bg-white border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-50 transition-colors"
+              >
+                Använd som baseline
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: StoredRoutePlanSummary["solverStatus"] }) {
+  const styles: Record<string, { label: string; className: string }> = {
+    SOLVING_COMPLETED: { label: "Klar", className: "bg-emerald-100 text-emerald-700" },
+    SOLVING_INCOMPLETE: { label: "Avbruten", className: "bg-amber-100 text-amber-700" },
+    SOLVING_ACTIVE: { label: "Pågår", className: "bg-blue-100 text-blue-700" },
+    SOLVING_SCHEDULED: { label: "Köad", className: "bg-blue-100 text-blue-700" },
+    SOLVING_FAILED: { label: "Misslyckad", className: "bg-red-100 text-red-700" },
+    DATASET_INVALID: { label: "Ogiltig", className: "bg-red-100 text-red-700" },
+  };
+  const style = styles[status] || { label: status, className: "bg-slate-100 text-slate-600" };
+
+  return (
+    <span className={`shrink-0 px-2 py-0.5 rounded-full text-[10px] font-semibold ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,381 @@
+"use client";
+
+import { useState } from "react";
+import {
+  IMPORT_FIELDS,
+  type ImportColumnMapping,
+  type ImportRowError,
+  type ImportSheetKind,
+} from "@/lib/datasetImport";
+import type { TimefoldDemoDataMeta } from "@/lib/types";
+
+interface ImportWizardProps {
+  onClose: () => void;
+  onImported: (dataset: TimefoldDemoDataMeta) => void;
+}
+
+type WizardStep = "files" | "mapping" | "review";
+
+interface SheetPreview {
+  fileName: string;
+  headers: string[];
+  rowCount: number;
+  sampleRows: string[][];
+  suggestedMapping: ImportColumnMapping;
+}
+
+interface ImportSummary {
+  rowCounts: Record<ImportSheetKind, number>;
+  vehicleCount: number;
+  shiftCount: number;
+  visitCount: number;
+}
+
+const SHEET_LABELS: Record<ImportRowError["sheet"], string> = {
+  visits: "Besök",
+  staff: "Personal",
+  schedule: "Schema",
+};
+
+const UTC_OFFSETS = ["+01:00", "+02:00", "Z"];
+
+/**
+ * ImportWizard Component
+ *
+ * Three-step modal for importing a dataset from spreadsheets: choose the
+ * visit and staff files, map their columns to model fields, then review
+ * the row errors and import.
+ */
+export function ImportWizard({ onClose, onImported }: ImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>("files");
+  const [files, setFiles] = useState<Partial<Record<ImportSheetKind, File>>>({});
+  const [name, setName] = useState("");
+  const [utcOffset, setUtcOffset] = useState(UTC_OFFSETS[0]);
+  const [previews, setPreviews] = useState<Record<ImportSheetKind, SheetPreview> | null>(null);
+  const [mappings, setMappings] = useState<Record<ImportSheetKind, ImportColumnMapping>>({ visits: {}, staff: {} });
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = async (action: "preview" | "validate" | "import", skipInvalidRows = false) => {
+    const formData = new FormData();
+    formData.append("action", action);
+    formData.append("visits", files.visits!);
+    formData.append("staff", files.staff!);
+    formData.append("name", name);
+    formData.append("utcOffset", utcOffset);
+    formData.append("mappings", JSON.stringify(mappings));
+    formData.append("skipInvalidRows", String(skipInvalidRows));
+
+    const response = await fetch("/api/datasets/import", { method: "POST", body: formData });
+    return response.json();
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Importen misslyckades");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadPreview = () => run(async () => {
+    const data = await post("preview");
+    if (!data.success) throw new Error(data.error || "Kunde inte läsa filerna");
+    setPreviews(data.sheets);
+    setMappings({
+      visits: data.sheets.visits.suggestedMapping,
+      staff: data.sheets.staff.suggestedMapping,
+    });
+    if (!name) setName(files.visits!.name.replace(/\.\w+$/, ""));
+    setStep("mapping");
+  });
+
+  const validate = () => run(async () => {
+    const data = await post("validate");
+    if (!data.success) throw new Error(data.error || "Valideringen misslyckades");
+    setRowErrors(data.errors);
+    setSummary(data.summary);
+    setStep("review");
+  });
+
+  const importDataset = (skipInvalidRows: boolean) => run(async () => {
+    const data = await post("import", skipInvalidRows);
+    if (!data.success) {
+      if (data.errors) setRowErrors(data.errors);
+      throw new Error(data.error || "Importen misslyckades");
+    }
+    onImported(data.dataset);
+  });
+
+  const invalidRowCount = new Set(rowErrors.map((rowError) => `${rowError.sheet}:${rowError.rowNumber}`)).size;
+  const hasValidRows = !!summary && summary.visitCount > 0 && summary.vehicleCount > 0;
+
+  return (
+    <div className="fixed inset-0 z-[100]">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm animate-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-4 sm:inset-auto sm:top-1/2 sm:left-1/2 sm:-translate-x-1/2 sm:-translate-y-1/2 sm:w-full sm:max-w-2xl bg-white rounded-2xl shadow-2xl animate-fade-in flex flex-col max-h-[90vh]">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-brand-100 rounded-xl flex items-center justify-center">
+              <svg className="w-5 h-5 text-brand-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+              </svg>
+            </div>
+            <div>
+              <h2 className="font-display font-bold text-slate-900 text-lg">Importera dataset</h2>
+              <p className="text-xs text-slate-500">
+                {step === "files" && "Steg 1 av 3 – Välj filer"}
+                {step === "mapping" && "Steg 2 av 3 – Koppla kolumner"}
+                {step === "review" && "Steg 3 av 3 – Granska och importera"}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="px-4 py-3 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {step === "files" && (
+            <>
+              {(["visits", "staff"] as ImportSheetKind[]).map((sheet) => (
+                <div key={sheet}>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">
+                    {SHEET_LABELS[sheet]} (CSV eller XLSX) <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="file"
+                    accept=".csv,.txt,.xlsx"
+                    onChange={(e) => setFiles({ ...files, [sheet]: e.target.files?.[0] })}
+                    className="w-full text-sm text-slate-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-brand-50 file:text-brand-700 file:font-medium hover:file:bg-brand-100"
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-slate-500">
+                Besöksfilen behöver namn, besökstid och koordinater. Personalfilen behöver namn,
+                passets start och slut samt startplatsens koordinater. Personal med samma ID får ett pass per rad.
+              </p>
+            </>
+          )}
+
+          {step === "mapping" && previews && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">Datasetnamn</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1.5">Tidszon (UTC-offset)</label>
+                  <select
+                    value={utcOffset}
+                    onChange={(e) => setUtcOffset(e.target.value)}
+                    className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all bg-white"
+                  >
+                    {UTC_OFFSETS.map((offset) => (
+                      <option key={offset} value={offset}>{offset === "Z" ? "UTC" : offset}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {(["visits", "staff"] as ImportSheetKind[]).map((sheet) => (
+                <div key={sheet} className="rounded-xl border border-slate-100 p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-slate-900 text-sm">{SHEET_LABELS[sheet]}</h3>
+                    <span className="text-xs text-slate-500">
+                      {previews[sheet].fileName} • {previews[sheet].rowCount} rader
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2">
+                    {IMPORT_FIELDS[sheet].map((field) => (
+                      <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-slate-600">
+                        <span>
+                          {field.label}
+                          {field.required && <span className="text-red-500"> *</span>}
+                        </span>
+                        <select
+                          value={mappings[sheet][field.key] ?? ""}
+                          onChange={(e) => setMappings({
+                            ...mappings,
+                            [sheet]: { ...mappings[sheet], [field.key]: e.target.value || undefined },
+                          })}
+                          className="w-40 px-2 py-1 rounded-lg border border-slate-200 text-xs bg-white"
+                        >
+                          <option value="">– Ingen –</option>
+                          {previews[sheet].headers.map((header) => (
+                            <option key={header} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                  {previews[sheet].sampleRows.length > 0 && (
+                    <div className="mt-3 overflow-x-auto">
+                      <table className="text-[11px] text-slate-600 w-full">
+                        <thead>
+                          <tr>
+                            {previews[sheet].headers.map((header) => (
+                              <th key={header} className="text-left font-semibold px-2 py-1 bg-slate-50 whitespace-nowrap">{header}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {previews[sheet].sampleRows.map((row, index) => (
+                            <tr key={index} className="border-t border-slate-50">
+                              {row.map((cell, cellIndex) => (
+                                <td key={cellIndex} className="px-2 py-1 whitespace-nowrap">{cell}</td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+
+          {step === "review" && summary && (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <SummaryTile label="Besök" value={summary.visitCount} total={summary.rowCounts.visits} />
+                <SummaryTile label="Personal" value={summary.vehicleCount} />
+                <SummaryTile label="Pass" value={summary.shiftCount} total={summary.rowCounts.staff} />
+              </div>
+
+              {rowErrors.length === 0 ? (
+                <div className="px-4 py-3 rounded-xl bg-emerald-50 border border-emerald-100 text-sm text-emerald-700">
+                  Alla rader är giltiga.
+                </div>
+              ) : (
+                <div>
+                  <div className="text-sm font-medium text-slate-700 mb-2">
+                    {rowErrors.length} fel på {invalidRowCount} rader
+                  </div>
+                  <div className="max-h-64 overflow-y-auto rounded-xl border border-red-100">
+                    <table className="w-full text-xs">
+                      <thead className="bg-red-50 text-red-700 sticky top-0">
+                        <tr>
+                          <th className="text-left px-3 py-2">Fil</th>
+                          <th className="text-left px-3 py-2">Rad</th>
+                          <th className="text-left px-3 py-2">Kolumn</th>
+                          <th className="text-left px-3 py-2">Fel</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {rowErrors.map((rowError, index) => (
+                          <tr key={index} className="border-t border-red-50 text-slate-600">
+                            <td className="px-3 py-1.5">{SHEET_LABELS[rowError.sheet]}</td>
+                            <td className="px-3 py-1.5 font-mono">{rowError.rowNumber}</td>
+                            <td className="px-3 py-1.5">{rowError.column || "–"}</td>
+                            <td className="px-3 py-1.5">{rowError.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-100">
+          <button
+            onClick={() => (step === "files" ? onClose() : setStep(step === "review" ? "mapping" : "files"))}
+            disabled={isBusy}
+            className="px-4 py-2 text-sm font-medium text-slate-600 border border-slate-200 rounded-xl hover:bg-slate-50 disabled:opacity-50"
+          >
+            {step === "files" ? "Avbryt" : "Tillbaka"}
+          </button>
+
+          <div className="flex gap-2">
+            {step === "files" && (
+              <button
+                onClick={loadPreview}
+                disabled={isBusy || !files.visits || !files.staff}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-xl hover:bg-brand-700 disabled:opacity-50"
+              >
+                {isBusy ? "Läser filer..." : "Nästa"}
+              </button>
+            )}
+            {step === "mapping" && (
+              <button
+                onClick={validate}
+                disabled={isBusy}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-xl hover:bg-brand-700 disabled:opacity-50"
+              >
+                {isBusy ? "Validerar..." : "Validera"}
+              </button>
+            )}
+            {step === "review" && rowErrors.length > 0 && (
+              <button
+                onClick={() => importDataset(true)}
+                disabled={isBusy || !hasValidRows}
+                className="px-4 py-2 text-sm font-semibold text-amber-700 bg-amber-50 border border-amber-200 rounded-xl hover:bg-amber-100 disabled:opacity-50"
+              >
+                Importera giltiga rader
+              </button>
+            )}
+            {step === "review" && (
+              <button
+                onClick={() => importDataset(false)}
+                disabled={isBusy || rowErrors.length > 0}
+                className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-xl hover:bg-brand-700 disabled:opacity-50"
+              >
+                {isBusy ? "Importerar..." : "Importera"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryTile({ label, value, total }: { label: string; value: number; total?: number }) {
+  return (
+    <div className="p-3 rounded-xl bg-slate-50 border border-slate-100 text-center">
+      <div className="text-xl font-bold text-slate-900">{value}</div>
+      <div className="text-[11px] text-slate-500">
+        {label}
+        {total !== undefined && ` (av ${total} rader)`}
+      </div>
+    </div>
+  );
+}
+
+export default ImportWizard;
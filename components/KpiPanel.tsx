@@ -2,13 +2,36 @@
 
 import { useState } from "react";
 import { formatMinutesToDuration } from "@/lib/mapping";
-import type { KpiSummary, ViewMode } from "@/lib/types";
+import { PRIORITY_LEVELS } from "@/lib/priority";
+import type { CostBreakdown, KpiSource, KpiSummary, SolverStatus, ViewMode, ViolationKind } from "@/lib/types";
+
+const VIEW_OPTIONS: { id: ViewMode; label: string }[] = [
+  { id: "baseline", label: "Baseline" },
+  { id: "optimized", label: "Optimerad" },
+  { id: "compare", label: "Jämför" },
+];
+
+const SOURCE_BADGES: Record<KpiSource, { label: string; title: string; className: string }> = {
+  solver: { label: "Solver", title: "Rapporterat av optimeraren", className: "bg-brand-100 text-brand-700" },
+  computed: { label: "Beräknad", title: "Beräknad från planerade tider", className: "bg-slate-100 text-slate-600" },
+  estimated: { label: "Uppskattad", title: "Uppskattad från restidsberäkningar", className: "bg-amber-100 text-amber-700" },
+};
+
+const COST_DRIVERS: { id: Exclude<keyof CostBreakdown, "total">; label: string }[] = [
+  { id: "labor", label: "ARBETSTID" },
+  { id: "overtime", label: "ÖVERTID" },
+  { id: "mileage", label: "MILKOSTNAD" },
+  { id: "fixed", label: "FAST KOSTNAD" },
+  { id: "unassignedPenalty", label: "EJ TILLDELADE" },
+];
 
 interface KpiPanelProps {
   kpis: KpiSummary | null;
   currentView: ViewMode;
   onViewChange: (view: ViewMode) => void;
   hasOptimizedData: boolean;
+  solverStatus?: SolverStatus;
+  violationCounts?: Record<ViolationKind, number> | null;
 }
 
 /**
@@ -21,34 +44,47 @@ export function KpiPanel({
   currentView,
   onViewChange,
   hasOptimizedData,
+  solverStatus,
+  violationCounts,
 }: KpiPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [showCostBreakdown, setShowCostBreakdown] = useState(false);
 
   // Helper to format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('sv-SE', { style: 'currency', currency: 'SEK', maximumFractionDigits: 0 }).format(amount);
   };
 
-  // Get values based on current view or default to 0
-  const utilization = currentView === "optimized" ? kpis?.avgUtilizationOptimized : kpis?.avgUtilizationBaseline;
+  // Get values based on current view or default to 0 (comparison shows optimized values)
+  const showOptimized = currentView !== "baseline";
+  const utilization = showOptimized ? kpis?.avgUtilizationOptimized : kpis?.avgUtilizationBaseline;
   const utilizationComparison = `${kpis?.avgUtilizationBaseline || 0}% → ${kpis?.avgUtilizationOptimized || 0}%`;
   
-  const workTime = currentView === "optimized" ? kpis?.totalWorkTimeOptimized : kpis?.totalWorkTimeBaseline;
+  const workTime = showOptimized ? kpis?.totalWorkTimeOptimized : kpis?.totalWorkTimeBaseline;
   const workTimeComparison = `${formatMinutesToDuration(kpis?.totalWorkTimeBaseline || 0)} / ${formatMinutesToDuration(kpis?.totalWorkTimeOptimized || 0)}`;
   
-  const serviceTime = currentView === "optimized" ? kpis?.totalServiceTimeOptimized : kpis?.totalServiceTimeBaseline;
-  const travelTime = currentView === "optimized" ? kpis?.totalTravelTimeOptimized : kpis?.totalTravelTimeBaseline;
-  const waitTime = currentView === "optimized" ? kpis?.totalWaitTimeOptimized : kpis?.totalWaitTimeBaseline;
+  const serviceTime = showOptimized ? kpis?.totalServiceTimeOptimized : kpis?.totalServiceTimeBaseline;
+  const travelTime = showOptimized ? kpis?.totalTravelTimeOptimized : kpis?.totalTravelTimeBaseline;
+  const waitTime = showOptimized ? kpis?.totalWaitTimeOptimized : kpis?.totalWaitTimeBaseline;
+  const breakTime = showOptimized ? kpis?.totalBreakTimeOptimized : kpis?.totalBreakTimeBaseline;
+  const travelDistance = showOptimized ? kpis?.totalTravelDistanceOptimized : kpis?.totalTravelDistanceBaseline;
+  const fairness = showOptimized ? kpis?.workingTimeFairnessOptimized : kpis?.workingTimeFairnessBaseline;
+  const sources = showOptimized ? kpis?.sourcesOptimized : kpis?.sourcesBaseline;
   
   // Non-billable is Travel + Wait
   const nonBillable = (travelTime || 0) + (waitTime || 0);
   
-  const unassigned = currentView === "optimized" ? kpis?.unassignedVisitsOptimized : kpis?.unassignedVisitsBaseline;
-  const visitsTotal = currentView === "optimized" ? kpis?.totalVisitsOptimized : kpis?.totalVisitsBaseline;
-  const visitsAssigned = currentView === "optimized" ? kpis?.assignedVisitsOptimized : kpis?.assignedVisitsBaseline;
+  const unassigned = showOptimized ? kpis?.unassignedVisitsOptimized : kpis?.unassignedVisitsBaseline;
+  const visitsTotal = showOptimized ? kpis?.totalVisitsOptimized : kpis?.totalVisitsBaseline;
+  const visitsAssigned = showOptimized ? kpis?.assignedVisitsOptimized : kpis?.assignedVisitsBaseline;
+  const unassignedByPriority = showOptimized ? kpis?.unassignedByPriorityOptimized : kpis?.unassignedByPriorityBaseline;
   
-  const cost = currentView === "optimized" ? kpis?.totalCostOptimized : kpis?.totalCostBaseline;
+  const utilizationByDay = showOptimized ? kpis?.utilizationByDayOptimized : kpis?.utilizationByDayBaseline;
+  const dailyUtilization = utilizationByDay && utilizationByDay.size > 1 ? Array.from(utilizationByDay.entries()) : [];
+
+  const cost = showOptimized ? kpis?.totalCostOptimized : kpis?.totalCostBaseline;
   const savings = (kpis?.totalCostBaseline || 0) - (kpis?.totalCostOptimized || 0);
+  const costBreakdown = showOptimized ? kpis?.costBreakdownOptimized : kpis?.costBreakdownBaseline;
 
   // Collapsed view - just a thin bar with expand button
   if (isCollapsed) {
@@ -125,25 +161,34 @@ export function KpiPanel({
         </button>
       </div>
       
-      <div className="flex items-center justify-between -mt-4">
-        <button 
-          onClick={() => onViewChange(currentView === "optimized" ? "baseline" : "optimized")}
-          disabled={!hasOptimizedData}
-          className={`text-xs font-medium uppercase tracking-wider px-2 py-1 rounded transition-colors ${
-            hasOptimizedData 
-              ? "text-brand-600 bg-brand-50 hover:bg-brand-100 cursor-pointer" 
-              : "text-slate-400"
-          }`}
-        >
-          {currentView === "optimized" ? "Optimerad" : "Baseline"}
-        </button>
-        {hasOptimizedData && (
-          <div className="text-[10px] text-slate-400">
-            Klicka för att byta vy
-          </div>
-        )}
+      <div className="flex items-center gap-1 -mt-4 bg-slate-100 rounded-lg p-0.5">
+        {VIEW_OPTIONS.map((option) => {
+          const enabled = option.id === "baseline" || hasOptimizedData;
+          return (
+            <button
+              key={option.id}
+              onClick={() => onViewChange(option.id)}
+              disabled={!enabled}
+              className={`flex-1 text-[10px] font-medium uppercase tracking-wider px-2 py-1 rounded-md transition-colors ${
+                currentView === option.id
+                  ? "bg-white text-brand-600 shadow-sm"
+                  : enabled
+                    ? "text-slate-500 hover:text-slate-700"
+                    : "text-slate-300 cursor-not-allowed"
+              }`}
+            >
+              {option.label}
+            </button>
+          );
+        })}
       </div>
 
+      {solverStatus === "SOLVING_INCOMPLETE" && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl px-3 py-2 text-xs text-amber-800">
+          Optimeringen avbröts – bästa lösningen hittills visas.
+        </div>
+      )}
+
       {/* Effektivitet (Efficiency) Card */}
       <div className="bg-brand-50/50 rounded-2xl p-5 space-y-4 border border-brand-100">
         <div className="flex items-center gap-2 text-brand-800 font-bold text-sm">
@@ -159,13 +204,36 @@ export function KpiPanel({
             value={`${utilization || 0}%`} 
             subValue={hasOptimizedData ? utilizationComparison : undefined} 
             highlight 
+            source={sources?.utilization}
           />
           <Row 
             label="ARBETSTIMMAR" 
             value={formatMinutesToDuration(workTime || 0)} 
             subValue={hasOptimizedData ? workTimeComparison : undefined}
+            source={sources?.workTime}
+          />
+          <Row label="SERVICETIMMAR" value={formatMinutesToDuration(serviceTime || 0)} source={sources?.serviceTime} />
+          <Row
+            label="RÄTTVISA"
+            value={`${fairness ?? 0}%`}
+            subValue="Jämn fördelning av arbetstid"
+            source={sources?.fairness}
           />
-          <Row label="SERVICETIMMAR" value={formatMinutesToDuration(serviceTime || 0)} />
+
+          {dailyUtilization.length > 0 && (
+            <div className="pt-2 border-t border-brand-200/50 space-y-1.5">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-brand-700/70">Utnyttjande per dag</p>
+              {dailyUtilization.map(([day, dayUtilization]) => (
+                <div key={day} className="flex items-center gap-2 text-xs text-slate-600">
+                  <span className="w-20 shrink-0">{day}</span>
+                  <div className="flex-1 h-1.5 bg-brand-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-500 rounded-full" style={{ width: `${dayUtilization}%` }} />
+                  </div>
+                  <span className="w-9 text-right font-medium text-slate-900">{dayUtilization}%</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -179,9 +247,13 @@ export function KpiPanel({
         </div>
         
         <div className="space-y-3">
-          <Row label="RESA" value={formatMinutesToDuration(travelTime || 0)} />
-          <Row label="VÄNTAN" value={formatMinutesToDuration(waitTime || 0)} />
+          <Row label="RESA" value={formatMinutesToDuration(travelTime || 0)} source={sources?.travelTime} />
+          <Row label="STRÄCKA" value={`${((travelDistance || 0) / 1000).toFixed(1)} km`} source={sources?.travelDistance} />
+          <Row label="VÄNTAN" value={formatMinutesToDuration(waitTime || 0)} source={sources?.waitTime} />
           <Row label="ICKE-FAKTURERBAR TID" value={formatMinutesToDuration(nonBillable)} subValue="Resa + Väntan" />
+          {(breakTime || 0) > 0 && (
+            <Row label="RAST" value={formatMinutesToDuration(breakTime || 0)} subValue="Ej arbetstid" />
+          )}
           
           <div className="pt-2 border-t border-emerald-200/50">
              <Row 
@@ -206,11 +278,45 @@ export function KpiPanel({
 
         <div className="space-y-3">
           <Row label="PLANERADE" value={(visitsTotal || 0).toString()} />
-          <Row label="TILLDELADE" value={(visitsAssigned || 0).toString()} />
+          <Row label="TILLDELADE" value={(visitsAssigned || 0).toString()} source={sources?.visits} />
           <Row label="EJ TILLDELADE" value={(unassigned || 0).toString()} warning={(unassigned || 0) > 0} />
+          {unassignedByPriority && (unassigned || 0) > 0 && (
+            <div className="pl-3 border-l-2 border-blue-100 space-y-2">
+              {PRIORITY_LEVELS.map(({ level, label }) => (
+                <Row
+                  key={level}
+                  label={`${label} prioritet`}
+                  value={unassignedByPriority[level].toString()}
+                  subValue={hasOptimizedData
+                    ? `${kpis?.unassignedByPriorityBaseline[level] || 0} → ${kpis?.unassignedByPriorityOptimized[level] || 0}`
+                    : undefined}
+                  warning={level === "high" && unassignedByPriority[level] > 0}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
+      {/* Avvikelser (Constraint violations) Card */}
+      {violationCounts && (
+        <div className="bg-red-50/50 rounded-2xl p-5 space-y-4 border border-red-100">
+          <div className="flex items-center gap-2 text-red-800 font-bold text-sm">
+            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <h3>Avvikelser</h3>
+          </div>
+
+          <div className="space-y-3">
+            <Row label="SENA STARTER" value={violationCounts.late.toString()} subValue="Efter tidsfönstret" warning={violationCounts.late > 0} />
+            <Row label="TIDIGA STARTER" value={violationCounts.early.toString()} subValue="Före tidsfönstret" warning={violationCounts.early > 0} />
+            <Row label="ÖVERTID" value={violationCounts.overtime.toString()} subValue="Utanför passet" warning={violationCounts.overtime > 0} />
+            <Row label="ÖVERLAPP" value={violationCounts.overlap.toString()} subValue="Besök eller rast" warning={violationCounts.overlap > 0} />
+          </div>
+        </div>
+      )}
+
       {/* Ekonomi (Economy) Card */}
       <div className="bg-orange-50/50 rounded-2xl p-5 space-y-4 border border-orange-100">
          <div className="flex items-center gap-2 text-orange-800 font-bold text-sm">
@@ -221,10 +327,34 @@ export function KpiPanel({
         </div>
 
          <div className="space-y-3">
-          <Row label="KOSTNAD" value={formatCurrency(cost || 0)} />
+          <Row label="KOSTNAD" value={formatCurrency(cost || 0)} source={sources?.cost} />
           {hasOptimizedData && savings > 0 && (
             <Row label="BESPARING" value={formatCurrency(savings)} positive />
           )}
+
+          {costBreakdown && (
+            <div className="pt-2 border-t border-orange-200/50 space-y-3">
+              <button
+                onClick={() => setShowCostBreakdown((prev) => !prev)}
+                className="w-full flex items-center justify-between text-[10px] font-bold uppercase tracking-wider text-orange-700/70 hover:text-orange-800"
+              >
+                <span>Kostnadsfördelning</span>
+                <svg className={`w-3 h-3 transition-transform ${showCostBreakdown ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+              {showCostBreakdown && COST_DRIVERS.map((driver) => (
+                <Row
+                  key={driver.id}
+                  label={driver.label}
+                  value={formatCurrency(costBreakdown[driver.id])}
+                  subValue={hasOptimizedData
+                    ? `${formatCurrency(kpis?.costBreakdownBaseline[driver.id] || 0)} → ${formatCurrency(kpis?.costBreakdownOptimized[driver.id] || 0)}`
+                    : undefined}
+                />
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -232,10 +362,18 @@ export function KpiPanel({
   );
 }
 
-function Row({ label, value, subValue, highlight, warning, positive }: { label: string; value: string; subValue?: string; highlight?: boolean; warning?: boolean; positive?: boolean }) {
+function Row({ label, value, subValue, highlight, warning, positive, source }: { label: string; value: string; subValue?: string; highlight?: boolean; warning?: boolean; positive?: boolean; source?: KpiSource }) {
+  const badge = source ? SOURCE_BADGES[source] : undefined;
   return (
     <div className="flex justify-between items-start">
-      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider pt-1">{label}</span>
+      <span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-wider pt-1">
+        {label}
+        {badge && (
+          <span className={`px-1 rounded text-[8px] font-semibold normal-case tracking-normal ${badge.className}`} title={badge.title}>
+            {badge.label}
+          </span>
+        )}
+      </span>
       <div className="text-right">
         <div className={`font-bold text-sm ${highlight ? "text-xl" : ""} ${warning ? "text-red-600" : positive ? "text-emerald-600" : "text-slate-800"}`}>
           {value}
@@ -1,9 +1,19 @@
 "use client";
 
+import type { ScoreSample } from "@/lib/types";
+
 interface LoadingOverlayProps {
   isVisible: boolean;
   message: string;
   subMessage?: string;
+  // Live solver progress (from the route plan progress stream)
+  scoreHistory?: ScoreSample[];
+  // Dock as a small card instead of blocking the screen, so the
+  // scheduler stays visible while intermediate solutions arrive
+  compact?: boolean;
+  // Stop solving early and keep the best solution so far
+  onCancel?: () => void;
+  isCancelling?: boolean;
 }
 
 /**
@@ -16,9 +26,37 @@ export function LoadingOverlay({
   isVisible,
   message,
   subMessage,
+  scoreHistory = [],
+  compact = false,
+  onCancel,
+  isCancelling = false,
 }: LoadingOverlayProps) {
   if (!isVisible) return null;
 
+  const cancelButton = onCancel && (
+    <button
+      onClick={onCancel}
+      disabled={isCancelling}
+      className="w-full px-3 py-1.5 text-sm font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50 disabled:opacity-50 transition-colors"
+    >
+      {isCancelling ? "Avbryter..." : "Avbryt optimering"}
+    </button>
+  );
+
+  if (compact) {
+    return (
+      <div className="fixed bottom-4 right-4 z-50 w-72 bg-white rounded-2xl shadow-2xl border border-slate-100 p-4 animate-scale-in">
+        <div className="flex items-center gap-2 mb-1">
+          <span className="w-2 h-2 rounded-full bg-brand-500 animate-pulse" />
+          <h3 className="font-display font-semibold text-sm text-slate-900 truncate">{message}</h3>
+        </div>
+        {subMessage && <p className="text-xs text-slate-500 mb-2">{subMessage}</p>}
+        <ScoreChart samples={scoreHistory} />
+        {cancelButton && <div className="mt-3">{cancelButton}</div>}
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
       <div className="bg-white rounded-2xl shadow-2xl p-6 sm:p-8 max-w-sm w-full text-center animate-scale-in">
@@ -54,6 +92,12 @@ export function LoadingOverlay({
           <p className="text-xs sm:text-sm text-slate-500">{subMessage}</p>
         )}
 
+        {scoreHistory.length > 0 && (
+          <div className="mt-4 text-left">
+            <ScoreChart samples={scoreHistory} />
+          </div>
+        )}
+
         {/* Progress dots */}
         <div className="flex justify-center gap-1.5 mt-5 sm:mt-6">
           <span
@@ -69,6 +113,62 @@ export function LoadingOverlay({
             style={{ animationDelay: "300ms" }}
           />
         </div>
+
+        {cancelButton && <div className="mt-5">{cancelButton}</div>}
+      </div>
+    </div>
+  );
+}
+
+const CHART_WIDTH = 240;
+const CHART_HEIGHT = 64;
+
+/**
+ * Step chart of the soft score over time. Hard and medium levels are shown
+ * as numbers, since they change rarely but matter most.
+ */
+function ScoreChart({ samples }: { samples: ScoreSample[] }) {
+  if (samples.length === 0) {
+    return <p className="text-[11px] text-slate-400">Väntar på första lösningen...</p>;
+  }
+
+  const latest = samples[samples.length - 1];
+  const maxElapsed = Math.max(latest.elapsedMs, 1);
+  const softValues = samples.map((sample) => sample.soft);
+  const minSoft = Math.min(...softValues);
+  const maxSoft = Math.max(...softValues);
+  const range = maxSoft - minSoft || 1;
+
+  const toX = (elapsedMs: number) => (elapsedMs / maxElapsed) * CHART_WIDTH;
+  const toY = (soft: number) => CHART_HEIGHT - 4 - ((soft - minSoft) / range) * (CHART_HEIGHT - 8);
+
+  // A score holds until the next improvement, so draw horizontal steps
+  const points = samples.flatMap((sample, index) => {
+    const point = `${toX(sample.elapsedMs)},${toY(sample.soft)}`;
+    if (index === 0) return [point];
+    return [`${toX(sample.elapsedMs)},${toY(samples[index - 1].soft)}`, point];
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-[11px] mb-1">
+        <span className="text-slate-500">Poäng</span>
+        <span className="font-mono text-slate-700">{latest.score}</span>
+      </div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-16 bg-slate-50 rounded-lg">
+        <polyline
+          points={points.join(" ")}
+          fill="none"
+          stroke="#14B8A6"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        <circle cx={toX(latest.elapsedMs)} cy={toY(latest.soft)} r={3} fill="#0D9488" />
+      </svg>
+      <div className="flex items-center gap-3 mt-1 text-[10px] text-slate-500">
+        <span className={latest.hard < 0 ? "text-red-600 font-semibold" : ""}>Hård: {latest.hard}</span>
+        <span className={latest.medium < 0 ? "text-amber-600 font-semibold" : ""}>Medel: {latest.medium}</span>
+        <span>{samples.length} förbättringar</span>
       </div>
     </div>
   );
@@ -0,0 +1,356 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { SchedulerData, TimefoldModelInput, Visit } from "@/lib/types";
+import { findShiftForTime, getShiftKey } from "@/lib/mapping";
+import { toCoordinates, type Coordinates } from "@/lib/travel";
+
+/**
+ * RouteMap - Offline SVG map of vehicle routes
+ *
+ * Draws each shift's route as an ordered polyline from the shift's start
+ * location through its visits (one color per vehicle), plus unassigned
+ * visits as separate markers.
+ * Uses a Web Mercator projection so map tiles line up; tiles are loaded
+ * from a local URL template (NEXT_PUBLIC_MAP_TILE_URL, default
+ * /api/map-tiles/{z}/{x}/{y}, filled by `npm run tiles:fetch`). Tiles
+ * that aren't available are hidden and the routes are drawn on a plain
+ * background.
+ */
+
+const TILE_URL_TEMPLATE = process.env.NEXT_PUBLIC_MAP_TILE_URL || "/api/map-tiles/{z}/{x}/{y}";
+const TILE_SIZE = 256;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 17;
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 600;
+const VIEW_PADDING = 48;
+
+const ROUTE_COLORS = [
+  "#0D9488",
+  "#6366F1",
+  "#F59E0B",
+  "#EC4899",
+  "#0EA5E9",
+  "#84CC16",
+  "#8B5CF6",
+  "#EF4444",
+];
+
+interface RouteMapProps {
+  modelInput: TimefoldModelInput | null;
+  data: SchedulerData | null;
+  selectedVisitId?: string | null;
+  onSelectVisit?: (visitId: string | null) => void;
+}
+
+interface MapStop {
+  visitId: string;
+  name: string;
+  coordinates: Coordinates;
+}
+
+interface MapRoute {
+  key: string;  // "vehicleId:shiftId"
+  resourceId: string;
+  name: string;
+  color: string;
+  start: Coordinates | null;
+  stops: MapStop[];
+}
+
+export function RouteMap({ modelInput, data, selectedVisitId, onSelectVisit }: RouteMapProps) {
+  const [zoomOffset, setZoomOffset] = useState(0);
+
+  // Build ordered routes per shift from the displayed schedule
+  const { routes, unassigned } = useMemo(() => {
+    if (!modelInput || !data) return { routes: [] as MapRoute[], unassigned: [] as MapStop[] };
+
+    const visitMap = new Map<string, Visit>();
+    modelInput.visits.forEach((visit) => visitMap.set(visit.id, visit));
+
+    const toStop = (visitId: string): MapStop | null => {
+      const visit = visitMap.get(visitId);
+      const coordinates = toCoordinates(visit?.location);
+      if (!visit || !coordinates) return null;
+      return { visitId, name: visit.name || visitId, coordinates };
+    };
+
+    const assignedIds = new Set<string>();
+    const mapRoutes: MapRoute[] = data.resources.flatMap((resource, index) => {
+      const shifts = modelInput.vehicles.find((v) => v.id === resource.id)?.shifts ?? [];
+      const events = data.events
+        .filter((event) => event.resourceId === resource.id && event.eventType === "visit" && event.visitId)
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+      // Each shift starts its own line at the shift's start location
+      const byShift = new Map<string | undefined, MapStop[]>();
+      events.forEach((event) => {
+        const stop = toStop(event.visitId!);
+        if (!stop) return;
+        const shiftId = event.shiftId ?? findShiftForTime(shifts, event.startDate)?.id;
+        byShift.set(shiftId, [...(byShift.get(shiftId) ?? []), stop]);
+        assignedIds.add(stop.visitId);
+      });
+      // A caregiver without visits still shows where the first shift starts
+      if (byShift.size === 0) byShift.set(shifts[0]?.id, []);
+
+      return Array.from(byShift.entries()).map(([shiftId, stops]) => ({
+        key: getShiftKey(resource.id, shiftId),
+        resourceId: resource.id,
+        name: resource.name,
+        color: ROUTE_COLORS[index % ROUTE_COLORS.length],
+        start: toCoordinates(shifts.find((shift) => shift.id === shiftId)?.startLocation),
+        stops,
+      }));
+    });
+
+    const unassignedStops = modelInput.visits
+      .filter((visit) => !assignedIds.has(visit.id))
+      .map((visit) => toStop(visit.id))
+      .filter((stop): stop is MapStop => stop !== null);
+
+    return { routes: mapRoutes, unassigned: unassignedStops };
+  }, [modelInput, data]);
+
+  // Fit the projection to all points, then apply the user's zoom offset
+  const viewport = useMemo(() => {
+    const points: Coordinates[] = [
+      ...routes.flatMap((route) => [
+        ...(route.start ? [route.start] : []),
+        ...route.stops.map((stop) => stop.coordinates),
+      ]),
+      ...unassigned.map((stop) => stop.coordinates),
+    ];
+    if (points.length === 0) return null;
+
+    let fitZoom = MIN_ZOOM;
+    for (let z = MAX_ZOOM; z >= MIN_ZOOM; z--) {
+      const projected = points.map((point) => project(point, z));
+      const width = Math.max(...projected.map((p) => p.x)) - Math.min(...projected.map((p) => p.x));
+      const height = Math.max(...projected.map((p) => p.y)) - Math.min(...projected.map((p) => p.y));
+      if (width <= VIEW_WIDTH - 2 * VIEW_PADDING && height <= VIEW_HEIGHT - 2 * VIEW_PADDING) {
+        fitZoom = z;
+        break;
+      }
+    }
+
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, fitZoom + zoomOffset));
+    const projected = points.map((point) => project(point, zoom));
+    const centerX = (Math.max(...projected.map((p) => p.x)) + Math.min(...projected.map((p) => p.x))) / 2;
+    const centerY = (Math.max(...projected.map((p) => p.y)) + Math.min(...projected.map((p) => p.y))) / 2;
+
+    return { zoom, originX: centerX - VIEW_WIDTH / 2, originY: centerY - VIEW_HEIGHT / 2 };
+  }, [routes, unassigned, zoomOffset]);
+
+  // Tiles covering the viewport at the current zoom
+  const tiles = useMemo(() => {
+    if (!viewport) return [];
+    const { zoom, originX, originY } = viewport;
+    const tileCount = 2 ** zoom;
+    const result: Array<{ key: string; url: string; x: number; y: number }> = [];
+    for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + VIEW_WIDTH) / TILE_SIZE); tx++) {
+      for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + VIEW_HEIGHT) / TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= tileCount) continue;
+        const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+        result.push({
+          key: `${zoom}-${tx}-${ty}`,
+          url: TILE_URL_TEMPLATE.replace("{z}", String(zoom))
+            .replace("{x}", String(wrappedX))
+            .replace("{y}", String(ty)),
+          x: tx * TILE_SIZE - originX,
+          y: ty * TILE_SIZE - originY,
+        });
+      }
+    }
+    return result;
+  }, [viewport]);
+
+  if (!viewport) {
+    return (
+      <div className="h-full w-full flex items-center justify-center bg-slate-50">
+        <p className="text-xs text-slate-400">Inga platser att visa på kartan</p>
+      </div>
+    );
+  }
+
+  const toScreen = (point: Coordinates) => {
+    const p = project(point, viewport.zoom);
+    return { x: p.x - viewport.originX, y: p.y - viewport.originY };
+  };
+
+  return (
+    <div className="h-full w-full relative bg-slate-50 overflow-hidden">
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        preserveAspectRatio="xMidYMid slice"
+        className="h-full w-full"
+        onClick={() => onSelectVisit?.(null)}
+      >
+        <rect width={VIEW_WIDTH} height={VIEW_HEIGHT} fill="#F8FAFC" />
+        {tiles.map((tile) => (
+          <image
+            key={tile.key}
+            href={tile.url}
+            x={tile.x}
+            y={tile.y}
+            width={TILE_SIZE}
+            height={TILE_SIZE}
+            onError={(e) => {
+              e.currentTarget.style.display = "none";
+            }}
+          />
+        ))}
+
+        {/* Route polylines */}
+        {routes.map((route) => {
+          const path = [...(route.start ? [route.start] : []), ...route.stops.map((s) => s.coordinates)]
+            .map(toScreen)
+            .map((p) => `${p.x},${p.y}`)
+            .join(" ");
+          return (
+            <polyline
+              key={`line-${route.key}`}
+              points={path}
+              fill="none"
+              stroke={route.color}
+              strokeWidth={3}
+              strokeOpacity={0.75}
+              strokeLinejoin="round"
+            />
+          );
+        })}
+
+        {/* Shift start locations */}
+        {routes.map((route) => {
+          if (!route.start) return null;
+          const p = toScreen(route.start);
+          return (
+            <rect
+              key={`start-${route.key}`}
+              x={p.x - 6}
+              y={p.y - 6}
+              width={12}
+              height={12}
+              rx={2}
+              fill="white"
+              stroke={route.color}
+              strokeWidth={3}
+            >
+              <title>{`${route.name} – start`}</title>
+            </rect>
+          );
+        })}
+
+        {/* Visit markers, numbered in route order */}
+        {routes.flatMap((route) =>
+          route.stops.map((stop, index) => {
+            const p = toScreen(stop.coordinates);
+            const isSelected = stop.visitId === selectedVisitId;
+            return (
+              <g
+                key={`stop-${route.key}-${stop.visitId}`}
+                className="cursor-pointer"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelectVisit?.(stop.visitId);
+                }}
+              >
+                {isSelected && <circle cx={p.x} cy={p.y} r={16} fill={route.color} fillOpacity={0.25} />}
+                <circle
+                  cx={p.x}
+                  cy={p.y}
+                  r={isSelected ? 11 : 9}
+                  fill={route.color}
+                  stroke={isSelected ? "#0F172A" : "white"}
+                  strokeWidth={2}
+                />
+                <text x={p.x} y={p.y + 3.5} textAnchor="middle" fontSize={10} fontWeight={700} fill="white">
+                  {index + 1}
+                </text>
+                <title>{`${stop.name} (${route.name})`}</title>
+              </g>
+            );
+          })
+        )}
+
+        {/* Unassigned visits */}
+        {unassigned.map((stop) => {
+          const p = toScreen(stop.coordinates);
+          const isSelected = stop.visitId === selectedVisitId;
+          return (
+            <g
+              key={`unassigned-${stop.visitId}`}
+              className="cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectVisit?.(stop.visitId);
+              }}
+            >
+              <circle
+                cx={p.x}
+                cy={p.y}
+                r={isSelected ? 10 : 8}
+                fill="white"
+                stroke="#EF4444"
+                strokeWidth={isSelected ? 3 : 2}
+                strokeDasharray="3 2"
+              />
+              <title>{`${stop.name} (ej tilldelad)`}</title>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Zoom controls */}
+      <div className="absolute top-2 right-2 flex flex-col bg-white/90 rounded-lg border border-slate-200 shadow-sm">
+        <button
+          onClick={() => setZoomOffset((prev) => prev + 1)}
+          className="px-2 py-1 text-slate-500 hover:text-slate-700 text-sm font-bold"
+          title="Zooma in"
+        >
+          +
+        </button>
+        <button
+          onClick={() => setZoomOffset((prev) => prev - 1)}
+          className="px-2 py-1 text-slate-500 hover:text-slate-700 text-sm font-bold border-t border-slate-100"
+          title="Zooma ut"
+        >
+          −
+        </button>
+      </div>
+
+      {/* Legend, one entry per caregiver */}
+      <div className="absolute bottom-2 left-2 right-2 flex flex-wrap gap-x-3 gap-y-1 bg-white/90 rounded-lg border border-slate-200 px-2 py-1.5">
+        {routes
+          .filter((route, i) => routes.findIndex((other) => other.resourceId === route.resourceId) === i)
+          .map((route) => (
+            <span key={route.resourceId} className="flex items-center gap-1 text-[10px] text-slate-600">
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: route.color }} />
+              {route.name}
+            </span>
+          ))}
+        {unassigned.length > 0 && (
+          <span className="flex items-center gap-1 text-[10px] text-red-600">
+            <span className="w-2.5 h-2.5 rounded-full border-2 border-dashed border-red-500" />
+            Ej tilldelade ({unassigned.length})
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Projects [lat, lon] to Web Mercator pixel coordinates at a zoom level
+ */
+function project([latitude, longitude]: Coordinates, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((Math.max(-85.05, Math.min(85.05, latitude)) * Math.PI) / 180);
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export default RouteMap;
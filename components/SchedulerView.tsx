@@ -1,9 +1,16 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useCallback, useEffect } from "react";
 import dynamic from "next/dynamic";
-import type { SchedulerData, SchedulerEvent, ViewMode } from "@/lib/types";
+import type { SchedulerData, SchedulerEvent, TimefoldModelInput, ViewMode } from "@/lib/types";
 import type { SchedulerViewPreset } from "./TopBar";
+import { RouteMap } from "./RouteMap";
+import { UnassignedPanel, VISIT_DRAG_TYPE } from "./UnassignedPanel";
+import type { UnassignedVisit } from "@/lib/unassigned";
+import { compareSchedules, annotateScheduleChanges } from "@/lib/mapping";
+
+// Options for the "shifted by more than N minutes" highlight in comparison mode
+const CHANGE_THRESHOLD_OPTIONS = [5, 15, 30, 60];
 
 // Dynamically import BryntumScheduler with SSR disabled
 const BryntumScheduler = dynamic(
@@ -28,6 +35,21 @@ interface SchedulerViewProps {
   isLoading?: boolean;
   viewPreset?: SchedulerViewPreset;
   currentDate?: Date;
+  modelInput?: TimefoldModelInput | null;
+  selectedVisitId?: string | null;
+  onSelectVisit?: (visitId: string | null) => void;
+  // Opens the visit's detail panel (double-click on an event)
+  onEditVisit?: (visitId: string) => void;
+  // Removes the visit (Delete key or the event menu)
+  onDeleteVisit?: (visitId: string) => void;
+  // Visits without a place in the edited schedule, listed next to the scheduler
+  unassignedVisits?: UnassignedVisit[];
+  // Assigns a listed visit to the caregiver row it is dropped on (at the drop time if known)
+  onAssignVisit?: (visitId: string, resourceId: string, date: Date | null) => void;
+  // Resource (caregiver) row to scroll into view, e.g. from a validation finding
+  focusedResourceId?: string | null;
+  // Both schedules, used when mode is "compare"
+  compareData?: { baseline: SchedulerData | null; optimized: SchedulerData | null };
 }
 
 export function SchedulerView({
@@ -36,9 +58,45 @@ export function SchedulerView({
   onEventUpdate,
   isLoading = false,
   viewPreset = "dag",
+  modelInput = null,
+  selectedVisitId = null,
+  onSelectVisit,
+  onEditVisit,
+  onDeleteVisit,
+  unassignedVisits,
+  onAssignVisit,
+  focusedResourceId = null,
+  compareData,
 }: SchedulerViewProps) {
   const [bryntumError, setBryntumError] = useState<string | null>(null);
   const [zoomLevel, setZoomLevel] = useState(1);
+  const [showMap, setShowMap] = useState(false);
+  const [showUnassigned, setShowUnassigned] = useState(true);
+  const [changeThreshold, setChangeThreshold] = useState(15);
+  const [baselineInstance, setBaselineInstance] = useState<unknown>(null);
+
+  // Link visits across both schedules and tag what changed
+  const comparison = useMemo(() => {
+    if (mode !== "compare" || !compareData?.baseline || !compareData.optimized) return null;
+    const comparisons = compareSchedules(compareData.baseline, compareData.optimized, changeThreshold);
+    const changes = Array.from(comparisons.values());
+    return {
+      baseline: annotateScheduleChanges(compareData.baseline, comparisons),
+      optimized: annotateScheduleChanges(compareData.optimized, comparisons),
+      dateRange: getSharedDateRange([compareData.baseline, compareData.optimized]),
+      movedCount: changes.filter((c) => c.change === "moved").length,
+      shiftedCount: changes.filter((c) => c.change === "shifted").length,
+    };
+  }, [mode, compareData, changeThreshold]);
+
+  const handleBaselineReady = useCallback((instance: unknown) => {
+    setBaselineInstance(instance);
+  }, []);
+
+  // The baseline scheduler is destroyed when leaving comparison mode
+  useEffect(() => {
+    if (mode !== "compare") setBaselineInstance(null);
+  }, [mode]);
 
   // Calculate display date from data
   const displayDate = useMemo(() => {
@@ -70,15 +128,34 @@ export function SchedulerView({
     );
   }
 
+  const unassignedPanel = data && unassignedVisits && showUnassigned && (
+    <div className="h-48 lg:h-full lg:w-64 shrink-0 border-b lg:border-b-0 lg:border-r border-slate-200">
+      <UnassignedPanel
+        visits={unassignedVisits}
+        selectedVisitId={selectedVisitId}
+        onSelectVisit={onSelectVisit}
+        onEditVisit={onEditVisit}
+        canAssign={!!onAssignVisit}
+      />
+    </div>
+  );
+
   if (bryntumError) {
     return (
-      <div className="h-full w-full bg-white rounded-xl sm:rounded-2xl border border-slate-200/60 p-4 sm:p-8">
-        <FallbackScheduler 
-          data={data} 
-          mode={mode} 
-          isLoading={false} 
-          viewPreset={viewPreset}
-        />
+      <div className="h-full w-full bg-white rounded-xl sm:rounded-2xl border border-slate-200/60 p-4 sm:p-8 flex flex-col lg:flex-row gap-4">
+        {unassignedPanel}
+        <div className="flex-1 min-h-0 min-w-0">
+          <FallbackScheduler 
+            data={data} 
+            mode={mode} 
+            isLoading={false} 
+            viewPreset={viewPreset}
+            selectedVisitId={selectedVisitId}
+            onSelectVisit={onSelectVisit}
+            onEditVisit={onEditVisit}
+            onAssignVisit={onAssignVisit}
+          />
+        </div>
       </div>
     );
   }
@@ -93,16 +170,116 @@ export function SchedulerView({
         <IconButton icon={<ZoomOutIcon />} title="Zoom Out" onClick={handleZoomOut} />
         <span className="text-[10px] sm:text-xs text-slate-400 my-auto mx-0.5 sm:mx-1">{Math.round(zoomLevel * 100)}%</span>
         <IconButton icon={<ZoomInIcon />} title="Zoom In" onClick={handleZoomIn} />
+        <div className="w-px h-4 bg-slate-200 my-auto mx-0.5 sm:mx-1" />
+        {unassignedVisits && (
+          <IconButton
+            icon={<InboxIcon />}
+            title={showUnassigned ? "Dölj otilldelade besök" : `Visa otilldelade besök (${unassignedVisits.length})`}
+            onClick={() => setShowUnassigned((prev) => !prev)}
+            className={showUnassigned ? "text-brand-600 bg-brand-50" : ""}
+          />
+        )}
+        <IconButton
+          icon={<MapIcon />}
+          title={showMap ? "Dölj karta" : "Visa karta"}
+          onClick={() => setShowMap((prev) => !prev)}
+          className={showMap ? "text-brand-600 bg-brand-50" : ""}
+        />
       </div>
 
-      <div className="h-full w-full">
-        <BryntumScheduler
-          data={data}
-          mode={mode}
-          onEventUpdate={onEventUpdate}
-          viewPreset={viewPreset}
-          zoomLevel={zoomLevel}
-        />
+      <div className="h-full w-full flex flex-col lg:flex-row">
+        {unassignedPanel}
+        <div className={showMap ? "h-1/2 lg:h-full lg:flex-1 min-w-0" : "flex-1 min-h-0 min-w-0"}>
+          {comparison ? (
+            <div className="h-full w-full flex flex-col">
+              {/* Comparison legend and threshold */}
+              <div className="shrink-0 flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2 pr-40 sm:pr-72 border-b border-slate-100 text-[10px] sm:text-xs text-slate-500">
+                <span className="flex items-center gap-1">
+                  <span className="w-2.5 h-2.5 rounded-sm ring-2 ring-violet-500" />
+                  Flyttade ({comparison.movedCount})
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-2.5 h-2.5 rounded-sm ring-2 ring-amber-500" />
+                  Förskjutna ({comparison.shiftedCount})
+                </span>
+                <label className="flex items-center gap-1">
+                  mer än
+                  <select
+                    value={changeThreshold}
+                    onChange={(e) => setChangeThreshold(Number(e.target.value))}
+                    className="px-1 py-0.5 rounded border border-slate-200 text-[10px] sm:text-xs focus:outline-none focus:ring-1 focus:ring-brand-500"
+                  >
+                    {CHANGE_THRESHOLD_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>{minutes} min</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              <div className="flex-1 min-h-0 flex flex-col">
+                <div className="shrink-0 px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-50">Baseline</div>
+                <div className="flex-1 min-h-0">
+                  <BryntumScheduler
+                    data={comparison.baseline}
+                    mode="baseline"
+                    viewPreset={viewPreset}
+                    zoomLevel={zoomLevel}
+                    selectedVisitId={selectedVisitId}
+                    onSelectVisit={onSelectVisit}
+                    onEditVisit={onEditVisit}
+                    dateRange={comparison.dateRange}
+                    onReady={handleBaselineReady}
+                  />
+                </div>
+                <div className="shrink-0 px-3 py-1 text-[10px] font-bold uppercase tracking-wider text-brand-600 bg-brand-50 border-t border-slate-200">Optimerad</div>
+                <div className="flex-1 min-h-0">
+                  {/* Partnered with the baseline so both scroll and zoom together */}
+                  {baselineInstance !== null && (
+                    <BryntumScheduler
+                      data={comparison.optimized}
+                      mode="optimized"
+                      onEventUpdate={onEventUpdate}
+                      onDeleteVisit={onDeleteVisit}
+                      onAssignVisit={onAssignVisit}
+                      viewPreset={viewPreset}
+                      zoomLevel={zoomLevel}
+                      selectedVisitId={selectedVisitId}
+                      onSelectVisit={onSelectVisit}
+                      onEditVisit={onEditVisit}
+                      focusedResourceId={focusedResourceId}
+                      dateRange={comparison.dateRange}
+                      partner={baselineInstance}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          ) : (
+            <BryntumScheduler
+              data={data}
+              mode={mode}
+              onEventUpdate={onEventUpdate}
+              onDeleteVisit={onDeleteVisit}
+              onAssignVisit={onAssignVisit}
+              viewPreset={viewPreset}
+              zoomLevel={zoomLevel}
+              selectedVisitId={selectedVisitId}
+              onSelectVisit={onSelectVisit}
+              onEditVisit={onEditVisit}
+              focusedResourceId={focusedResourceId}
+            />
+          )}
+        </div>
+        {showMap && (
+          <div className="h-1/2 lg:h-full lg:w-2/5 border-t lg:border-t-0 lg:border-l border-slate-200">
+            <RouteMap
+              modelInput={modelInput}
+              data={data}
+              selectedVisitId={selectedVisitId}
+              onSelectVisit={onSelectVisit}
+            />
+          </div>
+        )}
       </div>
 
       {!data && (
@@ -140,6 +317,8 @@ function IconButton({
 const SearchIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>;
 const FilterIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>;
 const ZoomInIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>;
+const InboxIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" /></svg>;
+const MapIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" /></svg>;
 const ZoomOutIcon = () => <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" /></svg>;
 
 /**
@@ -150,11 +329,19 @@ function FallbackScheduler({
   mode,
   isLoading,
   viewPreset,
+  selectedVisitId,
+  onSelectVisit,
+  onEditVisit,
+  onAssignVisit,
 }: {
   data: SchedulerData | null;
   mode: ViewMode;
   isLoading: boolean;
   viewPreset?: SchedulerViewPreset;
+  selectedVisitId?: string | null;
+  onSelectVisit?: (visitId: string | null) => void;
+  onEditVisit?: (visitId: string) => void;
+  onAssignVisit?: (visitId: string, resourceId: string, date: Date | null) => void;
 }) {
   // Group events by resource
   const eventsByResource = useMemo(() => {
@@ -235,7 +422,22 @@ function FallbackScheduler({
           const events = eventsByResource.get(resource.id) || [];
           
           return (
-            <div key={resource.id} className="bg-slate-50 rounded-lg border border-slate-100 p-2 sm:p-3 flex flex-col sm:flex-row gap-2 sm:gap-4">
+            <div
+              key={resource.id}
+              className="bg-slate-50 rounded-lg border border-slate-100 p-2 sm:p-3 flex flex-col sm:flex-row gap-2 sm:gap-4"
+              // No time axis here, so a dropped visit goes in the first gap that fits
+              onDragOver={(e) => {
+                if (!onAssignVisit || !e.dataTransfer.types.includes(VISIT_DRAG_TYPE)) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+              }}
+              onDrop={(e) => {
+                const visitId = e.dataTransfer.getData(VISIT_DRAG_TYPE);
+                if (!onAssignVisit || !visitId) return;
+                e.preventDefault();
+                onAssignVisit(visitId, resource.id, null);
+              }}
+            >
               {/* Resource Info */}
               <div className="flex items-center gap-2 sm:gap-3 sm:w-36 lg:w-48 shrink-0 sm:border-r sm:border-slate-200 sm:pr-4">
                  <div className="w-7 h-7 sm:w-8 sm:h-8 rounded-full bg-white border border-slate-200 flex items-center justify-center text-[10px] sm:text-xs font-bold text-slate-600">
@@ -255,6 +457,7 @@ function FallbackScheduler({
                     className={`
                       flex-shrink-0 px-1.5 sm:px-2 py-1 sm:py-1.5 rounded text-[9px] sm:text-[10px] font-medium cursor-pointer
                       hover:scale-105 transition-transform active:scale-100
+                      ${event.visitId && event.visitId === selectedVisitId ? "ring-2 ring-slate-900" : ""}
                       ${mode === "baseline"
                         ? "bg-slate-200 text-slate-600 border-l-2 border-slate-400"
                         : event.isAdjusted
@@ -264,6 +467,8 @@ function FallbackScheduler({
                     `}
                     style={{ minWidth: "60px", maxWidth: "100px" }}
                     title={`${event.name} (${formatTime(event.startDate)} - ${formatTime(event.endDate)})`}
+                    onClick={() => onSelectVisit?.(event.visitId ?? null)}
+                    onDoubleClick={() => event.visitId && onEditVisit?.(event.visitId)}
                   >
                     <div className="truncate">{event.name}</div>
                     <div className="text-[8px] sm:text-[9px] opacity-75">{formatTime(event.startDate)}</div>
@@ -295,6 +500,31 @@ function EmptyState() {
   );
 }
 
+/**
+ * Time axis covering every event in the given schedules, padded to whole hours
+ */
+function getSharedDateRange(schedules: SchedulerData[]): { startDate: Date; endDate: Date } {
+  const times = schedules
+    .flatMap((schedule) => schedule.events.flatMap((e) => [new Date(e.startDate).getTime(), new Date(e.endDate).getTime()]))
+    .filter((time) => !isNaN(time));
+
+  if (times.length === 0) {
+    const today = new Date();
+    return {
+      startDate: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 7),
+      endDate: new Date(today.getFullYear(), today.getMonth(), today.getDate(), 19),
+    };
+  }
+
+  const startDate = new Date(Math.min(...times));
+  startDate.setMinutes(0, 0, 0);
+  startDate.setHours(startDate.getHours() - 1);
+  const endDate = new Date(Math.max(...times));
+  endDate.setMinutes(0, 0, 0);
+  endDate.setHours(endDate.getHours() + 2);
+  return { startDate, endDate };
+}
+
 function formatTime(isoString: string): string {
   try {
     return new Date(isoString).toLocaleTimeString("sv-SE", {
@@ -1,27 +1,23 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { geocodeAddress, type GeocodePrecision, type GeocodeResult } from "@/lib/gazetteer";
+import { validateNewVisitTimes } from "@/lib/newVisit";
+import type { NewVisitData, PriorityLevel } from "@/lib/types";
 
-export type NavSection = "dashboard" | "schedule" | "analytics" | "team" | "settings";
-
-export interface NewVisitData {
-  name: string;
-  address: string;
-  duration: number; // minutes
-  resourceId: string;
-  date: string;
-  startTime: string;
-  priority: "low" | "medium" | "high";
-  notes: string;
-}
+export type { NewVisitData } from "@/lib/types";
+
+export type NavSection = "dashboard" | "schedule" | "analytics" | "team" | "history" | "settings";
 
 interface SidebarProps {
   activeSection?: NavSection;
   onNavigate?: (section: NavSection) => void;
   onOpenTeam?: () => void;
   onOpenSettings?: () => void;
-  onNewVisit?: (visit: NewVisitData) => void;
+  onOpenHistory?: () => void;
+  onNewVisit?: (visit: NewVisitData, geocode: GeocodeResult) => void;
   availableResources?: Array<{ id: string; name: string }>;
+  availableSkills?: string[];
 }
 
 export function Sidebar({ 
@@ -29,8 +25,10 @@ export function Sidebar({
   onNavigate,
   onOpenTeam,
   onOpenSettings,
+  onOpenHistory,
   onNewVisit,
   availableResources = [],
+  availableSkills = [],
 }: SidebarProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [showUserMenu, setShowUserMenu] = useState(false);
@@ -54,6 +52,8 @@ export function Sidebar({
     // Trigger specific actions based on section
     if (section === "team") {
       onOpenTeam?.();
+    } else if (section === "history") {
+      onOpenHistory?.();
     } else if (section === "settings") {
       onOpenSettings?.();
     }
@@ -62,6 +62,7 @@ export function Sidebar({
   const navItems: { id: NavSection; icon: React.ReactNode; label: string; badge?: number }[] = [
     { id: "schedule", icon: <CalendarIcon />, label: "Schema" },
     { id: "team", icon: <UsersIcon />, label: "Personal" },
+    { id: "history", icon: <HistoryIcon />, label: "Historik" },
     { id: "settings", icon: <SettingsIcon />, label: "Inställningar" },
   ];
 
@@ -145,11 +146,12 @@ export function Sidebar({
       {showNewVisitModal && (
         <NewVisitModal 
           onClose={() => setShowNewVisitModal(false)}
-          onSubmit={(data) => {
-            onNewVisit?.(data);
+          onSubmit={(data, geocode) => {
+            onNewVisit?.(data, geocode);
             setShowNewVisitModal(false);
           }}
           availableResources={availableResources}
+          availableSkills={availableSkills}
         />
       )}
 
@@ -290,11 +292,19 @@ function NavItem({ active, icon, label, badge, expanded, onClick }: NavItemProps
 // New Visit Modal Component
 interface NewVisitModalProps {
   onClose: () => void;
-  onSubmit: (data: NewVisitData) => void;
+  onSubmit: (data: NewVisitData, geocode: GeocodeResult) => void;
   availableResources: Array<{ id: string; name: string }>;
+  availableSkills: string[];
 }
 
-function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalProps) {
+const PRECISION_LABELS: Record<GeocodePrecision, string> = {
+  coordinates: "koordinater",
+  street: "gata",
+  district: "stadsdel",
+  city: "ort",
+};
+
+function NewVisitModal({ onClose, onSubmit, availableResources, availableSkills }: NewVisitModalProps) {
   const [formData, setFormData] = useState<NewVisitData>({
     name: "",
     address: "",
@@ -302,16 +312,40 @@ function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalP
     resourceId: availableResources[0]?.id || "",
     date: new Date().toISOString().split("T")[0],
     startTime: "09:00",
+    windowStart: "",
+    windowEnd: "",
+    requiredSkills: [],
     priority: "medium",
     notes: "",
   });
+  const [error, setError] = useState<string | null>(null);
+
+  const geocode = formData.address.trim() ? geocodeAddress(formData.address) : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name.trim() || !formData.address.trim()) {
       return;
     }
-    onSubmit(formData);
+    const timeError = validateNewVisitTimes(formData);
+    if (timeError) {
+      setError(timeError);
+      return;
+    }
+    if (!geocode) {
+      setError("Adressen finns inte i ortsregistret. Ange en gata eller stadsdel i Stockholm, eller koordinater (lat, lon).");
+      return;
+    }
+    onSubmit(formData, geocode);
+  };
+
+  const toggleSkill = (skill: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      requiredSkills: prev.requiredSkills.includes(skill)
+        ? prev.requiredSkills.filter((s) => s !== skill)
+        : [...prev.requiredSkills, skill],
+    }));
   };
 
   return (
@@ -377,6 +411,13 @@ function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalP
               className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all"
               required
             />
+            {formData.address.trim() && (
+              <p className={`mt-1 text-xs ${geocode ? "text-slate-500" : "text-amber-600"}`}>
+                {geocode
+                  ? `Placeras vid ${geocode.place ?? `${geocode.latitude}, ${geocode.longitude}`} (${PRECISION_LABELS[geocode.precision]})`
+                  : "Hittas inte i ortsregistret"}
+              </p>
+            )}
           </div>
 
           {/* Date and Time Row */}
@@ -425,17 +466,58 @@ function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalP
                 onChange={(e) => setFormData({ ...formData, resourceId: e.target.value })}
                 className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all bg-white"
               >
-                {availableResources.length > 0 ? (
-                  availableResources.map((r) => (
-                    <option key={r.id} value={r.id}>{r.name}</option>
-                  ))
-                ) : (
-                  <option value="">Ingen personal tillgänglig</option>
-                )}
+                {availableResources.map((r) => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+                <option value="">Ingen – optimeringen väljer</option>
               </select>
             </div>
           </div>
 
+          {/* Time window */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1.5">Tidsfönster (valfritt)</label>
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="time"
+                value={formData.windowStart}
+                onChange={(e) => setFormData({ ...formData, windowStart: e.target.value })}
+                aria-label="Tidigast"
+                className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all"
+              />
+              <input
+                type="time"
+                value={formData.windowEnd}
+                onChange={(e) => setFormData({ ...formData, windowEnd: e.target.value })}
+                aria-label="Senast klart"
+                className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all"
+              />
+            </div>
+          </div>
+
+          {/* Required skills */}
+          {availableSkills.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1.5">Kompetenskrav</label>
+              <div className="flex flex-wrap gap-2">
+                {availableSkills.map((skill) => (
+                  <button
+                    key={skill}
+                    type="button"
+                    onClick={() => toggleSkill(skill)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                      formData.requiredSkills.includes(skill)
+                        ? "bg-brand-50 text-brand-700 border-brand-200 ring-2 ring-offset-1 ring-brand-500"
+                        : "bg-white text-slate-500 border-slate-200 hover:bg-slate-50"
+                    }`}
+                  >
+                    {skill}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Priority */}
           <div>
             <label className="block text-sm font-medium text-slate-700 mb-1.5">Prioritet</label>
@@ -448,7 +530,7 @@ function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalP
                 <button
                   key={p.value}
                   type="button"
-                  onClick={() => setFormData({ ...formData, priority: p.value as "low" | "medium" | "high" })}
+                  onClick={() => setFormData({ ...formData, priority: p.value as PriorityLevel })}
                   className={`
                     flex-1 py-2 px-3 rounded-lg text-sm font-medium border transition-all
                     ${formData.priority === p.value 
@@ -474,6 +556,10 @@ function NewVisitModal({ onClose, onSubmit, availableResources }: NewVisitModalP
               className="w-full px-4 py-2.5 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all resize-none"
             />
           </div>
+
+          {error && (
+            <div className="px-3 py-2 rounded-xl bg-red-50 border border-red-100 text-sm text-red-700">{error}</div>
+          )}
         </form>
 
         {/* Footer */}
@@ -518,6 +604,14 @@ function UsersIcon() {
   );
 }
 
+function HistoryIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  );
+}
+
 function SettingsIcon() {
   return (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
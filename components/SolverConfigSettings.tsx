@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { parseDurationToMinutes } from "@/lib/mapping";
+import { CONSTRAINT_WEIGHTS } from "@/lib/solverConfig";
+import type { SolverConfig, SolverProfile } from "@/lib/types";
+
+interface SolverConfigSettingsProps {
+  config: SolverConfig;             // The configuration the next optimization uses
+  profiles: SolverProfile[];
+  activeProfileId: string | null;
+  onSave: (name: string, config: SolverConfig, profileId?: string) => Promise<void>;
+  onDelete: (profileId: string) => Promise<void>;
+}
+
+interface Draft {
+  name: string;
+  configurationId: string;
+  spentLimit: string;             // minutes
+  unimprovedSpentLimit: string;   // minutes
+  weights: Record<string, string>;
+  maxDrivingTime: string;         // minutes
+  balanceWorkload: boolean;
+}
+
+/**
+ * Form values (as typed) for a solver configuration
+ */
+function toDraft(config: SolverConfig, name: string): Draft {
+  const minutes = (duration: string | undefined) => (duration ? String(parseDurationToMinutes(duration)) : "");
+  return {
+    name,
+    configurationId: config.configurationId ?? "",
+    spentLimit: minutes(config.termination.spentLimit),
+    unimprovedSpentLimit: minutes(config.termination.unimprovedSpentLimit),
+    weights: Object.fromEntries(Object.entries(config.constraintWeights).map(([key, weight]) => [key, String(weight)])),
+    maxDrivingTime: minutes(config.modelOptions.maxDrivingTimePerShift),
+    balanceWorkload: config.modelOptions.balanceWorkload ?? false,
+  };
+}
+
+/**
+ * SolverConfigSettings Component
+ *
+ * Settings section for the Timefold solver: map configuration, termination,
+ * constraint weights and model options. Configurations are saved as named
+ * profiles that show up next to the optimization speeds.
+ */
+export function SolverConfigSettings({ config, profiles, activeProfileId, onSave, onDelete }: SolverConfigSettingsProps) {
+  const activeProfile = profiles.find((profile) => profile.id === activeProfileId);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(config, activeProfile?.name ?? ""));
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(config, activeProfile?.name ?? ""));
+  }, [config, activeProfile?.name]);
+
+  const handleSave = async (asNew: boolean) => {
+    const minuteFields = [draft.spentLimit, draft.unimprovedSpentLimit, draft.maxDrivingTime];
+    const weights = Object.entries(draft.weights).filter(([, value]) => value.trim() !== "");
+    if (!draft.name.trim()) {
+      setMessage({ text: "Ange ett namn för profilen", error: true });
+      return;
+    }
+    if (minuteFields.some((value) => value.trim() !== "" && !/^\d+$/.test(value.trim()))) {
+      setMessage({ text: "Tider anges i hela minuter", error: true });
+      return;
+    }
+    if (weights.some(([, value]) => !isFinite(Number(value)) || Number(value) < 0)) {
+      setMessage({ text: "Vikter måste vara positiva tal", error: true });
+      return;
+    }
+
+    const duration = (value: string) => (value.trim() && Number(value) > 0 ? `PT${Number(value)}M` : undefined);
+    const nextConfig: SolverConfig = {
+      ...(draft.configurationId.trim() ? { configurationId: draft.configurationId.trim() } : {}),
+      termination: {
+        ...(duration(draft.spentLimit) ? { spentLimit: duration(draft.spentLimit) } : {}),
+        ...(duration(draft.unimprovedSpentLimit) ? { unimprovedSpentLimit: duration(draft.unimprovedSpentLimit) } : {}),
+      },
+      constraintWeights: Object.fromEntries(weights.map(([key, value]) => [key, Number(value)])),
+      modelOptions: {
+        ...(duration(draft.maxDrivingTime) ? { maxDrivingTimePerShift: duration(draft.maxDrivingTime) } : {}),
+        ...(draft.balanceWorkload ? { balanceWorkload: true } : {}),
+      },
+    };
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onSave(draft.name.trim(), nextConfig, asNew ? undefined : activeProfile?.id);
+      setMessage({ text: "Profilen sparades och används vid nästa optimering" });
+    } catch (error) {
+      setMessage({ text: `Kunde inte spara: ${error instanceof Error ? error.message : "okänt fel"}`, error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeProfile) return;
+    setSaving(true);
+    setMessage(null);
+    try {
+      await onDelete(activeProfile.id);
+    } catch (error) {
+      setMessage({ text: `Kunde inte ta bort: ${error instanceof Error ? error.message : "okänt fel"}`, error: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = "w-24 text-sm text-right bg-white border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-brand-500";
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-sm font-bold text-slate-900 uppercase tracking-wider">Lösarinställningar</h3>
+        <p className="text-xs text-slate-500 mt-0.5">
+          {activeProfile ? `Profil: ${activeProfile.name}` : "Utgår från vald optimeringshastighet"}
+        </p>
+      </div>
+
+      <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+        <label className="block">
+          <span className="text-sm text-slate-700">Kartkonfiguration</span>
+          <input
+            type="text"
+            value={draft.configurationId}
+            placeholder="Standard (TIMEFOLD_CONFIG_ID)"
+            onChange={(e) => setDraft((prev) => ({ ...prev, configurationId: e.target.value }))}
+            className="mt-1 w-full text-sm bg-white border border-slate-200 rounded-lg px-2 py-1 font-mono focus:outline-none focus:ring-2 focus:ring-brand-500"
+          />
+        </label>
+        {([
+          ["spentLimit", "Tidsgräns"],
+          ["unimprovedSpentLimit", "Stoppa utan förbättring efter"],
+        ] as const).map(([field, label]) => (
+          <label key={field} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-slate-700">{label}</span>
+            <span className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min="0"
+                placeholder="–"
+                value={draft[field]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+                className={inputClass}
+              />
+              <span className="w-10 text-xs text-slate-500">min</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+        <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Vikter</div>
+        {CONSTRAINT_WEIGHTS.map((weight) => (
+          <label key={weight.key} className="flex items-center justify-between gap-3">
+            <span className="text-sm text-slate-700">{weight.label}</span>
+            <span className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                placeholder="1"
+                value={draft.weights[weight.key] ?? ""}
+                onChange={(e) => setDraft((prev) => ({ ...prev, weights: { ...prev.weights, [weight.key]: e.target.value } }))}
+                className={inputClass}
+              />
+              <span className="w-10 text-xs text-slate-500">×</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="p-3 bg-slate-50 rounded-xl space-y-2">
+        <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Modellval</div>
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-sm text-slate-700">Max körtid per pass</span>
+          <span className="flex items-center gap-1.5">
+            <input
+              type="number"
+              min="0"
+              placeholder="–"
+              value={draft.maxDrivingTime}
+              onChange={(e) => setDraft((prev) => ({ ...prev, maxDrivingTime: e.target.value }))}
+              className={inputClass}
+            />
+            <span className="w-10 text-xs text-slate-500">min</span>
+          </span>
+        </label>
+        <label className="flex items-center justify-between gap-3">
+          <span className="text-sm text-slate-700">Balansera arbetsbelastning</span>
+          <input
+            type="checkbox"
+            checked={draft.balanceWorkload}
+            onChange={(e) => setDraft((prev) => ({ ...prev, balanceWorkload: e.target.checked }))}
+            className="w-4 h-4 accent-brand-500"
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-sm text-slate-700">Profilnamn</span>
+        <input
+          type="text"
+          value={draft.name}
+          placeholder="T.ex. Snabb helg"
+          onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+          className="mt-1 w-full text-sm bg-white border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-500"
+        />
+      </label>
+
+      {message && (
+        <p className={`text-xs ${message.error ? "text-red-600" : "text-emerald-600"}`}>{message.text}</p>
+      )}
+
+      <div className="flex gap-2">
+        {activeProfile && (
+          <button
+            onClick={handleDelete}
+            disabled={saving}
+            className="px-3 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 disabled:opacity-50 rounded-xl transition-colors"
+          >
+            Ta bort
+          </button>
+        )}
+        <button
+          onClick={() => handleSave(true)}
+          disabled={saving}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-xl transition-colors"
+        >
+          Spara som ny
+        </button>
+        {activeProfile && (
+          <button
+            onClick={() => handleSave(false)}
+            disabled={saving}
+            className="flex-1 px-3 py-2 text-sm font-medium text-white bg-brand-500 hover:bg-brand-600 disabled:opacity-50 rounded-xl transition-colors"
+          >
+            {saving ? "Sparar..." : "Spara"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
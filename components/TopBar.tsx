@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import type { AppStatus, TimefoldDemoDataMeta, TimefoldModelInput, TimefoldRoutePlan } from "@/lib/types";
+import type { AppStatus, SolverProfile, TimefoldDemoDataMeta, TimefoldModelInput, TimefoldRoutePlan } from "@/lib/types";
 
 export type OptimizationSpeed = "quick" | "standard" | "full";
 
@@ -18,12 +18,27 @@ interface TopBarProps {
   selectedDatasetId: string;
   onDatasetChange: (id: string) => void;
   onLoadDataset: () => void;
+  onImportDataset?: () => void;
+  onImportBaseline?: () => void;
   onOptimize: () => void;
   onSimulate?: () => void;
+  onReoptimize?: () => void;
+  adjustedCount?: number;
+  // Edit history: undo/redo and the change log
+  editHistory?: { undoLabel?: string; redoLabel?: string; count: number };
+  onUndo?: () => void;
+  onRedo?: () => void;
+  onShowEditHistory?: () => void;
+  validationCounts?: { errors: number; warnings: number };
+  onShowValidation?: () => void;
   status: AppStatus;
   canOptimize: boolean;
   optimizationSpeed: OptimizationSpeed;
   onSpeedChange: (speed: OptimizationSpeed) => void;
+  // Saved solver profiles; the active one replaces the speed
+  solverProfiles?: SolverProfile[];
+  activeProfileId?: string | null;
+  onProfileChange?: (profileId: string) => void;
   currentDate: Date;
   onDateChange: (date: Date) => void;
   viewPreset: SchedulerViewPreset;
@@ -36,12 +51,25 @@ export function TopBar({
   datasets,
   selectedDatasetId,
   onDatasetChange,
+  onImportDataset,
+  onImportBaseline,
   onOptimize,
   onSimulate,
+  onReoptimize,
+  adjustedCount = 0,
+  editHistory,
+  onUndo,
+  onRedo,
+  onShowEditHistory,
+  validationCounts,
+  onShowValidation,
   status,
   canOptimize,
   optimizationSpeed,
   onSpeedChange,
+  solverProfiles = [],
+  activeProfileId = null,
+  onProfileChange,
   currentDate,
   onDateChange,
   viewPreset,
@@ -98,7 +126,7 @@ export function TopBar({
   const exportAsCsv = () => {
     if (!inputModel) return;
     
-    const headers = ["Visit ID", "Visit Name", "Address", "Duration", "Required Skills", "Assigned To", "Start Time", "End Time"];
+    const headers = ["Visit ID", "Visit Name", "Address", "Duration", "Required Skills", "Priority", "Assigned To", "Start Time", "End Time", "Notes"];
     const rows: string[][] = [];
     
     inputModel.visits.forEach(visit => {
@@ -132,15 +160,17 @@ export function TopBar({
         address,
         visit.serviceDuration,
         skills,
+        visit.priority !== undefined ? String(visit.priority) : "",
         assignedTo,
         startTime,
         endTime,
+        visit.notes ?? "",
       ]);
     });
     
     const csvContent = [
       headers.join(","),
-      ...rows.map(row => row.map(cell => `"${cell}"`).join(",")),
+      ...rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(",")),
     ].join("\n");
     
     const blob = new Blob([csvContent], { type: "text/csv" });
@@ -294,6 +324,28 @@ export function TopBar({
                   No datasets available
                 </div>
               )}
+              {onImportDataset && (
+                <button
+                  onClick={onImportDataset}
+                  className="w-full flex items-center gap-2 text-left px-3 py-2 mt-1 text-xs sm:text-sm rounded-lg text-brand-600 font-medium border-t border-slate-50 hover:bg-brand-50 transition-colors"
+                >
+                  <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                  Importera dataset…
+                </button>
+              )}
+              {onImportBaseline && (
+                <button
+                  onClick={onImportBaseline}
+                  className="w-full flex items-center gap-2 text-left px-3 py-2 text-xs sm:text-sm rounded-lg text-brand-600 font-medium hover:bg-brand-50 transition-colors"
+                >
+                  <svg className="w-4 h-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                  </svg>
+                  Importera baseline…
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -332,22 +384,116 @@ export function TopBar({
                     onClick={() => onSpeedChange(speed)}
                     className={`
                       w-full text-left px-2 sm:px-3 py-1.5 sm:py-2 text-[11px] sm:text-xs font-medium rounded-lg mb-0.5 transition-colors flex items-center justify-between
-                      ${optimizationSpeed === speed ? "bg-brand-50 text-brand-600" : "text-slate-600 hover:bg-slate-50"}
+                      ${!activeProfileId && optimizationSpeed === speed ? "bg-brand-50 text-brand-600" : "text-slate-600 hover:bg-slate-50"}
                     `}
                   >
                     <span>{OPTIMIZATION_SPEEDS[speed].label}</span>
-                    {optimizationSpeed === speed && (
+                    {!activeProfileId && optimizationSpeed === speed && (
                       <svg className="w-3 h-3 text-brand-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
                       </svg>
                     )}
                   </button>
                 ))}
+                {onProfileChange && solverProfiles.length > 0 && (
+                  <>
+                    <div className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase tracking-wider px-2 sm:px-3 py-1.5 sm:py-2 border-t border-slate-50 mt-1">
+                      Profiler
+                    </div>
+                    {solverProfiles.map((profile) => (
+                      <button
+                        key={profile.id}
+                        onClick={() => onProfileChange(profile.id)}
+                        className={`
+                          w-full text-left px-2 sm:px-3 py-1.5 sm:py-2 text-[11px] sm:text-xs font-medium rounded-lg mb-0.5 transition-colors flex items-center justify-between
+                          ${activeProfileId === profile.id ? "bg-brand-50 text-brand-600" : "text-slate-600 hover:bg-slate-50"}
+                        `}
+                      >
+                        <span className="truncate">{profile.name}</span>
+                        {activeProfileId === profile.id && (
+                          <svg className="w-3 h-3 shrink-0 text-brand-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                          </svg>
+                        )}
+                      </button>
+                    ))}
+                  </>
+                )}
               </div>
             </div>
           </div>
         </div>
 
+        {/* Undo / redo and the change log */}
+        {editHistory && (editHistory.count > 0 || editHistory.redoLabel) && (
+          <div className="flex items-center rounded-lg border border-slate-200 bg-white shadow-sm overflow-hidden">
+            <button
+              onClick={onUndo}
+              disabled={!editHistory.undoLabel}
+              title={editHistory.undoLabel ? `Ångra: ${editHistory.undoLabel} (Ctrl+Z)` : "Inget att ångra"}
+              className="px-2 py-1.5 sm:py-2 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5m-5 5l5 5" />
+              </svg>
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!editHistory.redoLabel}
+              title={editHistory.redoLabel ? `Gör om: ${editHistory.redoLabel} (Ctrl+Shift+Z)` : "Inget att göra om"}
+              className="px-2 py-1.5 sm:py-2 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors border-l border-slate-200"
+            >
+              <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+              </svg>
+            </button>
+            <button
+              onClick={onShowEditHistory}
+              title="Visa ändringslogg"
+              className="px-2.5 py-1.5 sm:py-2 text-xs sm:text-sm font-bold text-slate-600 hover:bg-slate-50 transition-colors border-l border-slate-200 whitespace-nowrap"
+            >
+              Ändringar ({editHistory.count})
+            </button>
+          </div>
+        )}
+
+        {/* Re-optimize around manual changes */}
+        {onReoptimize && adjustedCount > 0 && (
+          <button
+            onClick={onReoptimize}
+            disabled={status === "optimizing" || status === "polling"}
+            title="Lås manuellt flyttade besök och optimera resten"
+            className="flex items-center gap-1.5 sm:gap-2 bg-amber-50 text-amber-700 border border-amber-200 px-3 sm:px-4 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-bold hover:bg-amber-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm"
+          >
+            <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+            <span>Optimera runt ändringar ({adjustedCount})</span>
+          </button>
+        )}
+
+        {/* Dataset validation findings */}
+        {onShowValidation && validationCounts && validationCounts.errors + validationCounts.warnings > 0 && (
+          <button
+            onClick={onShowValidation}
+            title="Visa valideringsproblem i datasetet"
+            className={`flex items-center gap-1.5 sm:gap-2 px-3 sm:px-4 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-bold border transition-colors shadow-sm ${
+              validationCounts.errors > 0
+                ? "bg-red-50 text-red-700 border-red-200 hover:bg-red-100"
+                : "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100"
+            }`}
+          >
+            <svg className="w-3.5 h-3.5 sm:w-4 sm:h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+            </svg>
+            <span>
+              {validationCounts.errors > 0
+                ? `${validationCounts.errors} fel`
+                : `${validationCounts.warnings} varningar`}
+            </span>
+          </button>
+        )}
+
         {/* Export Button */}
         <div className="relative">
           <div className="flex rounded-lg shadow-sm overflow-hidden">
@@ -0,0 +1,114 @@
+"use client";
+
+import type { PriorityLevel } from "@/lib/types";
+import type { UnassignedVisit } from "@/lib/unassigned";
+import { getPriorityLabel } from "@/lib/priority";
+import { describeSkillRequirement } from "@/lib/skills";
+
+/** Drag data type carrying the id of a visit dragged from the list */
+export const VISIT_DRAG_TYPE = "application/x-caire-visit";
+
+interface UnassignedPanelProps {
+  visits: UnassignedVisit[];
+  selectedVisitId?: string | null;
+  onSelectVisit?: (visitId: string | null) => void;
+  onEditVisit?: (visitId: string) => void;
+  canAssign?: boolean;   // Whether visits can be dragged onto the scheduler
+}
+
+const PRIORITY_BADGES: Record<PriorityLevel, string> = {
+  high: "bg-red-50 text-red-700 border-red-200",
+  medium: "bg-indigo-50 text-indigo-700 border-indigo-200",
+  low: "bg-slate-50 text-slate-500 border-slate-200",
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("sv-SE", { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Time window as "08:00–10:00" (open ends as "från"/"till")
+ */
+function formatWindow(window: UnassignedVisit["window"]): string {
+  if (!window || (!window.start && !window.end)) return "Inget tidsfönster";
+  if (!window.end) return `från ${formatTime(window.start!)}`;
+  if (!window.start) return `till ${formatTime(window.end)}`;
+  return `${formatTime(window.start)}–${formatTime(window.end)}`;
+}
+
+/**
+ * UnassignedPanel Component
+ *
+ * The visits without a place in the displayed schedule, next to the
+ * scheduler, with their duration, time window, skills, priority and the
+ * likely reason they weren't assigned. A visit is assigned by dragging it
+ * onto a caregiver's row.
+ */
+export function UnassignedPanel({
+  visits,
+  selectedVisitId = null,
+  onSelectVisit,
+  onEditVisit,
+  canAssign = true,
+}: UnassignedPanelProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div className="shrink-0 px-3 py-2 border-b border-slate-100">
+        <div className="text-xs font-bold text-slate-700">Otilldelade besök ({visits.length})</div>
+        {canAssign && visits.length > 0 && (
+          <div className="text-[10px] text-slate-400">Dra ett besök till en rad i schemat för att tilldela det</div>
+        )}
+      </div>
+
+      {visits.length === 0 ? (
+        <p className="text-xs text-slate-400 text-center py-8">Alla besök är tilldelade</p>
+      ) : (
+        <ul className="flex-1 overflow-y-auto p-2 space-y-2 no-scrollbar">
+          {visits.map(({ visit, durationMinutes, window, requiredSkills, priority, reasons }) => (
+            <li
+              key={visit.id}
+              draggable={canAssign}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(VISIT_DRAG_TYPE, visit.id);
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onClick={() => onSelectVisit?.(visit.id === selectedVisitId ? null : visit.id)}
+              onDoubleClick={() => onEditVisit?.(visit.id)}
+              className={`p-2.5 rounded-xl border bg-white text-xs transition-colors ${
+                canAssign ? "cursor-grab active:cursor-grabbing" : "cursor-pointer"
+              } ${visit.id === selectedVisitId ? "border-brand-400 ring-2 ring-brand-500/30" : "border-slate-200 hover:border-slate-300"}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-semibold text-slate-800 truncate" title={visit.name || visit.id}>
+                  {visit.name || visit.id}
+                </div>
+                <span className={`shrink-0 px-1.5 py-0.5 rounded-md border text-[10px] font-medium ${PRIORITY_BADGES[priority]}`}>
+                  {getPriorityLabel(priority)}
+                </span>
+              </div>
+              <div className="mt-1 text-[10px] text-slate-500">
+                {durationMinutes} min · {formatWindow(window)}
+              </div>
+              {requiredSkills.length > 0 && (
+                <div className="mt-1.5 flex flex-wrap gap-1">
+                  {requiredSkills.map((requirement) => (
+                    <span
+                      key={requirement.name}
+                      className="px-1.5 py-0.5 rounded bg-slate-100 text-[10px] text-slate-600"
+                    >
+                      {describeSkillRequirement(requirement)}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <ul className="mt-1.5 space-y-0.5 list-disc pl-4 text-[10px] text-amber-700">
+                {reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
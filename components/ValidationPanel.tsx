@@ -0,0 +1,123 @@
+"use client";
+
+import { useMemo } from "react";
+import type { ValidationFinding } from "@/lib/types";
+
+interface ValidationPanelProps {
+  findings: ValidationFinding[];
+  onJumpTo: (finding: ValidationFinding) => void;
+}
+
+const ENTITY_LABELS: Record<ValidationFinding["entityType"], string> = {
+  model: "Dataset",
+  vehicle: "Personal",
+  shift: "Pass",
+  visit: "Besök",
+};
+
+/**
+ * ValidationPanel Component
+ *
+ * Lists validation findings for the loaded dataset grouped by entity.
+ * Clicking a visit, caregiver or shift finding jumps to it in the scheduler.
+ */
+export function ValidationPanel({ findings, onJumpTo }: ValidationPanelProps) {
+  const errorCount = findings.filter((finding) => finding.severity === "error").length;
+  const warningCount = findings.length - errorCount;
+
+  // One group per entity, entities with errors first
+  const groups = useMemo(() => {
+    const grouped = new Map<string, ValidationFinding[]>();
+    findings.forEach((finding) => {
+      const key = `${finding.entityType}:${finding.vehicleId ?? ""}:${finding.entityId ?? ""}`;
+      grouped.set(key, [...(grouped.get(key) || []), finding]);
+    });
+    return Array.from(grouped.values()).sort(
+      (a, b) => Number(b.some((f) => f.severity === "error")) - Number(a.some((f) => f.severity === "error"))
+    );
+  }, [findings]);
+
+  if (findings.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-400">
+        <svg className="w-12 h-12 mx-auto mb-3 opacity-50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <p>Inga problem hittades i datasetet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        {errorCount > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-700">
+            {errorCount} fel
+          </span>
+        )}
+        {warningCount > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-700">
+            {warningCount} varningar
+          </span>
+        )}
+        {errorCount > 0 && (
+          <span className="text-xs text-slate-500">Fel måste åtgärdas innan optimering</span>
+        )}
+      </div>
+
+      {groups.map((group) => {
+        const [first] = group;
+        const canJump = first.entityType !== "model" && !!first.entityId;
+        return (
+          <div
+            key={`${first.entityType}:${first.vehicleId ?? ""}:${first.entityId ?? ""}`}
+            className="p-3 bg-slate-50 rounded-xl border border-slate-100"
+          >
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="min-w-0 text-sm">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mr-2">
+                  {ENTITY_LABELS[first.entityType]}
+                </span>
+                <span className="font-medium text-slate-900 truncate">
+                  {first.entityId ?? "Hela datasetet"}
+                </span>
+                {first.entityType === "shift" && first.vehicleId && (
+                  <span className="text-xs text-slate-500"> ({first.vehicleId})</span>
+                )}
+              </div>
+              {canJump && (
+                <button
+                  onClick={() => onJumpTo(first)}
+                  className="shrink-0 text-xs font-medium text-brand-600 hover:text-brand-700"
+                >
+                  Visa i schemat
+                </button>
+              )}
+            </div>
+
+            <ul className="space-y-1">
+              {group.map((finding, index) => (
+                <li key={index} className="flex items-start gap-2 text-xs text-slate-600">
+                  <span
+                    className={`mt-1 w-1.5 h-1.5 rounded-full shrink-0 ${
+                      finding.severity === "error" ? "bg-red-500" : "bg-amber-400"
+                    }`}
+                  />
+                  <span>
+                    {finding.message}
+                    {finding.code === "SOLVER_VALIDATION" && (
+                      <span className="ml-1 text-[10px] font-semibold text-slate-400">(Timefold)</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default ValidationPanel;
@@ -0,0 +1,340 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { geocodeAddress } from "@/lib/gazetteer";
+import { getVisitAddress, parseDurationToMinutes } from "@/lib/mapping";
+import { fromDateTimeInput, toDateTimeInput } from "@/lib/modelEdits";
+import { getPriorityLevel, PRIORITY_LEVELS } from "@/lib/priority";
+import { normalizeRequiredSkills } from "@/lib/skills";
+import type { PriorityLevel, SkillRequirement, TimeWindow, ValidationFinding, Visit } from "@/lib/types";
+
+interface VisitDetailsPanelProps {
+  visit: Visit;
+  availableSkills: string[];   // Skills offered as toggles (the caregivers')
+  // Applies the edited visit; returns its validation findings (errors block the edit)
+  onSave: (visit: Visit) => ValidationFinding[];
+  onDelete?: () => void;       // Removes the visit (can be undone)
+  onClose: () => void;
+}
+
+interface Draft {
+  name: string;
+  duration: string;                        // minutes
+  address: string;
+  skills: string[];
+  windows: { start: string; end: string }[];  // datetime-local values
+  priority: PriorityLevel;
+  notes: string;
+}
+
+/**
+ * Form values (as typed) for a visit
+ */
+function toDraft(visit: Visit): Draft {
+  return {
+    name: visit.name,
+    duration: String(parseDurationToMinutes(visit.serviceDuration)),
+    address: getVisitAddress(visit.location) ?? "",
+    skills: normalizeRequiredSkills(visit.requiredSkills).map((skill) => skill.name),
+    windows: (visit.timeWindows ?? []).map((window) => ({
+      start: toDateTimeInput(window.minStartTime ?? window.startTime),
+      end: toDateTimeInput(window.maxEndTime ?? window.endTime),
+    })),
+    priority: getPriorityLevel(visit.priority),
+    notes: visit.notes ?? "",
+  };
+}
+
+/**
+ * A time window with the edited start and end, written to the keys the
+ * window already used (local startTime/endTime or Timefold minStartTime/maxEndTime)
+ */
+function toTimeWindow(draft: { start: string; end: string }, original?: TimeWindow): TimeWindow {
+  const local = !!original && (original.startTime !== undefined || original.endTime !== undefined);
+  const startKey = local ? "startTime" : "minStartTime";
+  const endKey = local ? "endTime" : "maxEndTime";
+  const window: TimeWindow = { ...original };
+  const start = fromDateTimeInput(draft.start, original?.[startKey]);
+  const end = fromDateTimeInput(draft.end, original?.[endKey]);
+  delete window[startKey];
+  delete window[endKey];
+  if (start) window[startKey] = start;
+  if (end) window[endKey] = end;
+  return window;
+}
+
+/**
+ * VisitDetailsPanel Component
+ *
+ * Detail panel for one visit of the loaded model input, opened by
+ * double-clicking the visit in the schedule. Name, duration, address,
+ * required skills, time windows, priority and notes can be edited; the
+ * edit is validated before it is applied. The visit can also be removed.
+ */
+export function VisitDetailsPanel({ visit, availableSkills, onSave, onDelete, onClose }: VisitDetailsPanelProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(visit));
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [findings, setFindings] = useState<ValidationFinding[]>([]);
+
+  useEffect(() => {
+    setDraft(toDraft(visit));
+  }, [visit]);
+
+  const originalAddress = getVisitAddress(visit.location) ?? "";
+  const addressChanged = draft.address.trim() !== originalAddress.trim();
+  const geocode = addressChanged && draft.address.trim() ? geocodeAddress(draft.address) : null;
+  const skillOptions = Array.from(new Set([...availableSkills, ...draft.skills])).sort();
+
+  const toggleSkill = (skill: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      skills: prev.skills.includes(skill) ? prev.skills.filter((s) => s !== skill) : [...prev.skills, skill],
+    }));
+  };
+
+  const updateWindow = (index: number, field: "start" | "end", value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      windows: prev.windows.map((window, i) => (i === index ? { ...window, [field]: value } : window)),
+    }));
+  };
+
+  const handleSave = () => {
+    setFindings([]);
+    if (!draft.name.trim()) {
+      setMessage({ text: "Ange ett namn för besöket", error: true });
+      return;
+    }
+    if (!/^\d+$/.test(draft.duration.trim()) || Number(draft.duration) <= 0) {
+      setMessage({ text: "Längden anges i hela minuter", error: true });
+      return;
+    }
+    if (addressChanged && !geocode) {
+      setMessage({ text: "Adressen finns inte i ortsregistret. Ange en gata eller stadsdel i Stockholm, eller koordinater (lat, lon).", error: true });
+      return;
+    }
+    if (draft.windows.some((window) => window.start && window.end && window.end <= window.start)) {
+      setMessage({ text: "Ett tidsfönster slutar innan det börjar", error: true });
+      return;
+    }
+
+    const location = !geocode
+      ? visit.location
+      : Array.isArray(visit.location)
+        ? [geocode.latitude, geocode.longitude]
+        : { latitude: geocode.latitude, longitude: geocode.longitude, address: draft.address.trim() };
+
+    const timeWindows = draft.windows
+      .map((window, index) => toTimeWindow(window, visit.timeWindows?.[index]))
+      .filter((window) => Object.keys(window).length > 0);
+
+    // Keep the visit's format (names or requirements) and any minimum levels
+    const requirements = new Map(normalizeRequiredSkills(visit.requiredSkills).map((skill) => [skill.name, skill]));
+    const usesNames = (visit.requiredSkills ?? []).some((skill) => typeof skill === "string");
+    const requiredSkills: string[] | SkillRequirement[] = usesNames
+      ? draft.skills
+      : draft.skills.map((name) => requirements.get(name) ?? { name });
+
+    const edited: Visit = {
+      ...visit,
+      name: draft.name.trim(),
+      location,
+      serviceDuration: `PT${Number(draft.duration)}M`,
+      timeWindows,
+      requiredSkills,
+      // Keep the exact priority (e.g. "2") unless another level was chosen
+      priority: draft.priority === getPriorityLevel(visit.priority)
+        ? visit.priority
+        : PRIORITY_LEVELS.find((entry) => entry.level === draft.priority)!.priority,
+      notes: draft.notes.trim(),
+    };
+    if (timeWindows.length === 0) delete edited.timeWindows;
+    if (draft.skills.length === 0) delete edited.requiredSkills;
+    if (!edited.priority) delete edited.priority;
+    if (!edited.notes) delete edited.notes;
+
+    const result = onSave(edited);
+    setFindings(result);
+    setMessage(result.some((finding) => finding.severity === "error")
+      ? { text: "Ändringen sparades inte:", error: true }
+      : { text: result.length > 0 ? "Ändringen sparades med varningar:" : "Ändringen sparades" });
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-xl border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent transition-all";
+
+  return (
+    <div className="space-y-4">
+      <div className="text-xs text-slate-500 font-mono">{visit.id}</div>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Namn</span>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Längd (min)</span>
+        <input
+          type="number"
+          min="1"
+          value={draft.duration}
+          onChange={(e) => setDraft((prev) => ({ ...prev, duration: e.target.value }))}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Adress</span>
+        <input
+          type="text"
+          value={draft.address}
+          onChange={(e) => setDraft((prev) => ({ ...prev, address: e.target.value }))}
+          className={inputClass}
+        />
+        {addressChanged && draft.address.trim() && (
+          <span className={`block mt-1 text-xs ${geocode ? "text-slate-500" : "text-amber-600"}`}>
+            {geocode
+              ? `Flyttas till ${geocode.place ?? `${geocode.latitude}, ${geocode.longitude}`}`
+              : "Adressen hittades inte"}
+          </span>
+        )}
+      </label>
+
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-sm font-medium text-slate-700">Tidsfönster</span>
+          <button
+            type="button"
+            onClick={() => setDraft((prev) => ({ ...prev, windows: [...prev.windows, { start: "", end: "" }] }))}
+            className="text-xs font-medium text-brand-600 hover:text-brand-700"
+          >
+            + Lägg till
+          </button>
+        </div>
+        {draft.windows.length === 0 && <p className="text-xs text-slate-400">Inga tidsfönster – besöket kan läggas när som helst</p>}
+        <div className="space-y-2">
+          {draft.windows.map((window, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="datetime-local"
+                value={window.start}
+                onChange={(e) => updateWindow(index, "start", e.target.value)}
+                aria-label="Tidigast"
+                className={inputClass}
+              />
+              <input
+                type="datetime-local"
+                value={window.end}
+                onChange={(e) => updateWindow(index, "end", e.target.value)}
+                aria-label="Senast klart"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={() => setDraft((prev) => ({ ...prev, windows: prev.windows.filter((_, i) => i !== index) }))}
+                title="Ta bort tidsfönster"
+                className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg hover:bg-red-50"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {skillOptions.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium text-slate-700 mb-1.5">Kompetenskrav</span>
+          <div className="flex flex-wrap gap-2">
+            {skillOptions.map((skill) => (
+              <button
+                key={skill}
+                type="button"
+                onClick={() => toggleSkill(skill)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                  draft.skills.includes(skill)
+                    ? "bg-brand-50 text-brand-700 border-brand-200 ring-2 ring-offset-1 ring-brand-500"
+                    : "bg-white text-slate-500 border-slate-200 hover:bg-slate-50"
+                }`}
+              >
+                {skill}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Prioritet</span>
+        <div className="flex gap-2">
+          {PRIORITY_LEVELS.map((entry) => (
+            <button
+              key={entry.level}
+              type="button"
+              onClick={() => setDraft((prev) => ({ ...prev, priority: entry.level }))}
+              className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium border transition-all ${
+                draft.priority === entry.level
+                  ? "bg-brand-50 text-brand-700 border-brand-200 ring-2 ring-offset-1 ring-brand-500"
+                  : "bg-white text-slate-500 border-slate-200 hover:bg-slate-50"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="block text-sm font-medium text-slate-700 mb-1.5">Anteckningar</span>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => setDraft((prev) => ({ ...prev, notes: e.target.value }))}
+          rows={3}
+          className={`${inputClass} resize-none`}
+        />
+      </label>
+
+      {message && (
+        <div className={`text-xs ${message.error ? "text-red-600" : "text-emerald-600"}`}>
+          <p>{message.text}</p>
+          {findings.length > 0 && (
+            <ul className="mt-1 space-y-0.5 list-disc pl-4">
+              {findings.map((finding, index) => (
+                <li key={index} className={finding.severity === "error" ? "text-red-600" : "text-amber-600"}>
+                  {finding.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="px-3 py-2 text-sm font-medium text-red-600 bg-red-50 hover:bg-red-100 rounded-xl transition-colors"
+          >
+            Ta bort
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="flex-1 px-3 py-2 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+        >
+          Stäng
+        </button>
+        <button
+          onClick={handleSave}
+          className="flex-1 px-3 py-2 text-sm font-medium text-white bg-brand-500 hover:bg-brand-600 rounded-xl transition-colors"
+        >
+          Spara
+        </button>
+      </div>
+    </div>
+  );
+}
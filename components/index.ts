@@ -13,6 +13,17 @@ export { JsonPanel } from "./JsonPanel";
 export { LoadingOverlay, InlineLoader } from "./LoadingOverlay";
 export { ErrorMessage } from "./ErrorMessage";
 export { SchedulerView } from "./SchedulerView";
+export { RouteMap } from "./RouteMap";
+export { HistoryPanel } from "./HistoryPanel";
+export { ImportWizard } from "./ImportWizard";
+export { ValidationPanel } from "./ValidationPanel";
+export { CostModelSettings } from "./CostModelSettings";
+export { BaselinePanel } from "./BaselinePanel";
+export { SolverConfigSettings } from "./SolverConfigSettings";
+export { VisitDetailsPanel } from "./VisitDetailsPanel";
+export { CaregiverDetailsPanel } from "./CaregiverDetailsPanel";
+export { EditHistoryPanel } from "./EditHistoryPanel";
+export { UnassignedPanel } from "./UnassignedPanel";
 export { Sidebar } from "./Sidebar";
 export type { NavSection, NewVisitData } from "./Sidebar";
 export { FilterBar } from "./FilterBar";
@@ -0,0 +1,46 @@
+/**
+ * Baseline Store
+ *
+ * Persists the manual schedule used as a dataset's baseline - imported from
+ * a spreadsheet or taken from an earlier route plan. Datasets without one
+ * use the generated baseline.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ */
+
+import type { ManualAssignment, StoredBaseline } from "./types";
+import { deleteDocument, readDocument, writeDocument } from "./fileStore";
+
+const COLLECTION = "baselines";
+
+/**
+ * The dataset's manual baseline, or null if it uses the generated one
+ */
+export async function getBaseline(datasetId: string): Promise<StoredBaseline | null> {
+  return readDocument<StoredBaseline>(COLLECTION, datasetId);
+}
+
+/**
+ * Stores the dataset's manual baseline, replacing any earlier one
+ */
+export async function saveBaseline(baseline: {
+  datasetId: string;
+  name: string;
+  source: StoredBaseline["source"];
+  sourceRoutePlanId?: string;
+  assignments: ManualAssignment[];
+}): Promise<StoredBaseline> {
+  const record: StoredBaseline = {
+    ...baseline,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeDocument(COLLECTION, baseline.datasetId, record);
+  return record;
+}
+
+/**
+ * Removes the dataset's manual baseline; false if it had none
+ */
+export async function deleteBaseline(datasetId: string): Promise<boolean> {
+  return deleteDocument(COLLECTION, datasetId);
+}
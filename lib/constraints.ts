@@ -0,0 +1,182 @@
+/**
+ * Schedule Constraint Checker
+ *
+ * Checks a mapped schedule against the model input - after mapping and after
+ * every manual edit - and reports per visit event:
+ * - late: starts after its time window allows (or runs past its end)
+ * - early: starts before its time window opens
+ * - overtime: runs outside the caregiver's shift
+ * - overlap: overlaps another visit or a required break of the caregiver
+ *
+ * Deviations under a minute are ignored (drag snapping, rounded seconds).
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type {
+  SchedulerData,
+  SchedulerEvent,
+  ScheduleViolation,
+  TimefoldModelInput,
+  ViolationKind,
+  Visit,
+} from "./types";
+import { findShiftForTime } from "./mapping";
+
+const TOLERANCE_MS = 60000;
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Every violation in the schedule, in event order
+ */
+export function checkScheduleConstraints(
+  schedule: SchedulerData,
+  modelInput: TimefoldModelInput
+): ScheduleViolation[] {
+  const visits = new Map(modelInput.visits.map((visit) => [visit.id, visit]));
+  const resources = new Map(schedule.resources.map((resource) => [resource.id, resource]));
+  const assigned = schedule.events.filter((event) => event.eventType === "visit");
+  const violations: ScheduleViolation[] = [];
+
+  assigned.forEach((event) => {
+    const start = new Date(event.startDate).getTime();
+    const end = new Date(event.endDate).getTime();
+    if (isNaN(start) || isNaN(end)) return;
+
+    const visit = event.visitId ? visits.get(event.visitId) : undefined;
+    const windowViolation = visit ? checkTimeWindows(visit, start, end) : null;
+    if (windowViolation) {
+      violations.push({ ...windowViolation, eventId: event.id, resourceId: event.resourceId, visitId: event.visitId });
+    }
+
+    // Shift of the event, or the one containing / closest to its start
+    const shifts = resources.get(event.resourceId)?.shifts ?? [];
+    const shift = shifts.find((s) => s.id === event.shiftId) ?? shifts.find((s) => s.id === findShiftForTime(
+      shifts.map((s) => ({ id: s.id, startTime: s.start, endTime: s.end })),
+      event.startDate
+    )?.id);
+    if (shift) {
+      const outside = Math.max(0, new Date(shift.start).getTime() - start) + Math.max(0, end - new Date(shift.end).getTime());
+      if (outside >= TOLERANCE_MS) {
+        violations.push({ kind: "overtime", eventId: event.id, resourceId: event.resourceId, visitId: event.visitId, minutes: toMinutes(outside) });
+      }
+    }
+  });
+
+  violations.push(...checkOverlaps(schedule.events));
+  return violations.sort((a, b) => a.eventId.localeCompare(b.eventId));
+}
+
+/**
+ * Violations per kind
+ */
+export function countViolations(violations: ScheduleViolation[]): Record<ViolationKind, number> {
+  const counts: Record<ViolationKind, number> = { late: 0, early: 0, overtime: 0, overlap: 0 };
+  violations.forEach((violation) => counts[violation.kind]++);
+  return counts;
+}
+
+/**
+ * Copy of the schedule with each event's violations attached (and stale
+ * ones cleared)
+ */
+export function applyViolations(schedule: SchedulerData, violations: ScheduleViolation[]): SchedulerData {
+  const byEvent = new Map<string, ScheduleViolation[]>();
+  violations.forEach((violation) => {
+    byEvent.set(violation.eventId, [...(byEvent.get(violation.eventId) ?? []), violation]);
+  });
+
+  return {
+    ...schedule,
+    events: schedule.events.map((event) => {
+      const eventViolations = byEvent.get(event.id);
+      if (eventViolations) return { ...event, violations: eventViolations };
+      if (!event.violations) return event;
+      const { violations: _stale, ...rest } = event;
+      return rest;
+    }),
+  };
+}
+
+// ============================================================
+// CHECKS
+// ============================================================
+
+/**
+ * The smallest deviation from any of the visit's time windows, or null if
+ * the visit fits one of them (or has none)
+ */
+function checkTimeWindows(
+  visit: Visit,
+  start: number,
+  end: number
+): Pick<ScheduleViolation, "kind" | "minutes"> | null {
+  const windows = (visit.timeWindows ?? []).map((window) => ({
+    start: new Date(window.minStartTime || window.startTime || "").getTime(),
+    latestStart: new Date(window.maxStartTime || "").getTime(),
+    end: new Date(window.maxEndTime || window.endTime || "").getTime(),
+  }));
+  if (windows.length === 0) return null;
+
+  let best: Pick<ScheduleViolation, "kind" | "minutes"> & { ms: number } | null = null;
+  for (const window of windows) {
+    const early = isNaN(window.start) ? 0 : window.start - start;
+    const late = Math.max(
+      isNaN(window.latestStart) ? 0 : start - window.latestStart,
+      isNaN(window.end) ? 0 : end - window.end
+    );
+    const ms = Math.max(early, late);
+    if (ms < TOLERANCE_MS) return null;
+    if (!best || ms < best.ms) {
+      best = { kind: early > 0 ? "early" : "late", minutes: toMinutes(ms), ms };
+    }
+  }
+  return best ? { kind: best.kind, minutes: best.minutes } : null;
+}
+
+/**
+ * Visits overlapping another visit or a required break on the same caregiver
+ */
+function checkOverlaps(events: SchedulerEvent[]): ScheduleViolation[] {
+  const violations: ScheduleViolation[] = [];
+  const byResource = new Map<string, SchedulerEvent[]>();
+  events
+    .filter((event) => event.eventType === "visit" || event.breakId)
+    .forEach((event) => byResource.set(event.resourceId, [...(byResource.get(event.resourceId) ?? []), event]));
+
+  byResource.forEach((resourceEvents) => {
+    const sorted = resourceEvents
+      .map((event) => ({ event, start: new Date(event.startDate).getTime(), end: new Date(event.endDate).getTime() }))
+      .filter((item) => !isNaN(item.start) && !isNaN(item.end))
+      .sort((a, b) => a.start - b.start);
+
+    sorted.forEach((item, i) => {
+      for (let j = i + 1; j < sorted.length && sorted[j].start < item.end; j++) {
+        const other = sorted[j];
+        const ms = Math.min(item.end, other.end) - other.start;
+        if (ms < TOLERANCE_MS) continue;
+        [[item.event, other.event], [other.event, item.event]].forEach(([event, otherEvent]) => {
+          if (event.eventType !== "visit") return;
+          violations.push({
+            kind: "overlap",
+            eventId: event.id,
+            resourceId: event.resourceId,
+            visitId: event.visitId,
+            minutes: toMinutes(ms),
+            otherEventId: otherEvent.id,
+            otherName: otherEvent.name,
+          });
+        });
+      }
+    });
+  });
+
+  return violations;
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / 60000);
+}
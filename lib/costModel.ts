@@ -0,0 +1,128 @@
+/**
+ * Cost Model
+ *
+ * Prices a schedule from the paid time per shift, the distance driven and
+ * the visits left unassigned:
+ * - labor: paid time up to the regular shift length at the caregiver's rate
+ * - overtime: paid time beyond it, at the rate times the overtime multiplier
+ * - mileage: kilometers driven times the cost per km
+ * - fixed: a fixed cost per caregiver with any work
+ * - unassigned penalty: a penalty per visit left unassigned
+ *
+ * The default model reproduces the original flat 450 SEK/hour pricing.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { CostBreakdown, CostModel } from "./types";
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  hourlyRate: 450,
+  vehicleHourlyRates: {},
+  regularMinutesPerShift: 8 * 60,
+  overtimeMultiplier: 1.5,
+  costPerKm: 0,
+  fixedCostPerVehicle: 0,
+  unassignedVisitPenalty: 0,
+};
+
+const NUMERIC_FIELDS = [
+  "hourlyRate",
+  "regularMinutesPerShift",
+  "overtimeMultiplier",
+  "costPerKm",
+  "fixedCostPerVehicle",
+  "unassignedVisitPenalty",
+] as const;
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * A complete cost model from user input: missing fields fall back to the
+ * defaults; throws if a value is not a non-negative number
+ */
+export function normalizeCostModel(value: unknown): CostModel {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Cost model must be an object");
+  }
+  const input = value as Record<string, unknown>;
+  const costModel: CostModel = { ...DEFAULT_COST_MODEL, vehicleHourlyRates: {} };
+
+  NUMERIC_FIELDS.forEach((field) => {
+    if (input[field] === undefined) return;
+    costModel[field] = toAmount(input[field], field);
+  });
+  if (costModel.overtimeMultiplier < 1) {
+    throw new Error("overtimeMultiplier must be at least 1");
+  }
+
+  const rates = input.vehicleHourlyRates;
+  if (rates !== undefined) {
+    if (!rates || typeof rates !== "object" || Array.isArray(rates)) {
+      throw new Error("vehicleHourlyRates must map vehicle ids to hourly rates");
+    }
+    Object.entries(rates).forEach(([vehicleId, rate]) => {
+      costModel.vehicleHourlyRates[vehicleId] = toAmount(rate, `vehicleHourlyRates.${vehicleId}`);
+    });
+  }
+
+  return costModel;
+}
+
+function toAmount(value: unknown, field: string): number {
+  const amount = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof amount !== "number" || !isFinite(amount) || amount < 0) {
+    throw new Error(`${field} must be a non-negative number`);
+  }
+  return amount;
+}
+
+// ============================================================
+// PRICING
+// ============================================================
+
+/**
+ * Hourly rate of a caregiver: their own rate if set, else the default
+ */
+export function getHourlyRate(costModel: CostModel, vehicleId: string): number {
+  return costModel.vehicleHourlyRates[vehicleId] ?? costModel.hourlyRate;
+}
+
+/**
+ * Cost of a schedule by cost driver, rounded to whole SEK
+ */
+export function computeCostBreakdown(
+  costModel: CostModel,
+  schedule: {
+    shiftWork: Array<{ vehicleId: string; minutes: number }>;  // Paid minutes per shift
+    distanceMeters: number;
+    unassignedVisits: number;
+  }
+): CostBreakdown {
+  let labor = 0;
+  let overtime = 0;
+  const usedVehicles = new Set<string>();
+
+  schedule.shiftWork.forEach(({ vehicleId, minutes }) => {
+    if (minutes <= 0) return;
+    const rate = getHourlyRate(costModel, vehicleId);
+    const regular = Math.min(minutes, costModel.regularMinutesPerShift);
+    labor += (regular / 60) * rate;
+    overtime += ((minutes - regular) / 60) * rate * costModel.overtimeMultiplier;
+    usedVehicles.add(vehicleId);
+  });
+
+  const breakdown = {
+    labor: Math.round(labor),
+    overtime: Math.round(overtime),
+    mileage: Math.round((schedule.distanceMeters / 1000) * costModel.costPerKm),
+    fixed: Math.round(usedVehicles.size * costModel.fixedCostPerVehicle),
+    unassignedPenalty: Math.round(schedule.unassignedVisits * costModel.unassignedVisitPenalty),
+  };
+  return {
+    ...breakdown,
+    total: breakdown.labor + breakdown.overtime + breakdown.mileage + breakdown.fixed + breakdown.unassignedPenalty,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Cost Model Store
+ *
+ * Persists the cost model edited in the settings panel, one per dataset.
+ * Datasets without a stored model are priced with DEFAULT_COST_MODEL.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ */
+
+import type { CostModel, StoredCostModel } from "./types";
+import { readDocument, writeDocument } from "./fileStore";
+import { DEFAULT_COST_MODEL } from "./costModel";
+
+const COLLECTION = "cost-models";
+
+/**
+ * The dataset's cost model, or the default if none is stored
+ */
+export async function getCostModel(datasetId: string): Promise<{ costModel: CostModel; isDefault: boolean }> {
+  const record = await readDocument<StoredCostModel>(COLLECTION, datasetId);
+  return record
+    ? { costModel: record.costModel, isDefault: false }
+    : { costModel: DEFAULT_COST_MODEL, isDefault: true };
+}
+
+/**
+ * Stores the dataset's cost model, replacing any earlier one
+ */
+export async function saveCostModel(datasetId: string, costModel: CostModel): Promise<StoredCostModel> {
+  const record: StoredCostModel = {
+    datasetId,
+    costModel,
+    updatedAt: new Date().toISOString(),
+  };
+  await writeDocument(COLLECTION, datasetId, record);
+  return record;
+}
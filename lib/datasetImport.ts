@@ -0,0 +1,545 @@
+/**
+ * Dataset Import
+ *
+ * Turns visit and staff spreadsheets into a TimefoldModelInput. Each sheet
+ * is read through a column mapping (import field → spreadsheet header),
+ * every row is validated, and rows with errors are reported by row number
+ * and left out of the result.
+ *
+ * Output uses the Timefold format ([lat, lon] locations, minStartTime /
+ * maxEndTime, skill objects) so imported datasets can be optimized.
+ *
+ * A manual schedule (visit → caregiver and start time) is read the same way
+ * and becomes the dataset's baseline.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { ManualAssignment, TimefoldModelInput, Vehicle, Visit } from "./types";
+import type { SpreadsheetTable } from "./spreadsheet";
+import { parseDurationToMinutes } from "./mapping";
+import { normalizePriority } from "./priority";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ImportSheetKind = "visits" | "staff";
+
+/**
+ * A target field that a spreadsheet column can be mapped to
+ */
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Normalized header names recognized when suggesting a mapping
+  aliases: string[];
+}
+
+/**
+ * Import field key → spreadsheet header
+ */
+export type ImportColumnMapping = Record<string, string | undefined>;
+
+/**
+ * A validation error tied to a spreadsheet row (and column, if known)
+ */
+export interface ImportRowError {
+  sheet: ImportSheetKind | "schedule";
+  rowNumber: number;
+  column?: string;
+  message: string;
+}
+
+export interface ImportOptions {
+  // Offset applied to dates/times without one, e.g. "+01:00"
+  utcOffset?: string;
+}
+
+export interface ImportResult {
+  modelInput: TimefoldModelInput;
+  errors: ImportRowError[];
+  // Data rows that were read, including the ones rejected
+  rowCounts: Record<ImportSheetKind, number>;
+}
+
+// ============================================================
+// FIELDS
+// ============================================================
+
+export const VISIT_IMPORT_FIELDS: ImportField[] = [
+  { key: "id", label: "Besöks-ID", aliases: ["id", "visitid", "besoksid"] },
+  { key: "name", label: "Namn", required: true, aliases: ["name", "namn", "kund", "brukare", "client"] },
+  { key: "latitude", label: "Latitud", aliases: ["latitude", "lat", "latitud"] },
+  { key: "longitude", label: "Longitud", aliases: ["longitude", "lon", "lng", "longitud"] },
+  { key: "location", label: "Koordinater (lat, lon)", aliases: ["location", "coordinates", "koordinater", "position"] },
+  { key: "serviceDuration", label: "Besökstid", required: true, aliases: ["serviceduration", "duration", "besokstid", "langd", "minuter", "tid"] },
+  { key: "date", label: "Datum", aliases: ["date", "datum", "dag"] },
+  { key: "windowStart", label: "Tidsfönster från", aliases: ["windowstart", "earlieststart", "from", "fran", "starttid", "tidigast"] },
+  { key: "windowEnd", label: "Tidsfönster till", aliases: ["windowend", "latestend", "to", "till", "sluttid", "senast"] },
+  { key: "requiredSkills", label: "Kompetenskrav", aliases: ["requiredskills", "skills", "kompetens", "kompetenser", "kompetenskrav"] },
+  { key: "priority", label: "Prioritet", aliases: ["priority", "prioritet", "prio"] },
+];
+
+export const STAFF_IMPORT_FIELDS: ImportField[] = [
+  { key: "id", label: "Personal-ID", aliases: ["id", "staffid", "vehicleid", "personalid", "anstallningsnummer"] },
+  { key: "name", label: "Namn", required: true, aliases: ["name", "namn", "personal", "medarbetare"] },
+  { key: "date", label: "Datum", aliases: ["date", "datum", "dag"] },
+  { key: "shiftStart", label: "Passets start", required: true, aliases: ["shiftstart", "start", "starttid", "passstart"] },
+  { key: "shiftEnd", label: "Passets slut", required: true, aliases: ["shiftend", "end", "sluttid", "passslut"] },
+  { key: "latitude", label: "Latitud (start)", aliases: ["latitude", "lat", "latitud"] },
+  { key: "longitude", label: "Longitud (start)", aliases: ["longitude", "lon", "lng", "longitud"] },
+  { key: "location", label: "Startplats (lat, lon)", aliases: ["location", "coordinates", "koordinater", "startplats"] },
+  { key: "skills", label: "Kompetenser", aliases: ["skills", "kompetens", "kompetenser"] },
+];
+
+export const SCHEDULE_IMPORT_FIELDS: ImportField[] = [
+  { key: "visitId", label: "Besöks-ID", required: true, aliases: ["visitid", "visit", "besoksid", "besok", "id"] },
+  { key: "vehicleId", label: "Personal-ID", required: true, aliases: ["vehicleid", "staffid", "personalid", "personal", "medarbetare", "vehicle"] },
+  { key: "date", label: "Datum", aliases: ["date", "datum", "dag"] },
+  { key: "startTime", label: "Starttid", required: true, aliases: ["starttime", "start", "starttid", "fran"] },
+  { key: "endTime", label: "Sluttid", aliases: ["endtime", "end", "sluttid", "till"] },
+];
+
+export const IMPORT_FIELDS: Record<ImportSheetKind, ImportField[]> = {
+  visits: VISIT_IMPORT_FIELDS,
+  staff: STAFF_IMPORT_FIELDS,
+};
+
+// ============================================================
+// COLUMN MAPPING
+// ============================================================
+
+/**
+ * Suggests a mapping by matching normalized headers against field aliases
+ */
+export function suggestColumnMapping(headers: string[], fields: ImportField[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const used = new Set<string>();
+
+  fields.forEach((field) => {
+    const header = headers.find(
+      (candidate) => !used.has(candidate) && field.aliases.includes(normalizeHeader(candidate))
+    );
+    if (header) {
+      mapping[field.key] = header;
+      used.add(header);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Lists mapping problems that block the import (before rows are read)
+ */
+export function validateColumnMapping(
+  sheet: ImportSheetKind,
+  headers: string[],
+  mapping: ImportColumnMapping
+): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+
+  IMPORT_FIELDS[sheet].forEach((field) => {
+    const header = mapping[field.key];
+    if (header && !headers.includes(header)) {
+      errors.push({ sheet, rowNumber: 1, column: header, message: `Column "${header}" does not exist in the file.` });
+    } else if (field.required && !header) {
+      errors.push({ sheet, rowNumber: 1, message: `"${field.label}" must be mapped to a column.` });
+    }
+  });
+
+  const hasCoordinates = (mapping.latitude && mapping.longitude) || mapping.location;
+  if (!hasCoordinates) {
+    errors.push({
+      sheet,
+      rowNumber: 1,
+      message: "Map either latitude and longitude columns or a combined coordinates column.",
+    });
+  }
+
+  return errors;
+}
+
+// ============================================================
+// IMPORT
+// ============================================================
+
+/**
+ * Builds a model input from visit and staff tables. Rows with errors are
+ * skipped and reported; rows sharing a staff ID become shifts of one vehicle.
+ */
+export function buildModelInputFromTables(
+  tables: Record<ImportSheetKind, SpreadsheetTable>,
+  mappings: Record<ImportSheetKind, ImportColumnMapping>,
+  options: ImportOptions = {}
+): ImportResult {
+  const utcOffset = normalizeUtcOffset(options.utcOffset);
+  const errors: ImportRowError[] = [
+    ...validateColumnMapping("visits", tables.visits.headers, mappings.visits),
+    ...validateColumnMapping("staff", tables.staff.headers, mappings.staff),
+  ];
+  const rowCounts = { visits: tables.visits.rows.length, staff: tables.staff.rows.length };
+
+  // Without a usable mapping every row would fail the same way
+  if (errors.length > 0) {
+    return { modelInput: { vehicles: [], visits: [] }, errors, rowCounts };
+  }
+
+  const visits = readVisits(tables.visits, mappings.visits, utcOffset, errors);
+  const vehicles = readVehicles(tables.staff, mappings.staff, utcOffset, errors);
+
+  if (tables.visits.rows.length === 0) {
+    errors.push({ sheet: "visits", rowNumber: 1, message: "The visits file has no data rows." });
+  }
+  if (tables.staff.rows.length === 0) {
+    errors.push({ sheet: "staff", rowNumber: 1, message: "The staff file has no data rows." });
+  }
+
+  return { modelInput: { vehicles, visits }, errors, rowCounts };
+}
+
+/**
+ * Reads a manual schedule: one row per visit with the caregiver and start
+ * time it was planned at. Rows with errors are skipped and reported; a visit
+ * listed twice keeps its first row.
+ */
+export function readScheduleTable(
+  table: SpreadsheetTable,
+  mapping: ImportColumnMapping,
+  options: ImportOptions = {}
+): { assignments: ManualAssignment[]; errors: ImportRowError[]; rowCount: number } {
+  const utcOffset = normalizeUtcOffset(options.utcOffset);
+  const errors: ImportRowError[] = [];
+  const assignments: ManualAssignment[] = [];
+  const seenVisits = new Set<string>();
+
+  SCHEDULE_IMPORT_FIELDS.forEach((field) => {
+    const header = mapping[field.key];
+    if (header && !table.headers.includes(header)) {
+      errors.push({ sheet: "schedule", rowNumber: 1, column: header, message: `Column "${header}" does not exist in the file.` });
+    } else if (field.required && !header) {
+      errors.push({ sheet: "schedule", rowNumber: 1, message: `"${field.label}" must be mapped to a column.` });
+    }
+  });
+  if (errors.length > 0) {
+    return { assignments, errors, rowCount: table.rows.length };
+  }
+
+  table.rows.forEach((row) => {
+    const cell = cellReader(table, mapping, row.cells);
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: string, message: string) =>
+      rowErrors.push({ sheet: "schedule", rowNumber: row.rowNumber, column: mapping[field], message });
+
+    const visitId = cell("visitId");
+    if (!visitId) fail("visitId", "Visit ID is missing.");
+    if (seenVisits.has(visitId)) fail("visitId", `Visit "${visitId}" is already scheduled on an earlier row.`);
+    const vehicleId = cell("vehicleId");
+    if (!vehicleId) fail("vehicleId", "Staff ID is missing.");
+
+    const date = cell("date") ? parseDateValue(cell("date")) : undefined;
+    if (date === null) fail("date", `Invalid date "${cell("date")}". Use YYYY-MM-DD.`);
+
+    const startTime = parseDateTimeValue(cell("startTime"), date ?? undefined, utcOffset);
+    if (!startTime) fail("startTime", `Invalid start time "${cell("startTime")}".`);
+    let endTime: string | null | undefined;
+    if (cell("endTime")) {
+      endTime = parseDateTimeValue(cell("endTime"), date ?? undefined, utcOffset);
+      if (!endTime) fail("endTime", `Invalid end time "${cell("endTime")}".`);
+    }
+    if (startTime && endTime && new Date(endTime) <= new Date(startTime)) {
+      fail("endTime", "The visit ends before it starts.");
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    seenVisits.add(visitId);
+    assignments.push({ visitId, vehicleId, startTime: startTime!, ...(endTime ? { endTime } : {}) });
+  });
+
+  if (table.rows.length === 0) {
+    errors.push({ sheet: "schedule", rowNumber: 1, message: "The schedule file has no data rows." });
+  }
+
+  return { assignments, errors, rowCount: table.rows.length };
+}
+
+function readVisits(
+  table: SpreadsheetTable,
+  mapping: ImportColumnMapping,
+  utcOffset: string,
+  errors: ImportRowError[]
+): Visit[] {
+  const visits: Visit[] = [];
+  const seenIds = new Set<string>();
+
+  table.rows.forEach((row) => {
+    const cell = cellReader(table, mapping, row.cells);
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: string, message: string) =>
+      rowErrors.push({ sheet: "visits", rowNumber: row.rowNumber, column: mapping[field], message });
+
+    const id = cell("id") || `visit-${row.rowNumber}`;
+    if (seenIds.has(id)) fail("id", `Duplicate visit ID "${id}".`);
+
+    const name = cell("name");
+    if (!name) fail("name", "Name is missing.");
+
+    const location = readCoordinates(cell);
+    if (!location) fail(mapping.location ? "location" : "latitude", "Missing or invalid coordinates.");
+
+    const durationMinutes = parseDurationValue(cell("serviceDuration"));
+    if (durationMinutes === null) {
+      fail("serviceDuration", `Invalid duration "${cell("serviceDuration")}". Use minutes, HH:MM or ISO (PT30M).`);
+    }
+
+    const date = cell("date") ? parseDateValue(cell("date")) : undefined;
+    if (date === null) fail("date", `Invalid date "${cell("date")}". Use YYYY-MM-DD.`);
+
+    let windowStart: string | null | undefined;
+    let windowEnd: string | null | undefined;
+    if (cell("windowStart")) {
+      windowStart = parseDateTimeValue(cell("windowStart"), date ?? undefined, utcOffset);
+      if (!windowStart) fail("windowStart", `Invalid time "${cell("windowStart")}".`);
+    }
+    if (cell("windowEnd")) {
+      windowEnd = parseDateTimeValue(cell("windowEnd"), date ?? undefined, utcOffset);
+      if (!windowEnd) fail("windowEnd", `Invalid time "${cell("windowEnd")}".`);
+    }
+    if (windowStart && windowEnd && new Date(windowEnd) <= new Date(windowStart)) {
+      fail("windowEnd", "The time window ends before it starts.");
+    }
+
+    const priority = cell("priority") ? normalizePriority(cell("priority")) : undefined;
+    if (cell("priority") && !priority) {
+      fail("priority", `Invalid priority "${cell("priority")}". Use a whole number from 1 to 10 or high/medium/low.`);
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    seenIds.add(id);
+    const skills = splitList(cell("requiredSkills"));
+    visits.push({
+      id,
+      name,
+      location: location!,
+      serviceDuration: `PT${durationMinutes}M`,
+      ...(windowStart || windowEnd
+        ? { timeWindows: [{ minStartTime: windowStart || undefined, maxEndTime: windowEnd || undefined }] }
+        : {}),
+      ...(skills.length > 0 ? { requiredSkills: skills.map((skill) => ({ name: skill })) } : {}),
+      ...(priority ? { priority } : {}),
+    });
+  });
+
+  return visits;
+}
+
+function readVehicles(
+  table: SpreadsheetTable,
+  mapping: ImportColumnMapping,
+  utcOffset: string,
+  errors: ImportRowError[]
+): Vehicle[] {
+  const vehicles = new Map<string, Vehicle>();
+
+  table.rows.forEach((row) => {
+    const cell = cellReader(table, mapping, row.cells);
+    const rowErrors: ImportRowError[] = [];
+    const fail = (field: string, message: string) =>
+      rowErrors.push({ sheet: "staff", rowNumber: row.rowNumber, column: mapping[field], message });
+
+    const name = cell("name");
+    if (!name) fail("name", "Name is missing.");
+    const id = cell("id") || slugify(name) || `staff-${row.rowNumber}`;
+
+    const location = readCoordinates(cell);
+    if (!location) fail(mapping.location ? "location" : "latitude", "Missing or invalid start coordinates.");
+
+    const date = cell("date") ? parseDateValue(cell("date")) : undefined;
+    if (date === null) fail("date", `Invalid date "${cell("date")}". Use YYYY-MM-DD.`);
+
+    const start = parseDateTimeValue(cell("shiftStart"), date ?? undefined, utcOffset);
+    if (!start) fail("shiftStart", `Invalid shift start "${cell("shiftStart")}".`);
+    const end = parseDateTimeValue(cell("shiftEnd"), date ?? undefined, utcOffset);
+    if (!end) fail("shiftEnd", `Invalid shift end "${cell("shiftEnd")}".`);
+    if (start && end && new Date(end) <= new Date(start)) {
+      fail("shiftEnd", "The shift ends before it starts.");
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const vehicle = vehicles.get(id) ?? { id, name, shifts: [] };
+    const skills = splitList(cell("skills"));
+    vehicle.shifts.push({
+      id: `${id}-shift-${vehicle.shifts.length + 1}`,
+      minStartTime: start!,
+      maxEndTime: end!,
+      startLocation: location!,
+      ...(skills.length > 0 ? { skills: skills.map((skill) => ({ name: skill })) } : {}),
+    });
+    vehicles.set(id, vehicle);
+  });
+
+  return Array.from(vehicles.values());
+}
+
+// ============================================================
+// VALUE PARSING
+// ============================================================
+
+/**
+ * Converts an Excel serial date (days since 1899-12-30, fraction = time of day)
+ * to a UTC Date holding the same wall-clock values
+ */
+export function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400000));
+}
+
+/**
+ * Duration in whole minutes from "45", "1:30", "PT1H30M" or an Excel time
+ * fraction; null if invalid or not positive
+ */
+function parseDurationValue(value: string): number | null {
+  if (!value) return null;
+
+  let minutes: number;
+  if (/^pt/i.test(value)) {
+    minutes = parseDurationToMinutes(value);
+  } else if (/^\d{1,2}:\d{2}$/.test(value)) {
+    const [hours, mins] = value.split(":").map(Number);
+    minutes = hours * 60 + mins;
+  } else if (/^\d+([.,]\d+)?$/.test(value)) {
+    const number = parseFloat(value.replace(",", "."));
+    // Excel stores time-formatted cells as a fraction of a day
+    minutes = number < 1 ? number * 1440 : number;
+  } else {
+    return null;
+  }
+
+  const rounded = Math.round(minutes);
+  return rounded > 0 ? rounded : null;
+}
+
+/**
+ * "YYYY-MM-DD" from ISO text or an Excel serial; null if invalid
+ */
+function parseDateValue(value: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return isNaN(new Date(`${value}T00:00:00Z`).getTime()) ? null : value;
+  }
+  if (/^\d{5}(\.\d+)?$/.test(value)) {
+    return excelSerialToDate(parseFloat(value)).toISOString().slice(0, 10);
+  }
+  return null;
+}
+
+/**
+ * ISO datetime from a full datetime ("2024-01-15T08:00", with or without
+ * offset), a time of day ("08:00", needs a date) or an Excel serial/fraction.
+ * Values without an offset get utcOffset. Returns null if invalid.
+ */
+function parseDateTimeValue(value: string, date: string | undefined, utcOffset: string): string | null {
+  if (!value) return null;
+
+  let local: string | null = null;
+  if (/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}/.test(value)) {
+    const normalized = value.replace(" ", "T");
+    if (/(Z|[+-]\d{2}:?\d{2})$/.test(normalized)) {
+      return isNaN(new Date(normalized).getTime()) ? null : normalized;
+    }
+    local = normalized;
+  } else if (/^\d{1,2}[:.]\d{2}$/.test(value)) {
+    if (!date) return null;
+    const [hours, minutes] = value.split(/[:.]/).map(Number);
+    if (hours > 23 || minutes > 59) return null;
+    local = `${date}T${pad(hours)}:${pad(minutes)}`;
+  } else if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = parseFloat(value);
+    if (serial < 1) {
+      if (!date) return null;
+      local = `${date}T${excelSerialToDate(serial).toISOString().slice(11, 16)}`;
+    } else {
+      local = excelSerialToDate(serial).toISOString().slice(0, 16);
+    }
+  }
+
+  if (!local) return null;
+  const withSeconds = local.length === 16 ? `${local}:00` : local;
+  const result = `${withSeconds}${utcOffset}`;
+  return isNaN(new Date(result).getTime()) ? null : result;
+}
+
+/**
+ * [lat, lon] from separate columns or a combined "lat, lon" column
+ */
+function readCoordinates(cell: (field: string) => string): number[] | null {
+  let latitudeText = cell("latitude");
+  let longitudeText = cell("longitude");
+
+  if ((!latitudeText || !longitudeText) && cell("location")) {
+    const parts = cell("location").split(/[;,\s]+/).filter(Boolean);
+    if (parts.length !== 2) return null;
+    [latitudeText, longitudeText] = parts;
+  }
+
+  const latitude = parseFloat(latitudeText.replace(",", "."));
+  const longitude = parseFloat(longitudeText.replace(",", "."));
+  if (!isFinite(latitude) || !isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return [latitude, longitude];
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function cellReader(table: SpreadsheetTable, mapping: ImportColumnMapping, cells: string[]) {
+  return (field: string): string => {
+    const header = mapping[field];
+    if (!header) return "";
+    const index = table.headers.indexOf(header);
+    return index >= 0 ? (cells[index] ?? "").trim() : "";
+  };
+}
+
+/**
+ * Lowercases and strips accents, spaces and punctuation ("Besökstid" → "besokstid")
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function normalizeUtcOffset(offset: string | undefined): string {
+  if (!offset || offset === "Z") return "Z";
+  const match = offset.match(/^([+-])(\d{1,2}):?(\d{2})?$/);
+  if (!match) return "Z";
+  return `${match[1]}${pad(parseInt(match[2], 10))}:${match[3] ?? "00"}`;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[;,|]/).map((item) => item.trim()).filter(Boolean);
+}
+
+function slugify(value: string): string {
+  return normalizeHeader(value.replace(/\s+/g, "-")).slice(0, 40);
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
@@ -0,0 +1,69 @@
+/**
+ * Dataset Store
+ *
+ * Persists datasets imported from spreadsheets so they show up next to
+ * the local demo and the Timefold demo datasets.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ */
+
+import type { ImportedDataset, TimefoldDemoDataMeta, TimefoldModelInput } from "./types";
+import { listDocuments, readDocument, writeDocument } from "./fileStore";
+
+const COLLECTION = "datasets";
+
+// Prefix that routes dataset ids to this store instead of Timefold
+export const IMPORTED_DATASET_PREFIX = "import-";
+
+/**
+ * Stores an imported dataset under a new id
+ */
+export async function saveImportedDataset(dataset: {
+  name: string;
+  modelInput: TimefoldModelInput;
+  sourceFiles: ImportedDataset["sourceFiles"];
+  skippedRows: number;
+}): Promise<ImportedDataset> {
+  const record: ImportedDataset = {
+    id: `${IMPORTED_DATASET_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    ...dataset,
+    createdAt: new Date().toISOString(),
+  };
+  await writeDocument(COLLECTION, record.id, record);
+  return record;
+}
+
+/**
+ * Returns an imported dataset by id, or null if unknown
+ */
+export async function getImportedDataset(id: string): Promise<ImportedDataset | null> {
+  return readDocument<ImportedDataset>(COLLECTION, id);
+}
+
+/**
+ * Lists imported datasets as dataset options, newest first
+ */
+export async function listImportedDatasets(): Promise<TimefoldDemoDataMeta[]> {
+  const records = await listDocuments<ImportedDataset>(COLLECTION);
+  return records
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toDatasetMeta);
+}
+
+/**
+ * Whether a dataset id refers to an imported dataset
+ */
+export function isImportedDatasetId(id: string): boolean {
+  return id.startsWith(IMPORTED_DATASET_PREFIX);
+}
+
+/**
+ * Dataset option shown in the dataset selector
+ */
+export function toDatasetMeta(record: ImportedDataset): TimefoldDemoDataMeta {
+  return {
+    id: record.id,
+    name: `${record.name} (importerad)`,
+    description: `${record.modelInput.vehicles.length} personal, ${record.modelInput.visits.length} besök`,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Edit History
+ *
+ * Every manual edit of the loaded schedules is a command: a list of
+ * changes, each replacing one scheduler event, visit or vehicle (caregiver)
+ * with another (null when it is created or removed). Commands can be
+ * applied, undone and redone in order, and a single earlier edit can be
+ * reverted by applying its inverse as a new command, unless a later edit
+ * touched the same visit or caregiver.
+ *
+ * Model changes (visits and vehicles) carry the schedules along the same
+ * way the detail panels do (see lib/modelEdits.ts): the baseline is rebuilt
+ * around the visits placed by hand and both schedules take the new details.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { SchedulerData, SchedulerEvent, TimefoldModelInput, Vehicle, Visit } from "./types";
+import { keepManualPlacements, refreshScheduleForModel } from "./modelEdits";
+
+/**
+ * The state edits are made to
+ */
+export interface EditState {
+  inputModel: TimefoldModelInput;
+  baselineSchedule: SchedulerData;
+  optimizedSchedule: SchedulerData | null;
+}
+
+export type EditKind =
+  | "move"
+  | "resize"
+  | "reassign"
+  | "assign"
+  | "create"
+  | "delete"
+  | "edit-visit"
+  | "edit-caregiver"
+  | "revert";
+
+/**
+ * One entity replaced by another; null before a creation or after a removal.
+ * A removed visit or vehicle keeps its index, so undoing the removal puts
+ * it back in place (the generated baseline depends on the visit order).
+ */
+export type EditChange =
+  | { target: "baseline" | "optimized"; before: SchedulerEvent | null; after: SchedulerEvent | null }
+  | { target: "visit"; before: Visit | null; after: Visit | null; index?: number }
+  | { target: "vehicle"; before: Vehicle | null; after: Vehicle | null; index?: number };
+
+/**
+ * A manual edit, as shown in the change log
+ */
+export interface EditCommand {
+  id: string;
+  kind: EditKind;
+  label: string;      // Swedish, e.g. "Flyttade Mr. Andersson till 09:30"
+  createdAt: string;  // ISO datetime
+  changes: EditChange[];
+}
+
+// ============================================================
+// COMMANDS
+// ============================================================
+
+/**
+ * A command for a list of changes
+ */
+export function createCommand(kind: EditKind, label: string, changes: EditChange[]): EditCommand {
+  return {
+    id: `edit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    label,
+    createdAt: new Date().toISOString(),
+    changes,
+  };
+}
+
+/**
+ * The command undoing another: every change swapped, in reverse order
+ */
+export function invertCommand(command: EditCommand, label: string): EditCommand {
+  const changes = command.changes
+    .map((change) => ({ ...change, before: change.after, after: change.before }) as EditChange)
+    .reverse();
+  return createCommand("revert", label, changes);
+}
+
+/**
+ * The visits and caregivers a command touches, as "visit:<id>" and
+ * "vehicle:<id>" keys (events without a visit as "event:<id>")
+ */
+export function getCommandKeys(command: EditCommand): string[] {
+  const keys = command.changes.map((change) => {
+    const entity = change.after ?? change.before;
+    if (!entity) return null;
+    if (change.target === "visit") return `visit:${entity.id}`;
+    if (change.target === "vehicle") return `vehicle:${entity.id}`;
+    const event = entity as SchedulerEvent;
+    return event.visitId ? `visit:${event.visitId}` : `event:${event.id}`;
+  });
+  return Array.from(new Set(keys.filter((key): key is string => key !== null)));
+}
+
+/**
+ * The first later command in the log touching what the command touched,
+ * which has to be undone before the command can be reverted; null if none
+ */
+export function findBlockingCommand(log: EditCommand[], command: EditCommand): EditCommand | null {
+  const index = log.findIndex((entry) => entry.id === command.id);
+  const keys = new Set(getCommandKeys(command));
+  return log.slice(index + 1).find((entry) => getCommandKeys(entry).some((key) => keys.has(key))) ?? null;
+}
+
+// ============================================================
+// APPLYING
+// ============================================================
+
+/**
+ * The state with the command's changes applied: events first, then the
+ * model, after which the schedules follow the model.
+ * `rebuildBaseline` builds the baseline for a model from scratch.
+ */
+export function applyCommand(
+  state: EditState,
+  command: EditCommand,
+  rebuildBaseline: (model: TimefoldModelInput) => SchedulerData
+): EditState {
+  let { inputModel, baselineSchedule, optimizedSchedule } = state;
+
+  for (const change of command.changes) {
+    if (change.target === "baseline") {
+      baselineSchedule = replaceEvent(baselineSchedule, change.before, change.after);
+    } else if (change.target === "optimized" && optimizedSchedule) {
+      optimizedSchedule = replaceEvent(optimizedSchedule, change.before, change.after);
+    } else if (change.target === "visit") {
+      inputModel = { ...inputModel, visits: replaceById(inputModel.visits, change.before, change.after, change.index) };
+    } else if (change.target === "vehicle") {
+      inputModel = { ...inputModel, vehicles: replaceById(inputModel.vehicles, change.before, change.after, change.index) };
+    }
+  }
+
+  if (inputModel !== state.inputModel) {
+    baselineSchedule = keepManualPlacements(baselineSchedule, rebuildBaseline(inputModel), inputModel, state.inputModel);
+    optimizedSchedule = optimizedSchedule ? refreshScheduleForModel(optimizedSchedule, inputModel) : null;
+  }
+  return { inputModel, baselineSchedule, optimizedSchedule };
+}
+
+/**
+ * The state with the command undone
+ */
+export function revertCommand(
+  state: EditState,
+  command: EditCommand,
+  rebuildBaseline: (model: TimefoldModelInput) => SchedulerData
+): EditState {
+  return applyCommand(state, invertCommand(command, command.label), rebuildBaseline);
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function replaceEvent(schedule: SchedulerData, before: SchedulerEvent | null, after: SchedulerEvent | null): SchedulerData {
+  return { ...schedule, events: replaceById(schedule.events, before, after) };
+}
+
+/**
+ * The list with `before` replaced by `after` (matched by id), `after`
+ * inserted at `index` (default: the end) if there was nothing to replace,
+ * or `before` removed
+ */
+function replaceById<T extends { id: string }>(items: T[], before: T | null, after: T | null, index?: number): T[] {
+  const id = (after ?? before)?.id;
+  if (id === undefined) return items;
+  if (!after) return items.filter((item) => item.id !== id);
+  if (items.some((item) => item.id === id)) return items.map((item) => (item.id === id ? after : item));
+  const at = index === undefined ? items.length : Math.min(index, items.length);
+  return [...items.slice(0, at), after, ...items.slice(at)];
+}
@@ -0,0 +1,104 @@
+/**
+ * File Store
+ *
+ * Minimal JSON document store on the local filesystem, one file per
+ * document grouped in collections (sub-directories). Used for data that
+ * must survive a page reload or server restart, such as route plan history.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ *
+ * The root directory defaults to `.data/` in the project and can be moved
+ * with CAIRE_DATA_DIR.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Root directory for all collections
+ */
+function getDataDir(): string {
+  return process.env.CAIRE_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+/**
+ * Whether an id can name a document (no path separators or leading dot)
+ */
+export function isValidDocumentId(id: string): boolean {
+  return /^[A-Za-z0-9._-]+$/.test(id) && !id.startsWith(".");
+}
+
+/**
+ * Resolves a document path, rejecting ids that could escape the collection
+ */
+function documentPath(collection: string, id: string): string {
+  if (!isValidDocumentId(id)) {
+    throw new Error(`Invalid document id: ${id}`);
+  }
+  return path.join(getDataDir(), collection, `${id}.json`);
+}
+
+/**
+ * Reads a document, or null if it doesn't exist
+ */
+export async function readDocument<T>(collection: string, id: string): Promise<T | null> {
+  try {
+    const content = await fs.readFile(documentPath(collection, id), "utf-8");
+    return JSON.parse(content) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/**
+ * Writes a document atomically (write to a temp file, then rename)
+ */
+export async function writeDocument<T>(collection: string, id: string, document: T): Promise<void> {
+  const filePath = documentPath(collection, id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(document, null, 2), "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Deletes a document; returns false if it didn't exist
+ */
+export async function deleteDocument(collection: string, id: string): Promise<boolean> {
+  try {
+    await fs.unlink(documentPath(collection, id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
+
+/**
+ * Reads every document in a collection (skips unreadable files)
+ */
+export async function listDocuments<T>(collection: string): Promise<T[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(path.join(getDataDir(), collection));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+
+  const documents = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map(async (file) => {
+        try {
+          return await readDocument<T>(collection, file.slice(0, -".json".length));
+        } catch (error) {
+          console.warn(`[fileStore] Skipping unreadable ${collection}/${file}:`, error);
+          return null;
+        }
+      })
+  );
+
+  return documents.filter((document): document is NonNullable<typeof document> => document !== null);
+}
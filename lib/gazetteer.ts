@@ -0,0 +1,136 @@
+/**
+ * Local Gazetteer
+ *
+ * Geocodes addresses typed into the app without an external service: a
+ * small list of Stockholm streets, districts and neighbouring
+ * municipalities with approximate centre coordinates. An address matches
+ * the most precise place it names (street before district before city);
+ * "lat, lon" coordinates are taken as they are.
+ *
+ * Coordinates are centroids, good enough for travel estimates and the map
+ * but not for door-to-door routing.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+export type GeocodePrecision = "coordinates" | "street" | "district" | "city";
+
+interface GazetteerEntry {
+  name: string;
+  kind: Exclude<GeocodePrecision, "coordinates">;
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Result of geocoding an address
+ */
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  precision: GeocodePrecision;
+  place?: string;  // Gazetteer entry the address matched
+}
+
+const GAZETTEER: GazetteerEntry[] = [
+  // Streets
+  { name: "Vasagatan", kind: "street", latitude: 59.3330, longitude: 18.0590 },
+  { name: "Drottninggatan", kind: "street", latitude: 59.3340, longitude: 18.0630 },
+  { name: "Kungsgatan", kind: "street", latitude: 59.3360, longitude: 18.0620 },
+  { name: "Sveavägen", kind: "street", latitude: 59.3400, longitude: 18.0580 },
+  { name: "Birger Jarlsgatan", kind: "street", latitude: 59.3400, longitude: 18.0720 },
+  { name: "Strandvägen", kind: "street", latitude: 59.3330, longitude: 18.0850 },
+  { name: "Karlavägen", kind: "street", latitude: 59.3410, longitude: 18.0850 },
+  { name: "Odengatan", kind: "street", latitude: 59.3440, longitude: 18.0500 },
+  { name: "Fleminggatan", kind: "street", latitude: 59.3340, longitude: 18.0380 },
+  { name: "Hornsgatan", kind: "street", latitude: 59.3170, longitude: 18.0530 },
+  { name: "Götgatan", kind: "street", latitude: 59.3140, longitude: 18.0730 },
+  { name: "Folkungagatan", kind: "street", latitude: 59.3140, longitude: 18.0800 },
+  { name: "Ringvägen", kind: "street", latitude: 59.3090, longitude: 18.0650 },
+  { name: "Storgatan", kind: "street", latitude: 59.3350, longitude: 18.0820 },
+  // Districts and squares
+  { name: "Gamla stan", kind: "district", latitude: 59.3251, longitude: 18.0711 },
+  { name: "Norrmalm", kind: "district", latitude: 59.3350, longitude: 18.0630 },
+  { name: "Östermalm", kind: "district", latitude: 59.3380, longitude: 18.0860 },
+  { name: "Vasastan", kind: "district", latitude: 59.3430, longitude: 18.0500 },
+  { name: "Kungsholmen", kind: "district", latitude: 59.3320, longitude: 18.0300 },
+  { name: "Södermalm", kind: "district", latitude: 59.3150, longitude: 18.0700 },
+  { name: "Djurgården", kind: "district", latitude: 59.3260, longitude: 18.1150 },
+  { name: "Hagastaden", kind: "district", latitude: 59.3490, longitude: 18.0330 },
+  { name: "Hammarby sjöstad", kind: "district", latitude: 59.3040, longitude: 18.1040 },
+  { name: "Slussen", kind: "district", latitude: 59.3195, longitude: 18.0722 },
+  { name: "Medborgarplatsen", kind: "district", latitude: 59.3144, longitude: 18.0735 },
+  { name: "Skanstull", kind: "district", latitude: 59.3079, longitude: 18.0763 },
+  { name: "Hornstull", kind: "district", latitude: 59.3157, longitude: 18.0340 },
+  { name: "Fridhemsplan", kind: "district", latitude: 59.3323, longitude: 18.0292 },
+  { name: "Odenplan", kind: "district", latitude: 59.3430, longitude: 18.0490 },
+  { name: "S:t Eriksplan", kind: "district", latitude: 59.3397, longitude: 18.0366 },
+  { name: "Liljeholmen", kind: "district", latitude: 59.3100, longitude: 18.0230 },
+  { name: "Gullmarsplan", kind: "district", latitude: 59.2991, longitude: 18.0806 },
+  { name: "Årsta", kind: "district", latitude: 59.2990, longitude: 18.0500 },
+  { name: "Enskede", kind: "district", latitude: 59.2850, longitude: 18.0750 },
+  { name: "Hägersten", kind: "district", latitude: 59.2980, longitude: 17.9780 },
+  { name: "Farsta", kind: "district", latitude: 59.2430, longitude: 18.0930 },
+  { name: "Skärholmen", kind: "district", latitude: 59.2770, longitude: 17.9070 },
+  { name: "Bromma", kind: "district", latitude: 59.3380, longitude: 17.9400 },
+  { name: "Vällingby", kind: "district", latitude: 59.3630, longitude: 17.8720 },
+  { name: "Kista", kind: "district", latitude: 59.4030, longitude: 17.9440 },
+  // Cities
+  { name: "Stockholm", kind: "city", latitude: 59.3293, longitude: 18.0686 },
+  { name: "Solna", kind: "city", latitude: 59.3600, longitude: 18.0000 },
+  { name: "Sundbyberg", kind: "city", latitude: 59.3610, longitude: 17.9710 },
+  { name: "Lidingö", kind: "city", latitude: 59.3660, longitude: 18.1500 },
+  { name: "Nacka", kind: "city", latitude: 59.3100, longitude: 18.1630 },
+  { name: "Huddinge", kind: "city", latitude: 59.2370, longitude: 17.9810 },
+];
+
+const KIND_RANK: Record<GazetteerEntry["kind"], number> = { street: 0, district: 1, city: 2 };
+
+const COORDINATES = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*[,;]\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Coordinates for an address: "lat, lon" as given, else the most precise
+ * gazetteer place the address names; null if it names none
+ */
+export function geocodeAddress(address: string): GeocodeResult | null {
+  const coordinates = address.match(COORDINATES);
+  if (coordinates) {
+    const latitude = Number(coordinates[1]);
+    const longitude = Number(coordinates[2]);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+    return { latitude, longitude, precision: "coordinates" };
+  }
+
+  const text = normalize(address);
+  const match = GAZETTEER
+    .filter((entry) => containsWord(text, normalize(entry.name)))
+    .sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind] || b.name.length - a.name.length)[0];
+  return match
+    ? { latitude: match.latitude, longitude: match.longitude, precision: match.kind, place: match.name }
+    : null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether the text contains the name as whole words ("Storgatan 12" names
+ * Storgatan, "Storgatans" doesn't)
+ */
+function containsWord(text: string, name: string): boolean {
+  const index = text.indexOf(name);
+  if (index < 0) return false;
+  const before = text[index - 1];
+  const after = text[index + name.length];
+  const isLetter = (char: string | undefined) => !!char && /[a-z\u00c0-\u024f]/.test(char);
+  return !isLetter(before) && !isLetter(after);
+}
@@ -0,0 +1,257 @@
+/**
+ * Travel Legs
+ *
+ * A visit event in a schedule is preceded by a travel block (from the
+ * previous visit of the shift, or the shift start location) and a waiting
+ * block until the visit starts. When visits are moved, reassigned or added
+ * by hand these blocks are rebuilt for every visit whose predecessor
+ * changed: the visit itself, and the visits following its old and new
+ * places. Breaks of the same shift between the two visits are kept clear:
+ * travel starts after a break it would overlap, and waiting time is split
+ * around breaks taken while waiting.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { SchedulerEvent, TimefoldModelInput } from "./types";
+import type { EditChange } from "./editHistory";
+import { findShiftForTime, subtractBreaks } from "./mapping";
+import { getTravelMatrix } from "./travel";
+
+/**
+ * A visit event with its rebuilt travel, and the changes replacing its
+ * travel and wait blocks (the event's own change is left to the caller)
+ */
+export interface RebuiltLeg {
+  event: SchedulerEvent;
+  changes: EditChange[];
+}
+
+// ============================================================
+// REBUILDING
+// ============================================================
+
+/**
+ * The changes for a visit event moved, resized or reassigned by hand: the
+ * event itself, its travel and wait blocks from its new predecessor, and
+ * those of the visits that now follow its old and its new place
+ */
+export function getMoveChanges(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  target: "baseline" | "optimized",
+  before: SchedulerEvent,
+  after: SchedulerEvent
+): EditChange[] {
+  if (before.eventType !== "visit") return [{ target, before, after }];
+
+  const shifts = modelInput.vehicles.find((vehicle) => vehicle.id === after.resourceId)?.shifts ?? [];
+  const moved: SchedulerEvent = { ...after, shiftId: findShiftForTime(shifts, after.startDate)?.id ?? after.shiftId };
+  const edited = events.map((event) => (event.id === before.id ? moved : event));
+
+  const incoming = rebuildIncomingLeg(modelInput, edited, target, moved);
+  const changes: EditChange[] = [...incoming.changes, { target, before, after: incoming.event }];
+
+  const followers = [findNextVisit(modelInput, edited, before), findNextVisit(modelInput, edited, moved)];
+  followers
+    .filter((next, i): next is SchedulerEvent => !!next && followers.indexOf(next) === i)
+    .forEach((next) => {
+      const relinked = rebuildIncomingLeg(modelInput, edited, target, next);
+      changes.push(...relinked.changes, { target, before: next, after: relinked.event });
+    });
+
+  return changes;
+}
+
+/**
+ * The changes for a visit event added by hand: the event with its travel
+ * and wait blocks, and those of the visit that now follows it. The model
+ * input must already hold the event's visit.
+ */
+export function getAddChanges(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  target: "baseline" | "optimized",
+  added: SchedulerEvent
+): EditChange[] {
+  const edited = [...events, added];
+  const incoming = rebuildIncomingLeg(modelInput, edited, target, added);
+  const changes: EditChange[] = [...incoming.changes, { target, before: null, after: incoming.event }];
+
+  const next = findNextVisit(modelInput, edited, added);
+  if (next) {
+    const relinked = rebuildIncomingLeg(modelInput, edited, target, next);
+    changes.push(...relinked.changes, { target, before: next, after: relinked.event });
+  }
+
+  return changes;
+}
+
+/**
+ * A visit event's travel and wait blocks rebuilt from the visit before it
+ * in its shift in `events` (the schedule with the edit applied), or from
+ * the shift start location when it is the shift's first visit, around the
+ * shift's break events
+ */
+export function rebuildIncomingLeg(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  target: "baseline" | "optimized",
+  visitEvent: SchedulerEvent
+): RebuiltLeg {
+  const vehicle = modelInput.vehicles.find((v) => v.id === visitEvent.resourceId);
+  const shift = findShiftForTime(vehicle?.shifts ?? [], visitEvent.startDate);
+  const start = toTime(visitEvent.startDate);
+  const previous = getShiftVisits(modelInput, events, visitEvent)
+    .filter((event) => toTime(event.startDate) < start)
+    .pop();
+
+  const locationOf = (event: SchedulerEvent) => modelInput.visits.find((v) => v.id === event.visitId)?.location;
+  const leg = getTravelMatrix(modelInput).between(
+    previous ? locationOf(previous) : shift?.startLocation,
+    locationOf(visitEvent)
+  );
+  const travelMinutes = Math.round(leg.durationSeconds / 60);
+  const event: SchedulerEvent = { ...visitEvent, travelTime: travelMinutes, travelDistance: Math.round(leg.distanceMeters) };
+  const prefix = target === "optimized" ? "opt" : target;
+
+  return {
+    event,
+    changes: [
+      ...events
+        .filter((e) => (e.eventType === "travel" || e.eventType === "wait") && e.visitId === visitEvent.visitId)
+        .map((e): EditChange => ({ target, before: e, after: null })),
+      ...buildLegEvents(
+        prefix,
+        event,
+        previous ? toTime(previous.endDate) : start - travelMinutes * 60000,
+        start,
+        travelMinutes,
+        leg.distanceMeters,
+        getShiftBreaks(modelInput, events, visitEvent)
+      ).map((after): EditChange => ({ target, before: null, after })),
+    ],
+  };
+}
+
+/**
+ * Travel block (departure → arrival) and waiting blocks (arrival → start)
+ * leading up to a visit event, each left out when under a minute.
+ * Travel that would overlap a break starts when the break ends, and
+ * waiting time is split around breaks (sorted by start).
+ */
+export function buildLegEvents(
+  prefix: string,
+  visitEvent: SchedulerEvent,
+  departure: number,
+  start: number,
+  travelMinutes: number,
+  travelDistance: number,
+  breaks: Array<{ start: number; end: number }> = []
+): SchedulerEvent[] {
+  breaks.forEach((span) => {
+    if (span.start < departure + travelMinutes * 60000 && span.end > departure) {
+      departure = Math.min(span.end, start);
+    }
+  });
+  const arrival = Math.min(start, departure + travelMinutes * 60000);
+  const common = {
+    resourceId: visitEvent.resourceId,
+    status: visitEvent.status,
+    visitId: visitEvent.visitId,
+    shiftId: visitEvent.shiftId,
+  };
+  const events: SchedulerEvent[] = [];
+  if (arrival - departure >= 60000) {
+    events.push({
+      ...common,
+      id: `${prefix}-travel-${visitEvent.visitId}-manual`,
+      startDate: new Date(departure).toISOString(),
+      endDate: new Date(arrival).toISOString(),
+      name: "Resa",
+      eventType: "travel",
+      travelTime: travelMinutes,
+      travelDistance: Math.round(travelDistance),
+    });
+  }
+  subtractBreaks(arrival, start, breaks)
+    .filter(([from, to]) => to - from >= 60000)
+    .forEach(([from, to], segment) => {
+      events.push({
+        ...common,
+        id: `${prefix}-wait-${visitEvent.visitId}-manual${segment > 0 ? `-${segment}` : ""}`,
+        startDate: new Date(from).toISOString(),
+        endDate: new Date(to).toISOString(),
+        name: "Väntan",
+        eventType: "wait",
+        waitTime: Math.round((to - from) / 60000),
+      });
+    });
+  return events;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function toTime(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+/**
+ * The first visit after an event's start on the same caregiver's shift,
+ * other than the event itself
+ */
+function findNextVisit(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  anchor: SchedulerEvent
+): SchedulerEvent | undefined {
+  const start = toTime(anchor.startDate);
+  return getShiftVisits(modelInput, events, anchor).find(
+    (event) => event.id !== anchor.id && toTime(event.startDate) > start
+  );
+}
+
+/**
+ * The visit events of the caregiver shift a visit event falls in, in time
+ * order (the event itself left out)
+ */
+function getShiftVisits(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  visitEvent: SchedulerEvent
+): SchedulerEvent[] {
+  const shifts = modelInput.vehicles.find((v) => v.id === visitEvent.resourceId)?.shifts ?? [];
+  const shift = findShiftForTime(shifts, visitEvent.startDate);
+  return events
+    .filter((event) =>
+      event.eventType === "visit" &&
+      event.id !== visitEvent.id &&
+      event.resourceId === visitEvent.resourceId &&
+      findShiftForTime(shifts, event.startDate) === shift
+    )
+    .sort((a, b) => toTime(a.startDate) - toTime(b.startDate));
+}
+
+/**
+ * Time spans of the required break events on the caregiver shift a visit
+ * event falls in, sorted by start (shift availability blocks left out)
+ */
+function getShiftBreaks(
+  modelInput: TimefoldModelInput,
+  events: SchedulerEvent[],
+  visitEvent: SchedulerEvent
+): Array<{ start: number; end: number }> {
+  const shifts = modelInput.vehicles.find((v) => v.id === visitEvent.resourceId)?.shifts ?? [];
+  const shift = findShiftForTime(shifts, visitEvent.startDate);
+  return events
+    .filter((event) =>
+      event.eventType === "break" &&
+      !!event.breakId &&
+      event.resourceId === visitEvent.resourceId &&
+      findShiftForTime(shifts, event.startDate) === shift
+    )
+    .map((event) => ({ start: toTime(event.startDate), end: toTime(event.endDate) }))
+    .sort((a, b) => a.start - b.start);
+}
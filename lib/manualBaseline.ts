@@ -0,0 +1,255 @@
+/**
+ * Manual Baseline
+ *
+ * Turns a manual schedule - imported from the planners' own spreadsheet or
+ * taken from an earlier route plan - into a route plan, so the baseline is
+ * mapped, checked and measured exactly like an optimized plan:
+ * - visits run per caregiver shift in start order
+ * - travel between consecutive visits comes from the travel matrix; the
+ *   caregiver leaves after the previous visit and waits if early, or starts
+ *   late when the gap is too short for the drive (which the constraint
+ *   checker then flags)
+ * - required breaks go in the first gap their window allows
+ * - visits without an assignment are unassigned
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type {
+  ManualAssignment,
+  PlannedBreak,
+  PlannedVisit,
+  SchedulerData,
+  Shift,
+  TimefoldModelInput,
+  TimefoldRoutePlan,
+  Vehicle,
+  VehicleRoute,
+} from "./types";
+import {
+  findShiftForTime,
+  mapRoutePlanToOptimizedSchedule,
+  parseDurationToMinutes,
+  resolveRequiredBreaks,
+} from "./mapping";
+import { formatMsToIsoDuration } from "./solver";
+import { getTravelMatrix } from "./travel";
+
+interface PlacedVisit {
+  assignment: ManualAssignment;
+  start: number;
+  end: number;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Route plan for a manual schedule. Assignments to unknown visits or
+ * caregivers, or with an invalid start, are left out.
+ */
+export function buildBaselineRoutePlan(
+  modelInput: TimefoldModelInput,
+  assignments: ManualAssignment[]
+): TimefoldRoutePlan {
+  const visitMap = new Map(modelInput.visits.map((visit) => [visit.id, visit]));
+  const travelMatrix = getTravelMatrix(modelInput);
+
+  // Group the usable assignments per caregiver shift
+  const byShift = new Map<string, { vehicle: Vehicle; shift: Shift; visits: PlacedVisit[] }>();
+  const scheduled = new Set<string>();
+  assignments.forEach((assignment) => {
+    const visit = visitMap.get(assignment.visitId);
+    const vehicle = modelInput.vehicles.find((v) => v.id === assignment.vehicleId);
+    const start = new Date(assignment.startTime).getTime();
+    if (!visit || !vehicle || isNaN(start) || scheduled.has(visit.id)) return;
+    const shift = vehicle.shifts.find((s) => s.id === assignment.shiftId) ??
+      findShiftForTime(vehicle.shifts, assignment.startTime);
+    if (!shift) return;
+
+    const end = new Date(assignment.endTime || "").getTime();
+    const serviceMs = (parseDurationToMinutes(visit.serviceDuration) || 30) * 60000;
+    const key = `${vehicle.id}:${shift.id}`;
+    const group = byShift.get(key) ?? { vehicle, shift, visits: [] };
+    group.visits.push({ assignment, start, end: !isNaN(end) && end > start ? end : start + serviceMs });
+    byShift.set(key, group);
+    scheduled.add(visit.id);
+  });
+
+  let totalTravelMs = 0;
+  let totalDistance = 0;
+  const routes: VehicleRoute[] = Array.from(byShift.values()).map(({ vehicle, shift, visits }) => {
+    visits.sort((a, b) => a.start - b.start);
+    const breaks = placeBreaks(shift, visits);
+
+    let previousLocation = shift.startLocation;
+    let previousDeparture: number | undefined;
+    let routeTravelMs = 0;
+    let routeDistance = 0;
+    const plannedVisits: PlannedVisit[] = visits.map(({ assignment, start, end }) => {
+      const location = visitMap.get(assignment.visitId)?.location;
+      const leg = travelMatrix.between(previousLocation, location);
+      const travelMs = leg.durationSeconds * 1000;
+      // Leave after the previous visit (and any break right after it)
+      const departure = breaks.reduce((latest, plannedBreak) => {
+        const breakEnd = new Date(plannedBreak.endTime).getTime();
+        return latest !== undefined && breakEnd > latest && breakEnd <= start ? breakEnd : latest;
+      }, previousDeparture);
+      const arrival = departure === undefined ? start : departure + travelMs;
+      // Arriving after the planned start delays the visit by as much
+      const delay = Math.max(0, arrival - start);
+
+      routeTravelMs += travelMs;
+      routeDistance += leg.distanceMeters;
+      previousLocation = location ?? previousLocation;
+      previousDeparture = Math.max(previousDeparture ?? end + delay, end + delay);
+      return {
+        id: assignment.visitId,
+        visitId: assignment.visitId,
+        vehicleId: vehicle.id,
+        arrivalTime: new Date(arrival).toISOString(),
+        startServiceTime: new Date(start + delay).toISOString(),
+        departureTime: new Date(end + delay).toISOString(),
+        travelTimeFromPrevious: formatMsToIsoDuration(travelMs),
+        travelDistanceFromPrevious: Math.round(leg.distanceMeters),
+      };
+    });
+
+    // The drive back to the shift's end location
+    const home = travelMatrix.between(previousLocation, shift.endLocation ?? shift.startLocation);
+    routeTravelMs += home.durationSeconds * 1000;
+    routeDistance += home.distanceMeters;
+    totalTravelMs += routeTravelMs;
+    totalDistance += routeDistance;
+
+    return {
+      vehicleId: vehicle.id,
+      shiftId: shift.id,
+      visits: plannedVisits,
+      breaks,
+      totalTravelTime: formatMsToIsoDuration(routeTravelMs),
+      totalTravelDistance: Math.round(routeDistance),
+      totalServiceTime: formatMsToIsoDuration(visits.reduce((sum, visit) => sum + visit.end - visit.start, 0)),
+    };
+  });
+
+  const unassignedVisits = modelInput.visits
+    .filter((visit) => !scheduled.has(visit.id))
+    .map((visit) => ({ id: visit.id, name: visit.name }));
+
+  return {
+    id: "manual-baseline",
+    solverStatus: "NOT_STARTED",
+    routes,
+    unassignedVisits,
+    modelInput,
+    kpis: {
+      totalTravelTime: formatMsToIsoDuration(totalTravelMs),
+      totalTravelDistanceMeters: Math.round(totalDistance),
+      totalAssignedVisits: scheduled.size,
+      totalUnassignedVisits: unassignedVisits.length,
+    },
+  };
+}
+
+/**
+ * Baseline schedule for a manual schedule, mapped like an optimized plan
+ */
+export function mapManualBaselineSchedule(
+  modelInput: TimefoldModelInput,
+  assignments: ManualAssignment[]
+): SchedulerData {
+  return mapRoutePlanToOptimizedSchedule(buildBaselineRoutePlan(modelInput, assignments), modelInput, "baseline");
+}
+
+/**
+ * The visits of a route plan as manual assignments, to reuse the plan as
+ * a baseline
+ */
+export function assignmentsFromRoutePlan(routePlan: TimefoldRoutePlan): ManualAssignment[] {
+  return (routePlan.routes ?? []).flatMap((route) =>
+    route.visits.flatMap((plannedVisit): ManualAssignment[] => {
+      const startTime = plannedVisit.startServiceTime || plannedVisit.arrivalTime;
+      if (!startTime) return [];
+      return [{
+        visitId: plannedVisit.id || plannedVisit.visitId || "",
+        vehicleId: route.vehicleId,
+        ...(route.shiftId ? { shiftId: route.shiftId } : {}),
+        startTime,
+        ...(plannedVisit.departureTime ? { endTime: plannedVisit.departureTime } : {}),
+      }];
+    })
+  ).filter((assignment) => assignment.visitId);
+}
+
+/**
+ * Manual assignments from user input; throws if an entry lacks a visit,
+ * caregiver or valid start time
+ */
+export function normalizeAssignments(value: unknown): ManualAssignment[] {
+  if (!Array.isArray(value)) {
+    throw new Error("assignments must be an array");
+  }
+  return value.map((entry, index) => {
+    const input = (entry ?? {}) as Record<string, unknown>;
+    const text = (field: string) => (typeof input[field] === "string" ? (input[field] as string).trim() : "");
+    if (!text("visitId") || !text("vehicleId")) {
+      throw new Error(`assignments[${index}] needs a visitId and a vehicleId`);
+    }
+    if (isNaN(new Date(text("startTime")).getTime())) {
+      throw new Error(`assignments[${index}].startTime must be an ISO datetime`);
+    }
+    if (text("endTime") && isNaN(new Date(text("endTime")).getTime())) {
+      throw new Error(`assignments[${index}].endTime must be an ISO datetime`);
+    }
+    return {
+      visitId: text("visitId"),
+      vehicleId: text("vehicleId"),
+      ...(text("shiftId") ? { shiftId: text("shiftId") } : {}),
+      startTime: text("startTime"),
+      ...(text("endTime") ? { endTime: text("endTime") } : {}),
+    };
+  });
+}
+
+/**
+ * Assignments that don't match a visit or caregiver of the dataset
+ */
+export function findUnmatchedAssignments(
+  modelInput: TimefoldModelInput,
+  assignments: ManualAssignment[]
+): ManualAssignment[] {
+  const visitIds = new Set(modelInput.visits.map((visit) => visit.id));
+  const vehicleIds = new Set(modelInput.vehicles.map((vehicle) => vehicle.id));
+  return assignments.filter((assignment) => !visitIds.has(assignment.visitId) || !vehicleIds.has(assignment.vehicleId));
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Places each required break at the earliest start its window allows that
+ * doesn't overlap a visit; if none fits, at its earliest start
+ */
+function placeBreaks(shift: Shift, visits: PlacedVisit[]): PlannedBreak[] {
+  const busy = visits.map((visit) => ({ start: visit.start, end: visit.end }));
+
+  return resolveRequiredBreaks(shift).map((requiredBreak) => {
+    let start = requiredBreak.earliestStart;
+    for (const span of [...busy].sort((a, b) => a.start - b.start)) {
+      if (span.end <= start || span.start >= start + requiredBreak.durationMs) continue;
+      start = span.end;
+    }
+    if (start > requiredBreak.latestStart) start = requiredBreak.earliestStart;
+
+    const end = start + requiredBreak.durationMs;
+    busy.push({ start, end });
+    return {
+      id: requiredBreak.id,
+      startTime: new Date(start).toISOString(),
+      endTime: new Date(end).toISOString(),
+    };
+  });
+}
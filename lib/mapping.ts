@@ -10,6 +10,8 @@
 import type {
   TimefoldModelInput,
   TimefoldRoutePlan,
+  Shift,
+  VehicleRoute,
   Vehicle,
   Visit,
   PlannedVisit,
@@ -17,7 +19,23 @@ import type {
   SchedulerResource,
   SchedulerEvent,
   KpiSummary,
+  CostModel,
+  KpiSource,
+  KpiSources,
+  Location,
+  VisitComparison,
+  ScoreLevels,
+  PriorityLevel,
 } from "./types";
+import { getTravelMatrix } from "./travel";
+import { computeCostBreakdown, DEFAULT_COST_MODEL } from "./costModel";
+import { getPriorityLevel } from "./priority";
+import {
+  findMissingSkills,
+  getShiftSkills,
+  getVehicleSkillNames,
+  normalizeRequiredSkills,
+} from "./skills";
 
 // ============================================================
 // DURATION HELPERS
@@ -61,6 +79,24 @@ export function formatMinutesToDuration(minutes: number): string {
   }
 }
 
+/**
+ * Parses a Timefold score string into its levels, or null if unparseable
+ * 
+ * @example
+ * parseScore("0hard/-2medium/-5400soft") // { hard: 0, medium: -2, soft: -5400 }
+ * parseScore("-1hard/-300soft")          // { hard: -1, medium: 0, soft: -300 }
+ */
+export function parseScore(score: string | undefined): ScoreLevels | null {
+  if (!score) return null;
+  const levels: ScoreLevels = { hard: 0, medium: 0, soft: 0 };
+  let matched = false;
+  for (const match of Array.from(score.matchAll(/(-?\d+(?:\.\d+)?)(hard|medium|soft)/g))) {
+    levels[match[2] as keyof ScoreLevels] = parseFloat(match[1]);
+    matched = true;
+  }
+  return matched ? levels : null;
+}
+
 /**
  * Adds minutes to a date and returns a new Date
  */
@@ -86,10 +122,229 @@ function getShiftEndTime(shift: { endTime?: string; maxEndTime?: string }): stri
   return shift.endTime || shift.maxEndTime;
 }
 
+// ============================================================
+// SHIFT HELPERS
+// ============================================================
+
+/**
+ * A shift with its parsed start and end
+ */
+export interface ShiftSpan {
+  vehicle: Vehicle;
+  shift: Shift;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Every shift with a valid time span, per vehicle in input order
+ */
+export function getShiftSpans(vehicles: Vehicle[]): ShiftSpan[] {
+  return vehicles.flatMap((vehicle) =>
+    vehicle.shifts.flatMap((shift) => {
+      const start = new Date(getShiftStartTime(shift) || "");
+      const end = new Date(getShiftEndTime(shift) || "");
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return [];
+      return [{ vehicle, shift, start, end }];
+    })
+  );
+}
+
+/**
+ * The shift of a vehicle that contains a point in time, else the one
+ * closest to it, else the first shift
+ */
+export function findShiftForTime(shifts: Shift[], time: Date | string): Shift | undefined {
+  const at = new Date(time).getTime();
+  if (isNaN(at)) return shifts[0];
+
+  let closest: { shift: Shift; distance: number } | undefined;
+  for (const shift of shifts) {
+    const start = new Date(getShiftStartTime(shift) || "").getTime();
+    const end = new Date(getShiftEndTime(shift) || "").getTime();
+    if (isNaN(start) || isNaN(end)) continue;
+    if (at >= start && at < end) return shift;
+    const distance = Math.min(Math.abs(at - start), Math.abs(at - end));
+    if (!closest || distance < closest.distance) closest = { shift, distance };
+  }
+  return closest?.shift ?? shifts[0];
+}
+
+/**
+ * Local calendar day of a date as "YYYY-MM-DD", used to group per day
+ */
+export function getDayKey(date: Date | string): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Key identifying a shift across vehicles (shift ids may repeat per vehicle)
+ */
+export function getShiftKey(vehicleId: string, shiftId: string | undefined): string {
+  return `${vehicleId}:${shiftId ?? ""}`;
+}
+
+// ============================================================
+// BREAK HELPERS
+// ============================================================
+
+/**
+ * A required break in epoch millis: it may start anywhere from
+ * earliestStart to latestStart (the same instant for FIXED breaks)
+ */
+export interface ResolvedBreak {
+  id: string;
+  earliestStart: number;
+  latestStart: number;
+  durationMs: number;
+  location?: Location | number[];
+}
+
+/**
+ * A shift's required breaks with valid times, by earliest start
+ */
+export function resolveRequiredBreaks(shift: Shift): ResolvedBreak[] {
+  return (shift.requiredBreaks ?? [])
+    .flatMap((requiredBreak): ResolvedBreak[] => {
+      const { id, location } = requiredBreak;
+      if (requiredBreak.type === "FIXED") {
+        const start = new Date(requiredBreak.startTime || "").getTime();
+        const end = new Date(requiredBreak.endTime || "").getTime();
+        if (isNaN(start) || isNaN(end) || end <= start) return [];
+        return [{ id, earliestStart: start, latestStart: start, durationMs: end - start, location }];
+      }
+      const min = new Date(requiredBreak.minStartTime || "").getTime();
+      const max = new Date(requiredBreak.maxEndTime || "").getTime();
+      const durationMs = parseDurationToMinutes(requiredBreak.duration) * 60000;
+      if (isNaN(min) || isNaN(max) || durationMs <= 0 || min + durationMs > max) return [];
+      return [{ id, earliestStart: min, latestStart: max - durationMs, durationMs, location }];
+    })
+    .sort((a, b) => a.earliestStart - b.earliestStart);
+}
+
+/**
+ * A route's planned breaks in epoch millis, by start
+ */
+function getPlannedBreakSpans(route: VehicleRoute): Array<{ id: string; start: number; end: number }> {
+  return (route.breaks ?? [])
+    .map((plannedBreak) => ({
+      id: plannedBreak.id,
+      start: new Date(plannedBreak.startTime).getTime(),
+      end: new Date(plannedBreak.endTime).getTime(),
+    }))
+    .filter((span) => !isNaN(span.start) && !isNaN(span.end) && span.end > span.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * The parts of [from, to] not covered by breaks (sorted by start)
+ */
+export function subtractBreaks(
+  from: number,
+  to: number,
+  breaks: Array<{ start: number; end: number }>
+): Array<[number, number]> {
+  const gaps: Array<[number, number]> = [];
+  let cursor = from;
+  for (const span of breaks) {
+    if (span.end <= cursor || span.start >= to) continue;
+    if (span.start > cursor) gaps.push([cursor, span.start]);
+    cursor = Math.max(cursor, span.end);
+  }
+  if (to > cursor) gaps.push([cursor, to]);
+  return gaps;
+}
+
+/**
+ * Scheduler event for a required break
+ */
+function toBreakEvent(
+  idPrefix: string,
+  vehicleId: string,
+  shiftId: string | undefined,
+  breakId: string,
+  start: number,
+  end: number,
+  status: SchedulerEvent["status"]
+): SchedulerEvent {
+  return {
+    id: `${idPrefix}-break-${vehicleId}-${shiftId ?? ""}-${breakId}`,
+    resourceId: vehicleId,
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(end).toISOString(),
+    name: "Rast",
+    eventType: "break",
+    status,
+    shiftId,
+    breakId,
+  };
+}
+
+/**
+ * Builds a scheduler resource spanning all of a vehicle's shifts
+ */
+export function toSchedulerResource(vehicle: Vehicle): SchedulerResource {
+  const spans = getShiftSpans([vehicle]);
+  return {
+    id: vehicle.id,
+    name: vehicle.name || vehicle.id, // Use id if name not present (Timefold format)
+    skills: getVehicleSkillNames(vehicle),
+    shiftStart: spans.length > 0
+      ? new Date(Math.min(...spans.map((span) => span.start.getTime()))).toISOString()
+      : undefined,
+    shiftEnd: spans.length > 0
+      ? new Date(Math.max(...spans.map((span) => span.end.getTime()))).toISOString()
+      : undefined,
+    shifts: spans.map((span) => ({
+      id: span.shift.id,
+      start: span.start.toISOString(),
+      end: span.end.toISOString(),
+      skills: getShiftSkills(vehicle, span.shift),
+    })),
+  };
+}
+
+/**
+ * Earliest start and latest end over a visit's time windows, if any
+ */
+export function getVisitWindowSpan(visit: Visit): { start: number; end: number } | null {
+  const bounds = (visit.timeWindows ?? []).map((window) => ({
+    start: new Date(window.minStartTime || window.startTime || "").getTime(),
+    end: new Date(window.maxEndTime || window.endTime || "").getTime(),
+  }));
+  const starts = bounds.map((b) => b.start).filter((t) => !isNaN(t));
+  const ends = bounds.map((b) => b.end).filter((t) => !isNaN(t));
+  if (starts.length === 0 && ends.length === 0) return null;
+  return {
+    start: starts.length > 0 ? Math.min(...starts) : -Infinity,
+    end: ends.length > 0 ? Math.max(...ends) : Infinity,
+  };
+}
+
+/**
+ * Earliest start at or after arrival that fits one of a visit's time
+ * windows; the arrival itself when none fits (the constraint checker
+ * then flags the visit) or the visit has no windows
+ */
+function getEarliestWindowStart(visit: Visit, arrival: number, serviceMs: number): number {
+  const starts = (visit.timeWindows ?? [])
+    .map((window) => {
+      const minStart = new Date(window.minStartTime || window.startTime || "").getTime();
+      const start = isNaN(minStart) ? arrival : Math.max(arrival, minStart);
+      const latestStart = new Date(window.maxStartTime || "").getTime();
+      const end = new Date(window.maxEndTime || window.endTime || "").getTime();
+      const fits = (isNaN(latestStart) || start <= latestStart) && (isNaN(end) || start + serviceMs <= end);
+      return fits ? start : null;
+    })
+    .filter((start): start is number => start !== null);
+  return starts.length > 0 ? Math.min(...starts) : arrival;
+}
+
 /**
  * Helper to get visit address - handles both array and object location formats
  */
-function getVisitAddress(location: unknown): string | undefined {
+export function getVisitAddress(location: unknown): string | undefined {
   if (!location) return undefined;
   if (Array.isArray(location)) {
     // Timefold format: [lat, lon]
@@ -106,24 +361,13 @@ function getVisitAddress(location: unknown): string | undefined {
  * In the baseline view, we show visits distributed across vehicles based on
  * any pre-existing assignments or simply list all unassigned visits.
  * Since the input model typically doesn't have assignments, we create
- * a simple visualization showing shift time blocks per vehicle.
+ * a simple visualization showing shift time blocks per vehicle, with the
+ * visits stacked in time window order, each starting in its window and
+ * preceded by a waiting block when the caregiver arrives early.
  */
-export function mapInputToBaselineSchedule(
-  modelInput: TimefoldModelInput
-): SchedulerData {
+export function mapInputToBaselineSchedule(modelInput: TimefoldModelInput): SchedulerData {
   // Map vehicles to scheduler resources
-  const resources: SchedulerResource[] = modelInput.vehicles.map((vehicle) => {
-    const firstShift = vehicle.shifts[0];
-    const shiftStart = getShiftStartTime(firstShift);
-    const shiftEnd = getShiftEndTime(firstShift);
-    return {
-      id: vehicle.id,
-      name: vehicle.name || vehicle.id, // Use id if name not present (Timefold format)
-      skills: vehicle.skills,
-      shiftStart,
-      shiftEnd,
-    };
-  });
+  const resources: SchedulerResource[] = modelInput.vehicles.map(toSchedulerResource);
 
   // For baseline, create events representing unassigned visits
   // We'll stack them at the beginning of the day as "pending" items
@@ -143,6 +387,7 @@ export function mapInputToBaselineSchedule(
           name: "Available",
           eventType: "break", // Using break type for shift blocks
           status: "baseline",
+          shiftId: shift.id,
         });
       }
     });
@@ -151,27 +396,79 @@ export function mapInputToBaselineSchedule(
   // Distribute visits across vehicles for visualization
   // This creates a hypothetical "before optimization" view
   const visitDuration = 30; // Default 30 minutes per visit
+  const travelMatrix = getTravelMatrix(modelInput);
+
+  // Where each shift's caregiver is and when they're free, starting at the shift start
+  const spans = getShiftSpans(modelInput.vehicles);
+  const cursors = new Map<ShiftSpan, { time: Date; location: Location | number[] | undefined; minutes: number }>();
+  spans.forEach((span) => cursors.set(span, { time: span.start, location: span.shift.startLocation, minutes: 0 }));
+
+  // Required breaks at their earliest start; visits are placed around them
+  const baselineBreaks = new Map<ShiftSpan, Array<{ start: number; end: number }>>();
+  spans.forEach((span) => {
+    const breaks = resolveRequiredBreaks(span.shift)
+      .map((requiredBreak) => ({
+        id: requiredBreak.id,
+        start: requiredBreak.earliestStart,
+        end: requiredBreak.earliestStart + requiredBreak.durationMs,
+      }))
+      .sort((a, b) => a.start - b.start);
+    baselineBreaks.set(span, breaks);
+    breaks.forEach((requiredBreak) => events.push(
+      toBreakEvent("baseline", span.vehicle.id, span.shift.id, requiredBreak.id, requiredBreak.start, requiredBreak.end, "baseline")
+    ));
+  });
+  const leastLoaded = (candidates: ShiftSpan[]) =>
+    candidates.reduce((best, span) => (cursors.get(span)!.minutes < cursors.get(best)!.minutes ? span : best));
   
-  modelInput.visits.forEach((visit, index) => {
+  const spanSkills = new Map(spans.map((span) => [span, getShiftSkills(span.vehicle, span.shift)]));
+
+  // Visits in time window order, as a dispatcher would plan them
+  const byWindowStart = modelInput.visits
+    .map((visit) => ({ visit, windowStart: getVisitWindowSpan(visit)?.start ?? -Infinity }))
+    .sort((a, b) => a.windowStart - b.windowStart)
+    .map(({ visit }) => visit);
+
+  byWindowStart.forEach((visit, index) => {
     // Round-robin assignment to vehicles for baseline visualization
     const vehicleIndex = index % modelInput.vehicles.length;
     const vehicle = modelInput.vehicles[vehicleIndex];
-    const shift = vehicle.shifts[0];
-    
-    if (!shift) return;
-    
-    // Stack visits sequentially within the shift
-    const visitsPerVehicle = Math.ceil(modelInput.visits.length / modelInput.vehicles.length);
-    const visitIndexInVehicle = Math.floor(index / modelInput.vehicles.length);
-    
-    const shiftStartStr = getShiftStartTime(shift);
-    if (!shiftStartStr) return;
-    
-    const shiftStart = new Date(shiftStartStr);
-    if (isNaN(shiftStart.getTime())) return; // Skip if invalid date
+    const vehicleSpans = spans.filter((span) => span.vehicle === vehicle);
+    const requiredSkills = normalizeRequiredSkills(visit.requiredSkills);
+
+    // Place the visit in a shift on the day of its time window: the round-robin
+    // vehicle's if it works then, else any caregiver's, preferring caregivers
+    // with the required skills; without a window, spread visits over the
+    // vehicle's shifts
+    const window = getVisitWindowSpan(visit);
+    const overlaps = (span: ShiftSpan) =>
+      !window || (span.start.getTime() < window.end && span.end.getTime() > window.start);
+    const qualified = (span: ShiftSpan) => findMissingSkills(spanSkills.get(span)!, requiredSkills).length === 0;
+    const candidates = [
+      vehicleSpans.filter(overlaps).filter(qualified),
+      spans.filter(overlaps).filter(qualified),
+      vehicleSpans.filter(overlaps),
+      spans.filter(overlaps),
+      vehicleSpans,
+    ].find((list) => list.length > 0);
+    if (!candidates) return;
+
+    // Stack visits sequentially within the shift, each starting in its time window
+    const span = leastLoaded(candidates);
+    const skillMismatch = findMissingSkills(spanSkills.get(span)!, requiredSkills);
+    const cursor = cursors.get(span)!;
     
-    const startDate = addMinutes(shiftStart, visitIndexInVehicle * (visitDuration + 15)); // 15 min travel
-    const endDate = addMinutes(startDate, parseDurationToMinutes(visit.serviceDuration) || visitDuration);
+    const leg = travelMatrix.between(cursor.location, visit.location);
+    const travelMinutes = Math.round(leg.durationSeconds / 60);
+    const serviceMinutes = parseDurationToMinutes(visit.serviceDuration) || visitDuration;
+    const arrival = addMinutes(cursor.time, travelMinutes).getTime();
+    let startDate = new Date(getEarliestWindowStart(visit, arrival, serviceMinutes * 60000));
+    baselineBreaks.get(span)!.forEach((requiredBreak) => {
+      if (startDate.getTime() < requiredBreak.end && addMinutes(startDate, serviceMinutes).getTime() > requiredBreak.start) {
+        startDate = new Date(requiredBreak.end);
+      }
+    });
+    const endDate = addMinutes(startDate, serviceMinutes);
     
     // Ensure start < end
     if (startDate.getTime() >= endDate.getTime()) {
@@ -181,7 +478,7 @@ export function mapInputToBaselineSchedule(
 
     events.push({
       id: `baseline-${visit.id}`,
-      resourceId: vehicle.id,
+      resourceId: span.vehicle.id,
       startDate: startDate.toISOString(),
       endDate: endDate.toISOString(),
       name: visit.name,
@@ -189,7 +486,35 @@ export function mapInputToBaselineSchedule(
       status: "baseline",
       visitId: visit.id,
       address: getVisitAddress(visit.location),
+      travelTime: travelMinutes,
+      travelDistance: Math.round(leg.distanceMeters),
+      shiftId: span.shift.id,
+      priority: getPriorityLevel(visit.priority),
+      ...(requiredSkills.length > 0 ? { requiredSkills } : {}),
+      ...(skillMismatch.length > 0 ? { skillMismatch } : {}),
     });
+
+    // Waiting blocks: arrival → start, around the shift's breaks
+    subtractBreaks(arrival, startDate.getTime(), baselineBreaks.get(span)!)
+      .filter(([from, to]) => to - from >= 60000)
+      .forEach(([from, to], segment) => {
+        events.push({
+          id: `baseline-wait-${visit.id}${segment > 0 ? `-${segment}` : ""}`,
+          resourceId: span.vehicle.id,
+          startDate: new Date(from).toISOString(),
+          endDate: new Date(to).toISOString(),
+          name: "Väntan",
+          eventType: "wait",
+          status: "baseline",
+          visitId: visit.id,
+          shiftId: span.shift.id,
+          waitTime: Math.round((to - from) / 60000),
+        });
+      });
+
+    cursor.minutes += (endDate.getTime() - cursor.time.getTime()) / 60000;
+    cursor.time = endDate;
+    cursor.location = visit.location ?? cursor.location;
   });
 
   return { resources, events };
@@ -203,27 +528,28 @@ export function mapInputToBaselineSchedule(
  * Maps a Timefold route plan solution to Bryntum SchedulerPro format
  * 
  * This takes the optimized routes from Timefold and creates events
- * showing the actual assigned visits with proper timing.
+ * showing the actual assigned visits with proper timing. Each visit is
+ * preceded by a travel block (previous departure → arrival) and, when the
+ * caregiver arrives before the visit can start, a waiting block
+ * (arrival → service start).
+ *
+ * Manual plans supplied as the baseline are mapped the same way with
+ * status "baseline". Visits left unassigned get no event; they are listed
+ * next to the scheduler instead (see lib/unassigned.ts).
  */
 export function mapRoutePlanToOptimizedSchedule(
   routePlan: TimefoldRoutePlan,
-  modelInput: TimefoldModelInput
+  modelInput: TimefoldModelInput,
+  status: "optimized" | "baseline" = "optimized"
 ): SchedulerData {
+  const idPrefix = status === "optimized" ? "opt" : status;
   // Create a lookup map for visit details
   const visitMap = new Map<string, Visit>();
   modelInput.visits.forEach((visit) => visitMap.set(visit.id, visit));
+  const travelMatrix = getTravelMatrix(modelInput);
 
   // Map vehicles to resources (same as baseline)
-  const resources: SchedulerResource[] = modelInput.vehicles.map((vehicle) => {
-    const firstShift = vehicle.shifts[0];
-    return {
-      id: vehicle.id,
-      name: vehicle.name || vehicle.id,
-      skills: vehicle.skills,
-      shiftStart: getShiftStartTime(firstShift),
-      shiftEnd: getShiftEndTime(firstShift),
-    };
-  });
+  const resources: SchedulerResource[] = modelInput.vehicles.map(toSchedulerResource);
 
   const events: SchedulerEvent[] = [];
 
@@ -231,15 +557,30 @@ export function mapRoutePlanToOptimizedSchedule(
   if (routePlan.routes) {
     console.log(`[mapRoutePlanToOptimizedSchedule] Processing ${routePlan.routes.length} routes`);
     
-    // Get a fallback base time from the first vehicle's shift
-    const fallbackShift = modelInput.vehicles[0]?.shifts[0];
-    const fallbackBaseTime = getShiftStartTime(fallbackShift) || new Date().toISOString();
-    
     routePlan.routes.forEach((route, routeIndex) => {
-      console.log(`[mapRoutePlanToOptimizedSchedule] Route ${routeIndex} (${route.vehicleId}): ${route.visits.length} visits`);
+      console.log(`[mapRoutePlanToOptimizedSchedule] Route ${routeIndex} (${route.vehicleId}/${route.shiftId ?? "-"}): ${route.visits.length} visits`);
       
+      // Fallback base time is the start of the route's own shift
+      const vehicle = modelInput.vehicles.find((v) => v.id === route.vehicleId);
+      const routeShift = vehicle?.shifts.find((s) => s.id === route.shiftId) ?? vehicle?.shifts[0] ?? modelInput.vehicles[0]?.shifts[0];
+      const fallbackBaseTime = (routeShift && getShiftStartTime(routeShift)) || new Date().toISOString();
+
       // Track current time for sequential visit placement when dates are missing
       let currentTime = new Date(fallbackBaseTime);
+      // Where and when the previous leg ended, for the travel blocks
+      let previousLocation: Location | number[] | undefined = routeShift?.startLocation;
+      let previousDeparture: string | undefined;
+
+      const routeBreaks = getPlannedBreakSpans(route);
+      routeBreaks.forEach((span) => events.push(toBreakEvent(
+        idPrefix,
+        route.vehicleId,
+        route.shiftId ?? (vehicle ? findShiftForTime(vehicle.shifts, new Date(span.start))?.id : undefined),
+        span.id,
+        span.start,
+        span.end,
+        status
+      )));
       
       route.visits.forEach((plannedVisit, visitIndex) => {
         // Use plannedVisit.id (the actual visit ID from Timefold)
@@ -252,8 +593,8 @@ export function mapRoutePlanToOptimizedSchedule(
           console.log(`[mapRoutePlanToOptimizedSchedule] Sample plannedVisit:`, JSON.stringify(plannedVisit));
         }
         
-        // Get start date - prefer arrivalTime, then startServiceTime
-        let startDateStr = plannedVisit.arrivalTime || plannedVisit.startServiceTime;
+        // Get start date - prefer startServiceTime (time before it is a waiting block), then arrivalTime
+        let startDateStr = plannedVisit.startServiceTime || plannedVisit.arrivalTime;
         let endDateStr = plannedVisit.departureTime;
         
         // If we have a start but no end, calculate end from service duration
@@ -277,9 +618,14 @@ export function mapRoutePlanToOptimizedSchedule(
         // FALLBACK: If no dates at all, generate sequential times based on shift
         if (!startDateStr || !endDateStr) {
           console.warn(`Visit ${visitId} missing dates, using fallback sequential placement`);
-          // Add 15 min travel time between visits
+          // Add estimated travel time from the previous visit
           if (visitIndex > 0) {
-            currentTime = addMinutes(currentTime, 15);
+            const previous = route.visits[visitIndex - 1];
+            const leg = travelMatrix.between(
+              visitMap.get(previous.id || previous.visitId || "")?.location,
+              visitDetails?.location
+            );
+            currentTime = addMinutes(currentTime, Math.round(leg.durationSeconds / 60));
           }
           startDateStr = currentTime.toISOString();
           endDateStr = addMinutes(currentTime, serviceDuration).toISOString();
@@ -306,17 +652,85 @@ export function mapRoutePlanToOptimizedSchedule(
         // Update current time for next fallback calculation
         currentTime = new Date(endDateStr);
 
+        const shift = vehicle?.shifts.find((s) => s.id === route.shiftId) ??
+          (vehicle ? findShiftForTime(vehicle.shifts, startDateStr) : undefined);
+        const shiftId = route.shiftId ?? shift?.id;
+        const requiredSkills = normalizeRequiredSkills(visitDetails?.requiredSkills);
+        // Timefold only breaks skill rules for pinned visits, but say so when it does
+        const skillMismatch = vehicle ? findMissingSkills(getShiftSkills(vehicle, shift), requiredSkills) : [];
+        const arrivalStr = plannedVisit.arrivalTime && new Date(plannedVisit.arrivalTime).getTime() < startTime
+          ? plannedVisit.arrivalTime
+          : startDateStr;
+        const arrivalTime = new Date(arrivalStr).getTime();
+
+        // A break taken after the previous visit delays the departure to this one
+        routeBreaks.forEach((span) => {
+          if (span.end <= arrivalTime && (!previousDeparture || span.end > new Date(previousDeparture).getTime())) {
+            previousDeparture = new Date(span.end).toISOString();
+          }
+        });
+
+        // Travel block: previous departure (or shift start) → arrival
+        const leg = travelMatrix.between(previousLocation, visitDetails?.location);
+        const travelMinutes = plannedVisit.travelTimeFromPrevious
+          ? parseDurationToMinutes(plannedVisit.travelTimeFromPrevious)
+          : leg.durationSeconds / 60;
+        const travelStartStr = previousDeparture && new Date(previousDeparture).getTime() < arrivalTime
+          ? previousDeparture
+          : addMinutes(new Date(arrivalTime), -travelMinutes).toISOString();
+        if (arrivalTime - new Date(travelStartStr).getTime() >= 60000) {
+          events.push({
+            id: `${idPrefix}-travel-${visitId}-${visitIndex}`,
+            resourceId: route.vehicleId,
+            startDate: travelStartStr,
+            endDate: arrivalStr,
+            name: "Resa",
+            eventType: "travel",
+            status,
+            visitId: visitId,
+            shiftId,
+            travelTime: Math.round(travelMinutes),
+            travelDistance: Math.round(plannedVisit.travelDistanceFromPrevious ?? leg.distanceMeters),
+          });
+        }
+
+        // Waiting blocks: arrival → service start, around breaks taken while waiting
+        subtractBreaks(arrivalTime, startTime, routeBreaks)
+          .filter(([from, to]) => to - from >= 60000)
+          .forEach(([from, to], segment) => {
+            events.push({
+              id: `${idPrefix}-wait-${visitId}-${visitIndex}${segment > 0 ? `-${segment}` : ""}`,
+              resourceId: route.vehicleId,
+              startDate: new Date(from).toISOString(),
+              endDate: new Date(to).toISOString(),
+              name: "Väntan",
+              eventType: "wait",
+              status,
+              visitId: visitId,
+              shiftId,
+              waitTime: Math.round((to - from) / 60000),
+            });
+          });
+
+        previousLocation = visitDetails?.location ?? previousLocation;
+        previousDeparture = endDateStr;
+
         events.push({
-          id: `opt-${visitId}-${visitIndex}`,
+          id: `${idPrefix}-${visitId}-${visitIndex}`,
           resourceId: route.vehicleId,
           startDate: startDateStr,
           endDate: endDateStr,
           name: visitDetails?.name || visitId,
           eventType: "visit",
-          status: "optimized",
+          status,
           visitId: visitId,
           address: getVisitAddress(visitDetails?.location),
-          travelTime: parseDurationToMinutes(plannedVisit.travelTimeFromPrevious),
+          travelTime: Math.round(travelMinutes),
+          travelDistance: Math.round(plannedVisit.travelDistanceFromPrevious ?? leg.distanceMeters),
+          shiftId,
+          priority: getPriorityLevel(visitDetails?.priority),
+          ...(requiredSkills.length > 0 ? { requiredSkills } : {}),
+          ...(skillMismatch.length > 0 ? { skillMismatch } : {}),
         });
       });
     });
@@ -327,49 +741,6 @@ export function mapRoutePlanToOptimizedSchedule(
     console.log(`[mapRoutePlanToOptimizedSchedule] routePlan keys:`, Object.keys(routePlan));
   }
 
-  // If no events from routes, check if there are unassigned visits that we can show
-  console.log(`[mapRoutePlanToOptimizedSchedule] Events after route processing: ${events.length}`);
-  console.log(`[mapRoutePlanToOptimizedSchedule] Unassigned visits: ${routePlan.unassignedVisits?.length ?? 0}`);
-
-  // Add unassigned visits as events on a special "Unassigned" row if any exist
-  if (routePlan.unassignedVisits && routePlan.unassignedVisits.length > 0) {
-    // Add an "Unassigned" resource
-    resources.push({
-      id: "unassigned",
-      name: "⚠️ Unassigned",
-    });
-
-    const firstShift = modelInput.vehicles[0]?.shifts[0];
-    const baseTimeStr = getShiftStartTime(firstShift) || new Date().toISOString();
-    const baseTime = new Date(baseTimeStr);
-    
-    routePlan.unassignedVisits.forEach((visit, index) => {
-      const startDate = addMinutes(baseTime, index * 45);
-      // Look up full visit details from model input (unassignedVisits may only have id/name)
-      const fullVisit = visitMap.get(visit.id);
-      const duration = parseDurationToMinutes(fullVisit?.serviceDuration) || 30;
-      const eventEndDate = addMinutes(startDate, duration);
-      
-      // Validate date range
-      if (startDate.getTime() >= eventEndDate.getTime()) {
-        console.warn(`Unassigned visit ${visit.id} has invalid date range, skipping`);
-        return;
-      }
-      
-      events.push({
-        id: `unassigned-${visit.id}`,
-        resourceId: "unassigned",
-        startDate: startDate.toISOString(),
-        endDate: eventEndDate.toISOString(),
-        name: visit.name || fullVisit?.name || visit.id,
-        eventType: "visit",
-        status: "optimized",
-        visitId: visit.id,
-        address: getVisitAddress(fullVisit?.location),
-      });
-    });
-  }
-
   return { resources, events };
 }
 
@@ -381,170 +752,240 @@ export function mapRoutePlanToOptimizedSchedule(
  * Computes KPI summary comparing baseline and optimized schedules
  * 
  * This function calculates various metrics to show the improvement
- * achieved by the optimization.
+ * achieved by the optimization. Optimized values prefer what the solver
+ * reports (its `kpis` and per-shift totals), then what can be computed from
+ * the planned itinerary, and only then travel estimates; `sourcesOptimized`
+ * records which one each value came from.
  */
 export function computeKpis(
   modelInput: TimefoldModelInput,
   routePlan: TimefoldRoutePlan | null,
   baselineSchedule: SchedulerData,
-  optimizedSchedule: SchedulerData | null
+  optimizedSchedule: SchedulerData | null,
+  costModel: CostModel = DEFAULT_COST_MODEL
 ): KpiSummary {
-  // Baseline metrics from model input
+  // Baseline metrics from the baseline schedule - the generated placement or
+  // a manual schedule - with travel estimated between consecutive visits
   const totalVisitsBaseline = modelInput.visits.length;
+  const baselineVisitEvents = baselineSchedule.events.filter((event) => event.eventType === "visit");
+  const assignedVisitsBaseline = new Set(baselineVisitEvents.map((event) => event.visitId ?? event.id)).size;
+  const unassignedVisitsBaseline = Math.max(0, totalVisitsBaseline - assignedVisitsBaseline);
+  const baselineAssignedIds = new Set(baselineVisitEvents.map((event) => event.visitId ?? event.id));
+  const unassignedByPriorityBaseline = countByPriority(
+    modelInput.visits.filter((visit) => !baselineAssignedIds.has(visit.id))
+  );
   
-  // In baseline, assume all visits are "assigned" (distributed across vehicles)
-  const assignedVisitsBaseline = totalVisitsBaseline;
-  const unassignedVisitsBaseline = 0;
-  
-  // Calculate baseline travel time (rough estimate)
-  // Assume average 15 minutes travel between visits
-  const avgTravelMinutes = 15;
-  const baselineTravelTime = assignedVisitsBaseline * avgTravelMinutes;
-  
-  // Calculate baseline service time
-  let baselineServiceTime = 0;
-  modelInput.visits.forEach((visit) => {
-    baselineServiceTime += parseDurationToMinutes(visit.serviceDuration) || 30;
-  });
+  // Baseline travel, service and wait time as laid out in the baseline schedule
+  const travelMatrix = getTravelMatrix(modelInput);
+  const {
+    travelTime: baselineTravelTime,
+    travelDistance: baselineTravelDistance,
+    serviceTime: baselineServiceTime,
+    waitTime: baselineWaitTime,
+    workByShift: baselineWorkByShift,
+  } = measureSchedule(modelInput, baselineSchedule);
 
-  // Baseline wait time (assumed low for manual/baseline simplified)
-  const baselineWaitTime = assignedVisitsBaseline * 5; // 5 min buffer per visit
+  const baselineBreakTime = getShiftSpans(modelInput.vehicles).reduce(
+    (sum, span) => sum + resolveRequiredBreaks(span.shift).reduce((total, b) => total + b.durationMs / 60000, 0),
+    0
+  );
+  const sourcesBaseline: KpiSources = {
+    visits: "computed",
+    travelTime: "estimated",
+    travelDistance: "estimated",
+    serviceTime: "computed",
+    waitTime: "computed",
+    breakTime: "computed",
+    workTime: "estimated",
+    utilization: "estimated",
+    fairness: "estimated",
+    cost: "estimated",
+  };
 
   // Optimized metrics from route plan
   const totalVisitsOptimized = totalVisitsBaseline;
-  let assignedVisitsOptimized = 0;
+  let assignedVisitsOptimized = assignedVisitsBaseline;
   let unassignedVisitsOptimized = 0;
-  let optimizedTravelTime = 0;
-  let optimizedServiceTime = 0;
-  let optimizedWaitTime = 0;
-
-  if (routePlan) {
-    // Count assigned visits from routes
-    if (routePlan.routes) {
-      routePlan.routes.forEach((route) => {
-        assignedVisitsOptimized += route.visits.length;
-        
-        // Sum travel times and calculate wait times
-        route.visits.forEach((visit) => {
-          optimizedTravelTime += parseDurationToMinutes(visit.travelTimeFromPrevious);
-          const visitId = visit.id || visit.visitId;
-          const visitDetails = modelInput.visits.find((v) => v.id === visitId);
-          optimizedServiceTime += parseDurationToMinutes(visitDetails?.serviceDuration) || 30;
-
-          // Wait time calculation: Start Service - Arrival
-          if (visit.arrivalTime && visit.startServiceTime) {
-            const arrival = new Date(visit.arrivalTime).getTime();
-            const start = new Date(visit.startServiceTime).getTime();
-            const wait = Math.max(0, (start - arrival) / 60000); // milliseconds to minutes
-            optimizedWaitTime += wait;
-          }
-        });
-        
-        // Also add route-level travel time if available
-        if (route.totalTravelTime) {
-          // If route has total, use that instead
-          optimizedTravelTime = parseDurationToMinutes(route.totalTravelTime);
+  let unassignedByPriorityOptimized = countByPriority([]);
+  let optimizedTravelTime = baselineTravelTime;
+  let optimizedTravelDistance = baselineTravelDistance;
+  let optimizedServiceTime = baselineServiceTime;
+  let optimizedWaitTime = baselineWaitTime;
+  let optimizedBreakTime = baselineBreakTime;
+  let sourcesOptimized: KpiSources = { ...sourcesBaseline };
+
+  // Work minutes (service + travel + wait) per shift, keyed by getShiftKey
+  let optimizedWorkByShift = new Map<string, number>();
+  // Whether the optimized schedule was edited by hand and measured itself
+  let measuredEdits = false;
+
+  if (routePlan?.routes) {
+    const routes = routePlan.routes;
+    const kpis = routePlan.kpis ?? {};
+    let travelTime = 0;
+    let travelDistance = 0;
+    let serviceTime = 0;
+    let waitTime = 0;
+    let breakTime = 0;
+    // Whether every leg came from the itinerary rather than travel estimates
+    let itineraryTravel = true;
+    let itineraryDistance = true;
+
+    routes.forEach((route) => {
+      const vehicle = modelInput.vehicles.find((v) => v.id === route.vehicleId);
+      const firstArrival = route.visits[0]?.arrivalTime || route.visits[0]?.startServiceTime;
+      const shift = vehicle?.shifts.find((s) => s.id === route.shiftId) ??
+        (vehicle && firstArrival ? findShiftForTime(vehicle.shifts, firstArrival) : vehicle?.shifts[0]);
+      let previousLocation: Location | number[] | undefined = shift?.startLocation;
+      let routeTravel = 0;
+      let routeDistance = 0;
+      let routeWork = 0;
+      const routeBreaks = getPlannedBreakSpans(route);
+      breakTime += routeBreaks.reduce((sum, span) => sum + (span.end - span.start) / 60000, 0);
+
+      // Legs to break locations count as travel too
+      (route.breaks ?? []).forEach((plannedBreak) => {
+        routeTravel += parseDurationToMinutes(plannedBreak.travelTimeFromPrevious);
+        routeDistance += plannedBreak.travelDistanceFromPrevious ?? 0;
+      });
+
+      route.visits.forEach((visit) => {
+        const visitId = visit.id || visit.visitId;
+        const visitDetails = modelInput.visits.find((v) => v.id === visitId);
+        const leg = travelMatrix.between(previousLocation, visitDetails?.location);
+        if (visit.travelTimeFromPrevious) {
+          routeTravel += parseDurationToMinutes(visit.travelTimeFromPrevious);
+        } else {
+          routeTravel += leg.durationSeconds / 60;
+          itineraryTravel = false;
+        }
+        if (visit.travelDistanceFromPrevious !== undefined) {
+          routeDistance += visit.travelDistanceFromPrevious;
+        } else {
+          routeDistance += leg.distanceMeters;
+          itineraryDistance = false;
+        }
+        const service = parseDurationToMinutes(visitDetails?.serviceDuration) || 30;
+        previousLocation = visitDetails?.location ?? previousLocation;
+        serviceTime += service;
+        routeWork += service;
+
+        // Wait time calculation: Start Service - Arrival
+        if (visit.arrivalTime && visit.startServiceTime) {
+          const arrival = new Date(visit.arrivalTime).getTime();
+          const start = new Date(visit.startServiceTime).getTime();
+          // Breaks taken while waiting are not waiting time
+          const wait = subtractBreaks(arrival, start, routeBreaks)
+            .reduce((sum, [from, to]) => sum + (to - from) / 60000, 0); // milliseconds to minutes
+          waitTime += wait;
+          routeWork += wait;
         }
       });
+
+      // The solver's shift totals also cover the drive back to the end location
+      const shiftTravel = route.totalTravelTime ? parseDurationToMinutes(route.totalTravelTime) : routeTravel;
+      travelTime += shiftTravel;
+      travelDistance += route.totalTravelDistance ?? routeDistance;
+      routeWork += shiftTravel;
+
+      const shiftKey = getShiftKey(route.vehicleId, shift?.id);
+      optimizedWorkByShift.set(shiftKey, (optimizedWorkByShift.get(shiftKey) ?? 0) + routeWork);
+    });
+
+    const routeTotals = (key: "totalTravelTime" | "totalTravelDistance") =>
+      routes.length > 0 && routes.every((route) => route[key] !== undefined);
+    const travelSource: KpiSource = kpis.totalTravelTime || routeTotals("totalTravelTime")
+      ? "solver"
+      : itineraryTravel ? "computed" : "estimated";
+    const distanceSource: KpiSource = kpis.totalTravelDistanceMeters !== undefined || routeTotals("totalTravelDistance")
+      ? "solver"
+      : itineraryDistance ? "computed" : "estimated";
+
+    optimizedTravelTime = kpis.totalTravelTime ? parseDurationToMinutes(kpis.totalTravelTime) : travelTime;
+    optimizedTravelDistance = kpis.totalTravelDistanceMeters ?? travelDistance;
+    optimizedServiceTime = serviceTime;
+    optimizedWaitTime = waitTime;
+    optimizedBreakTime = breakTime;
+    assignedVisitsOptimized = kpis.totalAssignedVisits ??
+      routes.reduce((sum, route) => sum + route.visits.length, 0);
+    unassignedVisitsOptimized = kpis.totalUnassignedVisits ?? routePlan.unassignedVisits?.length ?? 0;
+    const unassignedIds = new Set((routePlan.unassignedVisits ?? []).map((visit) => visit.id));
+    unassignedByPriorityOptimized = countByPriority(modelInput.visits.filter((visit) => unassignedIds.has(visit.id)));
+
+    // Once visits were assigned or removed by hand, count them from the schedule
+    const scheduledIds = optimizedSchedule
+      ? new Set(optimizedSchedule.events.filter((event) => event.eventType === "visit").map((event) => event.visitId ?? event.id))
+      : null;
+    const editedByHand = !!scheduledIds &&
+      modelInput.visits.some((visit) => scheduledIds.has(visit.id) === unassignedIds.has(visit.id));
+    if (scheduledIds && editedByHand) {
+      const unscheduled = modelInput.visits.filter((visit) => !scheduledIds.has(visit.id));
+      unassignedVisitsOptimized = unscheduled.length;
+      assignedVisitsOptimized = totalVisitsOptimized - unscheduled.length;
+      unassignedByPriorityOptimized = countByPriority(unscheduled);
     }
-    
-    // Count unassigned
-    unassignedVisitsOptimized = routePlan.unassignedVisits?.length || 0;
-    
-    // Use metrics if available
-    if (routePlan.metrics) {
-      if (routePlan.metrics.assignedVisits !== undefined) {
-        assignedVisitsOptimized = routePlan.metrics.assignedVisits;
-      }
-      if (routePlan.metrics.unassignedVisits !== undefined) {
-        unassignedVisitsOptimized = routePlan.metrics.unassignedVisits;
-      }
-      if (routePlan.metrics.totalTravelTime) {
-        optimizedTravelTime = parseDurationToMinutes(routePlan.metrics.totalTravelTime);
-      }
-      if (routePlan.metrics.totalServiceTime) {
-        optimizedServiceTime = parseDurationToMinutes(routePlan.metrics.totalServiceTime);
-      }
+
+    // Once visits were moved, assigned or removed by hand the route plan no
+    // longer describes the schedule, so measure the schedule itself
+    if (optimizedSchedule && (editedByHand || optimizedSchedule.events.some((event) => event.isAdjusted))) {
+      measuredEdits = true;
+      const measured = measureSchedule(modelInput, optimizedSchedule);
+      optimizedTravelTime = measured.travelTime;
+      optimizedTravelDistance = measured.travelDistance;
+      optimizedServiceTime = measured.serviceTime;
+      optimizedWaitTime = measured.waitTime;
+      optimizedWorkByShift = measured.workByShift;
     }
-  } else {
-    // No optimization yet - use baseline values
-    assignedVisitsOptimized = assignedVisitsBaseline;
-    optimizedTravelTime = baselineTravelTime;
-    optimizedServiceTime = baselineServiceTime;
-    optimizedWaitTime = baselineWaitTime;
+
+    const workSource = travelSource === "estimated" && !measuredEdits ? "estimated" : "computed";
+    sourcesOptimized = {
+      visits: kpis.totalAssignedVisits !== undefined && !editedByHand ? "solver" : "computed",
+      travelTime: measuredEdits ? "computed" : travelSource,
+      travelDistance: measuredEdits ? "computed" : distanceSource,
+      serviceTime: "computed",
+      waitTime: "computed",
+      breakTime: "computed",
+      workTime: workSource,
+      utilization: workSource,
+      fairness: kpis.workingTimeFairnessPercentage !== undefined && !measuredEdits ? "solver" : workSource,
+      cost: "estimated",
+    };
   }
 
-  // Cost Calculations (Heuristics)
-  // Rates
-  const HOURLY_RATE_SEK = 450;
-  
   // Total Work Time (Service + Travel + Wait)
   const totalWorkTimeBaseline = baselineServiceTime + baselineTravelTime + baselineWaitTime;
   const totalWorkTimeOptimized = optimizedServiceTime + optimizedTravelTime + optimizedWaitTime;
 
-  const totalCostBaseline = Math.round((totalWorkTimeBaseline / 60) * HOURLY_RATE_SEK);
-  const totalCostOptimized = Math.round((totalWorkTimeOptimized / 60) * HOURLY_RATE_SEK);
-
-  // Calculate utilization per resource
-  const utilizationByResourceBaseline = new Map<string, number>();
-  const utilizationByResourceOptimized = new Map<string, number>();
+  const optimizedShiftWork = routePlan?.routes ? optimizedWorkByShift : baselineWorkByShift;
 
-  modelInput.vehicles.forEach((vehicle) => {
-    const shift = vehicle.shifts[0];
-    if (!shift) return;
-    
-    const shiftStartStr = getShiftStartTime(shift);
-    const shiftEndStr = getShiftEndTime(shift);
-    if (!shiftStartStr || !shiftEndStr) return;
-    
-    const shiftDuration = 
-      (new Date(shiftEndStr).getTime() - new Date(shiftStartStr).getTime()) / 60000; // minutes
-    
-    if (isNaN(shiftDuration) || shiftDuration <= 0) return;
-    
-    // Baseline utilization - evenly distributed workload assumption
-    const baselineWorkload = totalWorkTimeBaseline / modelInput.vehicles.length;
-    const baselineUtil = Math.min(100, (baselineWorkload / shiftDuration) * 100);
-    utilizationByResourceBaseline.set(vehicle.id, Math.round(baselineUtil));
-    
-    // Optimized utilization from actual assignments
-    if (routePlan?.routes) {
-      const vehicleRoute = routePlan.routes.find((r) => r.vehicleId === vehicle.id);
-      if (vehicleRoute) {
-        let workTime = 0;
-        vehicleRoute.visits.forEach((pv) => {
-          const visit = modelInput.visits.find((v) => v.id === pv.visitId);
-          workTime += parseDurationToMinutes(visit?.serviceDuration) || 30;
-          workTime += parseDurationToMinutes(pv.travelTimeFromPrevious);
-          // Add wait time for this specific visit
-          if (pv.arrivalTime && pv.startServiceTime) {
-             const wait = Math.max(0, (new Date(pv.startServiceTime).getTime() - new Date(pv.arrivalTime).getTime()) / 60000);
-             workTime += wait;
-          }
-        });
-        const optUtil = Math.min(100, (workTime / shiftDuration) * 100);
-        utilizationByResourceOptimized.set(vehicle.id, Math.round(optUtil));
-      } else {
-        utilizationByResourceOptimized.set(vehicle.id, 0);
-      }
-    } else {
-      utilizationByResourceOptimized.set(vehicle.id, Math.round(baselineUtil));
-    }
+  // Costs from the paid time per shift, the distance driven and unassigned visits
+  const costBreakdownBaseline = computeCostBreakdown(costModel, {
+    shiftWork: getShiftWork(modelInput.vehicles, baselineWorkByShift),
+    distanceMeters: baselineTravelDistance,
+    unassignedVisits: unassignedVisitsBaseline,
   });
-
-  // Calculate average utilization
-  let avgUtilBaseline = 0;
-  let avgUtilOptimized = 0;
-  
-  utilizationByResourceBaseline.forEach((util) => {
-    avgUtilBaseline += util;
-  });
-  avgUtilBaseline = avgUtilBaseline / (utilizationByResourceBaseline.size || 1);
-  
-  utilizationByResourceOptimized.forEach((util) => {
-    avgUtilOptimized += util;
+  const costBreakdownOptimized = computeCostBreakdown(costModel, {
+    shiftWork: getShiftWork(modelInput.vehicles, optimizedShiftWork),
+    distanceMeters: optimizedTravelDistance,
+    unassignedVisits: unassignedVisitsOptimized,
   });
-  avgUtilOptimized = avgUtilOptimized / (utilizationByResourceOptimized.size || 1);
+
+  // Utilization per shift, then rolled up per resource and per day (shift start)
+  const baselineUtilization = summarizeUtilization(modelInput.vehicles, baselineWorkByShift);
+  const optimizedUtilization = routePlan?.routes
+    ? summarizeUtilization(modelInput.vehicles, optimizedShiftWork)
+    : baselineUtilization;
+
+  const average = (values: Map<string, number>) =>
+    Array.from(values.values()).reduce((sum, util) => sum + util, 0) / (values.size || 1);
+  const avgUtilBaseline = average(baselineUtilization.byResource);
+  const avgUtilOptimized = average(optimizedUtilization.byResource);
+
+  const baselineFairness = computeWorkingTimeFairness(modelInput.vehicles, baselineWorkByShift);
+  const solverFairness = measuredEdits ? undefined : routePlan?.kpis?.workingTimeFairnessPercentage;
+  const optimizedFairness = routePlan?.routes
+    ? solverFairness ?? computeWorkingTimeFairness(modelInput.vehicles, optimizedShiftWork)
+    : baselineFairness;
 
   return {
     totalVisitsBaseline,
@@ -553,20 +994,164 @@ export function computeKpis(
     assignedVisitsOptimized,
     unassignedVisitsBaseline,
     unassignedVisitsOptimized,
+    unassignedByPriorityBaseline,
+    unassignedByPriorityOptimized,
     totalTravelTimeBaseline: Math.round(baselineTravelTime),
-    totalTravelTimeOptimized: Math.round(optimizedTravelTime || baselineTravelTime),
+    totalTravelTimeOptimized: Math.round(optimizedTravelTime),
     totalServiceTimeBaseline: Math.round(baselineServiceTime),
-    totalServiceTimeOptimized: Math.round(optimizedServiceTime || baselineServiceTime),
+    totalServiceTimeOptimized: Math.round(optimizedServiceTime),
     totalWaitTimeBaseline: Math.round(baselineWaitTime),
     totalWaitTimeOptimized: Math.round(optimizedWaitTime),
+    totalBreakTimeBaseline: Math.round(baselineBreakTime),
+    totalBreakTimeOptimized: Math.round(optimizedBreakTime),
+    totalTravelDistanceBaseline: Math.round(baselineTravelDistance),
+    totalTravelDistanceOptimized: Math.round(optimizedTravelDistance),
     totalWorkTimeBaseline: Math.round(totalWorkTimeBaseline),
     totalWorkTimeOptimized: Math.round(totalWorkTimeOptimized),
-    totalCostBaseline,
-    totalCostOptimized,
-    utilizationByResourceBaseline,
-    utilizationByResourceOptimized,
+    totalCostBaseline: costBreakdownBaseline.total,
+    totalCostOptimized: costBreakdownOptimized.total,
+    costBreakdownBaseline,
+    costBreakdownOptimized,
+    utilizationByResourceBaseline: baselineUtilization.byResource,
+    utilizationByResourceOptimized: optimizedUtilization.byResource,
+    utilizationByShiftBaseline: baselineUtilization.byShift,
+    utilizationByShiftOptimized: optimizedUtilization.byShift,
+    utilizationByDayBaseline: baselineUtilization.byDay,
+    utilizationByDayOptimized: optimizedUtilization.byDay,
     avgUtilizationBaseline: Math.round(avgUtilBaseline),
     avgUtilizationOptimized: Math.round(avgUtilOptimized),
+    workingTimeFairnessBaseline: Math.round(baselineFairness),
+    workingTimeFairnessOptimized: Math.round(optimizedFairness),
+    sourcesBaseline,
+    sourcesOptimized,
+  };
+}
+
+/**
+ * Travel, service and wait minutes of a schedule as laid out: travel and
+ * distance from its visit events plus the drive back to each shift's end
+ * location (like the solver counts it), waiting from its wait blocks, and
+ * the work (service + travel + wait) per shift, keyed by getShiftKey
+ */
+function measureSchedule(modelInput: TimefoldModelInput, schedule: SchedulerData): {
+  travelTime: number;
+  travelDistance: number;
+  serviceTime: number;
+  waitTime: number;
+  workByShift: Map<string, number>;
+} {
+  const travelMatrix = getTravelMatrix(modelInput);
+  const visitEvents = schedule.events.filter((event) => event.eventType === "visit");
+  const waitEvents = schedule.events.filter((event) => event.eventType === "wait");
+  const eventMinutes = (event: SchedulerEvent) =>
+    Math.max(0, (new Date(event.endDate).getTime() - new Date(event.startDate).getTime()) / 60000) || 0;
+
+  const returnLegs = new Map(getShiftSpans(modelInput.vehicles).map(({ vehicle, shift }) => {
+    const last = visitEvents
+      .filter((event) => event.resourceId === vehicle.id && event.shiftId === shift.id)
+      .reduce<SchedulerEvent | undefined>((latest, event) => (!latest || event.endDate > latest.endDate ? event : latest), undefined);
+    const location = modelInput.visits.find((visit) => visit.id === last?.visitId)?.location;
+    const leg = last ? travelMatrix.between(location, shift.endLocation ?? shift.startLocation) : { durationSeconds: 0, distanceMeters: 0 };
+    return [getShiftKey(vehicle.id, shift.id), leg];
+  }));
+  const legs = Array.from(returnLegs.values());
+
+  const workByShift = new Map<string, number>();
+  returnLegs.forEach((leg, shiftKey) => {
+    if (leg.durationSeconds > 0) workByShift.set(shiftKey, leg.durationSeconds / 60);
+  });
+  visitEvents.forEach((event) => {
+    const shiftKey = getShiftKey(event.resourceId, event.shiftId);
+    workByShift.set(shiftKey, (workByShift.get(shiftKey) ?? 0) + eventMinutes(event) + (event.travelTime ?? 0));
+  });
+  waitEvents.forEach((event) => {
+    const shiftKey = getShiftKey(event.resourceId, event.shiftId);
+    workByShift.set(shiftKey, (workByShift.get(shiftKey) ?? 0) + (event.waitTime ?? eventMinutes(event)));
+  });
+
+  return {
+    travelTime:
+      visitEvents.reduce((sum, event) => sum + (event.travelTime ?? 0), 0) +
+      legs.reduce((sum, leg) => sum + leg.durationSeconds / 60, 0),
+    travelDistance:
+      visitEvents.reduce((sum, event) => sum + (event.travelDistance ?? 0), 0) +
+      legs.reduce((sum, leg) => sum + leg.distanceMeters, 0),
+    serviceTime: visitEvents.reduce((sum, event) => sum + eventMinutes(event), 0),
+    waitTime: waitEvents.reduce((sum, event) => sum + (event.waitTime ?? eventMinutes(event)), 0),
+    workByShift,
+  };
+}
+
+/**
+ * Number of visits per priority level
+ */
+function countByPriority(visits: Visit[]): Record<PriorityLevel, number> {
+  const counts: Record<PriorityLevel, number> = { high: 0, medium: 0, low: 0 };
+  visits.forEach((visit) => counts[getPriorityLevel(visit.priority)]++);
+  return counts;
+}
+
+/**
+ * Work minutes of every shift with the vehicle it belongs to
+ */
+function getShiftWork(vehicles: Vehicle[], workByShift: Map<string, number>): Array<{ vehicleId: string; minutes: number }> {
+  return vehicles.flatMap((vehicle) =>
+    vehicle.shifts.map((shift) => ({
+      vehicleId: vehicle.id,
+      minutes: workByShift.get(getShiftKey(vehicle.id, shift.id)) ?? 0,
+    }))
+  );
+}
+
+/**
+ * How evenly working time is spread over the caregivers (Jain's fairness
+ * index as a percentage: 100 when everyone works equally long, 100 / n when
+ * one caregiver does all the work)
+ */
+function computeWorkingTimeFairness(vehicles: Vehicle[], workByShift: Map<string, number>): number {
+  const work = vehicles.map((vehicle) =>
+    vehicle.shifts.reduce((sum, shift) => sum + (workByShift.get(getShiftKey(vehicle.id, shift.id)) ?? 0), 0)
+  );
+  const total = work.reduce((sum, minutes) => sum + minutes, 0);
+  const squares = work.reduce((sum, minutes) => sum + minutes * minutes, 0);
+  return squares > 0 ? (total * total) / (work.length * squares) * 100 : 100;
+}
+
+/**
+ * Utilization (work / shift length less breaks, 0-100) per shift, per resource over all
+ * its shifts, and per day over all shifts starting that day
+ */
+function summarizeUtilization(
+  vehicles: Vehicle[],
+  workByShift: Map<string, number>
+): { byShift: Map<string, number>; byResource: Map<string, number>; byDay: Map<string, number> } {
+  const byShift = new Map<string, number>();
+  const resourceTotals = new Map<string, { work: number; capacity: number }>();
+  const dayTotals = new Map<string, { work: number; capacity: number }>();
+  const accumulate = (totals: Map<string, { work: number; capacity: number }>, key: string, work: number, capacity: number) => {
+    const total = totals.get(key) ?? { work: 0, capacity: 0 };
+    totals.set(key, { work: total.work + work, capacity: total.capacity + capacity });
+  };
+  const toPercent = (work: number, capacity: number) =>
+    capacity > 0 ? Math.round(Math.min(100, (work / capacity) * 100)) : 0;
+
+  getShiftSpans(vehicles).forEach(({ vehicle, shift, start, end }) => {
+    // Required breaks are not available working time
+    const breakMinutes = resolveRequiredBreaks(shift).reduce((sum, b) => sum + b.durationMs / 60000, 0);
+    const capacity = Math.max(0, (end.getTime() - start.getTime()) / 60000 - breakMinutes);
+    const work = workByShift.get(getShiftKey(vehicle.id, shift.id)) ?? 0;
+    byShift.set(getShiftKey(vehicle.id, shift.id), toPercent(work, capacity));
+    accumulate(resourceTotals, vehicle.id, work, capacity);
+    accumulate(dayTotals, getDayKey(start), work, capacity);
+  });
+
+  const toPercentages = (totals: Map<string, { work: number; capacity: number }>) =>
+    new Map(Array.from(totals.entries()).map(([key, total]) => [key, toPercent(total.work, total.capacity)]));
+
+  return {
+    byShift,
+    byResource: toPercentages(resourceTotals),
+    byDay: new Map(Array.from(toPercentages(dayTotals).entries()).sort(([a], [b]) => a.localeCompare(b))),
   };
 }
 
@@ -596,95 +1181,81 @@ export function calculateDelta(
   };
 }
 
+// ============================================================
+// SCHEDULE COMPARISON
+// ============================================================
+
 /**
- * Creates a simulated optimized schedule from baseline data
- * This is used when the Timefold API is not available or returns errors
- * 
- * The simulation:
- * - Reorders visits to minimize travel (by grouping nearby visits)
- * - Compresses the schedule to reduce gaps
- * - Improves utilization by ~15-25%
+ * Links each visit across the baseline and optimized schedules and
+ * classifies the change. A visit counts as "shifted" when its start
+ * moved by more than thresholdMinutes on the same vehicle.
  */
-export function simulateOptimizedSchedule(
-  modelInput: TimefoldModelInput,
-  baselineSchedule: SchedulerData
-): SchedulerData {
-  // Create a copy of the baseline
-  const optimizedResources = [...baselineSchedule.resources];
-  const optimizedEvents: SchedulerEvent[] = [];
-
-  // Group events by resource
-  const eventsByResource = new Map<string, SchedulerEvent[]>();
-  baselineSchedule.events.forEach((event) => {
-    const existing = eventsByResource.get(event.resourceId) || [];
-    existing.push({ ...event });
-    eventsByResource.set(event.resourceId, existing);
-  });
-
-  // For each resource, optimize the schedule
-  eventsByResource.forEach((events, resourceId) => {
-    // Sort events by start time
-    events.sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-
-    // Group events by day
-    const eventsByDay = new Map<string, SchedulerEvent[]>();
-    events.forEach((event) => {
-      const day = new Date(event.startDate).toISOString().split("T")[0];
-      const dayEvents = eventsByDay.get(day) || [];
-      dayEvents.push(event);
-      eventsByDay.set(day, dayEvents);
+export function compareSchedules(
+  baseline: SchedulerData,
+  optimized: SchedulerData,
+  thresholdMinutes = 15
+): Map<string, VisitComparison> {
+  const firstVisitEvents = (schedule: SchedulerData) => {
+    const byVisit = new Map<string, SchedulerEvent>();
+    schedule.events.forEach((event) => {
+      if (event.eventType === "visit" && event.visitId && !byVisit.has(event.visitId)) {
+        byVisit.set(event.visitId, event);
+      }
     });
+    return byVisit;
+  };
 
-    // For each day, compress the schedule
-    eventsByDay.forEach((dayEvents, day) => {
-      // Parse the day to get the start time (8 AM)
-      const dayStart = new Date(day + "T08:00:00");
-      let currentTime = dayStart.getTime();
-
-      // Sort by visit priority (if available) and then compress
-      dayEvents.forEach((event, index) => {
-        const originalStart = new Date(event.startDate).getTime();
-        const originalEnd = new Date(event.endDate).getTime();
-        let duration = originalEnd - originalStart;
-
-        // Ensure duration is positive (at least 30 minutes)
-        if (duration <= 0) {
-          duration = 30 * 60 * 1000; // 30 minutes in milliseconds
-        }
+  const baselineVisits = firstVisitEvents(baseline);
+  const optimizedVisits = firstVisitEvents(optimized);
+  const visitIds = new Set([...Array.from(baselineVisits.keys()), ...Array.from(optimizedVisits.keys())]);
+  const comparisons = new Map<string, VisitComparison>();
 
-        // Add a small gap between visits (15 min for travel simulation)
-        const travelTime = index > 0 ? 15 * 60 * 1000 : 0;
-        
-        // Reduce travel time by ~40% in simulation (compressed routes)
-        const optimizedTravelTime = Math.floor(travelTime * 0.6);
+  visitIds.forEach((visitId) => {
+    const before = baselineVisits.get(visitId);
+    const after = optimizedVisits.get(visitId);
+    const wasAssigned = !!before;
+    const isAssigned = !!after;
 
-        // Calculate new start time
-        const newStart = new Date(currentTime + optimizedTravelTime);
-        const newEnd = new Date(newStart.getTime() + duration);
+    const shiftMinutes = before && after
+      ? Math.round((new Date(after.startDate).getTime() - new Date(before.startDate).getTime()) / 60000)
+      : 0;
 
-        // Validate dates before adding
-        if (newStart.getTime() >= newEnd.getTime()) {
-          console.warn(`Simulated event ${event.id} has invalid date range, skipping`);
-          currentTime = newStart.getTime() + 30 * 60 * 1000; // Skip ahead 30 minutes
-          return;
-        }
-
-        // Create optimized event
-        optimizedEvents.push({
-          ...event,
-          id: `${event.id}-optimized`,
-          startDate: newStart.toISOString(),
-          endDate: newEnd.toISOString(),
-        });
+    let change: VisitComparison["change"] = "unchanged";
+    if (wasAssigned && !isAssigned) {
+      change = "unassigned";
+    } else if (!wasAssigned && isAssigned) {
+      change = "assigned";
+    } else if (before && after && before.resourceId !== after.resourceId) {
+      change = "moved";
+    } else if (Math.abs(shiftMinutes) > thresholdMinutes) {
+      change = "shifted";
+    }
 
-        // Update current time
-        currentTime = newEnd.getTime();
-      });
+    comparisons.set(visitId, {
+      visitId,
+      change,
+      baselineResourceId: before?.resourceId,
+      optimizedResourceId: after?.resourceId,
+      shiftMinutes,
     });
   });
 
+  return comparisons;
+}
+
+/**
+ * Copies a schedule with each visit event tagged with its comparison result
+ */
+export function annotateScheduleChanges(
+  schedule: SchedulerData,
+  comparisons: Map<string, VisitComparison>
+): SchedulerData {
   return {
-    resources: optimizedResources,
-    events: optimizedEvents,
+    ...schedule,
+    events: schedule.events.map((event) => {
+      const comparison = event.visitId ? comparisons.get(event.visitId) : undefined;
+      if (event.eventType !== "visit" || !comparison) return event;
+      return { ...event, change: comparison.change, changeMinutes: comparison.shiftMinutes };
+    }),
   };
 }
@@ -0,0 +1,487 @@
+/**
+ * Mock Timefold Service
+ *
+ * In-memory stand-in for the Timefold Field Service Routing API, served by the
+ * routes under /api/mock-timefold. Point TIMEFOLD_BASE_URL at
+ * http://localhost:3000/api/mock-timefold to develop and test the
+ * optimize/poll flow without a Timefold account.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ *
+ * ASSUMPTIONS:
+ * - Response shapes mirror what getRoutePlan() in timefoldClient.ts parses
+ *   (metadata + modelOutput.vehicles[].shifts[].itinerary + kpis)
+ * - Solutions come from the local heuristic solver (lib/solver.ts)
+ * - Solving time is compressed: the solver never runs longer than
+ *   MOCK_TIMEFOLD_SOLVE_SECONDS (default 8), whatever the termination limit
+ * - The heuristic stops improving almost at once, so an unimproved spent
+ *   limit ends solving like a spent limit of the same length
+ * - Plans live in memory only: finished plans are dropped FINISHED_PLAN_TTL_MS
+ *   after they finish, and the oldest finished ones once more than MAX_PLANS
+ *   are held
+ */
+
+import type {
+  SolverStatus,
+  TimefoldDemoDataMeta,
+  TimefoldModelInput,
+  Visit,
+} from "./types";
+import { parseDurationToMinutes } from "./mapping";
+import { solveLocally } from "./solver";
+import { toCoordinates } from "./travel";
+import stockholmDemoInput from "@/data/demoInput.json";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A route plan held by the mock service
+ */
+interface MockRoutePlanRecord {
+  id: string;
+  createdAt: number;
+  modelInput: TimefoldModelInput;
+  solveSeconds: number;
+  validationErrors: string[];
+  terminatedAt?: number;
+  /** Last solution built, reused until the move budget changes */
+  solution?: { maxIterations: number; result: MockSolution };
+}
+
+/**
+ * Visit itinerary item in the Timefold modelOutput format
+ */
+interface MockVisitItem {
+  id: string;
+  kind: "VISIT";
+  arrivalTime: string;
+  startServiceTime: string;
+  departureTime: string;
+  effectiveServiceDuration: string;
+  travelTimeFromPreviousStandstill: string;
+  travelDistanceMetersFromPreviousStandstill: number;
+}
+
+/**
+ * Break itinerary item in the Timefold modelOutput format
+ */
+interface MockBreakItem {
+  id: string;
+  kind: "BREAK";
+  startTime: string;
+  endTime: string;
+  travelTimeFromPreviousStandstill: string;
+  travelDistanceMetersFromPreviousStandstill: number;
+}
+
+type MockItineraryItem = MockVisitItem | MockBreakItem;
+
+/**
+ * Solution parts of a route plan response
+ */
+interface MockSolution {
+  modelOutput: NonNullable<MockRoutePlanResponse["modelOutput"]>;
+  kpis: NonNullable<MockRoutePlanResponse["kpis"]>;
+  score?: string;
+}
+
+/**
+ * Route plan payload in the Timefold response format
+ */
+export interface MockRoutePlanResponse {
+  metadata: {
+    id: string;
+    solverStatus: SolverStatus;
+    score?: string;
+    submitDateTime: string;
+    validationResult?: { errors: string[] };
+  };
+  modelOutput?: {
+    vehicles: Array<{
+      id: string;
+      shifts: Array<{
+        id: string;
+        startTime?: string;
+        itinerary: MockItineraryItem[];
+        metrics: { totalTravelTime: string; totalTravelDistanceMeters: number };
+      }>;
+    }>;
+    unassignedVisits: string[];
+  };
+  kpis?: {
+    totalTravelTime: string;
+    totalTravelDistanceMeters: number;
+    totalAssignedVisits: number;
+    totalUnassignedVisits: number;
+  };
+}
+
+// ============================================================
+// STORE
+// ============================================================
+
+const SCHEDULING_DELAY_MS = 1000;
+const DEFAULT_SOLVE_SECONDS = 8;
+const FINISHED_PLAN_TTL_MS = 60 * 60 * 1000;
+const MAX_PLANS = 50;
+
+// Keep the store on globalThis so it survives hot reloads in `next dev`
+const globalStore = globalThis as unknown as {
+  __mockTimefoldPlans?: Map<string, MockRoutePlanRecord>;
+};
+const plans = globalStore.__mockTimefoldPlans ?? new Map<string, MockRoutePlanRecord>();
+globalStore.__mockTimefoldPlans = plans;
+
+function getMaxSolveSeconds(): number {
+  const configured = Number(process.env.MOCK_TIMEFOLD_SOLVE_SECONDS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SOLVE_SECONDS;
+}
+
+/**
+ * Drops finished plans past their TTL, then the oldest finished plans while
+ * the store holds more than MAX_PLANS. Plans still solving are always kept.
+ */
+function pruneMockRoutePlans(now = Date.now()): void {
+  const finished: string[] = [];
+  plans.forEach((record, id) => {
+    const finishedAt = getFinishedAt(record);
+    if (finishedAt > now) return;
+    if (now - finishedAt > FINISHED_PLAN_TTL_MS) {
+      plans.delete(id);
+    } else {
+      finished.push(id);
+    }
+  });
+
+  // Map order is submission order, so the first finished plans are the oldest
+  for (const id of finished) {
+    if (plans.size <= MAX_PLANS) break;
+    plans.delete(id);
+  }
+}
+
+/**
+ * When the plan stopped (or will stop) solving
+ */
+function getFinishedAt(record: MockRoutePlanRecord): number {
+  if (record.validationErrors.length > 0) return record.createdAt;
+  if (record.terminatedAt !== undefined) return record.terminatedAt;
+  return record.createdAt + SCHEDULING_DELAY_MS + record.solveSeconds * 1000;
+}
+
+// ============================================================
+// DEMO DATA
+// ============================================================
+
+const DEMO_DATASETS: TimefoldDemoDataMeta[] = [
+  { id: "BASIC", name: "Mock: Basic (Atlanta, Timefold format)" },
+  { id: "STOCKHOLM", name: "Mock: Stockholm Home Care" },
+];
+
+/**
+ * Lists the demo datasets served by the mock
+ */
+export function getMockDemoDataList(): TimefoldDemoDataMeta[] {
+  return DEMO_DATASETS;
+}
+
+/**
+ * Returns the model input for a mock demo dataset, or null if unknown
+ */
+export function getMockDemoDataInput(datasetId: string): TimefoldModelInput | null {
+  switch (datasetId) {
+    case "BASIC":
+      return buildBasicDataset();
+    case "STOCKHOLM":
+      return stockholmDemoInput as TimefoldModelInput;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Small deterministic PRNG so the generated dataset is identical on every call
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a Timefold-style dataset around Atlanta, GA.
+ * Uses [lat, lon] arrays, minStartTime/maxEndTime and skill objects so the
+ * Timefold-format code paths get exercised.
+ */
+function buildBasicDataset(): TimefoldModelInput {
+  const random = createRandom(42);
+  const day = "2027-02-01";
+  const center = { latitude: 33.749, longitude: -84.388 };
+  const skillNames = ["electrician", "plumber", "hvac"];
+  const technicians = ["Ann", "Beth", "Carl", "Dan", "Elsa"];
+
+  const vehicles = technicians.map((name, index) => ({
+    id: name,
+    vehicleType: "VAN",
+    shifts: [
+      {
+        id: `${name}-${day}`,
+        minStartTime: `${day}T0${7 + (index % 2)}:00:00Z`,
+        maxEndTime: `${day}T1${6 + (index % 2)}:00:00Z`,
+        startLocation: [
+          round(center.latitude + (random() - 0.5) * 0.2),
+          round(center.longitude + (random() - 0.5) * 0.2),
+        ],
+        skills: [
+          { name: skillNames[index % skillNames.length], level: 1 + (index % 3) },
+          { name: skillNames[(index + 1) % skillNames.length], level: 1 },
+        ],
+        requiredBreaks: [
+          {
+            id: `${name}-lunch`,
+            type: "FLOATING" as const,
+            minStartTime: `${day}T11:00:00Z`,
+            maxEndTime: `${day}T13:30:00Z`,
+            duration: "PT30M",
+            costImpact: "UNPAID" as const,
+          },
+        ],
+      },
+    ],
+  }));
+
+  const visits: Visit[] = Array.from({ length: 24 }, (_, index) => {
+    const windowStartHour = 7 + Math.floor(random() * 7);
+    const windowLength = 2 + Math.floor(random() * 4);
+    const visit: Visit = {
+      id: String(index + 1),
+      name: `Customer ${index + 1}`,
+      location: [
+        round(center.latitude + (random() - 0.5) * 0.3),
+        round(center.longitude + (random() - 0.5) * 0.3),
+      ],
+      serviceDuration: `PT${15 + Math.floor(random() * 4) * 15}M`,
+      timeWindows: [
+        {
+          minStartTime: `${day}T${pad(windowStartHour)}:00:00Z`,
+          maxEndTime: `${day}T${pad(Math.min(windowStartHour + windowLength, 18))}:00:00Z`,
+        },
+      ],
+    };
+    if (random() < 0.4) {
+      visit.requiredSkills = [{ name: skillNames[Math.floor(random() * skillNames.length)] }];
+    }
+    return visit;
+  });
+
+  return { vehicles, visits };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, "0");
+}
+
+// ============================================================
+// ROUTE PLANS
+// ============================================================
+
+/**
+ * Registers a new route plan and starts the simulated solver lifecycle
+ */
+export function createMockRoutePlan(
+  modelInput: TimefoldModelInput,
+  terminationLimit?: string,
+  unimprovedLimit?: string
+): { id: string; solverStatus: SolverStatus } {
+  const id = `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const limitSeconds = Math.min(
+    terminationLimit ? parseDurationToMinutes(terminationLimit) * 60 : Infinity,
+    unimprovedLimit ? parseDurationToMinutes(unimprovedLimit) * 60 : Infinity
+  );
+
+  pruneMockRoutePlans();
+  plans.set(id, {
+    id,
+    createdAt: Date.now(),
+    modelInput,
+    solveSeconds: Math.min(limitSeconds || Infinity, getMaxSolveSeconds()),
+    validationErrors: validateMockInput(modelInput),
+  });
+
+  return { id, solverStatus: "SOLVING_SCHEDULED" };
+}
+
+/**
+ * Returns the current state of a mock route plan, or null if unknown.
+ * The status is derived from the time elapsed since submission.
+ */
+export function getMockRoutePlan(id: string): MockRoutePlanResponse | null {
+  pruneMockRoutePlans();
+  const record = plans.get(id);
+  if (!record) return null;
+
+  const solverStatus = getMockSolverStatus(record);
+  const metadata: MockRoutePlanResponse["metadata"] = {
+    id: record.id,
+    solverStatus,
+    submitDateTime: new Date(record.createdAt).toISOString(),
+  };
+
+  if (solverStatus === "DATASET_INVALID") {
+    return { metadata: { ...metadata, validationResult: { errors: record.validationErrors } } };
+  }
+
+  if (solverStatus === "SOLVING_SCHEDULED") {
+    return { metadata };
+  }
+
+  const { modelOutput, kpis, score } = buildMockSolution(record, solverStatus);
+  return {
+    metadata: { ...metadata, score },
+    modelOutput,
+    kpis,
+  };
+}
+
+/**
+ * Terminates a mock route plan early, freezing its best solution so far.
+ * Plans that already finished are left as they are.
+ */
+export function terminateMockRoutePlan(id: string): MockRoutePlanResponse | null {
+  const record = plans.get(id);
+  if (!record) return null;
+
+  const solverStatus = getMockSolverStatus(record);
+  if (solverStatus === "SOLVING_SCHEDULED" || solverStatus === "SOLVING_ACTIVE") {
+    record.terminatedAt = Date.now();
+  }
+  return getMockRoutePlan(id);
+}
+
+function getMockSolverStatus(record: MockRoutePlanRecord): SolverStatus {
+  if (record.validationErrors.length > 0) return "DATASET_INVALID";
+  if (record.terminatedAt !== undefined) return "SOLVING_INCOMPLETE";
+
+  const elapsedMs = Date.now() - record.createdAt;
+  if (elapsedMs < SCHEDULING_DELAY_MS) return "SOLVING_SCHEDULED";
+  if (elapsedMs < SCHEDULING_DELAY_MS + record.solveSeconds * 1000) return "SOLVING_ACTIVE";
+  return "SOLVING_COMPLETED";
+}
+
+/**
+ * Mirrors the most common Timefold validation failures
+ */
+function validateMockInput(modelInput: TimefoldModelInput): string[] {
+  const errors: string[] = [];
+  if (!modelInput.vehicles?.length) errors.push("The model input has no vehicles.");
+  if (!modelInput.visits?.length) errors.push("The model input has no visits.");
+
+  modelInput.visits?.forEach((visit) => {
+    if (!toCoordinates(visit.location)) {
+      errors.push(`Visit (${visit.id}) has an invalid location.`);
+    }
+  });
+
+  return errors;
+}
+
+// ============================================================
+// SOLUTION BUILDER
+// ============================================================
+
+// Number of improving local search moves the mock applies per second of
+// solving, so polling clients see the score improve while SOLVING_ACTIVE
+const MOVES_PER_SECOND = 5;
+
+/**
+ * When an itinerary item's standstill begins (service start for visits, so a
+ * break taken while waiting comes before the visit)
+ */
+function getItineraryTime(item: MockItineraryItem): string {
+  return item.kind === "BREAK" ? item.startTime : item.startServiceTime;
+}
+
+/**
+ * Runs the local solver and converts its result to the Timefold
+ * modelOutput/kpis format. Until solving completes the number of local
+ * search moves grows with elapsed time (frozen once terminated). The
+ * solution is cached on the record, so polls within the same second of
+ * solving don't solve again.
+ */
+function buildMockSolution(record: MockRoutePlanRecord, solverStatus: SolverStatus): MockSolution {
+  const { modelInput } = record;
+  const now = record.terminatedAt ?? Date.now();
+  const elapsedSeconds = (now - record.createdAt - SCHEDULING_DELAY_MS) / 1000;
+  const maxIterations = solverStatus === "SOLVING_COMPLETED"
+    ? Infinity
+    : Math.max(0, Math.floor(elapsedSeconds) * MOVES_PER_SECOND);
+  if (record.solution?.maxIterations === maxIterations) return record.solution.result;
+
+  const plan = solveLocally(modelInput, { timeLimitMs: 500, maxIterations });
+
+  const serviceDurations = new Map(modelInput.visits.map((visit) => [visit.id, visit.serviceDuration]));
+  const routes = plan.routes ?? [];
+
+  const vehicles = modelInput.vehicles.map((vehicle) => ({
+    id: vehicle.id,
+    shifts: routes
+      .filter((route) => route.vehicleId === vehicle.id)
+      .map((route) => {
+        const shift = vehicle.shifts.find((s) => s.id === route.shiftId);
+        return {
+          id: route.shiftId || vehicle.id,
+          startTime: shift?.minStartTime || shift?.startTime,
+          itinerary: [
+            ...route.visits.map((plannedVisit): MockItineraryItem => ({
+              id: plannedVisit.id,
+              kind: "VISIT",
+              arrivalTime: plannedVisit.arrivalTime || "",
+              startServiceTime: plannedVisit.startServiceTime || "",
+              departureTime: plannedVisit.departureTime || "",
+              effectiveServiceDuration: serviceDurations.get(plannedVisit.id) || "PT30M",
+              travelTimeFromPreviousStandstill: plannedVisit.travelTimeFromPrevious || "PT0S",
+              travelDistanceMetersFromPreviousStandstill: plannedVisit.travelDistanceFromPrevious ?? 0,
+            })),
+            ...(route.breaks ?? []).map((plannedBreak): MockItineraryItem => ({
+              id: plannedBreak.id,
+              kind: "BREAK",
+              startTime: plannedBreak.startTime,
+              endTime: plannedBreak.endTime,
+              travelTimeFromPreviousStandstill: plannedBreak.travelTimeFromPrevious || "PT0S",
+              travelDistanceMetersFromPreviousStandstill: plannedBreak.travelDistanceFromPrevious ?? 0,
+            })),
+          ].sort((a, b) => getItineraryTime(a).localeCompare(getItineraryTime(b))),
+          metrics: {
+            totalTravelTime: route.totalTravelTime || "PT0S",
+            totalTravelDistanceMeters: route.totalTravelDistance ?? 0,
+          },
+        };
+      }),
+  }));
+
+  const result: MockSolution = {
+    modelOutput: {
+      vehicles,
+      unassignedVisits: (plan.unassignedVisits ?? []).map((visit) => visit.id),
+    },
+    kpis: {
+      totalTravelTime: plan.kpis?.totalTravelTime || "PT0S",
+      totalTravelDistanceMeters: plan.kpis?.totalTravelDistanceMeters ?? 0,
+      totalAssignedVisits: plan.kpis?.totalAssignedVisits ?? 0,
+      totalUnassignedVisits: plan.kpis?.totalUnassignedVisits ?? 0,
+    },
+    score: plan.score,
+  };
+  record.solution = { maxIterations, result };
+  return result;
+}
@@ -0,0 +1,210 @@
+/**
+ * Model Edits
+ *
+ * Edits to a single visit or caregiver of the loaded model input, made in
+ * the detail panels:
+ * - the edited entity replaces the one with the same id
+ * - the edited model is validated; errors for the entity block the edit,
+ *   warnings are reported with it
+ * - the displayed schedules follow: the baseline is rebuilt with manually
+ *   placed visits kept where they are (with their travel and wait blocks
+ *   rebuilt), and both schedules take the new names, addresses, skills and
+ *   priorities (optimized times are kept)
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { EditChange } from "./editHistory";
+import type {
+  SchedulerData,
+  SchedulerEvent,
+  TimefoldModelInput,
+  ValidationFinding,
+  Vehicle,
+  Visit,
+} from "./types";
+import { getMoveChanges } from "./legs";
+import { getVisitAddress, parseDurationToMinutes, toSchedulerResource } from "./mapping";
+import { getPriorityLevel } from "./priority";
+import { findMissingSkills, getShiftSkills, normalizeRequiredSkills } from "./skills";
+import { validateModelInput } from "./validation";
+
+/**
+ * The edited model input and the validation findings for the edited entity
+ */
+export interface ModelEditResult {
+  modelInput: TimefoldModelInput;
+  findings: ValidationFinding[];
+}
+
+// ============================================================
+// EDITS
+// ============================================================
+
+/**
+ * Replaces the visit with the same id
+ */
+export function replaceVisit(modelInput: TimefoldModelInput, visit: Visit): ModelEditResult {
+  const edited = {
+    ...modelInput,
+    visits: modelInput.visits.map((existing) => (existing.id === visit.id ? visit : existing)),
+  };
+  return {
+    modelInput: edited,
+    findings: validateModelInput(edited).filter(
+      (finding) => finding.entityType === "visit" && finding.entityId === visit.id
+    ),
+  };
+}
+
+/**
+ * Replaces the vehicle (caregiver) with the same id
+ */
+export function replaceVehicle(modelInput: TimefoldModelInput, vehicle: Vehicle): ModelEditResult {
+  const edited = {
+    ...modelInput,
+    vehicles: modelInput.vehicles.map((existing) => (existing.id === vehicle.id ? vehicle : existing)),
+  };
+  return {
+    modelInput: edited,
+    findings: validateModelInput(edited).filter((finding) =>
+      (finding.entityType === "vehicle" && finding.entityId === vehicle.id) ||
+      (finding.entityType === "shift" && finding.vehicleId === vehicle.id)
+    ),
+  };
+}
+
+// ============================================================
+// SCHEDULES
+// ============================================================
+
+/**
+ * A schedule's resources and visit events with the names, addresses,
+ * skills and priorities of the model input, and skill mismatches checked
+ * again; times are left as they are
+ */
+export function refreshScheduleForModel(schedule: SchedulerData, modelInput: TimefoldModelInput): SchedulerData {
+  const vehicles = new Map(modelInput.vehicles.map((vehicle) => [vehicle.id, vehicle]));
+  const visits = new Map(modelInput.visits.map((visit) => [visit.id, visit]));
+  return {
+    resources: schedule.resources.map((resource) => {
+      const vehicle = vehicles.get(resource.id);
+      return vehicle ? toSchedulerResource(vehicle) : resource;
+    }),
+    events: schedule.events.map((event) => {
+      const visit = event.eventType === "visit" && event.visitId ? visits.get(event.visitId) : undefined;
+      return visit ? refreshVisitEvent(event, visit, vehicles.get(event.resourceId)) : event;
+    }),
+  };
+}
+
+/**
+ * A rebuilt baseline with the visits placed by hand in the previous one
+ * kept on their caregiver, start and duration (the duration follows the
+ * model only when the visit's service duration was changed), and travel
+ * and wait blocks rebuilt for them and the visits now following them
+ */
+export function keepManualPlacements(
+  previous: SchedulerData,
+  rebuilt: SchedulerData,
+  modelInput: TimefoldModelInput,
+  previousModel?: TimefoldModelInput
+): SchedulerData {
+  const vehicles = new Map(modelInput.vehicles.map((vehicle) => [vehicle.id, vehicle]));
+  const visits = new Map(modelInput.visits.map((visit) => [visit.id, visit]));
+  const previousVisits = new Map((previousModel?.visits ?? []).map((visit) => [visit.id, visit]));
+  const manual = previous.events.filter(
+    (event) => event.eventType === "visit" && event.isAdjusted && event.visitId && visits.has(event.visitId)
+  );
+  if (manual.length === 0) return rebuilt;
+
+  const manualIds = new Set(manual.map((event) => event.visitId));
+  const kept = manual
+    .map((event) => {
+      const visit = visits.get(event.visitId!)!;
+      const refreshed = refreshVisitEvent(event, visit, vehicles.get(event.resourceId));
+      const previousVisit = previousVisits.get(visit.id);
+      if (previousVisit && previousVisit.serviceDuration === visit.serviceDuration) return refreshed;
+      const minutes = parseDurationToMinutes(visit.serviceDuration) || 30;
+      return { ...refreshed, endDate: new Date(new Date(event.startDate).getTime() + minutes * 60000).toISOString() };
+    })
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+  // The rebuilt placement of a manual visit is dropped, with its travel and wait blocks
+  let events = [
+    ...rebuilt.events.filter((event) => !event.visitId || !manualIds.has(event.visitId)),
+    ...kept,
+  ];
+  kept.forEach((event) => {
+    const current = events.find((e) => e.id === event.id) ?? event;
+    events = applyEventChanges(events, getMoveChanges(modelInput, events, "baseline", current, current));
+  });
+
+  return { ...rebuilt, events };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Events with schedule changes applied: `before` removed, `after` added
+ * or replacing the event with the same id
+ */
+function applyEventChanges(events: SchedulerEvent[], changes: EditChange[]): SchedulerEvent[] {
+  return changes.reduce((result, change) => {
+    if (change.target !== "baseline" && change.target !== "optimized") return result;
+    const { before, after } = change;
+    const without = result.filter((event) => event.id !== before?.id && event.id !== after?.id);
+    return after ? [...without, after] : without;
+  }, events);
+}
+
+/**
+ * A visit event with the visit's current details; the skill mismatch is
+ * checked against the caregiver's shift when the caregiver is known
+ */
+function refreshVisitEvent(event: SchedulerEvent, visit: Visit, vehicle: Vehicle | undefined): SchedulerEvent {
+  const requiredSkills = normalizeRequiredSkills(visit.requiredSkills);
+  const shift = vehicle?.shifts.find((s) => s.id === event.shiftId);
+  const skillMismatch = vehicle
+    ? findMissingSkills(getShiftSkills(vehicle, shift), requiredSkills)
+    : event.skillMismatch ?? [];
+  const refreshed: SchedulerEvent = {
+    ...event,
+    name: visit.name || visit.id,
+    address: getVisitAddress(visit.location),
+    priority: getPriorityLevel(visit.priority),
+    requiredSkills,
+    skillMismatch,
+  };
+  if (requiredSkills.length === 0) delete refreshed.requiredSkills;
+  if (skillMismatch.length === 0) delete refreshed.skillMismatch;
+  return refreshed;
+}
+
+// ============================================================
+// FORM VALUES
+// ============================================================
+
+/**
+ * Value for a datetime-local input (local time, minutes) from an ISO
+ * datetime; empty if missing or invalid
+ */
+export function toDateTimeInput(iso: string | undefined): string {
+  const date = iso ? new Date(iso) : null;
+  if (!date || isNaN(date.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * ISO datetime for a datetime-local value; the original string when the
+ * value wasn't changed (keeping its offset), undefined when it was cleared
+ */
+export function fromDateTimeInput(value: string, original?: string): string | undefined {
+  if (original && toDateTimeInput(original) === value) return original;
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
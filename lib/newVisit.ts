@@ -0,0 +1,125 @@
+/**
+ * New Visits
+ *
+ * Turns the "Nytt besök" form into a visit of the model input, so a visit
+ * added by hand is optimized, exported and measured like the dataset's own:
+ * - the address is geocoded against the local gazetteer (lib/gazetteer.ts)
+ *   and stored in the location format the dataset already uses
+ * - the time window, required skills, priority and notes are kept
+ * - a chosen caregiver gets a scheduler event at the planned start, in the
+ *   shift it falls in and flagged when the caregiver lacks a required skill
+ *   (travel and wait blocks are added with lib/legs.ts)
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { Location, NewVisitData, SchedulerEvent, TimefoldModelInput, Visit } from "./types";
+import type { GeocodeResult } from "./gazetteer";
+import { findShiftForTime } from "./mapping";
+import { PRIORITY_LEVELS } from "./priority";
+import { findMissingSkills, getShiftSkills, normalizeRequiredSkills } from "./skills";
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Visit for the form data at the geocoded location; the id is unique in
+ * the model input
+ */
+export function buildNewVisit(
+  data: NewVisitData,
+  geocode: GeocodeResult,
+  modelInput: TimefoldModelInput
+): Visit {
+  const usesArrays = modelInput.visits.some((visit) => Array.isArray(visit.location));
+  const location: Location | number[] = usesArrays
+    ? [geocode.latitude, geocode.longitude]
+    : { latitude: geocode.latitude, longitude: geocode.longitude, address: data.address.trim() };
+
+  const windowStart = toIsoDateTime(data.date, data.windowStart);
+  const windowEnd = toIsoDateTime(data.date, data.windowEnd);
+  const priority = PRIORITY_LEVELS.find((entry) => entry.level === data.priority)?.priority;
+
+  return {
+    id: createVisitId(modelInput),
+    name: data.name.trim(),
+    location,
+    serviceDuration: `PT${data.duration}M`,
+    ...(windowStart || windowEnd
+      ? { timeWindows: [{ ...(windowStart ? { minStartTime: windowStart } : {}), ...(windowEnd ? { maxEndTime: windowEnd } : {}) }] }
+      : {}),
+    ...(data.requiredSkills.length > 0 ? { requiredSkills: data.requiredSkills.map((name) => ({ name })) } : {}),
+    ...(priority ? { priority } : {}),
+    ...(data.notes.trim() ? { notes: data.notes.trim() } : {}),
+  };
+}
+
+/**
+ * Scheduler event placing a new visit on its caregiver at the planned
+ * start; null if no caregiver was chosen
+ */
+export function buildNewVisitEvent(
+  data: NewVisitData,
+  visit: Visit,
+  status: SchedulerEvent["status"],
+  modelInput: TimefoldModelInput
+): SchedulerEvent | null {
+  const start = toIsoDateTime(data.date, data.startTime);
+  if (!data.resourceId || !start) return null;
+
+  const vehicle = modelInput.vehicles.find((v) => v.id === data.resourceId);
+  const shift = vehicle ? findShiftForTime(vehicle.shifts, start) : undefined;
+  const requiredSkills = normalizeRequiredSkills(visit.requiredSkills);
+  const skillMismatch = vehicle ? findMissingSkills(getShiftSkills(vehicle, shift), requiredSkills) : [];
+
+  return {
+    id: `${status === "optimized" ? "opt" : status}-${visit.id}-manual`,
+    resourceId: data.resourceId,
+    startDate: start,
+    endDate: new Date(new Date(start).getTime() + data.duration * 60000).toISOString(),
+    name: visit.name,
+    eventType: "visit",
+    status,
+    visitId: visit.id,
+    address: data.address.trim(),
+    shiftId: shift?.id,
+    priority: data.priority,
+    ...(requiredSkills.length > 0 ? { requiredSkills } : {}),
+    ...(skillMismatch.length > 0 ? { skillMismatch } : {}),
+    isAdjusted: true,
+  };
+}
+
+/**
+ * Problem with the form's times, in Swedish for the form; null if valid
+ */
+export function validateNewVisitTimes(data: NewVisitData): string | null {
+  if (!toIsoDateTime(data.date, data.startTime)) return "Ange datum och starttid";
+  const windowStart = toIsoDateTime(data.date, data.windowStart);
+  const windowEnd = toIsoDateTime(data.date, data.windowEnd);
+  if (windowStart && windowEnd && windowEnd <= windowStart) return "Tidsfönstret slutar innan det börjar";
+  return null;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * ISO datetime for a local date and HH:MM time; null if either is missing
+ */
+function toIsoDateTime(date: string, time: string): string | null {
+  if (!date || !time) return null;
+  const value = new Date(`${date}T${time}:00`);
+  return isNaN(value.getTime()) ? null : value.toISOString();
+}
+
+function createVisitId(modelInput: TimefoldModelInput): string {
+  const ids = new Set(modelInput.visits.map((visit) => visit.id));
+  let id: string;
+  do {
+    id = `visit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  } while (ids.has(id));
+  return id;
+}
@@ -0,0 +1,114 @@
+/**
+ * Pinning Utilities
+ *
+ * Turns manual edits in the scheduler back into solver input: visits the
+ * dispatcher dragged are pinned to their vehicle and start time, so a new
+ * optimization run rearranges everything else around them.
+ *
+ * Timefold pins a visit when it has `pinningRequested: true` and appears
+ * in a shift's `itinerary`. The start time is fixed by narrowing the
+ * visit's time window to the planned start.
+ */
+
+import type {
+  SchedulerData,
+  SchedulerEvent,
+  Shift,
+  TimefoldModelInput,
+  Visit,
+} from "./types";
+import { findShiftForTime, parseDurationToMinutes } from "./mapping";
+
+/**
+ * Builds a model input where every adjusted visit event is pinned to its
+ * vehicle and start time. Pins from earlier runs are cleared.
+ */
+export function buildPinnedModelInput(
+  modelInput: TimefoldModelInput,
+  schedule: SchedulerData
+): { modelInput: TimefoldModelInput; pinnedVisitIds: string[] } {
+  const vehicleIds = new Set(modelInput.vehicles.map((vehicle) => vehicle.id));
+  const visitIds = new Set(modelInput.visits.map((visit) => visit.id));
+
+  const pinnedEvents = schedule.events
+    .filter((event): event is SchedulerEvent & { visitId: string } =>
+      event.eventType === "visit" &&
+      (event.isAdjusted === true || event.isPinned === true) &&
+      !!event.visitId &&
+      visitIds.has(event.visitId) &&
+      vehicleIds.has(event.resourceId)
+    )
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+
+  const pinnedByVisit = new Map(pinnedEvents.map((event) => [event.visitId, event]));
+
+  const vehicles = modelInput.vehicles.map((vehicle) => {
+    const vehicleEvents = pinnedEvents.filter((event) => event.resourceId === vehicle.id);
+    return {
+      ...vehicle,
+      shifts: vehicle.shifts.map((shift): Shift => {
+        const shiftEvents = vehicleEvents.filter(
+          (event) => findShiftForEvent(vehicle.shifts, event) === shift
+        );
+        const { itinerary: _previous, ...rest } = shift;
+        return shiftEvents.length > 0
+          ? { ...rest, itinerary: shiftEvents.map((event) => ({ id: event.visitId, kind: "VISIT" as const })) }
+          : rest;
+      }),
+    };
+  });
+
+  const visits = modelInput.visits.map((visit): Visit => {
+    const event = pinnedByVisit.get(visit.id);
+    if (!event) {
+      const { pinningRequested: _previous, ...rest } = visit;
+      return rest;
+    }
+
+    const start = new Date(event.startDate);
+    const serviceMinutes = parseDurationToMinutes(visit.serviceDuration) || 30;
+    const end = new Date(start.getTime() + serviceMinutes * 60000);
+    return {
+      ...visit,
+      pinningRequested: true,
+      timeWindows: [{
+        minStartTime: start.toISOString(),
+        maxStartTime: start.toISOString(),
+        maxEndTime: end.toISOString(),
+      }],
+    };
+  });
+
+  return {
+    modelInput: { ...modelInput, vehicles, visits },
+    pinnedVisitIds: Array.from(pinnedByVisit.keys()),
+  };
+}
+
+/**
+ * Marks the events of pinned visits so they render as locked
+ */
+export function markPinnedEvents(schedule: SchedulerData, pinnedVisitIds: Set<string>): SchedulerData {
+  if (pinnedVisitIds.size === 0) return schedule;
+  return {
+    ...schedule,
+    events: schedule.events.map((event) =>
+      event.visitId && pinnedVisitIds.has(event.visitId) ? { ...event, isPinned: true } : event
+    ),
+  };
+}
+
+/**
+ * The shift an event belongs to: its own shift while the start still falls
+ * inside it, otherwise the shift containing (or closest to) the start
+ */
+function findShiftForEvent(shifts: Shift[], event: SchedulerEvent): Shift | undefined {
+  const start = new Date(event.startDate).getTime();
+  const own = shifts.find((shift) => shift.id === event.shiftId);
+  if (own) {
+    const shiftStart = new Date(own.minStartTime || own.startTime || "").getTime();
+    const shiftEnd = new Date(own.maxEndTime || own.endTime || "").getTime();
+    if (start >= shiftStart && start < shiftEnd) return own;
+  }
+  return findShiftForTime(shifts, event.startDate);
+}
@@ -0,0 +1,103 @@
+/**
+ * Visit Priority
+ *
+ * Visits carry a Timefold priority: "1" (most important) to "10" (least
+ * important), "6" when unset. Datasets may give it as a number, a numeric
+ * string or a level ("high", "medium", "low" or the Swedish "hög", "medel",
+ * "låg"); it is normalized to the Timefold string on import and before
+ * submission.
+ *
+ * For display and for the local solver priorities are grouped in three
+ * levels: 1-3 high, 4-7 medium and 8-10 low.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { PriorityLevel, TimefoldModelInput, VisitPriority } from "./types";
+
+/**
+ * Timefold's priority for visits without one
+ */
+export const DEFAULT_PRIORITY: VisitPriority = "6";
+
+/**
+ * The priority levels, most important first, with the Timefold priority
+ * each level is submitted as
+ */
+export const PRIORITY_LEVELS: { level: PriorityLevel; label: string; priority: VisitPriority }[] = [
+  { level: "high", label: "Hög", priority: "1" },
+  { level: "medium", label: "Medium", priority: "6" },
+  { level: "low", label: "Låg", priority: "10" },
+];
+
+const LEVEL_ALIASES: Record<string, PriorityLevel> = {
+  high: "high",
+  "hög": "high",
+  medium: "medium",
+  medel: "medium",
+  low: "low",
+  "låg": "low",
+};
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * The Timefold priority for a number, numeric string or level; undefined
+ * if the value is missing or not a priority
+ */
+export function normalizePriority(value: unknown): VisitPriority | undefined {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 1 && value <= 10 ? (String(value) as VisitPriority) : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const text = value.trim().toLowerCase();
+  if (/^(10|[1-9])$/.test(text)) return text as VisitPriority;
+  const level = LEVEL_ALIASES[text];
+  return level ? PRIORITY_LEVELS.find((entry) => entry.level === level)!.priority : undefined;
+}
+
+/**
+ * The model input with every visit's priority in Timefold's format;
+ * priorities that can't be read are left out so the default applies
+ */
+export function normalizeModelPriorities(modelInput: TimefoldModelInput): TimefoldModelInput {
+  return {
+    ...modelInput,
+    visits: modelInput.visits.map((visit) => {
+      if (visit.priority === undefined) return visit;
+      const { priority, ...rest } = visit;
+      const normalized = normalizePriority(priority);
+      return normalized ? { ...rest, priority: normalized } : rest;
+    }),
+  };
+}
+
+// ============================================================
+// LEVELS
+// ============================================================
+
+/**
+ * Numeric priority, 1 (most important) to 10; the default for missing or
+ * unreadable values
+ */
+export function getPriorityRank(value: unknown): number {
+  return Number(normalizePriority(value) ?? DEFAULT_PRIORITY);
+}
+
+/**
+ * The level a priority falls in
+ */
+export function getPriorityLevel(value: unknown): PriorityLevel {
+  const rank = getPriorityRank(value);
+  return rank <= 3 ? "high" : rank >= 8 ? "low" : "medium";
+}
+
+/**
+ * Swedish label for a priority level
+ */
+export function getPriorityLabel(level: PriorityLevel): string {
+  return PRIORITY_LEVELS.find((entry) => entry.level === level)!.label;
+}
@@ -0,0 +1,107 @@
+/**
+ * Route Plan Store
+ *
+ * Persists every route plan submitted through POST /api/timefold/route-plans
+ * together with its input, solver config and latest result, so earlier
+ * optimizations can be listed and reopened after a reload.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ */
+
+import type {
+  SolverConfig,
+  SolverStatus,
+  StoredRoutePlan,
+  StoredRoutePlanSummary,
+  TimefoldModelInput,
+  TimefoldRoutePlan,
+} from "./types";
+import { listDocuments, readDocument, writeDocument } from "./fileStore";
+import { isSolverComplete } from "./timefoldClient";
+
+const COLLECTION = "route-plans";
+
+/**
+ * Records a newly submitted route plan
+ */
+export async function saveRoutePlanSubmission(submission: {
+  id: string;
+  solverStatus: string;
+  modelInput: TimefoldModelInput;
+  datasetId?: string;
+  configurationId?: string;
+  terminationLimit?: string;
+  solverConfig?: SolverConfig;
+}): Promise<StoredRoutePlan> {
+  const now = new Date().toISOString();
+  const record: StoredRoutePlan = {
+    id: submission.id,
+    datasetId: submission.datasetId,
+    modelInput: submission.modelInput,
+    configurationId: submission.configurationId,
+    terminationLimit: submission.terminationLimit,
+    solverConfig: submission.solverConfig,
+    solverStatus: submission.solverStatus as SolverStatus,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeDocument(COLLECTION, record.id, record);
+  return record;
+}
+
+/**
+ * Updates a stored plan with the latest state fetched from the solver.
+ * Plans that weren't submitted through this server are ignored, and a
+ * completed plan is never overwritten.
+ */
+export async function recordRoutePlanProgress(
+  routePlan: TimefoldRoutePlan
+): Promise<StoredRoutePlan | null> {
+  const record = await readDocument<StoredRoutePlan>(COLLECTION, routePlan.id);
+  if (!record || record.completedAt) return record;
+
+  const now = new Date().toISOString();
+  const updated: StoredRoutePlan = {
+    ...record,
+    solverStatus: routePlan.solverStatus,
+    score: routePlan.score ?? record.score,
+    routePlan: routePlan.routes || !record.routePlan ? routePlan : record.routePlan,
+    updatedAt: now,
+    completedAt: isSolverComplete(routePlan.solverStatus) ? now : undefined,
+  };
+  await writeDocument(COLLECTION, updated.id, updated);
+  return updated;
+}
+
+/**
+ * Returns a stored plan by id, or null if unknown
+ */
+export async function getStoredRoutePlan(id: string): Promise<StoredRoutePlan | null> {
+  return readDocument<StoredRoutePlan>(COLLECTION, id);
+}
+
+/**
+ * Lists stored plans, newest first
+ */
+export async function listStoredRoutePlans(): Promise<StoredRoutePlanSummary[]> {
+  const records = await listDocuments<StoredRoutePlan>(COLLECTION);
+  return records
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function toSummary(record: StoredRoutePlan): StoredRoutePlanSummary {
+  return {
+    id: record.id,
+    datasetId: record.datasetId,
+    solverStatus: record.solverStatus,
+    score: record.score,
+    terminationLimit: record.terminationLimit,
+    vehicleCount: record.modelInput.vehicles?.length ?? 0,
+    visitCount: record.modelInput.visits?.length ?? 0,
+    unassignedVisits: record.routePlan?.unassignedVisits?.length,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+    completedAt: record.completedAt,
+  };
+}
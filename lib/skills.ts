@@ -0,0 +1,90 @@
+/**
+ * Skill Matching
+ *
+ * One place for deciding whether a caregiver can take a visit. Skills come
+ * in two shapes: vehicles list plain names (local format) while shifts carry
+ * `{ name, level }` objects (Timefold format); visits require either names
+ * or `{ name, minLevel }` objects. Everything is normalized to `Skill` and
+ * `SkillRequirement` before matching.
+ *
+ * A skill without a level satisfies any minimum level.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { Shift, Skill, SkillRequirement, Vehicle, Visit } from "./types";
+
+// ============================================================
+// NORMALIZATION
+// ============================================================
+
+/**
+ * A visit's required skills as requirements, whatever their format
+ */
+export function normalizeRequiredSkills(requiredSkills: Visit["requiredSkills"]): SkillRequirement[] {
+  return (requiredSkills ?? []).flatMap((skill): SkillRequirement[] => {
+    const name = (typeof skill === "string" ? skill : skill?.name)?.trim();
+    if (!name) return [];
+    const minLevel = typeof skill === "string" ? undefined : skill.minLevel;
+    return [minLevel !== undefined ? { name, minLevel } : { name }];
+  });
+}
+
+/**
+ * The skills a caregiver has during a shift: the vehicle's own skills plus
+ * the shift's, keeping the highest level per skill
+ */
+export function getShiftSkills(vehicle: Pick<Vehicle, "skills">, shift?: Pick<Shift, "skills">): Skill[] {
+  const levels = new Map<string, number | undefined>();
+  const add = (name: string | undefined, level?: number) => {
+    const trimmed = name?.trim();
+    if (!trimmed) return;
+    const known = levels.has(trimmed) ? levels.get(trimmed) : -Infinity;
+    // No level means any level, so it always wins
+    levels.set(trimmed, known === undefined || level === undefined ? undefined : Math.max(known, level));
+  };
+  (vehicle.skills ?? []).forEach((name) => add(name));
+  (shift?.skills ?? []).forEach((skill) => add(skill.name, skill.level));
+
+  return Array.from(levels.entries()).map(([name, level]) =>
+    level !== undefined ? { name, level } : { name }
+  );
+}
+
+/**
+ * Names of every skill a vehicle has in any of its shifts
+ */
+export function getVehicleSkillNames(vehicle: Vehicle): string[] {
+  const skills = [getShiftSkills(vehicle), ...vehicle.shifts.map((shift) => getShiftSkills(vehicle, shift))];
+  return Array.from(new Set(skills.flat().map((skill) => skill.name)));
+}
+
+// ============================================================
+// MATCHING
+// ============================================================
+
+/**
+ * Requirements the skills don't meet (missing, or below the minimum level)
+ */
+export function findMissingSkills(skills: Skill[], requirements: SkillRequirement[]): SkillRequirement[] {
+  return requirements.filter((requirement) =>
+    !skills.some((skill) =>
+      skill.name === requirement.name &&
+      (skill.level === undefined || skill.level >= (requirement.minLevel ?? 0))
+    )
+  );
+}
+
+/**
+ * Whether the skills meet every requirement
+ */
+export function hasRequiredSkills(skills: Skill[], requirements: SkillRequirement[]): boolean {
+  return findMissingSkills(skills, requirements).length === 0;
+}
+
+/**
+ * A requirement as text, e.g. "hvac" or "hvac ≥ 2"
+ */
+export function describeSkillRequirement(requirement: SkillRequirement): string {
+  return requirement.minLevel ? `${requirement.name} ≥ ${requirement.minLevel}` : requirement.name;
+}
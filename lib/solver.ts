@@ -0,0 +1,676 @@
+/**
+ * Local Heuristic Solver
+ *
+ * A small stand-in for the Timefold solver that runs entirely in the browser
+ * (or on the server for the mock API). Used by "Simulate Locally" for datasets
+ * that can't be sent to Timefold, such as the Stockholm local-demo.
+ *
+ * Algorithm:
+ * 1. Construction - parallel nearest neighbour: repeatedly append the visit
+ *    that can be started the soonest at the end of any shift route
+ * 2. Repair - cheapest feasible insertion for visits left over, most
+ *    important first; a visit that still doesn't fit takes the place of a
+ *    less important one (lowest priority dropped first)
+ * 3. Local search - relocate, swap and 2-opt moves until no move improves
+ *    the score or the time/iteration budget runs out
+ * The time budget covers all three steps: when it runs out during
+ * construction or repair, the visits not yet placed stay unassigned, and
+ * a plan cut short by it is reported as SOLVING_INCOMPLETE.
+ *
+ * Hard constraints: time windows, required skills (with minimum levels, see
+ * lib/skills.ts), shift bounds and required breaks. A break is taken while
+ * waiting for a visit when it fits, otherwise before the first visit that
+ * would push it past its latest start.
+ * Pinned visits (pinningRequested + listed in a shift itinerary) stay on
+ * their shift even without the required skills, and may start late only
+ * when the delay comes from the shift start or another pin; pins outside
+ * the shift bounds are dropped to unassigned.
+ * Score: unassigned visits first (low-priority ones are dropped before
+ * others, see lib/priority.ts), then travel plus waiting time - the paid
+ * time beyond service that the KPIs and cost model count.
+ */
+
+import type {
+  PlannedBreak,
+  PlannedVisit,
+  Shift,
+  Skill,
+  SkillRequirement,
+  TimefoldModelInput,
+  TimefoldRoutePlan,
+  ValidationFinding,
+  VehicleRoute,
+} from "./types";
+import { parseDurationToMinutes, resolveRequiredBreaks } from "./mapping";
+import { getPriorityRank } from "./priority";
+import { findMissingSkills, getShiftSkills, normalizeRequiredSkills } from "./skills";
+import { getTravelMatrix, type TravelMatrix } from "./travel";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * Tuning knobs for the local solver
+ */
+export interface LocalSolverOptions {
+  /** Wall-clock budget for the whole solve (default 2000 ms) */
+  timeLimitMs?: number;
+  /** Maximum number of improving moves to apply (default unlimited) */
+  maxIterations?: number;
+}
+
+interface SolverVisit {
+  id: string;
+  name: string;
+  /** Travel matrix index, -1 if the visit has no coordinates */
+  locationIndex: number;
+  serviceMs: number;
+  windows: Array<{ start: number; latestStart: number; end: number }>;
+  requiredSkills: SkillRequirement[];
+  /** 1 (most important) to 10 */
+  priority: number;
+}
+
+interface SolverShift {
+  vehicleId: string;
+  shiftId: string;
+  start: number;
+  end: number;
+  startIndex: number;
+  endIndex: number;
+  skills: Skill[];
+  pinnedVisitIds: string[];
+  breaks: SolverBreak[];
+}
+
+interface SolverBreak {
+  id: string;
+  earliestStart: number;
+  latestStart: number;
+  durationMs: number;
+  /** Travel matrix index, -1 to take the break where the caregiver is */
+  locationIndex: number;
+}
+
+interface RouteEvaluation {
+  feasible: boolean;
+  travelMs: number;
+  /** Idle time between arrival and service start, breaks left out */
+  waitMs: number;
+  distanceMeters: number;
+  stops: Array<{
+    arrival: number;
+    start: number;
+    departure: number;
+    travelMs: number;
+    distanceMeters: number;
+  }>;
+  breaks: Array<{
+    id: string;
+    start: number;
+    end: number;
+    travelMs: number;
+    distanceMeters: number;
+  }>;
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Solves the model input locally and returns a Timefold-shaped route plan
+ * with per-visit arrival times and travel.
+ */
+export function solveLocally(
+  modelInput: TimefoldModelInput,
+  options: LocalSolverOptions = {}
+): TimefoldRoutePlan {
+  const { timeLimitMs = 2000, maxIterations = Infinity } = options;
+  const deadline = Date.now() + timeLimitMs;
+  // Set when the deadline stops a step that still had work to do
+  let timedOut = false;
+  const timeLeft = () => {
+    if (Date.now() < deadline) return true;
+    timedOut = true;
+    return false;
+  };
+  const matrix = getTravelMatrix(modelInput);
+
+  const visits = modelInput.visits.map((visit) => toSolverVisit(visit, matrix));
+  const findings: ValidationFinding[] = [];
+  const pinned = new Set<number>();
+  const infeasiblePins = new Set<number>();
+  const shifts = modelInput.vehicles.flatMap((vehicle) =>
+    vehicle.shifts.flatMap((shift): SolverShift[] => {
+      const start = new Date(shift.minStartTime || shift.startTime || "").getTime();
+      const end = new Date(shift.maxEndTime || shift.endTime || "").getTime();
+      if (isNaN(start) || isNaN(end) || end <= start) return [];
+      const startIndex = matrix.indexOf(shift.startLocation);
+      return [{
+        vehicleId: vehicle.id,
+        shiftId: shift.id,
+        start,
+        end,
+        startIndex,
+        endIndex: shift.endLocation ? matrix.indexOf(shift.endLocation) : startIndex,
+        skills: getShiftSkills(vehicle, shift),
+        pinnedVisitIds: (shift.itinerary ?? [])
+          .filter((item) => item.kind === "VISIT")
+          .map((item) => item.id),
+        breaks: toSolverBreaks(vehicle.id, shift, start, end, matrix, findings),
+      }];
+    })
+  );
+
+  const travel = (from: number, to: number) => {
+    if (from < 0 || to < 0) return { ms: 0, meters: 0 };
+    return {
+      ms: matrix.durationSeconds[from][to] * 1000,
+      meters: matrix.distanceMeters[from][to],
+    };
+  };
+
+  const evaluate = (shift: SolverShift, route: number[]): RouteEvaluation => {
+    let time = shift.start;
+    let position = shift.startIndex;
+    let travelMs = 0;
+    let waitMs = 0;
+    let distanceMeters = 0;
+    const stops: RouteEvaluation["stops"] = [];
+    const breaks: RouteEvaluation["breaks"] = [];
+    let nextBreak = 0;
+    let previousPinned = true;
+    const infeasible = () => ({ feasible: false, travelMs, waitMs, distanceMeters, stops, breaks });
+
+    // Takes the next break now, travelling to its location first if it has one
+    const takeBreak = (): boolean => {
+      const pending = shift.breaks[nextBreak++];
+      const leg = travel(position, pending.locationIndex);
+      const start = Math.max(time + leg.ms, pending.earliestStart);
+      if (start > pending.latestStart) return false;
+      breaks.push({ id: pending.id, start, end: start + pending.durationMs, travelMs: leg.ms, distanceMeters: leg.meters });
+      travelMs += leg.ms;
+      distanceMeters += leg.meters;
+      time = start + pending.durationMs;
+      position = pending.locationIndex >= 0 ? pending.locationIndex : position;
+      return true;
+    };
+
+    for (const index of route) {
+      const visit = visits[index];
+      let leg = travel(position, visit.locationIndex);
+      let arrival = time + leg.ms;
+      // A pin the dispatcher made unreachable is served as close to the pin as possible
+      const serviceStart = () => earliestServiceStart(visit, arrival) ??
+        (pinned.has(index) && previousPinned ? Math.max(arrival, visit.windows[0].start) : null);
+      let start = serviceStart();
+      let breakEnd = arrival;
+      let breakInWaitMs = 0;
+
+      while (nextBreak < shift.breaks.length) {
+        const pending = shift.breaks[nextBreak];
+        // Take the break while waiting for the visit to start when it fits
+        const waitStart = Math.max(breakEnd, pending.earliestStart);
+        if (start !== null && pending.locationIndex < 0 && waitStart <= pending.latestStart &&
+            waitStart + pending.durationMs <= start) {
+          breaks.push({ id: pending.id, start: waitStart, end: waitStart + pending.durationMs, travelMs: 0, distanceMeters: 0 });
+          breakEnd = waitStart + pending.durationMs;
+          breakInWaitMs += pending.durationMs;
+          nextBreak++;
+          continue;
+        }
+        // Otherwise take it first if it can't wait until after the visit
+        const afterVisit = start === null
+          ? Infinity
+          : start + visit.serviceMs + travel(visit.locationIndex >= 0 ? visit.locationIndex : position, pending.locationIndex).ms;
+        if (afterVisit <= pending.latestStart) break;
+        // Or take it in the wait and start the visit after it, if a window allows
+        if (start !== null && pending.locationIndex < 0 && waitStart <= pending.latestStart) {
+          const later = earliestServiceStart(visit, waitStart + pending.durationMs);
+          if (later !== null) {
+            breaks.push({ id: pending.id, start: waitStart, end: waitStart + pending.durationMs, travelMs: 0, distanceMeters: 0 });
+            breakEnd = waitStart + pending.durationMs;
+            breakInWaitMs += pending.durationMs;
+            start = later;
+            nextBreak++;
+            continue;
+          }
+        }
+        // A break already placed in this wait can't be moved before the travel
+        if (breakEnd > arrival || !takeBreak()) return infeasible();
+        leg = travel(position, visit.locationIndex);
+        arrival = time + leg.ms;
+        start = serviceStart();
+        breakEnd = arrival;
+      }
+
+      if (start === null) return infeasible();
+      const departure = start + visit.serviceMs;
+      if (departure > shift.end) return infeasible();
+
+      stops.push({ arrival, start, departure, travelMs: leg.ms, distanceMeters: leg.meters });
+      travelMs += leg.ms;
+      waitMs += start - arrival - breakInWaitMs;
+      distanceMeters += leg.meters;
+      time = departure;
+      position = visit.locationIndex >= 0 ? visit.locationIndex : position;
+      previousPinned = pinned.has(index);
+    }
+
+    // Breaks still due after the last visit
+    while (nextBreak < shift.breaks.length) {
+      if (!takeBreak()) return infeasible();
+    }
+
+    const homeLeg = travel(position, shift.endIndex);
+    const feasible = time + homeLeg.ms <= shift.end;
+    return { feasible, travelMs: travelMs + homeLeg.ms, waitMs, distanceMeters: distanceMeters + homeLeg.meters, stops, breaks };
+  };
+
+  // Soft cost of a route: paid time spent travelling or waiting
+  const costOf = (evaluation: RouteEvaluation) => evaluation.travelMs + evaluation.waitMs;
+
+  const qualified = (shift: SolverShift, visit: SolverVisit) =>
+    findMissingSkills(shift.skills, visit.requiredSkills).length === 0;
+
+  // --- 0. Pinned visits seed their shift's route ---
+  const routes: number[][] = shifts.map(() => []);
+  const unassigned = new Set(visits.map((_, index) => index));
+  const visitIndexById = new Map(visits.map((visit, index) => [visit.id, index]));
+
+  shifts.forEach((shift, routeIndex) => {
+    shift.pinnedVisitIds.forEach((visitId) => {
+      const visitIndex = visitIndexById.get(visitId);
+      if (visitIndex === undefined || pinned.has(visitIndex)) return;
+      if (!modelInput.visits[visitIndex].pinningRequested) return;
+      pinned.add(visitIndex);
+      unassigned.delete(visitIndex);
+      if (evaluate(shift, [...routes[routeIndex], visitIndex]).feasible) {
+        routes[routeIndex].push(visitIndex);
+      } else {
+        infeasiblePins.add(visitIndex);
+        findings.push({
+          severity: "warning",
+          code: "INFEASIBLE_PIN",
+          entityType: "visit",
+          entityId: visitId,
+          vehicleId: shift.vehicleId,
+          message: `Pinned visit "${visitId}" can't be kept on shift "${shift.shiftId}" of "${shift.vehicleId}" and was left unassigned.`,
+        });
+      }
+    });
+  });
+
+  // --- 1. Construction: parallel nearest neighbour ---
+  let appended = true;
+  while (appended && unassigned.size > 0 && timeLeft()) {
+    appended = false;
+    let best: { routeIndex: number; visitIndex: number; start: number } | null = null;
+
+    for (let routeIndex = 0; routeIndex < shifts.length; routeIndex++) {
+      for (const visitIndex of Array.from(unassigned)) {
+        if (!qualified(shifts[routeIndex], visits[visitIndex])) continue;
+        const evaluation = evaluate(shifts[routeIndex], [...routes[routeIndex], visitIndex]);
+        if (!evaluation.feasible) continue;
+        const start = evaluation.stops[evaluation.stops.length - 1].start;
+        if (!best || start < best.start) {
+          best = { routeIndex, visitIndex, start };
+        }
+      }
+    }
+
+    if (best) {
+      routes[best.routeIndex].push(best.visitIndex);
+      unassigned.delete(best.visitIndex);
+      appended = true;
+    }
+  }
+
+  // --- 2. Repair: cheapest insertion for the leftovers ---
+  const routeCost = routes.map((route, index) => costOf(evaluate(shifts[index], route)));
+
+  const tryInsert = (visitIndex: number): boolean => {
+    let best: { routeIndex: number; position: number; delta: number } | null = null;
+    for (let routeIndex = 0; routeIndex < shifts.length; routeIndex++) {
+      if (!qualified(shifts[routeIndex], visits[visitIndex])) continue;
+      for (let position = 0; position <= routes[routeIndex].length; position++) {
+        const candidate = [...routes[routeIndex]];
+        candidate.splice(position, 0, visitIndex);
+        const evaluation = evaluate(shifts[routeIndex], candidate);
+        if (!evaluation.feasible) continue;
+        const delta = costOf(evaluation) - routeCost[routeIndex];
+        if (!best || delta < best.delta) {
+          best = { routeIndex, position, delta };
+        }
+      }
+    }
+    if (!best) return false;
+    routes[best.routeIndex].splice(best.position, 0, visitIndex);
+    routeCost[best.routeIndex] += best.delta;
+    return true;
+  };
+
+  const byPriority = (visitIndexes: Iterable<number>) =>
+    Array.from(visitIndexes).sort((a, b) => visits[a].priority - visits[b].priority);
+
+  byPriority(unassigned).forEach((visitIndex) => {
+    if (timeLeft() && tryInsert(visitIndex)) unassigned.delete(visitIndex);
+  });
+
+  // A visit that doesn't fit replaces a less important one: the least
+  // important visit whose removal makes room, then the cheapest position.
+  // Returns the dropped visit, or null if none could make room.
+  const tryReplace = (visitIndex: number): number | null => {
+    let best: { routeIndex: number; route: number[]; dropped: number; cost: number } | null = null;
+    for (let routeIndex = 0; routeIndex < shifts.length; routeIndex++) {
+      if (!qualified(shifts[routeIndex], visits[visitIndex])) continue;
+      routes[routeIndex].forEach((dropped, i) => {
+        if (pinned.has(dropped) || visits[dropped].priority <= visits[visitIndex].priority) return;
+        if (best && visits[dropped].priority < visits[best.dropped].priority) return;
+        const remaining = routes[routeIndex].filter((_, k) => k !== i);
+        for (let position = 0; position <= remaining.length; position++) {
+          const candidate = [...remaining];
+          candidate.splice(position, 0, visitIndex);
+          const evaluation = evaluate(shifts[routeIndex], candidate);
+          if (!evaluation.feasible) continue;
+          const delta = costOf(evaluation) - routeCost[routeIndex];
+          const better = !best ||
+            visits[dropped].priority > visits[best.dropped].priority ||
+            delta < best.cost - routeCost[best.routeIndex];
+          if (better) {
+            best = { routeIndex, route: candidate, dropped, cost: costOf(evaluation) };
+          }
+        }
+      });
+    }
+    if (!best) return null;
+    const { routeIndex, route, dropped, cost } = best;
+    routes[routeIndex] = route;
+    routeCost[routeIndex] = cost;
+    return dropped;
+  };
+
+  byPriority(unassigned).forEach((visitIndex) => {
+    if (!timeLeft()) return;
+    const dropped = tryReplace(visitIndex);
+    if (dropped === null) return;
+    unassigned.delete(visitIndex);
+    if (!tryInsert(dropped)) unassigned.add(dropped);
+  });
+
+  // --- 3. Local search ---
+  let iterations = 0;
+
+  // Where each pinned visit starts now; no move may serve it later
+  const pinStarts = new Map<number, number>();
+  routes.forEach((route, routeIndex) => {
+    const { stops } = evaluate(shifts[routeIndex], route);
+    route.forEach((visitIndex, position) => {
+      if (pinned.has(visitIndex)) pinStarts.set(visitIndex, stops[position].start);
+    });
+  });
+  const keepsPins = (candidate: number[], evaluation: RouteEvaluation) =>
+    candidate.every((visitIndex, position) =>
+      !pinned.has(visitIndex) || evaluation.stops[position].start <= (pinStarts.get(visitIndex) ?? Infinity)
+    );
+
+  const accept = (routeIndexes: number[], candidates: number[][]): boolean => {
+    const evaluations = routeIndexes.map((routeIndex, i) => evaluate(shifts[routeIndex], candidates[i]));
+    if (evaluations.some((evaluation, i) => !evaluation.feasible || !keepsPins(candidates[i], evaluation))) return false;
+    const before = routeIndexes.reduce((sum, routeIndex) => sum + routeCost[routeIndex], 0);
+    const after = evaluations.reduce((sum, evaluation) => sum + costOf(evaluation), 0);
+    // Require a meaningful gain (1 second) to avoid cycling on float noise
+    if (after >= before - 1000) return false;
+    routeIndexes.forEach((routeIndex, i) => {
+      routes[routeIndex] = candidates[i];
+      routeCost[routeIndex] = costOf(evaluations[i]);
+      candidates[i].forEach((visitIndex, position) => {
+        if (pinned.has(visitIndex)) pinStarts.set(visitIndex, evaluations[i].stops[position].start);
+      });
+    });
+    iterations++;
+    return true;
+  };
+
+  const budgetLeft = () => timeLeft() && iterations < maxIterations;
+
+  let improved = true;
+  while (improved && budgetLeft()) {
+    improved = false;
+
+    // Retry unassigned visits now that routes have changed
+    byPriority(unassigned).forEach((visitIndex) => {
+      if (timeLeft() && tryInsert(visitIndex)) {
+        unassigned.delete(visitIndex);
+        improved = true;
+      }
+    });
+
+    for (let from = 0; from < routes.length && budgetLeft(); from++) {
+      // 2-opt within a route, never reversing a pinned visit out of its place
+      for (let i = 0; i < routes[from].length - 1 && budgetLeft(); i++) {
+        for (let j = i + 1; j < routes[from].length; j++) {
+          if (routes[from].slice(i, j + 1).some((visitIndex) => pinned.has(visitIndex))) continue;
+          const candidate = [
+            ...routes[from].slice(0, i),
+            ...routes[from].slice(i, j + 1).reverse(),
+            ...routes[from].slice(j + 1),
+          ];
+          if (accept([from], [candidate])) improved = true;
+        }
+      }
+
+      for (let to = 0; to < routes.length && budgetLeft(); to++) {
+        // Relocate a visit from one route to any position in another (or the same) route
+        for (let i = 0; i < routes[from].length; i++) {
+          const visitIndex = routes[from][i];
+          if (pinned.has(visitIndex) || !qualified(shifts[to], visits[visitIndex])) continue;
+          for (let position = 0; position <= routes[to].length - (from === to ? 1 : 0); position++) {
+            if (from === to && position === i) continue;
+            const source = routes[from].filter((_, k) => k !== i);
+            const target = from === to ? [...source] : [...routes[to]];
+            target.splice(position, 0, visitIndex);
+            const moved = from === to ? accept([from], [target]) : accept([from, to], [source, target]);
+            if (moved) {
+              improved = true;
+              break;
+            }
+          }
+        }
+
+        // Swap two visits between routes
+        if (to <= from) continue;
+        for (let i = 0; i < routes[from].length; i++) {
+          for (let j = 0; j < routes[to].length; j++) {
+            const a = routes[from][i];
+            const b = routes[to][j];
+            if (pinned.has(a) || pinned.has(b)) continue;
+            if (!qualified(shifts[to], visits[a]) || !qualified(shifts[from], visits[b])) continue;
+            const source = [...routes[from]];
+            const target = [...routes[to]];
+            source[i] = b;
+            target[j] = a;
+            if (accept([from, to], [source, target])) improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  infeasiblePins.forEach((visitIndex) => unassigned.add(visitIndex));
+  return {
+    ...buildRoutePlan(modelInput, shifts, routes, visits, unassigned, evaluate),
+    ...(timedOut ? { solverStatus: "SOLVING_INCOMPLETE" as const } : {}),
+    findings,
+  };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function toSolverVisit(
+  visit: TimefoldModelInput["visits"][number],
+  matrix: TravelMatrix
+): SolverVisit {
+  const windows = (visit.timeWindows ?? [])
+    .map((window) => ({
+      start: new Date(window.minStartTime || window.startTime || "").getTime(),
+      latestStart: new Date(window.maxStartTime || "").getTime(),
+      end: new Date(window.maxEndTime || window.endTime || "").getTime(),
+    }))
+    .map((window) => ({
+      start: isNaN(window.start) ? -Infinity : window.start,
+      latestStart: isNaN(window.latestStart) ? Infinity : window.latestStart,
+      end: isNaN(window.end) ? Infinity : window.end,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    id: visit.id,
+    name: visit.name,
+    locationIndex: matrix.indexOf(visit.location),
+    serviceMs: (parseDurationToMinutes(visit.serviceDuration) || 30) * 60000,
+    windows: windows.length > 0 ? windows : [{ start: -Infinity, latestStart: Infinity, end: Infinity }],
+    requiredSkills: normalizeRequiredSkills(visit.requiredSkills),
+    priority: getPriorityRank(visit.priority),
+  };
+}
+
+/**
+ * A shift's required breaks, limited to the shift; breaks that can't be
+ * taken within it are dropped (and reported in findings) so the rest of
+ * the shift stays usable
+ */
+function toSolverBreaks(
+  vehicleId: string,
+  shift: Shift,
+  shiftStart: number,
+  shiftEnd: number,
+  matrix: TravelMatrix,
+  findings: ValidationFinding[]
+): SolverBreak[] {
+  return resolveRequiredBreaks(shift).flatMap((requiredBreak) => {
+    const earliestStart = Math.max(requiredBreak.earliestStart, shiftStart);
+    const latestStart = Math.min(requiredBreak.latestStart, shiftEnd - requiredBreak.durationMs);
+    if (earliestStart > latestStart) {
+      findings.push({
+        severity: "warning",
+        code: "INVALID_BREAK",
+        entityType: "shift",
+        entityId: shift.id,
+        vehicleId,
+        message: `Shift "${shift.id}" break "${requiredBreak.id}" doesn't fit in the shift and was skipped.`,
+      });
+      return [];
+    }
+    return [{
+      id: requiredBreak.id,
+      earliestStart,
+      latestStart,
+      durationMs: requiredBreak.durationMs,
+      locationIndex: requiredBreak.location ? matrix.indexOf(requiredBreak.location) : -1,
+    }];
+  });
+}
+
+/**
+ * Earliest service start at or after arrival that fits a time window,
+ * or null if the visit can't be served from this arrival time
+ */
+function earliestServiceStart(visit: SolverVisit, arrival: number): number | null {
+  for (const window of visit.windows) {
+    const start = Math.max(arrival, window.start);
+    if (start <= window.latestStart && start + visit.serviceMs <= window.end) return start;
+  }
+  return null;
+}
+
+/**
+ * Formats milliseconds as an ISO 8601 duration (e.g., "PT1H5M30S")
+ */
+export function formatMsToIsoDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (totalSeconds === 0) return "PT0S";
+  return `PT${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}${seconds ? `${seconds}S` : ""}`;
+}
+
+function buildRoutePlan(
+  modelInput: TimefoldModelInput,
+  shifts: SolverShift[],
+  routes: number[][],
+  visits: SolverVisit[],
+  unassigned: Set<number>,
+  evaluate: (shift: SolverShift, route: number[]) => RouteEvaluation
+): TimefoldRoutePlan {
+  let totalTravelMs = 0;
+  let totalWaitMs = 0;
+  let totalDistance = 0;
+
+  const vehicleRoutes: VehicleRoute[] = shifts.map((shift, routeIndex) => {
+    const evaluation = evaluate(shift, routes[routeIndex]);
+    totalTravelMs += evaluation.travelMs;
+    totalWaitMs += evaluation.waitMs;
+    totalDistance += evaluation.distanceMeters;
+
+    const plannedVisits: PlannedVisit[] = routes[routeIndex].map((visitIndex, position) => {
+      const stop = evaluation.stops[position];
+      return {
+        id: visits[visitIndex].id,
+        visitId: visits[visitIndex].id,
+        vehicleId: shift.vehicleId,
+        arrivalTime: new Date(stop.arrival).toISOString(),
+        startServiceTime: new Date(stop.start).toISOString(),
+        departureTime: new Date(stop.departure).toISOString(),
+        travelTimeFromPrevious: formatMsToIsoDuration(stop.travelMs),
+        travelDistanceFromPrevious: Math.round(stop.distanceMeters),
+      };
+    });
+
+    const plannedBreaks: PlannedBreak[] = evaluation.breaks.map((plannedBreak) => ({
+      id: plannedBreak.id,
+      startTime: new Date(plannedBreak.start).toISOString(),
+      endTime: new Date(plannedBreak.end).toISOString(),
+      travelTimeFromPrevious: formatMsToIsoDuration(plannedBreak.travelMs),
+      travelDistanceFromPrevious: Math.round(plannedBreak.distanceMeters),
+    }));
+
+    return {
+      vehicleId: shift.vehicleId,
+      shiftId: shift.shiftId,
+      visits: plannedVisits,
+      breaks: plannedBreaks,
+      totalTravelTime: formatMsToIsoDuration(evaluation.travelMs),
+      totalTravelDistance: Math.round(evaluation.distanceMeters),
+      totalServiceTime: formatMsToIsoDuration(
+        routes[routeIndex].reduce((sum, visitIndex) => sum + visits[visitIndex].serviceMs, 0)
+      ),
+    };
+  });
+
+  const unassignedVisits = Array.from(unassigned).map((visitIndex) => ({
+    id: visits[visitIndex].id,
+    name: visits[visitIndex].name,
+  }));
+  const idleSeconds = Math.round((totalTravelMs + totalWaitMs) / 1000);
+
+  return {
+    id: `local-${Date.now()}`,
+    solverStatus: "SOLVING_COMPLETED",
+    score: `0hard/${-unassignedVisits.length}medium/${-idleSeconds}soft`,
+    routes: vehicleRoutes,
+    unassignedVisits,
+    modelInput,
+    kpis: {
+      totalTravelTime: formatMsToIsoDuration(totalTravelMs),
+      totalTravelDistanceMeters: Math.round(totalDistance),
+      totalAssignedVisits: visits.length - unassignedVisits.length,
+      totalUnassignedVisits: unassignedVisits.length,
+    },
+  };
+}
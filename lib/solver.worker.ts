@@ -0,0 +1,33 @@
+/**
+ * Local Solver Worker
+ *
+ * Runs the local heuristic solver (lib/solver.ts) in a Web Worker, so the
+ * page stays responsive and can be cancelled while it solves. Posts back
+ * the route plan, or the error message if solving failed.
+ *
+ * Start with `new Worker(new URL("@/lib/solver.worker.ts", import.meta.url))`
+ * and terminate the worker to cancel a solve.
+ */
+
+import type { TimefoldModelInput, TimefoldRoutePlan } from "./types";
+import { solveLocally, type LocalSolverOptions } from "./solver";
+
+export interface SolverWorkerRequest {
+  modelInput: TimefoldModelInput;
+  options?: LocalSolverOptions;
+}
+
+export type SolverWorkerResponse =
+  | { plan: TimefoldRoutePlan }
+  | { error: string };
+
+self.onmessage = (message: MessageEvent<SolverWorkerRequest>) => {
+  const { modelInput, options } = message.data;
+  let response: SolverWorkerResponse;
+  try {
+    response = { plan: solveLocally(modelInput, options) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : "Failed to solve locally" };
+  }
+  self.postMessage(response);
+};
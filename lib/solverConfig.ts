@@ -0,0 +1,116 @@
+/**
+ * Solver Configuration
+ *
+ * Settings sent with a route plan submission beyond the model input:
+ * - configurationId: the Timefold map configuration (TIMEFOLD_CONFIG_ID if unset)
+ * - termination: spent limit and unimproved spent limit
+ * - constraint weights: Timefold model overrides, by name
+ * - model options: merged into `modelInput.options`
+ *
+ * The three optimization speeds are built-in configurations that only set
+ * the spent limit; anything else is saved as a named profile.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { ModelOptions, SolverConfig, TimefoldModelInput } from "./types";
+
+/**
+ * Constraint weights offered in the editor (Timefold model override names)
+ */
+export const CONSTRAINT_WEIGHTS: { key: string; label: string }[] = [
+  { key: "minimizeTravelTimeWeight", label: "Minimera restid" },
+  { key: "minimizeTravelDistanceWeight", label: "Minimera körsträcka" },
+  { key: "balanceTimeUtilizationWeight", label: "Jämn arbetsbelastning" },
+  { key: "minimizeUnassignedVisitsWeight", label: "Tilldela alla besök" },
+];
+
+export const DEFAULT_SOLVER_CONFIG: SolverConfig = {
+  termination: { spentLimit: "PT2M" },
+  constraintWeights: {},
+  modelOptions: {},
+};
+
+const ISO_DURATION = /^PT(?=\d)(\d+H)?(\d+M)?(\d+S)?$/;
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/**
+ * Configuration that only limits the solving time (the optimization speeds)
+ */
+export function solverConfigForLimit(spentLimit: string | undefined): SolverConfig {
+  return { ...DEFAULT_SOLVER_CONFIG, termination: spentLimit ? { spentLimit } : {} };
+}
+
+/**
+ * A complete solver configuration from user input: missing parts are left
+ * unset; throws if a duration, weight or option is invalid
+ */
+export function normalizeSolverConfig(value: unknown): SolverConfig {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Solver config must be an object");
+  }
+  const input = value as Record<string, unknown>;
+  const termination = asObject(input.termination, "termination");
+  const weights = asObject(input.constraintWeights, "constraintWeights");
+  const options = asObject(input.modelOptions, "modelOptions");
+
+  const config: SolverConfig = { termination: {}, constraintWeights: {}, modelOptions: {} };
+  if (typeof input.configurationId === "string" && input.configurationId.trim()) {
+    config.configurationId = input.configurationId.trim();
+  }
+
+  (["spentLimit", "unimprovedSpentLimit"] as const).forEach((field) => {
+    const limit = toDuration(termination[field], `termination.${field}`);
+    if (limit) config.termination[field] = limit;
+  });
+
+  Object.entries(weights).forEach(([key, weight]) => {
+    if (typeof weight !== "number" || !isFinite(weight) || weight < 0) {
+      throw new Error(`constraintWeights.${key} must be a non-negative number`);
+    }
+    config.constraintWeights[key] = weight;
+  });
+
+  const maxDrivingTime = toDuration(options.maxDrivingTimePerShift, "modelOptions.maxDrivingTimePerShift");
+  if (maxDrivingTime) config.modelOptions.maxDrivingTimePerShift = maxDrivingTime;
+  if (options.balanceWorkload !== undefined) {
+    if (typeof options.balanceWorkload !== "boolean") {
+      throw new Error("modelOptions.balanceWorkload must be true or false");
+    }
+    config.modelOptions.balanceWorkload = options.balanceWorkload;
+  }
+
+  return config;
+}
+
+function asObject(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${field} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function toDuration(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value !== "string" || !ISO_DURATION.test(value)) {
+    throw new Error(`${field} must be an ISO duration such as PT5M`);
+  }
+  return value;
+}
+
+// ============================================================
+// SUBMISSION
+// ============================================================
+
+/**
+ * The model input with the configuration's model options merged into its
+ * own `options` (the configuration wins)
+ */
+export function applyModelOptions(modelInput: TimefoldModelInput, modelOptions: ModelOptions): TimefoldModelInput {
+  const options = { ...modelInput.options, ...modelOptions };
+  return Object.keys(options).length > 0 ? { ...modelInput, options } : modelInput;
+}
@@ -0,0 +1,60 @@
+/**
+ * Solver Profile Store
+ *
+ * Persists named solver configurations saved from the settings panel, so
+ * they can be picked next to the built-in optimization speeds.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ */
+
+import type { SolverConfig, SolverProfile } from "./types";
+import { deleteDocument, listDocuments, readDocument, writeDocument } from "./fileStore";
+
+const COLLECTION = "solver-profiles";
+
+/**
+ * Lists saved profiles by name
+ */
+export async function listSolverProfiles(): Promise<SolverProfile[]> {
+  const records = await listDocuments<SolverProfile>(COLLECTION);
+  return records.sort((a, b) => a.name.localeCompare(b.name, "sv"));
+}
+
+/**
+ * Stores a new profile under a new id
+ */
+export async function createSolverProfile(name: string, config: SolverConfig): Promise<SolverProfile> {
+  const now = new Date().toISOString();
+  const record: SolverProfile = {
+    id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    config,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeDocument(COLLECTION, record.id, record);
+  return record;
+}
+
+/**
+ * Replaces a profile's name and configuration; null if it doesn't exist
+ */
+export async function updateSolverProfile(
+  id: string,
+  name: string,
+  config: SolverConfig
+): Promise<SolverProfile | null> {
+  const record = await readDocument<SolverProfile>(COLLECTION, id);
+  if (!record) return null;
+
+  const updated: SolverProfile = { ...record, name, config, updatedAt: new Date().toISOString() };
+  await writeDocument(COLLECTION, id, updated);
+  return updated;
+}
+
+/**
+ * Removes a profile; false if it didn't exist
+ */
+export async function deleteSolverProfile(id: string): Promise<boolean> {
+  return deleteDocument(COLLECTION, id);
+}
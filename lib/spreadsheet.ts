@@ -0,0 +1,285 @@
+/**
+ * Spreadsheet Parsing
+ *
+ * Reads the first sheet of a CSV or XLSX file into a header row and data
+ * rows of plain strings. XLSX files are zip archives of XML parts, read
+ * here with Node's zlib so no spreadsheet dependency is needed.
+ *
+ * This module runs ONLY on the server side - never import in client components.
+ *
+ * LIMITATIONS:
+ * - Only the first worksheet of an XLSX workbook is read
+ * - Cell formatting is ignored: dates and times arrive as Excel serial
+ *   numbers (see excelSerialToDate in datasetImport.ts)
+ */
+
+import { inflateRawSync } from "zlib";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/**
+ * A data row with its row number in the original file (1-based, header
+ * included), so errors can point at the line the user sees
+ */
+export interface SpreadsheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * A parsed sheet: the first non-empty row is the header
+ */
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Parses a CSV or XLSX file, chosen by file extension
+ */
+export function parseSpreadsheet(content: Buffer, fileName: string): SpreadsheetTable {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "xlsx") {
+    return toTable(parseXlsx(content));
+  }
+  if (extension === "csv" || extension === "txt") {
+    return toTable(parseCsv(content.toString("utf-8")));
+  }
+  throw new Error(`Unsupported file type ".${extension}". Use CSV or XLSX.`);
+}
+
+/**
+ * Parses CSV text (RFC 4180 quoting). The delimiter is detected from the
+ * header line, so semicolon files exported by Swedish Excel work too.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [";", "\t", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ",");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// ============================================================
+// XLSX
+// ============================================================
+
+/**
+ * Reads the first worksheet of an XLSX workbook into rows of cell text
+ */
+function parseXlsx(content: Buffer): string[][] {
+  const files = readZip(content);
+  const readText = (name: string) => files.get(name)?.toString("utf-8");
+
+  const sharedStrings = Array.from(
+    (readText("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)
+  ).map((match) => joinTextRuns(match[1]));
+
+  const sheetXml = readText(findFirstSheetPath(readText)) ?? readText("xl/worksheets/sheet1.xml");
+  if (!sheetXml) {
+    throw new Error("The workbook has no worksheets.");
+  }
+
+  const rows: string[][] = [];
+  for (const rowMatch of Array.from(sheetXml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    // Keep row positions so row numbers match Excel's, even across blank rows
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? "", 10);
+    while (!isNaN(rowNumber) && rows.length < rowNumber - 1) rows.push([]);
+
+    const row: string[] = [];
+    for (const cellMatch of Array.from((rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? "";
+      } else if (type === "inlineStr") {
+        value = joinTextRuns(body);
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+      }
+
+      const columnIndex = reference ? columnLetterToIndex(reference) : row.length;
+      while (row.length < columnIndex) row.push("");
+      row[columnIndex] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Path of the first sheet listed in the workbook, via its relationship id
+ */
+function findFirstSheetPath(readText: (name: string) => string | undefined): string {
+  const workbook = readText("xl/workbook.xml") ?? "";
+  const relationships = readText("xl/_rels/workbook.xml.rels") ?? "";
+  const relationshipId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (!relationshipId) return "xl/worksheets/sheet1.xml";
+
+  const relationship = Array.from(relationships.matchAll(/<Relationship\b[^>]*>/g))
+    .map((match) => match[0])
+    .find((tag) => tag.includes(`Id="${relationshipId}"`));
+  const target = relationship?.match(/\bTarget="([^"]+)"/)?.[1];
+  if (!target) return "xl/worksheets/sheet1.xml";
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Concatenates the <t> runs of a (possibly rich text) string item
+ */
+function joinTextRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map((match) => decodeXml(match[1]))
+    .join("");
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * "A" → 0, "Z" → 25, "AA" → 26
+ */
+function columnLetterToIndex(letters: string): number {
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Extracts every file of a zip archive (stored or deflated entries)
+ */
+function readZip(content: Buffer): Map<string, Buffer> {
+  const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+  const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+  const LOCAL_FILE_HEADER = 0x04034b50;
+
+  // The end record sits in the last 22 bytes plus an optional comment
+  let endOffset = -1;
+  for (let offset = content.length - 22; offset >= Math.max(0, content.length - 65557); offset--) {
+    if (content.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error("The file is not a valid XLSX workbook.");
+  }
+
+  const entryCount = content.readUInt16LE(endOffset + 10);
+  let offset = content.readUInt32LE(endOffset + 16);
+  const files = new Map<string, Buffer>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (content.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The XLSX workbook is corrupt.");
+    }
+    const method = content.readUInt16LE(offset + 10);
+    const compressedSize = content.readUInt32LE(offset + 20);
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    const localOffset = content.readUInt32LE(offset + 42);
+    const name = content.toString("utf-8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (content.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) continue;
+    const dataStart = localOffset + 30 +
+      content.readUInt16LE(localOffset + 26) +
+      content.readUInt16LE(localOffset + 28);
+    const data = content.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) files.set(name, data);
+    else if (method === 8) files.set(name, inflateRawSync(data));
+  }
+
+  return files;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Splits rows into header + data, dropping blank rows and trimming cells
+ */
+function toTable(rawRows: string[][]): SpreadsheetTable {
+  const rows = rawRows
+    .map((row, index) => ({ rowNumber: index + 1, cells: row.map((cell) => (cell ?? "").trim()) }))
+    .filter((row) => row.cells.some((cell) => cell !== ""));
+
+  if (rows.length === 0) {
+    throw new Error("The file is empty.");
+  }
+
+  const [header, ...dataRows] = rows;
+  return {
+    headers: header.cells,
+    rows: dataRows.map((row) => ({
+      rowNumber: row.rowNumber,
+      cells: header.cells.map((_, index) => row.cells[index] ?? ""),
+    })),
+  };
+}
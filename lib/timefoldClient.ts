@@ -8,10 +8,15 @@
  */
 
 import type {
+  PlannedBreak,
+  PlannedVisit,
+  SolverConfig,
   TimefoldDemoDataMeta,
   TimefoldModelInput,
   TimefoldRoutePlan,
 } from "./types";
+import { normalizeModelPriorities } from "./priority";
+import { applyModelOptions, DEFAULT_SOLVER_CONFIG } from "./solverConfig";
 
 /**
  * Configuration object for Timefold API
@@ -58,6 +63,23 @@ export function isTimefoldConfigured(): boolean {
   return getConfig() !== null;
 }
 
+/**
+ * The model input as Timefold accepts it: priorities normalized and fields
+ * only the app uses (visit notes) left out
+ */
+function toTimefoldModelInput(modelInput: TimefoldModelInput): TimefoldModelInput {
+  const normalized = normalizeModelPriorities(modelInput);
+  return {
+    ...normalized,
+    visits: normalized.visits.map((visit) => {
+      if (visit.notes === undefined) return visit;
+      const submitted = { ...visit };
+      delete submitted.notes;
+      return submitted;
+    }),
+  };
+}
+
 /**
  * Makes an authenticated request to the Timefold API
  */
@@ -83,6 +105,11 @@ async function timefoldFetch<T>(
   // Get the response text first
   const responseText = await response.text();
 
+  // Some calls (e.g. terminate) may succeed without a body
+  if (response.ok && !responseText.trim()) {
+    return undefined as T;
+  }
+
   // Check if it looks like JSON (starts with { or [)
   const trimmedResponse = responseText.trim();
   const isJson = trimmedResponse.startsWith("{") || trimmedResponse.startsWith("[");
@@ -176,43 +203,38 @@ export async function fetchDemoDataInput(datasetId: string): Promise<TimefoldMod
  * Submits a model input to create a new route plan (starts optimization)
  * 
  * Note: The configurationId is a query parameter that specifies which map service to use.
- * For US-based demo data (like BASIC), use the US Georgia map configuration.
+ * Without one in the solver config, TIMEFOLD_CONFIG_ID (or the US Georgia map
+ * configuration used by the demo data) is used.
  * 
  * @param modelInput - The model input data
- * @param configurationId - Optional configuration ID for map service
- * @param terminationLimit - Optional time limit for solver (e.g., "PT1M" for 1 minute, "PT30S" for 30 seconds)
+ * @param solverConfig - Map configuration, termination, constraint weights and model options
+ * @returns The new route plan's id and status, and the configuration id it was submitted with
  */
 export async function createRoutePlan(
   modelInput: TimefoldModelInput,
-  configurationId?: string,
-  terminationLimit?: string
-): Promise<{ id: string; solverStatus: string }> {
-  // Build the URL with optional configurationId query parameter
-  let url = "/route-plans";
-  if (configurationId) {
-    url += `?configurationId=${encodeURIComponent(configurationId)}`;
-  }
+  solverConfig: SolverConfig = DEFAULT_SOLVER_CONFIG
+): Promise<{ id: string; solverStatus: string; configurationId: string }> {
+  const configurationId = solverConfig.configurationId || requireConfig().configId;
+  const url = `/route-plans?configurationId=${encodeURIComponent(configurationId)}`;
 
-  // Build request body with optional termination config
+  // Termination goes under config.run, constraint weights under config.model.overrides
+  const termination = Object.fromEntries(
+    Object.entries(solverConfig.termination).filter(([, limit]) => limit)
+  );
   const requestBody: {
     modelInput: TimefoldModelInput;
     config?: {
-      run?: {
-        termination?: {
-          spentLimit?: string;
-        };
-      };
+      run?: { termination: Record<string, string> };
+      model?: { overrides: Record<string, number> };
     };
-  } = { modelInput };
+  } = { modelInput: applyModelOptions(toTimefoldModelInput(modelInput), solverConfig.modelOptions) };
 
-  // Add termination time limit if specified
-  if (terminationLimit) {
+  if (Object.keys(termination).length > 0 || Object.keys(solverConfig.constraintWeights).length > 0) {
     requestBody.config = {
-      run: {
-        termination: {
-          spentLimit: terminationLimit,
-        },
-      },
+      ...(Object.keys(termination).length > 0 ? { run: { termination } } : {}),
+      ...(Object.keys(solverConfig.constraintWeights).length > 0
+        ? { model: { overrides: solverConfig.constraintWeights } }
+        : {}),
     };
   }
 
@@ -224,7 +246,7 @@ export async function createRoutePlan(
     }
   );
   
-  return response;
+  return { ...response, configurationId };
 }
 
 /**
@@ -257,42 +279,56 @@ export async function getRoutePlan(routePlanId: string): Promise<TimefoldRoutePl
   // Extract vehicle routes from modelOutput - the actual API structure has shifts[].itinerary
   console.log(`[getRoutePlan] modelOutput vehicles: ${data.modelOutput?.vehicles?.length ?? 0}`);
   
-  const routes = data.modelOutput?.vehicles?.map((vehicle: any, vehicleIndex: number) => {
-    // Flatten all itinerary items from all shifts into visits
-    const allVisits: Array<{
-      id: string;
-      arrivalTime?: string;
-      departureTime?: string;
-      startServiceTime?: string;
-    }> = [];
-    
-    vehicle.shifts?.forEach((shift: any, shiftIndex: number) => {
+  // One route per shift so visits stay in the shift (and day) they were planned in
+  const routes = data.modelOutput?.vehicles?.flatMap((vehicle: any, vehicleIndex: number) =>
+    (vehicle.shifts ?? []).map((shift: any, shiftIndex: number) => {
       // Log the first shift's itinerary structure for debugging
       if (vehicleIndex === 0 && shiftIndex === 0 && shift.itinerary?.length) {
         console.log(`[getRoutePlan] Sample itinerary item:`, JSON.stringify(shift.itinerary[0]));
         console.log(`[getRoutePlan] Shift ${shiftIndex} has ${shift.itinerary.length} itinerary items`);
       }
-      
+
+      const visits: PlannedVisit[] = [];
+      const breaks: PlannedBreak[] = [];
+
       shift.itinerary?.forEach((item: any) => {
+        // Required breaks the solver placed in the shift
+        if (item.kind?.toUpperCase() === "BREAK") {
+          breaks.push({
+            id: item.id,
+            startTime: item.startTime,
+            endTime: item.endTime,
+            travelTimeFromPrevious: item.travelTimeFromPreviousStandstill,
+            travelDistanceFromPrevious: item.travelDistanceMetersFromPreviousStandstill,
+          });
+        }
         // Accept both "VISIT" and "visit" (case-insensitive)
         if (item.kind?.toUpperCase() === "VISIT") {
-          allVisits.push({
+          visits.push({
             id: item.id,
+            vehicleId: vehicle.id,
             arrivalTime: item.arrivalTime,
             departureTime: item.departureTime,
             startServiceTime: item.startServiceTime,
+            travelTimeFromPrevious: item.travelTimeFromPreviousStandstill,
+            travelDistanceFromPrevious: item.travelDistanceMetersFromPreviousStandstill,
           });
         }
       });
-    });
-    
-    console.log(`[getRoutePlan] Vehicle ${vehicle.id}: ${allVisits.length} visits extracted`);
-    
-    return {
-      vehicleId: vehicle.id,
-      visits: allVisits,
-    };
-  });
+
+      console.log(`[getRoutePlan] Vehicle ${vehicle.id} shift ${shift.id}: ${visits.length} visits, ${breaks.length} breaks extracted`);
+
+      return {
+        vehicleId: vehicle.id,
+        shiftId: shift.id,
+        visits,
+        breaks,
+        // Shift totals include the drive back to the end location
+        totalTravelTime: shift.metrics?.totalTravelTime,
+        totalTravelDistance: shift.metrics?.totalTravelDistanceMeters,
+      };
+    })
+  );
 
   // Log summary for debugging
   const totalVisits = routes?.reduce((sum: number, r: any) => sum + r.visits.length, 0) ?? 0;
@@ -319,6 +355,16 @@ export async function getRoutePlan(routePlanId: string): Promise<TimefoldRoutePl
   };
 }
 
+/**
+ * Terminates a running route plan. Timefold stops solving and keeps the
+ * best solution found so far, reported as SOLVING_INCOMPLETE. Termination
+ * may take a moment, so the returned plan can still be SOLVING_ACTIVE.
+ */
+export async function terminateRoutePlan(routePlanId: string): Promise<TimefoldRoutePlan> {
+  await timefoldFetch<unknown>(`/route-plans/${routePlanId}`, { method: "DELETE" });
+  return getRoutePlan(routePlanId);
+}
+
 /**
  * Checks if the solver has completed (helper for polling)
  * Terminal states from Timefold API: SOLVING_COMPLETED, SOLVING_INCOMPLETE, SOLVING_FAILED, DATASET_INVALID
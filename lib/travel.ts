@@ -0,0 +1,227 @@
+/**
+ * Travel Estimation
+ *
+ * Distance and duration estimates between locations, based on the
+ * great-circle (haversine) distance scaled by a detour factor and driven
+ * at an average road speed. Used wherever a real routing engine isn't
+ * available: baseline placement, KPIs, the local solver and the mock API.
+ *
+ * Matrices are cached per dataset (model input object), so repeated
+ * lookups while mapping or solving don't recompute distances. Every
+ * dataset matrix uses the same travel model (TRAVEL_OPTIONS), so baseline,
+ * solver, schedules and KPIs agree on travel times.
+ */
+
+import type { Location, TimefoldModelInput } from "./types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type Coordinates = [number, number];
+
+/**
+ * Tuning knobs for travel estimates
+ */
+export interface TravelOptions {
+  /** Average road speed in km/h (default 40) */
+  averageSpeedKmh?: number;
+  /** Straight-line to road distance factor (default 1.3) */
+  detourFactor?: number;
+}
+
+/**
+ * A single leg between two locations
+ */
+export interface TravelLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/**
+ * Precomputed distance/duration matrix over a set of locations
+ */
+export interface TravelMatrix {
+  /** Unique coordinates, in matrix order */
+  coordinates: Coordinates[];
+  /** distanceMeters[from][to] */
+  distanceMeters: number[][];
+  /** durationSeconds[from][to] */
+  durationSeconds: number[][];
+  /** Matrix index of a location, or -1 if it has no usable coordinates */
+  indexOf: (location: Location | number[] | undefined) => number;
+  /** Leg between two locations; zero if either has no coordinates */
+  between: (
+    from: Location | number[] | undefined,
+    to: Location | number[] | undefined
+  ) => TravelLeg;
+}
+
+// ============================================================
+// CONSTANTS
+// ============================================================
+
+export const DEFAULT_AVERAGE_SPEED_KMH = 40;
+export const DEFAULT_DETOUR_FACTOR = 1.3;
+
+/**
+ * Travel model for dataset matrices, configurable with
+ * NEXT_PUBLIC_TRAVEL_SPEED_KMH and NEXT_PUBLIC_TRAVEL_DETOUR_FACTOR
+ * (inlined at build time, so server and browser read the same values)
+ */
+export const TRAVEL_OPTIONS: Required<TravelOptions> = {
+  averageSpeedKmh: toPositiveNumber(process.env.NEXT_PUBLIC_TRAVEL_SPEED_KMH, DEFAULT_AVERAGE_SPEED_KMH),
+  detourFactor: toPositiveNumber(process.env.NEXT_PUBLIC_TRAVEL_DETOUR_FACTOR, DEFAULT_DETOUR_FACTOR),
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+const ZERO_LEG: TravelLeg = { distanceMeters: 0, durationSeconds: 0 };
+
+// ============================================================
+// COORDINATE HELPERS
+// ============================================================
+
+/**
+ * Normalizes a Timefold location ([lat, lon] or {latitude, longitude})
+ * to a coordinate pair, or null if it can't be used
+ */
+export function toCoordinates(location: Location | number[] | undefined): Coordinates | null {
+  if (!location) return null;
+  if (Array.isArray(location)) {
+    return location.length >= 2 && isFinite(location[0]) && isFinite(location[1])
+      ? [location[0], location[1]]
+      : null;
+  }
+  if (typeof location.latitude !== "number" || typeof location.longitude !== "number") return null;
+  return [location.latitude, location.longitude];
+}
+
+/**
+ * Great-circle distance between two coordinates in meters
+ */
+export function haversineMeters(from: Coordinates, to: Coordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to[0] - from[0]);
+  const dLon = toRad(to[1] - from[1]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from[0])) * Math.cos(toRad(to[0])) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Estimated road distance and driving time between two coordinates
+ */
+export function estimateTravel(
+  from: Coordinates | null,
+  to: Coordinates | null,
+  options: TravelOptions = {}
+): TravelLeg {
+  if (!from || !to) return ZERO_LEG;
+  const {
+    averageSpeedKmh = DEFAULT_AVERAGE_SPEED_KMH,
+    detourFactor = DEFAULT_DETOUR_FACTOR,
+  } = options;
+  const distanceMeters = haversineMeters(from, to) * detourFactor;
+  return {
+    distanceMeters,
+    durationSeconds: (distanceMeters / 1000 / averageSpeedKmh) * 3600,
+  };
+}
+
+// ============================================================
+// MATRIX
+// ============================================================
+
+/**
+ * Builds a full distance/duration matrix over the given locations.
+ * Duplicate coordinates share a row; locations without coordinates
+ * are skipped.
+ */
+export function buildTravelMatrix(
+  locations: Array<Location | number[] | undefined>,
+  options: TravelOptions = {}
+): TravelMatrix {
+  const coordinates: Coordinates[] = [];
+  const indexByKey = new Map<string, number>();
+
+  locations.forEach((location) => {
+    const point = toCoordinates(location);
+    if (!point) return;
+    const key = coordinateKey(point);
+    if (indexByKey.has(key)) return;
+    indexByKey.set(key, coordinates.length);
+    coordinates.push(point);
+  });
+
+  const distanceMeters: number[][] = [];
+  const durationSeconds: number[][] = [];
+  coordinates.forEach((from, i) => {
+    distanceMeters.push([]);
+    durationSeconds.push([]);
+    coordinates.forEach((to) => {
+      const leg = estimateTravel(from, to, options);
+      distanceMeters[i].push(leg.distanceMeters);
+      durationSeconds[i].push(leg.durationSeconds);
+    });
+  });
+
+  const indexOf = (location: Location | number[] | undefined): number => {
+    const point = toCoordinates(location);
+    if (!point) return -1;
+    return indexByKey.get(coordinateKey(point)) ?? -1;
+  };
+
+  const between = (
+    from: Location | number[] | undefined,
+    to: Location | number[] | undefined
+  ): TravelLeg => {
+    const fromIndex = indexOf(from);
+    const toIndex = indexOf(to);
+    if (fromIndex >= 0 && toIndex >= 0) {
+      return {
+        distanceMeters: distanceMeters[fromIndex][toIndex],
+        durationSeconds: durationSeconds[fromIndex][toIndex],
+      };
+    }
+    // Not part of the matrix (e.g., a location added after the build)
+    return estimateTravel(toCoordinates(from), toCoordinates(to), options);
+  };
+
+  return { coordinates, distanceMeters, durationSeconds, indexOf, between };
+}
+
+const matrixCache = new WeakMap<TimefoldModelInput, TravelMatrix>();
+
+/**
+ * Returns the travel matrix covering every visit, shift and break
+ * location of a dataset, using TRAVEL_OPTIONS. Cached per model input
+ * object.
+ */
+export function getTravelMatrix(modelInput: TimefoldModelInput): TravelMatrix {
+  const cached = matrixCache.get(modelInput);
+  if (cached) return cached;
+
+  const locations: Array<Location | number[] | undefined> = [
+    ...modelInput.vehicles.flatMap((vehicle) =>
+      vehicle.shifts.flatMap((shift) => [
+        shift.startLocation,
+        shift.endLocation,
+        ...(shift.requiredBreaks ?? []).map((requiredBreak) => requiredBreak.location),
+      ])
+    ),
+    ...modelInput.visits.map((visit) => visit.location),
+  ];
+  const matrix = buildTravelMatrix(locations, TRAVEL_OPTIONS);
+  matrixCache.set(modelInput, matrix);
+  return matrix;
+}
+
+function coordinateKey(point: Coordinates): string {
+  return `${point[0].toFixed(6)},${point[1].toFixed(6)}`;
+}
+
+function toPositiveNumber(value: string | undefined, fallback: number): number {
+  const number = Number(value);
+  return value && isFinite(number) && number > 0 ? number : fallback;
+}
@@ -33,6 +33,42 @@ export interface Location {
   address?: string;
 }
 
+/**
+ * A skill a caregiver has; without a level it satisfies any minimum level
+ */
+export interface Skill {
+  name: string;
+  level?: number;
+}
+
+/**
+ * A skill a visit requires, at a minimum level if given
+ */
+export interface SkillRequirement {
+  name: string;
+  minLevel?: number;
+}
+
+/**
+ * A break a caregiver must take during a shift (Timefold `requiredBreaks`)
+ * - FIXED: taken from startTime to endTime
+ * - FLOATING: lasts `duration` and must fit between minStartTime and maxEndTime
+ */
+export interface RequiredBreak {
+  id: string;
+  type: "FIXED" | "FLOATING";
+  // FIXED
+  startTime?: string;     // ISO datetime
+  endTime?: string;       // ISO datetime
+  // FLOATING
+  minStartTime?: string;  // ISO datetime
+  maxEndTime?: string;    // ISO datetime
+  duration?: string;      // ISO duration (e.g., "PT30M")
+  // Where the break is taken; without one the caregiver stays where they are
+  location?: Location | number[];
+  costImpact?: "PAID" | "UNPAID";
+}
+
 /**
  * A shift defines when a vehicle/technician is available to work
  * Supports both local format (startTime/endTime) and Timefold format (minStartTime/maxEndTime)
@@ -48,9 +84,11 @@ export interface Shift {
   startLocation?: Location | number[];  // Object or [lat, lon] array
   endLocation?: Location | number[];
   // Timefold additional fields
-  skills?: Array<{ name: string; level?: number }>;
+  skills?: Skill[];
   tags?: Array<{ name: string }>;
-  requiredBreaks?: unknown[];
+  requiredBreaks?: RequiredBreak[];
+  // Pinned assignments, in order (visits must have pinningRequested)
+  itinerary?: Array<{ id: string; kind: "VISIT" | "BREAK" }>;
 }
 
 /**
@@ -75,9 +113,20 @@ export interface TimeWindow {
   endTime?: string;    // ISO datetime
   // Timefold format  
   minStartTime?: string;
+  maxStartTime?: string;
   maxEndTime?: string;
 }
 
+/**
+ * Timefold visit priority, "1" (most important) to "10" (least important)
+ */
+export type VisitPriority = "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "10";
+
+/**
+ * Priority grouping used for display and by the local solver
+ */
+export type PriorityLevel = "high" | "medium" | "low";
+
 /**
  * A visit/job that needs to be scheduled and assigned to a vehicle
  */
@@ -87,10 +136,28 @@ export interface Visit {
   location: Location | number[];  // Object or [lat, lon] array
   serviceDuration: string;  // ISO duration (e.g., "PT30M" for 30 minutes)
   timeWindows?: TimeWindow[];
-  requiredSkills?: string[] | Array<{ name: string; minLevel?: number }>;
-  priority?: string | number;
+  requiredSkills?: string[] | SkillRequirement[];
+  priority?: VisitPriority;  // Normalized on import and submission, see lib/priority.ts
   pinningRequested?: boolean;
   requiredTags?: string[];
+  notes?: string;  // Shown in the app only, not sent to Timefold
+}
+
+/**
+ * A visit as entered in the "Nytt besök" form (see lib/newVisit.ts)
+ */
+export interface NewVisitData {
+  name: string;
+  address: string;
+  duration: number;     // minutes
+  resourceId: string;   // Caregiver, "" to leave the visit to the optimizer
+  date: string;         // YYYY-MM-DD
+  startTime: string;    // HH:MM, planned start when assigned to a caregiver
+  windowStart: string;  // HH:MM, "" for no time window
+  windowEnd: string;    // HH:MM
+  requiredSkills: string[];
+  priority: PriorityLevel;
+  notes: string;
 }
 
 /**
@@ -100,10 +167,7 @@ export interface TimefoldModelInput {
   vehicles: Vehicle[];
   visits: Visit[];
   // Additional configuration options
-  options?: {
-    maxDrivingTimePerShift?: string;
-    balanceWorkload?: boolean;
-  };
+  options?: ModelOptions;
 }
 
 /**
@@ -138,6 +202,17 @@ export interface PlannedVisit {
   travelDistanceFromPrevious?: number;  // meters
 }
 
+/**
+ * A required break with its planned timing in the solution
+ */
+export interface PlannedBreak {
+  id: string;
+  startTime: string;  // ISO datetime
+  endTime: string;    // ISO datetime
+  travelTimeFromPrevious?: string;  // ISO duration, to the break location
+  travelDistanceFromPrevious?: number;  // meters
+}
+
 /**
  * The route assigned to a single vehicle
  */
@@ -145,21 +220,21 @@ export interface VehicleRoute {
   vehicleId: string;
   shiftId?: string;
   visits: PlannedVisit[];
+  breaks?: PlannedBreak[];
   totalTravelTime?: string;    // ISO duration
   totalTravelDistance?: number; // meters
   totalServiceTime?: string;   // ISO duration
 }
 
 /**
- * KPIs/metrics included in the route plan response
+ * KPIs reported by the solver with the route plan (Timefold's `kpis` object)
  */
-export interface RoutePlanMetrics {
-  totalTravelTime?: string;
-  totalTravelDistance?: number;
-  totalServiceTime?: string;
-  unassignedVisits?: number;
-  assignedVisits?: number;
-  utilizationPercentage?: number;
+export interface RoutePlanKpis {
+  totalTravelTime?: string;  // ISO duration, including the legs to and from the shift locations
+  totalTravelDistanceMeters?: number;
+  totalAssignedVisits?: number;
+  totalUnassignedVisits?: number;
+  workingTimeFairnessPercentage?: number;  // 100 = working time spread evenly
 }
 
 /**
@@ -171,19 +246,213 @@ export interface TimefoldRoutePlan {
   score?: string;  // Timefold score format
   routes?: VehicleRoute[];
   unassignedVisits?: Array<{ id: string; name?: string }> | Visit[];
-  metrics?: RoutePlanMetrics;
   // Original input for reference
   modelInput?: TimefoldModelInput;
   // Validation errors (e.g., locations out of map coverage)
   validationErrors?: string[];
   // KPIs from Timefold response
-  kpis?: {
-    totalTravelTime?: string;
-    totalAssignedVisits?: number;
-    totalUnassignedVisits?: number;
-    totalTravelDistanceMeters?: number;
-    workingTimeFairnessPercentage?: number;
+  kpis?: RoutePlanKpis;
+  // Problems the local solver worked around (pins it couldn't keep, breaks dropped)
+  findings?: ValidationFinding[];
+}
+
+/**
+ * Timefold score split into its levels (e.g. "0hard/-2medium/-5400soft")
+ */
+export interface ScoreLevels {
+  hard: number;
+  medium: number;
+  soft: number;
+}
+
+/**
+ * A score observed while the solver runs, for the live progress chart
+ */
+export interface ScoreSample extends ScoreLevels {
+  score: string;
+  elapsedMs: number;  // since the progress stream opened
+}
+
+/**
+ * Events sent by the route plan progress stream (Server-Sent Events).
+ * The SSE event name is the `type` field.
+ */
+export type SolverProgressEvent =
+  | { type: "status"; solverStatus: SolverStatus }
+  | { type: "score"; sample: ScoreSample }
+  | { type: "solution"; routePlan: TimefoldRoutePlan }
+  | { type: "done"; routePlan: TimefoldRoutePlan }
+  | { type: "failure"; error: string; routePlan?: TimefoldRoutePlan; findings?: ValidationFinding[] };
+
+/**
+ * Model options sent with the model input (Timefold's `modelInput.options`)
+ */
+export interface ModelOptions {
+  maxDrivingTimePerShift?: string;  // ISO duration
+  balanceWorkload?: boolean;
+}
+
+/**
+ * Solver settings for a route plan submission
+ */
+export interface SolverConfig {
+  configurationId?: string;   // Timefold map configuration; defaults to TIMEFOLD_CONFIG_ID
+  termination: {
+    spentLimit?: string;            // ISO duration; none = until stopped
+    unimprovedSpentLimit?: string;  // ISO duration; stop after this long without a better score
   };
+  constraintWeights: Record<string, number>;  // Timefold model override → weight
+  modelOptions: ModelOptions;
+}
+
+/**
+ * A named solver configuration saved for reuse
+ */
+export interface SolverProfile {
+  id: string;
+  name: string;
+  config: SolverConfig;
+  createdAt: string;   // ISO datetime
+  updatedAt: string;   // ISO datetime
+}
+
+/**
+ * A route plan submission persisted by the server, with its latest result
+ */
+export interface StoredRoutePlan {
+  id: string;
+  datasetId?: string;
+  modelInput: TimefoldModelInput;
+  configurationId?: string;
+  terminationLimit?: string;
+  solverConfig?: SolverConfig;
+  solverStatus: SolverStatus;
+  score?: string;
+  // Latest route plan fetched from the solver (final once completed)
+  routePlan?: TimefoldRoutePlan;
+  createdAt: string;   // ISO datetime
+  updatedAt: string;   // ISO datetime
+  completedAt?: string; // ISO datetime
+}
+
+/**
+ * Lightweight listing entry for the route plan history
+ */
+export interface StoredRoutePlanSummary {
+  id: string;
+  datasetId?: string;
+  solverStatus: SolverStatus;
+  score?: string;
+  terminationLimit?: string;
+  vehicleCount: number;
+  visitCount: number;
+  unassignedVisits?: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Severity of a validation finding; errors block submission to the solver
+ */
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationCode =
+  | "MISSING_ENTITIES"
+  | "DUPLICATE_ID"
+  | "INVALID_COORDINATES"
+  | "INVALID_DURATION"
+  | "INVALID_DATETIME"
+  | "INVERTED_TIME_WINDOW"
+  | "OVERLAPPING_TIME_WINDOWS"
+  | "INVERTED_SHIFT"
+  | "UNSATISFIABLE_SKILLS"
+  | "INVALID_BREAK"
+  | "INVALID_PRIORITY"
+  | "INFEASIBLE_PIN"     // Pinned visit the local solver couldn't keep on its shift
+  | "SOLVER_VALIDATION";  // Reported by Timefold (DATASET_INVALID)
+
+/**
+ * A problem found in a model input, tied to the entity it concerns
+ */
+export interface ValidationFinding {
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  entityType: "model" | "vehicle" | "shift" | "visit";
+  entityId?: string;
+  vehicleId?: string;  // Owning vehicle, for shift findings
+  field?: string;      // e.g. "location", "timeWindows[1]"
+  message: string;
+}
+
+/**
+ * A dataset imported from visit and staff spreadsheets
+ */
+export interface ImportedDataset {
+  id: string;          // "import-..." so it can't collide with Timefold ids
+  name: string;
+  modelInput: TimefoldModelInput;
+  sourceFiles: { visits: string; staff: string };
+  // Rows rejected by validation when importing only the valid rows
+  skippedRows: number;
+  createdAt: string;   // ISO datetime
+}
+
+/**
+ * How schedules are priced (all amounts in SEK)
+ */
+export interface CostModel {
+  hourlyRate: number;                          // Default rate per paid hour
+  vehicleHourlyRates: Record<string, number>;  // Per-caregiver overrides, by vehicle id
+  regularMinutesPerShift: number;              // Paid time beyond this in a shift is overtime
+  overtimeMultiplier: number;                  // Overtime is paid at hourly rate × multiplier
+  costPerKm: number;                           // Mileage
+  fixedCostPerVehicle: number;                 // Per caregiver with any work
+  unassignedVisitPenalty: number;              // Per visit left unassigned
+}
+
+/**
+ * A dataset's cost model as stored on the server
+ */
+export interface StoredCostModel {
+  datasetId: string;
+  costModel: CostModel;
+  updatedAt: string;   // ISO datetime
+}
+
+/**
+ * A visit placed by hand in a manual schedule
+ */
+export interface ManualAssignment {
+  visitId: string;
+  vehicleId: string;
+  shiftId?: string;    // Defaults to the vehicle's shift containing the start
+  startTime: string;   // ISO datetime, service start
+  endTime?: string;    // ISO datetime, defaults to start + service duration
+}
+
+/**
+ * A dataset's manual baseline schedule as stored on the server
+ */
+export interface StoredBaseline {
+  datasetId: string;
+  name: string;
+  source: "import" | "route-plan";
+  sourceRoutePlanId?: string;  // When taken from a previous route plan
+  assignments: ManualAssignment[];
+  updatedAt: string;   // ISO datetime
+}
+
+/**
+ * Schedule cost split by cost driver (SEK)
+ */
+export interface CostBreakdown {
+  labor: number;
+  overtime: number;
+  mileage: number;
+  fixed: number;
+  unassignedPenalty: number;
+  total: number;
 }
 
 // ============================================================
@@ -198,8 +467,9 @@ export interface SchedulerResource {
   name: string;
   // Additional metadata for display
   skills?: string[];
-  shiftStart?: string;
-  shiftEnd?: string;
+  shiftStart?: string;  // Earliest shift start
+  shiftEnd?: string;    // Latest shift end
+  shifts?: Array<{ id: string; start: string; end: string; skills?: Skill[] }>;
 }
 
 /**
@@ -212,12 +482,58 @@ export interface SchedulerEvent {
   endDate: string;
   name: string;
   // Custom fields for styling and interaction
-  eventType: "visit" | "travel" | "break";
+  eventType: "visit" | "travel" | "wait" | "break";
   status: "baseline" | "optimized" | "adjusted";
-  visitId?: string;
+  visitId?: string;     // For travel/wait blocks: the visit they lead up to
+  shiftId?: string;     // Shift of the resource the event falls in
   address?: string;
   travelTime?: number;  // minutes
+  travelDistance?: number; // meters, travel blocks and visits
+  waitTime?: number;    // minutes, wait blocks only
+  breakId?: string;     // Required break, break events only (shift blocks have none)
+  requiredSkills?: SkillRequirement[];
+  priority?: PriorityLevel;  // Visits only
+  skillMismatch?: SkillRequirement[];  // Requirements the assigned caregiver doesn't meet
+  violations?: ScheduleViolation[];    // Set by the constraint checker
   isAdjusted?: boolean; // Flag for drag-drop modifications
+  isPinned?: boolean;   // Locked to vehicle and start time for re-optimization
+  // Set in comparison mode
+  change?: VisitChangeKind;
+  changeMinutes?: number; // optimized start - baseline start
+}
+
+/**
+ * Kinds of schedule constraint violations (see lib/constraints.ts)
+ */
+export type ViolationKind = "late" | "early" | "overtime" | "overlap";
+
+/**
+ * A constraint a scheduled visit breaks
+ */
+export interface ScheduleViolation {
+  kind: ViolationKind;
+  eventId: string;
+  resourceId: string;
+  visitId?: string;
+  minutes: number;        // How far outside the window/shift, or overlap length
+  otherEventId?: string;  // Overlaps only
+  otherName?: string;
+}
+
+/**
+ * How a visit changed between the baseline and optimized schedules
+ */
+export type VisitChangeKind = "unchanged" | "shifted" | "moved" | "assigned" | "unassigned";
+
+/**
+ * A visit linked across the baseline and optimized schedules
+ */
+export interface VisitComparison {
+  visitId: string;
+  change: VisitChangeKind;
+  baselineResourceId?: string;
+  optimizedResourceId?: string;
+  shiftMinutes: number;  // optimized start - baseline start, 0 if not in both
 }
 
 /**
@@ -244,9 +560,31 @@ export type AppStatus =
   | "complete";
 
 /**
- * View mode toggle
+ * View mode toggle ("compare" shows baseline and optimized together)
+ */
+export type ViewMode = "baseline" | "optimized" | "compare";
+
+/**
+ * Where a KPI value comes from:
+ * - solver: reported by the solver as is
+ * - computed: derived from the solver's planned times and the model input
+ * - estimated: based on travel estimates or heuristics
  */
-export type ViewMode = "baseline" | "optimized";
+export type KpiSource = "solver" | "computed" | "estimated";
+
+export type KpiMetric =
+  | "visits"
+  | "travelTime"
+  | "travelDistance"
+  | "serviceTime"
+  | "waitTime"
+  | "breakTime"
+  | "workTime"
+  | "utilization"
+  | "fairness"
+  | "cost";
+
+export type KpiSources = Record<KpiMetric, KpiSource>;
 
 /**
  * KPI summary for before/after comparison
@@ -259,6 +597,8 @@ export interface KpiSummary {
   assignedVisitsOptimized: number;
   unassignedVisitsBaseline: number;
   unassignedVisitsOptimized: number;
+  unassignedByPriorityBaseline: Record<PriorityLevel, number>;
+  unassignedByPriorityOptimized: Record<PriorityLevel, number>;
   
   // Time metrics (in minutes)
   totalTravelTimeBaseline: number;
@@ -267,6 +607,12 @@ export interface KpiSummary {
   totalServiceTimeOptimized: number;
   totalWaitTimeBaseline: number;
   totalWaitTimeOptimized: number;
+  totalBreakTimeBaseline: number;  // Required breaks, not counted as work
+  totalBreakTimeOptimized: number;
+
+  // Travel distance (meters)
+  totalTravelDistanceBaseline: number;
+  totalTravelDistanceOptimized: number;
   
   // Calculated Work metrics (minutes)
   totalWorkTimeBaseline: number;
@@ -275,14 +621,30 @@ export interface KpiSummary {
   // Financials (SEK)
   totalCostBaseline: number;
   totalCostOptimized: number;
+  costBreakdownBaseline: CostBreakdown;
+  costBreakdownOptimized: CostBreakdown;
   
   // Utilization per resource (percentage 0-100)
   utilizationByResourceBaseline: Map<string, number>;
   utilizationByResourceOptimized: Map<string, number>;
+
+  // Utilization per shift (key "vehicleId:shiftId") and per day ("YYYY-MM-DD")
+  utilizationByShiftBaseline: Map<string, number>;
+  utilizationByShiftOptimized: Map<string, number>;
+  utilizationByDayBaseline: Map<string, number>;
+  utilizationByDayOptimized: Map<string, number>;
   
   // Average utilization
   avgUtilizationBaseline: number;
   avgUtilizationOptimized: number;
+
+  // Working time fairness across caregivers (percentage 0-100, 100 = even)
+  workingTimeFairnessBaseline: number;
+  workingTimeFairnessOptimized: number;
+
+  // Source of each value
+  sourcesBaseline: KpiSources;
+  sourcesOptimized: KpiSources;
 }
 
 /**
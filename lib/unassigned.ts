@@ -0,0 +1,307 @@
+/**
+ * Unassigned Visits
+ *
+ * Visits of the model input without a visit event in a schedule - left out
+ * by the solver, or not placed in the baseline - are listed next to the
+ * scheduler with the likely reason they weren't assigned:
+ * - no caregiver has a required skill
+ * - the time window is shorter than the visit, or no shift overlaps it
+ * - the qualified caregivers are fully booked during the window
+ * - the visit has low priority and was dropped for more important ones
+ *
+ * A listed visit can be assigned to a caregiver by hand: it is placed at
+ * the chosen time (or in the first gap that fits), after the previous visit
+ * and the travel from it, and the next visit's travel is recomputed from it.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type { PriorityLevel, SchedulerData, SchedulerEvent, SkillRequirement, TimefoldModelInput, Visit } from "./types";
+import type { EditChange } from "./editHistory";
+import { buildLegEvents, rebuildIncomingLeg } from "./legs";
+import {
+  findShiftForTime,
+  getShiftSpans,
+  getVisitAddress,
+  getVisitWindowSpan,
+  parseDurationToMinutes,
+  type ShiftSpan,
+} from "./mapping";
+import { getPriorityLevel, getPriorityRank } from "./priority";
+import { describeSkillRequirement, findMissingSkills, getShiftSkills, normalizeRequiredSkills } from "./skills";
+import { getTravelMatrix } from "./travel";
+
+/** Duration of visits without a readable serviceDuration, as elsewhere */
+const DEFAULT_VISIT_MINUTES = 30;
+
+/**
+ * A visit without a place in the schedule
+ */
+export interface UnassignedVisit {
+  visit: Visit;
+  durationMinutes: number;
+  window: { start?: string; end?: string } | null;  // ISO, open ends left out
+  requiredSkills: SkillRequirement[];
+  priority: PriorityLevel;
+  reasons: string[];  // Swedish, most likely first
+}
+
+/**
+ * A visit assigned by hand: its new event, and the changes adding it with
+ * its travel and wait blocks and recomputing the next visit's travel
+ */
+export interface VisitAssignment {
+  event: SchedulerEvent;
+  changes: EditChange[];
+}
+
+// ============================================================
+// LISTING
+// ============================================================
+
+/**
+ * The visits without a visit event in the schedule, most important and
+ * earliest first
+ */
+export function getUnassignedVisits(modelInput: TimefoldModelInput, schedule: SchedulerData): UnassignedVisit[] {
+  const scheduled = new Set(
+    schedule.events.filter((event) => event.eventType === "visit").map((event) => event.visitId ?? event.id)
+  );
+  const spans = getShiftSpans(modelInput.vehicles);
+
+  return modelInput.visits
+    .filter((visit) => !scheduled.has(visit.id))
+    .map((visit) => {
+      const durationMinutes = parseDurationToMinutes(visit.serviceDuration) || DEFAULT_VISIT_MINUTES;
+      const span = getVisitWindowSpan(visit);
+      const requiredSkills = normalizeRequiredSkills(visit.requiredSkills);
+      return {
+        visit,
+        durationMinutes,
+        window: span
+          ? {
+              ...(isFinite(span.start) ? { start: new Date(span.start).toISOString() } : {}),
+              ...(isFinite(span.end) ? { end: new Date(span.end).toISOString() } : {}),
+            }
+          : null,
+        requiredSkills,
+        priority: getPriorityLevel(visit.priority),
+        reasons: explainUnassigned(visit, durationMinutes, requiredSkills, spans, schedule),
+      };
+    })
+    .sort((a, b) =>
+      getPriorityRank(a.visit.priority) - getPriorityRank(b.visit.priority) ||
+      (a.window?.start ?? "").localeCompare(b.window?.start ?? "")
+    );
+}
+
+/**
+ * Why a visit likely wasn't assigned, in Swedish
+ */
+function explainUnassigned(
+  visit: Visit,
+  durationMinutes: number,
+  requiredSkills: SkillRequirement[],
+  spans: ShiftSpan[],
+  schedule: SchedulerData
+): string[] {
+  const reasons: string[] = [];
+  const window = getVisitWindowSpan(visit);
+  const from = window?.start ?? -Infinity;
+  const to = window?.end ?? Infinity;
+  const durationMs = durationMinutes * 60000;
+
+  requiredSkills
+    .filter((requirement) => spans.every((span) => findMissingSkills(getShiftSkills(span.vehicle, span.shift), [requirement]).length > 0))
+    .forEach((requirement) => reasons.push(`Ingen i personalen har kompetensen ${describeSkillRequirement(requirement)}`));
+
+  if (isFinite(from) && isFinite(to) && to - from < durationMs) {
+    reasons.push(`Tidsfönstret (${Math.round((to - from) / 60000)} min) är kortare än besöket (${durationMinutes} min)`);
+  }
+
+  const overlapping = spans.filter(
+    (span) => Math.min(span.end.getTime(), to) - Math.max(span.start.getTime(), from) >= durationMs
+  );
+  const qualified = overlapping.filter(
+    (span) => findMissingSkills(getShiftSkills(span.vehicle, span.shift), requiredSkills).length === 0
+  );
+
+  if (reasons.length === 0) {
+    if (overlapping.length === 0) {
+      reasons.push("Inget arbetspass täcker tidsfönstret");
+    } else if (qualified.length === 0) {
+      reasons.push("Ingen med rätt kompetens arbetar under tidsfönstret");
+    } else if (!qualified.some((span) => hasFreeTime(span, schedule, from, to, durationMs))) {
+      reasons.push("Personalen med rätt kompetens är fullbokad under tidsfönstret");
+    }
+  }
+
+  if (getPriorityLevel(visit.priority) === "low") {
+    reasons.push("Låg prioritet – kan ha fått stå tillbaka för viktigare besök");
+  }
+  if (reasons.length === 0) {
+    reasons.push("Får inte plats i någon rutt när restiden räknas in");
+  }
+  return reasons;
+}
+
+/**
+ * Whether a shift has a gap of the given length within [from, to] between
+ * its scheduled visits and breaks (travel not counted)
+ */
+function hasFreeTime(span: ShiftSpan, schedule: SchedulerData, from: number, to: number, durationMs: number): boolean {
+  const start = Math.max(span.start.getTime(), from);
+  const end = Math.min(span.end.getTime(), to);
+  const busy = getBusyEvents(schedule, span)
+    .map((event) => ({ start: toTime(event.startDate), end: toTime(event.endDate) }))
+    .sort((a, b) => a.start - b.start);
+
+  let cursor = start;
+  for (const interval of busy) {
+    if (interval.start - cursor >= durationMs) return true;
+    cursor = Math.max(cursor, interval.end);
+    if (cursor >= end) return false;
+  }
+  return end - cursor >= durationMs;
+}
+
+// ============================================================
+// ASSIGNING
+// ============================================================
+
+/**
+ * Assigns an unassigned visit to a caregiver in the schedule (the edit
+ * target it belongs to). With a time - where it was dropped - the visit
+ * starts then, or as soon after as the previous visit, the travel from it,
+ * the visit's time window and the breaks allow; without one it goes in the
+ * first gap of the shift that fits it with travel to the next visit.
+ * Null if the visit or caregiver is unknown, the caregiver has no valid
+ * shift, or the visit already has a place.
+ */
+export function assignVisit(
+  modelInput: TimefoldModelInput,
+  schedule: SchedulerData,
+  target: "baseline" | "optimized",
+  visitId: string,
+  resourceId: string,
+  time: Date | string | null
+): VisitAssignment | null {
+  const visit = modelInput.visits.find((v) => v.id === visitId);
+  const vehicle = modelInput.vehicles.find((v) => v.id === resourceId);
+  const spans = vehicle ? getShiftSpans([vehicle]) : [];
+  const alreadyPlaced = schedule.events.some((event) => event.eventType === "visit" && event.visitId === visitId);
+  if (!visit || !vehicle || spans.length === 0 || alreadyPlaced) return null;
+
+  const durationMs = (parseDurationToMinutes(visit.serviceDuration) || DEFAULT_VISIT_MINUTES) * 60000;
+  const window = getVisitWindowSpan(visit);
+  const dropped = time ? new Date(time).getTime() : NaN;
+  const anchor = !isNaN(dropped)
+    ? dropped
+    : window && isFinite(window.start) ? window.start : spans[0].start.getTime();
+  const shift = findShiftForTime(vehicle.shifts, new Date(anchor));
+  const span = spans.find((s) => s.shift === shift) ?? spans[0];
+
+  const visits = new Map(modelInput.visits.map((v) => [v.id, v]));
+  const travelMatrix = getTravelMatrix(modelInput);
+  const busy = getBusyEvents(schedule, span);
+  const route = busy.filter((event) => event.eventType === "visit").sort((a, b) => toTime(a.startDate) - toTime(b.startDate));
+  const breaks = busy.filter((event) => event.breakId).sort((a, b) => toTime(a.startDate) - toTime(b.startDate));
+  const locationOf = (event: SchedulerEvent | undefined) =>
+    event ? visits.get(event.visitId ?? "")?.location : span.shift.startLocation;
+  const travelMs = (from: SchedulerEvent | undefined) =>
+    Math.round(travelMatrix.between(locationOf(from), visit.location).durationSeconds / 60) * 60000;
+
+  // Earliest start from notBefore: after the previous visit and the travel
+  // from it (or the shift start), within the window, clear of breaks
+  const placeFrom = (notBefore: number) => {
+    let start = notBefore;
+    for (;;) {
+      const previous = route.filter((event) => toTime(event.startDate) <= start).pop();
+      const departure = previous ? toTime(previous.endDate) : span.start.getTime();
+      let earliest = Math.max(start, departure + travelMs(previous), window?.start ?? -Infinity);
+      earliest = Math.ceil(earliest / 60000) * 60000;
+      breaks.forEach((event) => {
+        if (earliest < toTime(event.endDate) && earliest + durationMs > toTime(event.startDate)) earliest = toTime(event.endDate);
+      });
+      if (earliest === start) return { start, previous };
+      start = earliest;
+    }
+  };
+  const fits = ({ start }: { start: number }) => {
+    const end = start + durationMs;
+    const next = route.find((event) => toTime(event.startDate) > start);
+    return end <= span.end.getTime() && end <= (window?.end ?? Infinity) &&
+      (!next || end + Math.round(travelMatrix.between(visit.location, locationOf(next)).durationSeconds / 60) * 60000 <= toTime(next.startDate));
+  };
+
+  let placement: { start: number; previous: SchedulerEvent | undefined };
+  if (!isNaN(dropped)) {
+    placement = placeFrom(dropped);
+  } else {
+    const candidates = [span.start.getTime(), ...route.map((event) => toTime(event.endDate))].map(placeFrom);
+    placement = candidates.find(fits) ?? candidates[candidates.length - 1];
+  }
+
+  const { start, previous } = placement;
+  const end = start + durationMs;
+  const next = route.find((event) => toTime(event.startDate) > start);
+  const prefix = target === "optimized" ? "opt" : target;
+  const requiredSkills = normalizeRequiredSkills(visit.requiredSkills);
+  const skillMismatch = findMissingSkills(getShiftSkills(vehicle, span.shift), requiredSkills);
+  const leg = travelMatrix.between(locationOf(previous), visit.location);
+  const travelMinutes = Math.round(leg.durationSeconds / 60);
+
+  const event: SchedulerEvent = {
+    id: `${prefix}-${visit.id}-manual`,
+    resourceId,
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(end).toISOString(),
+    name: visit.name || visit.id,
+    eventType: "visit",
+    status: target,
+    visitId: visit.id,
+    address: getVisitAddress(visit.location),
+    travelTime: travelMinutes,
+    travelDistance: Math.round(leg.distanceMeters),
+    shiftId: span.shift.id,
+    priority: getPriorityLevel(visit.priority),
+    ...(requiredSkills.length > 0 ? { requiredSkills } : {}),
+    ...(skillMismatch.length > 0 ? { skillMismatch } : {}),
+    isAdjusted: true,
+  };
+
+  const changes: EditChange[] = [
+    ...buildLegEvents(prefix, event, previous ? toTime(previous.endDate) : start - travelMinutes * 60000, start, travelMinutes, leg.distanceMeters)
+      .map((after): EditChange => ({ target, before: null, after })),
+    { target, before: null, after: event },
+  ];
+
+  // The next visit is now reached from this one
+  if (next) {
+    const relinked = rebuildIncomingLeg(modelInput, [...schedule.events, event], target, next);
+    changes.push(...relinked.changes, { target, before: next, after: relinked.event });
+  }
+
+  return { event, changes };
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function toTime(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+/**
+ * A shift's visits and required breaks in the schedule (shift blocks,
+ * travel and waiting left out)
+ */
+function getBusyEvents(schedule: SchedulerData, span: ShiftSpan): SchedulerEvent[] {
+  return schedule.events.filter((event) =>
+    event.resourceId === span.vehicle.id &&
+    (event.eventType === "visit" || !!event.breakId) &&
+    toTime(event.startDate) < span.end.getTime() &&
+    toTime(event.endDate) > span.start.getTime()
+  );
+}
@@ -0,0 +1,347 @@
+/**
+ * Model Input Validation
+ *
+ * Checks a TimefoldModelInput locally before it is submitted, so bad input
+ * is reported per entity up front instead of as a DATASET_INVALID status
+ * after a solver round trip.
+ *
+ * Errors are problems Timefold would reject or that make the input
+ * meaningless; warnings are problems it accepts but that leave visits
+ * unassignable.
+ *
+ * Pure functions - safe to import on both server and client.
+ */
+
+import type {
+  Location,
+  RequiredBreak,
+  Shift,
+  TimefoldModelInput,
+  ValidationFinding,
+  Vehicle,
+  Visit,
+} from "./types";
+import { normalizePriority } from "./priority";
+import { getShiftSkills, hasRequiredSkills, normalizeRequiredSkills } from "./skills";
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+/**
+ * Validates a model input and returns every finding, errors first
+ */
+export function validateModelInput(modelInput: TimefoldModelInput): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  const vehicles = modelInput.vehicles ?? [];
+  const visits = modelInput.visits ?? [];
+
+  if (vehicles.length === 0) {
+    findings.push({ severity: "error", code: "MISSING_ENTITIES", entityType: "model", message: "The model input has no vehicles." });
+  }
+  if (visits.length === 0) {
+    findings.push({ severity: "error", code: "MISSING_ENTITIES", entityType: "model", message: "The model input has no visits." });
+  }
+
+  findDuplicates(vehicles.map((vehicle) => vehicle.id)).forEach((id) => {
+    findings.push({ severity: "error", code: "DUPLICATE_ID", entityType: "vehicle", entityId: id, field: "id", message: `Vehicle ID "${id}" is used more than once.` });
+  });
+  findDuplicates(visits.map((visit) => visit.id)).forEach((id) => {
+    findings.push({ severity: "error", code: "DUPLICATE_ID", entityType: "visit", entityId: id, field: "id", message: `Visit ID "${id}" is used more than once.` });
+  });
+
+  vehicles.forEach((vehicle) => findings.push(...validateVehicle(vehicle)));
+  visits.forEach((visit) => findings.push(...validateVisit(visit)));
+  findings.push(...validateSkillCoverage(vehicles, visits));
+
+  return findings.sort((a, b) => severityRank(a) - severityRank(b));
+}
+
+/**
+ * Whether any finding blocks submission
+ */
+export function hasBlockingFindings(findings: ValidationFinding[]): boolean {
+  return findings.some((finding) => finding.severity === "error");
+}
+
+/**
+ * Converts Timefold's DATASET_INVALID messages into findings, picking up
+ * the entity from messages like "Visit (visit-3) has ..."
+ */
+export function findingsFromSolverErrors(validationErrors: string[] = []): ValidationFinding[] {
+  return validationErrors.map((message) => {
+    const match = message.match(/\b(Visit|Vehicle|Shift)\s*\(([^)]+)\)/i);
+    const entityType = match ? (match[1].toLowerCase() as "visit" | "vehicle" | "shift") : "model";
+    return {
+      severity: "error",
+      code: "SOLVER_VALIDATION",
+      entityType,
+      entityId: match?.[2],
+      message,
+    };
+  });
+}
+
+/**
+ * Error message for a DATASET_INVALID route plan, counting all errors
+ */
+export function describeDatasetInvalid(validationErrors: string[] = []): string {
+  if (validationErrors.length === 0) {
+    return "Dataset is invalid. The locations may be outside the supported map coverage.";
+  }
+  const more = validationErrors.length - 1;
+  return `Dataset validation failed: ${validationErrors[0]}${more > 0 ? ` (and ${more} more error${more === 1 ? "" : "s"})` : ""}`;
+}
+
+// ============================================================
+// ENTITY CHECKS
+// ============================================================
+
+function validateVehicle(vehicle: Vehicle): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+
+  if (!vehicle.shifts?.length) {
+    findings.push({ severity: "error", code: "MISSING_ENTITIES", entityType: "vehicle", entityId: vehicle.id, field: "shifts", message: `Vehicle "${vehicle.id}" has no shifts.` });
+    return findings;
+  }
+
+  findDuplicates(vehicle.shifts.map((shift) => shift.id)).forEach((id) => {
+    findings.push({ severity: "error", code: "DUPLICATE_ID", entityType: "shift", entityId: id, vehicleId: vehicle.id, field: "id", message: `Shift ID "${id}" is used more than once on vehicle "${vehicle.id}".` });
+  });
+
+  vehicle.shifts.forEach((shift) => findings.push(...validateShift(vehicle, shift)));
+  return findings;
+}
+
+function validateShift(vehicle: Vehicle, shift: Shift): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  const base = { entityType: "shift" as const, entityId: shift.id, vehicleId: vehicle.id };
+
+  const startText = shift.minStartTime ?? shift.startTime;
+  const endText = shift.maxEndTime ?? shift.endTime;
+  const start = parseDateTime(startText);
+  const end = parseDateTime(endText);
+
+  if (start === null) {
+    findings.push({ ...base, severity: "error", code: "INVALID_DATETIME", field: "minStartTime", message: `Shift "${shift.id}" has ${startText ? `an invalid start time "${startText}"` : "no start time"}.` });
+  }
+  if (end === null) {
+    findings.push({ ...base, severity: "error", code: "INVALID_DATETIME", field: "maxEndTime", message: `Shift "${shift.id}" has ${endText ? `an invalid end time "${endText}"` : "no end time"}.` });
+  }
+  if (start !== null && end !== null && end <= start) {
+    findings.push({ ...base, severity: "error", code: "INVERTED_SHIFT", field: "maxEndTime", message: `Shift "${shift.id}" ends (${endText}) before it starts (${startText}).` });
+  }
+
+  if (!shift.startLocation) {
+    findings.push({ ...base, severity: "error", code: "INVALID_COORDINATES", field: "startLocation", message: `Shift "${shift.id}" has no start location.` });
+  } else if (!isValidLocation(shift.startLocation)) {
+    findings.push({ ...base, severity: "error", code: "INVALID_COORDINATES", field: "startLocation", message: `Shift "${shift.id}" has invalid start coordinates ${describeLocation(shift.startLocation)}.` });
+  }
+  if (shift.endLocation && !isValidLocation(shift.endLocation)) {
+    findings.push({ ...base, severity: "error", code: "INVALID_COORDINATES", field: "endLocation", message: `Shift "${shift.id}" has invalid end coordinates ${describeLocation(shift.endLocation)}.` });
+  }
+
+  findDuplicates((shift.requiredBreaks ?? []).map((requiredBreak) => requiredBreak.id)).forEach((id) => {
+    findings.push({ ...base, severity: "error", code: "DUPLICATE_ID", field: "requiredBreaks", message: `Break ID "${id}" is used more than once in shift "${shift.id}".` });
+  });
+  (shift.requiredBreaks ?? []).forEach((requiredBreak, index) => {
+    const message = validateBreak(requiredBreak, start, end);
+    if (message) {
+      findings.push({ ...base, severity: "error", code: "INVALID_BREAK", field: `requiredBreaks[${index}]`, message: `Shift "${shift.id}" break "${requiredBreak.id}" ${message}.` });
+    }
+  });
+
+  return findings;
+}
+
+/**
+ * What is wrong with a required break, or null if it can be taken within
+ * the shift (shift bounds are only checked when they are valid)
+ */
+function validateBreak(requiredBreak: RequiredBreak, shiftStart: number | null, shiftEnd: number | null): string | null {
+  let earliestStart: number;
+  let latestEnd: number;
+  let durationMinutes: number;
+
+  if (requiredBreak.type === "FIXED") {
+    const start = parseDateTime(requiredBreak.startTime);
+    const end = parseDateTime(requiredBreak.endTime);
+    if (start === null || end === null) return "needs a valid startTime and endTime";
+    if (end <= start) return "ends before it starts";
+    earliestStart = start;
+    latestEnd = end;
+    durationMinutes = (end - start) / 60000;
+  } else if (requiredBreak.type === "FLOATING") {
+    const start = parseDateTime(requiredBreak.minStartTime);
+    const end = parseDateTime(requiredBreak.maxEndTime);
+    const duration = parseIsoDurationMinutes(requiredBreak.duration);
+    if (start === null || end === null) return "needs a valid minStartTime and maxEndTime";
+    if (duration === null || duration <= 0) return `has an invalid duration "${requiredBreak.duration ?? ""}"`;
+    if (start + duration * 60000 > end) return `is longer (${requiredBreak.duration}) than its window`;
+    earliestStart = start;
+    latestEnd = end;
+    durationMinutes = duration;
+  } else {
+    return `has an unknown type "${String((requiredBreak as { type?: unknown }).type)}" (expected FIXED or FLOATING)`;
+  }
+
+  if (requiredBreak.location && !isValidLocation(requiredBreak.location)) {
+    return `has invalid coordinates ${describeLocation(requiredBreak.location)}`;
+  }
+  if (shiftStart === null || shiftEnd === null || shiftEnd <= shiftStart) return null;
+  const fitsStart = Math.max(earliestStart, shiftStart);
+  const fitsEnd = Math.min(latestEnd, shiftEnd);
+  return fitsStart + durationMinutes * 60000 > fitsEnd ? "falls outside the shift" : null;
+}
+
+function validateVisit(visit: Visit): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  const base = { entityType: "visit" as const, entityId: visit.id };
+
+  if (!isValidLocation(visit.location)) {
+    findings.push({ ...base, severity: "error", code: "INVALID_COORDINATES", field: "location", message: `Visit "${visit.id}" has invalid coordinates ${describeLocation(visit.location)}.` });
+  }
+
+  const durationMinutes = parseIsoDurationMinutes(visit.serviceDuration);
+  if (durationMinutes === null) {
+    findings.push({ ...base, severity: "error", code: "INVALID_DURATION", field: "serviceDuration", message: `Visit "${visit.id}" has an invalid service duration "${visit.serviceDuration ?? ""}" (expected ISO 8601, e.g. PT30M).` });
+  } else if (durationMinutes === 0) {
+    findings.push({ ...base, severity: "warning", code: "INVALID_DURATION", field: "serviceDuration", message: `Visit "${visit.id}" has a service duration of zero.` });
+  }
+
+  if (visit.priority !== undefined && !normalizePriority(visit.priority)) {
+    findings.push({ ...base, severity: "warning", code: "INVALID_PRIORITY", field: "priority", message: `Visit "${visit.id}" has an invalid priority "${visit.priority}" (expected 1-10 or high/medium/low); the default is used.` });
+  }
+
+  // Parse every window first so overlaps are only checked between valid ones
+  const windows: Array<{ index: number; start: number; end: number }> = [];
+  (visit.timeWindows ?? []).forEach((window, index) => {
+    const field = `timeWindows[${index}]`;
+    const startText = window.minStartTime ?? window.startTime;
+    const endText = window.maxEndTime ?? window.endTime;
+    const start = startText ? parseDateTime(startText) : undefined;
+    const end = endText ? parseDateTime(endText) : undefined;
+    const latestStart = window.maxStartTime ? parseDateTime(window.maxStartTime) : undefined;
+
+    const invalid = [
+      start === null && startText,
+      end === null && endText,
+      latestStart === null && window.maxStartTime,
+    ].filter(Boolean);
+    if (invalid.length > 0) {
+      findings.push({ ...base, severity: "error", code: "INVALID_DATETIME", field, message: `Visit "${visit.id}" has an invalid time in window ${index + 1}: "${invalid[0]}".` });
+      return;
+    }
+
+    if (start != null && end != null && end <= start) {
+      findings.push({ ...base, severity: "error", code: "INVERTED_TIME_WINDOW", field, message: `Visit "${visit.id}" time window ${index + 1} ends (${endText}) before it starts (${startText}).` });
+      return;
+    }
+    if (latestStart != null && ((start != null && latestStart < start) || (end != null && latestStart > end))) {
+      findings.push({ ...base, severity: "error", code: "INVERTED_TIME_WINDOW", field, message: `Visit "${visit.id}" time window ${index + 1} has a latest start (${window.maxStartTime}) outside the window.` });
+      return;
+    }
+
+    windows.push({ index, start: start ?? -Infinity, end: end ?? Infinity });
+  });
+
+  windows.sort((a, b) => a.start - b.start);
+  for (let i = 1; i < windows.length; i++) {
+    if (windows[i].start < windows[i - 1].end) {
+      findings.push({ ...base, severity: "error", code: "OVERLAPPING_TIME_WINDOWS", field: `timeWindows[${windows[i].index}]`, message: `Visit "${visit.id}" time windows ${windows[i - 1].index + 1} and ${windows[i].index + 1} overlap.` });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Flags visits whose required skills no single shift covers; such visits
+ * can never be assigned
+ */
+function validateSkillCoverage(vehicles: Vehicle[], visits: Visit[]): ValidationFinding[] {
+  const shiftSkills = vehicles.flatMap((vehicle) =>
+    (vehicle.shifts ?? []).map((shift) => getShiftSkills(vehicle, shift))
+  );
+  const knownSkills = new Set(shiftSkills.flat().map((skill) => skill.name));
+
+  const findings: ValidationFinding[] = [];
+  visits.forEach((visit) => {
+    const required = normalizeRequiredSkills(visit.requiredSkills);
+    if (required.length === 0) return;
+    if (shiftSkills.some((skills) => hasRequiredSkills(skills, required))) return;
+
+    const unknown = required.filter((skill) => !knownSkills.has(skill.name)).map((skill) => skill.name);
+    findings.push({
+      severity: "warning",
+      code: "UNSATISFIABLE_SKILLS",
+      entityType: "visit",
+      entityId: visit.id,
+      field: "requiredSkills",
+      message: unknown.length > 0
+        ? `Visit "${visit.id}" requires ${unknown.map((name) => `"${name}"`).join(", ")}, which no vehicle has.`
+        : `Visit "${visit.id}" requires ${required.map((skill) => `"${skill.name}"`).join(", ")}, but no single shift has all of them at the required level.`,
+    });
+  });
+
+  return findings;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function isValidLocation(location: Location | number[] | undefined): boolean {
+  if (!location) return false;
+  const [latitude, longitude] = Array.isArray(location)
+    ? location
+    : [location.latitude, location.longitude];
+  if (Array.isArray(location) && location.length !== 2) return false;
+  return (
+    typeof latitude === "number" && typeof longitude === "number" &&
+    isFinite(latitude) && isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+  );
+}
+
+function describeLocation(location: Location | number[] | undefined): string {
+  if (!location) return "(missing)";
+  return Array.isArray(location)
+    ? `[${location.join(", ")}]`
+    : `(${location.latitude}, ${location.longitude})`;
+}
+
+/**
+ * Minutes of an ISO 8601 duration (days and time parts), null if malformed
+ */
+function parseIsoDurationMinutes(duration: string | undefined): number | null {
+  const match = duration?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match || duration === "P" || duration?.endsWith("T")) return null;
+  const [, days, hours, minutes, seconds] = match;
+  return (
+    parseInt(days || "0", 10) * 1440 +
+    parseInt(hours || "0", 10) * 60 +
+    parseInt(minutes || "0", 10) +
+    parseFloat(seconds || "0") / 60
+  );
+}
+
+/**
+ * Epoch millis of an ISO datetime, null if missing or unparseable
+ */
+function parseDateTime(value: string | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+}
+
+function findDuplicates(ids: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  ids.forEach((id) => (seen.has(id) ? duplicates.add(id) : seen.add(id)));
+  return Array.from(duplicates);
+}
+
+function severityRank(finding: ValidationFinding): number {
+  return finding.severity === "error" ? 0 : 1;
+}
@@ -0,0 +1,73 @@
+/**
+ * Downloads map tiles for the demo areas (Atlanta and Stockholm) into the
+ * local tile directory served by /api/map-tiles, so the route map has a
+ * background offline. Run once while online: `npm run tiles:fetch`.
+ *
+ * Options (environment):
+ *   MAP_TILE_DIR      target directory (default data/tiles)
+ *   MAP_TILE_SOURCE   XYZ URL template (default OpenStreetMap)
+ *   MAP_TILE_ZOOMS    zoom range, e.g. "9-13" (default)
+ *
+ * Existing tiles are kept. Mind the tile server's usage policy before
+ * raising the zoom range.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+const AREAS = [
+  { name: "Atlanta", south: 33.5, west: -84.65, north: 34.0, east: -84.1 },
+  { name: "Stockholm", south: 59.2, west: 17.8, north: 59.45, east: 18.3 },
+];
+
+const tileDir = process.env.MAP_TILE_DIR || path.join(process.cwd(), "data", "tiles");
+const source = process.env.MAP_TILE_SOURCE || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const [minZoom, maxZoom] = (process.env.MAP_TILE_ZOOMS || "9-13").split("-").map(Number);
+
+function tileX(longitude, zoom) {
+  return Math.floor(((longitude + 180) / 360) * 2 ** zoom);
+}
+
+function tileY(latitude, zoom) {
+  const rad = (latitude * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+async function exists(file) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let fetched = 0;
+let skipped = 0;
+
+for (const area of AREAS) {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    for (let x = tileX(area.west, z); x <= tileX(area.east, z); x++) {
+      for (let y = tileY(area.north, z); y <= tileY(area.south, z); y++) {
+        const file = path.join(tileDir, String(z), String(x), `${y}.png`);
+        if (await exists(file)) {
+          skipped++;
+          continue;
+        }
+        const url = source.replace("{z}", z).replace("{x}", x).replace("{y}", y);
+        const response = await fetch(url, { headers: { "User-Agent": "caire-scheduling tile fetch" } });
+        if (!response.ok) {
+          console.error(`Failed to fetch ${url}: ${response.status}`);
+          process.exitCode = 1;
+          continue;
+        }
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, Buffer.from(await response.arrayBuffer()));
+        fetched++;
+      }
+    }
+    console.log(`${area.name}: zoom ${z} done`);
+  }
+}
+
+console.log(`Fetched ${fetched} tiles, kept ${skipped} existing tiles in ${tileDir}`);